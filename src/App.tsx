@@ -5,11 +5,17 @@ import { SignupPage } from './components/signup-page';
 import { ForgotPasswordPage } from './components/forgot-password-page';
 import { OTPVerificationPage } from './components/otp-verification-page';
 import { ChangePasswordPage } from './components/change-password-page';
+import { TwoFactorPage } from './components/two-factor-page';
+import { AcceptInvitePage } from './components/accept-invite-page';
 import { DashboardPage } from './components/dashboard-page';
 import { ProfilePage } from './components/profile-page';
 import { StaffManagementPage } from './components/staff-management-page';
-import { AddStaffPage } from './components/add-staff-page';
+import { ArchivedPage } from './components/archived-page';
 import { ActivityPage } from './components/activity-page';
+import { EmailOutboxPage } from './components/email-outbox-page';
+import { ExchangeRatesPage } from './components/exchange-rates-page';
+import { EmailTemplatesPage } from './components/email-templates-page';
+import { ApprovalsPage } from './components/approvals-page';
 import { FixPermissionsPage } from './components/fix-permissions-page';
 import { PermissionFixPage } from './components/permission-fix-page';
 
@@ -21,9 +27,11 @@ import { Toaster } from './components/ui/sonner';
 import { Loader2 } from 'lucide-react';
 
 function AppContent() {
-  const { currentPage, isAuthenticated, canAccessStaffManagement, canAccessDashboard, isAdmin, setCurrentPage, isLoading } = useAdmin();
+  const { currentPage, isAuthenticated, canAccessStaffManagement, canAccessDashboard, canApproveDeposits, isAdmin, setCurrentPage, isLoading } = useAdmin();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [showFixPage, setShowFixPage] = useState(false);
+  // Token from an invitation link (?invite=...), shown instead of everything else until handled
+  const [inviteToken, setInviteToken] = useState(() => new URLSearchParams(window.location.search).get('invite'));
 
   // Check URL for ?fix-permissions query parameter
   useEffect(() => {
@@ -45,6 +53,18 @@ function AppContent() {
     return <FixPermissionsPage />;
   }
 
+  if (inviteToken) {
+    return (
+      <AcceptInvitePage
+        token={inviteToken}
+        onDone={() => {
+          window.history.replaceState(null, '', window.location.pathname);
+          setInviteToken(null);
+        }}
+      />
+    );
+  }
+
   // Show permission fix page (special case - needs auth but no permissions)
   if (currentPage === 'permission-fix' as any) {
     return <PermissionFixPage />;
@@ -98,6 +118,8 @@ function AppContent() {
         return <OTPVerificationPage />;
       case 'change-password':
         return <ChangePasswordPage />;
+      case 'two-factor':
+        return <TwoFactorPage />;
       case 'signup':
         // Signup is disabled - redirect to login (handled by useEffect)
         return <LoginPage />;
@@ -132,6 +154,24 @@ function AppContent() {
             )
           )}
           {currentPage === 'deposits' && <EnhancedDepositsNew />}
+          {currentPage === 'approvals' && (
+            canApproveDeposits() ? (
+              <ApprovalsPage />
+            ) : (
+              <div className="p-6">
+                <div className="text-center py-12">
+                  <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+                  <p className="text-gray-600 mb-4">You don't have permission to review deposit entries.</p>
+                  <button 
+                    onClick={() => setCurrentPage('deposits')}
+                    className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white px-4 py-2 rounded-lg"
+                  >
+                    Go to Deposits
+                  </button>
+                </div>
+              </div>
+            )
+          )}
           {currentPage === 'bank-deposits' && <EnhancedBankDeposits />}
           {currentPage === 'profile' && <ProfilePage />}
           {currentPage === 'staff-management' && (
@@ -152,14 +192,14 @@ function AppContent() {
               </div>
             )
           )}
-          {currentPage === 'add-staff' && (
+          {currentPage === 'archived-staff' && (
             canAccessStaffManagement() ? (
-              <AddStaffPage />
+              <ArchivedPage />
             ) : (
               <div className="p-6">
                 <div className="text-center py-12">
                   <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
-                  <p className="text-gray-600 mb-4">You don't have permission to add staff members.</p>
+                  <p className="text-gray-600 mb-4">You don't have permission to access Staff Management.</p>
                   <button 
                     onClick={() => setCurrentPage('dashboard')}
                     className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white px-4 py-2 rounded-lg"
@@ -188,6 +228,60 @@ function AppContent() {
               </div>
             )
           )}
+          {currentPage === 'email-outbox' && (
+            isAdmin() ? (
+              <EmailOutboxPage />
+            ) : (
+              <div className="p-6">
+                <div className="text-center py-12">
+                  <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+                  <p className="text-gray-600 mb-4">You don't have permission to view the Email Outbox.</p>
+                  <button 
+                    onClick={() => setCurrentPage('deposits')}
+                    className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white px-4 py-2 rounded-lg"
+                  >
+                    Go to Deposits
+                  </button>
+                </div>
+              </div>
+            )
+          )}
+          {currentPage === 'email-templates' && (
+            isAdmin() ? (
+              <EmailTemplatesPage />
+            ) : (
+              <div className="p-6">
+                <div className="text-center py-12">
+                  <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+                  <p className="text-gray-600 mb-4">You don't have permission to manage email templates.</p>
+                  <button 
+                    onClick={() => setCurrentPage('deposits')}
+                    className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white px-4 py-2 rounded-lg"
+                  >
+                    Go to Deposits
+                  </button>
+                </div>
+              </div>
+            )
+          )}
+          {currentPage === 'exchange-rates' && (
+            isAdmin() ? (
+              <ExchangeRatesPage />
+            ) : (
+              <div className="p-6">
+                <div className="text-center py-12">
+                  <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+                  <p className="text-gray-600 mb-4">You don't have permission to manage exchange rates.</p>
+                  <button 
+                    onClick={() => setCurrentPage('deposits')}
+                    className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white px-4 py-2 rounded-lg"
+                  >
+                    Go to Deposits
+                  </button>
+                </div>
+              </div>
+            )
+          )}
         </main>
       </div>
     </div>
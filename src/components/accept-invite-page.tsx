@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Eye, EyeOff, Loader2, MailX } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { useAdmin, supabase } from './admin-context-new';
+import { TwoFactorSetup } from './two-factor-setup';
+import { PasswordRequirements, meetsPasswordPolicy, usePasswordPolicy } from './password-requirements';
+import * as api from '../utils/api';
+import type { InvitationPreview } from '../supabase/functions/server/contract';
+import Group1 from '../imports/Group1-47-1099';
+
+type Step = 'loading' | 'invalid' | 'password' | 'two-factor';
+
+interface AcceptInvitePageProps {
+  token: string;
+  // Drops the token from the address bar; the app then continues with the new session
+  onDone: () => void;
+}
+
+// Opened from the invitation email (`?invite=<token>`): the invitee chooses their password, is signed in,
+// and can set up two-factor authentication right away
+export function AcceptInvitePage({ token, onDone }: AcceptInvitePageProps) {
+  const { completeTwoFactor } = useAdmin();
+  const policy = usePasswordPolicy();
+  const [step, setStep] = useState<Step>('loading');
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [setUpTwoFactor, setSetUpTwoFactor] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    api.lookupInvitation(token)
+      .then((data) => {
+        setInvitation(data.invitation);
+        setStep('password');
+      })
+      .catch((err: any) => {
+        setError(err.message || 'This invitation link is no longer valid.');
+        setStep('invalid');
+      });
+  }, [token]);
+
+  // Signing in goes through the regular session check, which also asks for 2FA when the role requires it
+  const finish = async () => {
+    onDone();
+    await completeTwoFactor();
+  };
+
+  const handleAccept = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    if (!meetsPasswordPolicy(password, policy)) {
+      setError('Password does not meet the requirements');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { email } = await api.acceptInvitation(token, password);
+
+      const signedIn = await api.login(email, password)
+        .then(({ session }) => supabase.auth.setSession(session))
+        .catch(() => null);
+      if (!signedIn?.data.session) {
+        toast.success('Your account is ready. Please log in.');
+        onDone();
+        return;
+      }
+      api.setAuthToken(signedIn.data.session.access_token);
+
+      if (setUpTwoFactor) {
+        setStep('two-factor');
+      } else {
+        await finish();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to accept invitation');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#6a40ec] to-[#8b5cf6] flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card className="backdrop-blur-md bg-white/95 shadow-2xl border-0">
+          <CardHeader className="text-center pb-6">
+            <div className="flex justify-center mb-4">
+              <div className="w-56 h-16 flex items-center justify-center">
+                <Group1 />
+              </div>
+            </div>
+            <CardTitle className="text-2xl text-gray-800">
+              {step === 'two-factor' ? 'Set Up Two-Factor Authentication' : 'Accept Invitation'}
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              {step === 'password' && invitation
+                ? `${invitation.invitedByName} invited you to join as ${invitation.role}`
+                : step === 'two-factor'
+                  ? 'Protect your account with an authenticator app'
+                  : 'Join the admin panel'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {step === 'loading' && (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-8 h-8 text-[#6a40ec] animate-spin" />
+              </div>
+            )}
+
+            {step === 'invalid' && (
+              <div className="text-center space-y-4">
+                <div className="w-16 h-16 bg-red-50 rounded-full flex items-center justify-center mx-auto">
+                  <MailX className="w-8 h-8 text-red-500" />
+                </div>
+                <p className="text-sm text-gray-600">{error}</p>
+                <Button variant="outline" className="w-full" onClick={onDone}>
+                  Go to Login
+                </Button>
+              </div>
+            )}
+
+            {step === 'password' && invitation && (
+              <form onSubmit={handleAccept} className="space-y-4">
+                <div className="bg-gray-50 border rounded-lg p-3 text-sm space-y-1">
+                  <p><span className="text-gray-500">Name:</span> {invitation.name}</p>
+                  <p><span className="text-gray-500">Email:</span> {invitation.email}</p>
+                  <p className="text-xs text-gray-500">
+                    Link valid until {format(new Date(invitation.expiresAt), 'MMM dd, yyyy HH:mm')}
+                  </p>
+                </div>
+                <div>
+                  <Label htmlFor="password" className="mb-2 block">Choose a Password</Label>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type={showPassword ? 'text' : 'password'}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="Choose a password"
+                      autoComplete="new-password"
+                      required
+                      className="pr-10"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500"
+                    >
+                      {showPassword ? <EyeOff size={20} /> : <Eye size={20} />}
+                    </button>
+                  </div>
+                  <div className="space-y-1 mt-2">
+                    <PasswordRequirements password={password} policy={policy} showHistory={false} />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="confirm-password" className="mb-2 block">Confirm Password</Label>
+                  <Input
+                    id="confirm-password"
+                    type={showPassword ? 'text' : 'password'}
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    placeholder="Repeat your password"
+                    autoComplete="new-password"
+                    required
+                  />
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="set-up-2fa"
+                    checked={setUpTwoFactor}
+                    onCheckedChange={(checked) => setSetUpTwoFactor(checked === true)}
+                  />
+                  <Label htmlFor="set-up-2fa" className="text-sm font-normal text-gray-700">
+                    Set up two-factor authentication now
+                  </Label>
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full bg-[#6a40ec] hover:bg-[#5a2fd9] text-white"
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Creating Account...
+                    </>
+                  ) : (
+                    'Create Account'
+                  )}
+                </Button>
+
+                {error && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-3 mt-2">
+                    <p className="text-red-600 text-sm font-medium">{error}</p>
+                  </div>
+                )}
+              </form>
+            )}
+
+            {step === 'two-factor' && (
+              <div className="space-y-4">
+                <TwoFactorSetup onComplete={finish} />
+                <Button variant="ghost" className="w-full text-gray-600" onClick={finish}>
+                  Skip for now
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { Archive, CheckCircle2, Download, Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import * as api from '../utils/api';
+import type { ActivityArchiveSummary, ActivityChainVerification } from '../supabase/functions/server/contract';
+
+// Super Admin only: verify the hash-chained activity log, set how long entries stay in the live log and
+// download the archives older entries were moved into
+export function ActivityLogIntegrityDialog() {
+  const [open, setOpen] = useState(false);
+  const [verification, setVerification] = useState<ActivityChainVerification | null>(null);
+  const [retentionDays, setRetentionDays] = useState('');
+  const [archives, setArchives] = useState<ActivityArchiveSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const loadSettings = async () => {
+    setIsLoading(true);
+    try {
+      const [retentionData, archivesData] = await Promise.all([api.getActivityRetention(), api.getActivityArchives()]);
+      setRetentionDays(String(retentionData.retention.days));
+      setArchives(archivesData.archives);
+    } catch (error: any) {
+      console.error('Load activity log settings error:', error);
+      toast.error(error.message || 'Failed to load activity log settings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setVerification(null);
+      loadSettings();
+    }
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      const data = await api.verifyActivityLog();
+      setVerification(data.verification);
+    } catch (error: any) {
+      console.error('Verify activity log error:', error);
+      toast.error(error.message || 'Failed to verify activity log');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleSaveRetention = async () => {
+    setIsSaving(true);
+    try {
+      const data = await api.updateActivityRetention(Number(retentionDays));
+      setRetentionDays(String(data.retention.days));
+      toast.success('Retention period updated');
+    } catch (error: any) {
+      console.error('Update activity retention error:', error);
+      toast.error(error.message || 'Failed to update retention period');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleArchiveNow = async () => {
+    setIsArchiving(true);
+    try {
+      const data = await api.archiveActivities();
+      toast.success(data.archivedCount > 0 ? `Archived ${data.archivedCount} entries` : 'No entries are past the retention period');
+      if (data.archivedCount > 0) {
+        await loadSettings();
+      }
+    } catch (error: any) {
+      console.error('Archive activities error:', error);
+      toast.error(error.message || 'Failed to archive activity log');
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  // One JSON object per line, hashes included, so the file can be checked against the chain later
+  const handleDownload = async (archive: ActivityArchiveSummary) => {
+    setDownloadingId(archive.id);
+    try {
+      const data = await api.getActivityArchive(archive.id);
+      const lines = data.archive.entries.map((entry) => JSON.stringify(entry)).join('\n');
+      const url = URL.createObjectURL(new Blob([`${lines}\n`], { type: 'application/x-ndjson' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `activity-log-${archive.fromSeq}-${archive.toSeq}.jsonl`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Download archive error:', error);
+      toast.error(error.message || 'Failed to download archive');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="border-[#6a40ec] text-[#6a40ec] hover:bg-[#6a40ec] hover:text-white">
+          <ShieldCheck className="w-4 h-4 mr-2" />
+          Integrity &amp; Retention
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Activity Log Integrity</DialogTitle>
+          <DialogDescription>
+            Entries can't be edited or deleted. Each one is chained to the one before it, so any change to the
+            stored log shows up here.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 text-[#6a40ec] animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6 max-h-[60vh] overflow-y-auto">
+            <div className="space-y-3">
+              <Button
+                className="w-full bg-[#6a40ec] hover:bg-[#5a2fd9] text-white"
+                onClick={handleVerify}
+                disabled={isVerifying}
+              >
+                {isVerifying ? 'Verifying...' : 'Verify Log'}
+              </Button>
+
+              {verification && (
+                verification.valid ? (
+                  <div className="flex items-start gap-2 rounded-lg border border-green-200 bg-green-50 p-3 text-sm text-green-800">
+                    <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>
+                      All {verification.checked} entries are intact ({verification.archived} archived), checked{' '}
+                      {format(new Date(verification.verifiedAt), 'MMM dd, yyyy HH:mm')}.
+                    </span>
+                  </div>
+                ) : (
+                  <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800 space-y-2">
+                    <div className="flex items-center gap-2 font-medium">
+                      <ShieldAlert className="w-4 h-4" />
+                      {verification.issues.length} problem{verification.issues.length !== 1 ? 's' : ''} found
+                    </div>
+                    <ul className="list-disc pl-5 space-y-1">
+                      {verification.issues.slice(0, 20).map((issue, index) => (
+                        <li key={index}>{issue.message}</li>
+                      ))}
+                    </ul>
+                    {verification.issues.length > 20 && (
+                      <p className="text-xs">…and {verification.issues.length - 20} more</p>
+                    )}
+                  </div>
+                )
+              )}
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <Label htmlFor="activity-retention">Keep entries in the live log for (days)</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="activity-retention"
+                  type="number"
+                  min={30}
+                  max={3650}
+                  value={retentionDays}
+                  onChange={(e) => setRetentionDays(e.target.value)}
+                />
+                <Button variant="outline" onClick={handleSaveRetention} disabled={isSaving || !retentionDays}>
+                  {isSaving ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">
+                Older entries are moved into archives automatically. Archives keep their hashes and are still
+                covered by verification.
+              </p>
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <div className="flex items-center justify-between">
+                <Label>Archives</Label>
+                <Button variant="ghost" size="sm" onClick={handleArchiveNow} disabled={isArchiving} className="text-[#6a40ec]">
+                  <Archive className="w-4 h-4 mr-1" />
+                  {isArchiving ? 'Archiving...' : 'Archive Now'}
+                </Button>
+              </div>
+              {archives.length === 0 ? (
+                <p className="text-sm text-gray-500">No entries have been archived yet.</p>
+              ) : (
+                archives.map((archive) => (
+                  <div key={archive.id} className="flex items-center justify-between border rounded-lg px-3 py-2 text-sm">
+                    <div>
+                      <div className="font-medium">
+                        {format(new Date(archive.from), 'MMM dd, yyyy')} – {format(new Date(archive.to), 'MMM dd, yyyy')}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {archive.count} entries (#{archive.fromSeq}–#{archive.toSeq})
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDownload(archive)}
+                      disabled={downloadingId === archive.id}
+                    >
+                      {downloadingId === archive.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
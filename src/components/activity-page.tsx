@@ -21,11 +21,29 @@ import {
   Building2,
   DollarSign,
   FileText,
-  TrendingUp
+  ShieldCheck,
+  ShieldOff,
+  TrendingUp,
+  Mail,
+  Archive,
+  Download,
+  Upload,
+  Undo2,
+  Send,
+  CheckCircle2,
+  XCircle,
+  RotateCcw,
+  KeyRound,
+  Lock,
+  LockOpen,
+  ShieldAlert,
+  ArrowLeftRight
 } from 'lucide-react';
 import { useAdmin, type ActivityLog, type ActivityType } from './admin-context-new';
 import { TablePagination } from './table-pagination';
 import { format } from 'date-fns';
+import { ActivityLogIntegrityDialog } from './activity-log-integrity-dialog';
+import { ExportMenu } from './export-menu';
 
 const getActivityIcon = (type: ActivityType) => {
   switch (type) {
@@ -40,7 +58,19 @@ const getActivityIcon = (type: ActivityType) => {
     case 'edit_staff':
       return <Edit className="w-4 h-4" />;
     case 'delete_staff':
+    case 'purge_staff':
       return <Trash2 className="w-4 h-4" />;
+    case 'archive_staff':
+      return <Archive className="w-4 h-4" />;
+    case 'restore_staff':
+      return <RotateCcw className="w-4 h-4" />;
+    case 'invite_staff':
+    case 'resend_invite':
+      return <Mail className="w-4 h-4" />;
+    case 'revoke_invite':
+      return <XCircle className="w-4 h-4" />;
+    case 'accept_invite':
+      return <UserPlus className="w-4 h-4" />;
     case 'add_bank':
       return <Building2 className="w-4 h-4" />;
     case 'edit_bank':
@@ -53,6 +83,12 @@ const getActivityIcon = (type: ActivityType) => {
       return <Edit className="w-4 h-4" />;
     case 'delete_deposit':
       return <Trash2 className="w-4 h-4" />;
+    case 'submit_deposit':
+      return <Send className="w-4 h-4" />;
+    case 'approve_deposit':
+      return <CheckCircle2 className="w-4 h-4" />;
+    case 'reject_deposit':
+      return <XCircle className="w-4 h-4" />;
     case 'add_bank_deposit':
       return <Building2 className="w-4 h-4" />;
     case 'edit_bank_deposit':
@@ -65,6 +101,39 @@ const getActivityIcon = (type: ActivityType) => {
       return <Edit className="w-4 h-4" />;
     case 'delete_bank_transaction':
       return <Trash2 className="w-4 h-4" />;
+    case 'resend_email':
+      return <Mail className="w-4 h-4" />;
+    case 'update_email_template':
+      return <FileText className="w-4 h-4" />;
+    case 'enable_2fa':
+    case 'update_2fa_policy':
+      return <ShieldCheck className="w-4 h-4" />;
+    case 'update_password_policy':
+      return <KeyRound className="w-4 h-4" />;
+    case 'update_currency_settings':
+    case 'update_exchange_rates':
+      return <ArrowLeftRight className="w-4 h-4" />;
+    case 'account_locked':
+      return <Lock className="w-4 h-4" />;
+    case 'unlock_account':
+      return <LockOpen className="w-4 h-4" />;
+    case 'suspicious_login':
+      return <ShieldAlert className="w-4 h-4" />;
+    case 'disable_2fa':
+    case 'reset_2fa':
+      return <ShieldOff className="w-4 h-4" />;
+    case 'revoke_session':
+    case 'revoke_all_sessions':
+      return <LogOut className="w-4 h-4" />;
+    case 'archive_activities':
+    case 'update_activity_retention':
+      return <Archive className="w-4 h-4" />;
+    case 'export_data':
+      return <Download className="w-4 h-4" />;
+    case 'import_data':
+      return <Upload className="w-4 h-4" />;
+    case 'rollback_import':
+      return <Undo2 className="w-4 h-4" />;
     default:
       return <Activity className="w-4 h-4" />;
   }
@@ -75,6 +144,7 @@ const getActivityColor = (type: ActivityType | string) => {
   if (type.includes('add')) return 'bg-green-100 text-green-700 border-green-200';
   if (type.includes('edit')) return 'bg-blue-100 text-blue-700 border-blue-200';
   if (type.includes('delete')) return 'bg-red-100 text-red-700 border-red-200';
+  if (type === 'account_locked' || type === 'suspicious_login') return 'bg-red-100 text-red-700 border-red-200';
   if (type === 'login') return 'bg-purple-100 text-purple-700 border-purple-200';
   if (type === 'logout') return 'bg-gray-100 text-gray-700 border-gray-200';
   return 'bg-gray-100 text-gray-700 border-gray-200';
@@ -105,7 +175,7 @@ const getActivityLabel = (type: ActivityType) => {
 };
 
 export function ActivityPage() {
-  const { activityLogs, isAdmin, staff, isLoading } = useAdmin();
+  const { activityLogs, canViewAllEntries, staff, isLoading, user } = useAdmin();
   const [searchTerm, setSearchTerm] = useState('');
   const [activityTypeFilter, setActivityTypeFilter] = useState<string>('all');
   const [userFilter, setUserFilter] = useState<string>('all');
@@ -174,6 +244,17 @@ export function ActivityPage() {
                 View all system activities, user actions, and login history
               </CardDescription>
             </div>
+            <div className="flex gap-2">
+              <ExportMenu
+                resource="activities"
+                params={{
+                  search: searchTerm || undefined,
+                  action: activityTypeFilter !== 'all' ? activityTypeFilter : undefined,
+                  userId: userFilter !== 'all' ? userFilter : undefined,
+                }}
+              />
+              {user?.role === 'Super Admin' && <ActivityLogIntegrityDialog />}
+            </div>
           </div>
         </CardHeader>
       </Card>
@@ -211,7 +292,7 @@ export function ActivityPage() {
             </Select>
 
             {/* User Filter */}
-            {isAdmin() && (
+            {canViewAllEntries('activityLogs') && (
               <Select value={userFilter} onValueChange={setUserFilter}>
                 <SelectTrigger className="w-[180px]">
                   <SelectValue placeholder="All Users" />
@@ -1,36 +1,95 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Badge } from './ui/badge';
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet';
-import { Plus, Shield } from 'lucide-react';
+import { Plus, Save, Shield, Users } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 import * as api from '../utils/api';
+import { Role, UserPermissions } from './admin-context-new';
+import { PermissionsGrid, emptyPermissions, withAllPermissions } from './permissions-grid';
 
 interface AddRoleSheetProps {
   trigger?: React.ReactNode;
+  // Called after the role is created or, in edit mode, updated
   onRoleAdded?: () => void;
+  // Edit mode: the sheet is controlled by the caller and edits this role
+  role?: Role | null;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
 }
 
-export function AddRoleSheet({ trigger, onRoleAdded }: AddRoleSheetProps) {
-  const [isOpen, setIsOpen] = useState(false);
+interface AffectedMember {
+  id: string;
+  name: string;
+  email: string;
+  skipped: boolean;
+  changes: string[];
+}
+
+export function AddRoleSheet({ trigger, onRoleAdded, role, open, onOpenChange }: AddRoleSheetProps) {
+  const isEditing = !!role;
+  const [internalOpen, setInternalOpen] = useState(false);
+  const isOpen = open ?? internalOpen;
+  const setIsOpen = onOpenChange ?? setInternalOpen;
   const [roleName, setRoleName] = useState('');
+  const [permissions, setPermissions] = useState<UserPermissions>(emptyPermissions);
+  const [propagate, setPropagate] = useState(false);
+  const [affectedMembers, setAffectedMembers] = useState<AffectedMember[] | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
   const resetForm = () => {
-    setRoleName('');
+    setRoleName(role?.name || '');
+    setPermissions(withAllPermissions(role?.permissions));
+    setPropagate(false);
+    setAffectedMembers(null);
     setIsLoading(false);
   };
 
+  useEffect(() => {
+    if (isOpen && isEditing) {
+      resetForm();
+    }
+  }, [isOpen, role?.id]);
+
+  // Refresh the preview whenever the template changes while propagation is switched on
+  useEffect(() => {
+    if (!isEditing || !propagate) {
+      setAffectedMembers(null);
+      return;
+    }
+
+    let cancelled = false;
+    api.previewRoleChanges(role!.id, permissions)
+      .then((result) => {
+        if (!cancelled) setAffectedMembers(result?.members || []);
+      })
+      .catch((error: any) => {
+        console.error('Preview role changes error:', error);
+        if (!cancelled) toast.error(error.message || 'Failed to preview affected staff');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isEditing, propagate, permissions, role?.id]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      const result = await api.addRole(roleName.trim());
+      const result = isEditing
+        ? await api.updateRole(role!.id, roleName.trim(), permissions, propagate)
+        : await api.addRole(roleName.trim(), permissions);
 
       if (result?.success) {
-        toast.success('Role added successfully!');
+        if (isEditing) {
+          toast.success(propagate ? `Role updated and applied to ${result.propagatedCount} staff members` : 'Role updated successfully!');
+        } else {
+          toast.success('Role added successfully!');
+        }
         setIsOpen(false);
         resetForm();
         if (onRoleAdded) {
@@ -38,34 +97,41 @@ export function AddRoleSheet({ trigger, onRoleAdded }: AddRoleSheetProps) {
         }
       }
     } catch (error: any) {
-      console.error('Add role error:', error);
-      toast.error(error.message || 'Failed to add role');
+      console.error(isEditing ? 'Update role error:' : 'Add role error:', error);
+      toast.error(error.message || (isEditing ? 'Failed to update role' : 'Failed to add role'));
     } finally {
       setIsLoading(false);
     }
   };
 
   const isFormValid = roleName.trim().length > 0;
+  const changedMembers = affectedMembers?.filter((member) => !member.skipped && member.changes.length > 0) || [];
 
   return (
     <Sheet open={isOpen} onOpenChange={setIsOpen}>
-      <SheetTrigger asChild>
-        {trigger || (
-          <Button 
-            variant="outline"
-            onClick={resetForm}
-            className="border-[#6a40ec] text-[#6a40ec] hover:bg-[#6a40ec] hover:text-white"
-          >
-            <Shield className="w-4 h-4 mr-2" />
-            Add Role
-          </Button>
-        )}
-      </SheetTrigger>
-      <SheetContent side="right" className="sm:max-w-[500px] p-0 flex flex-col">
+      {!isEditing && (
+        <SheetTrigger asChild>
+          {trigger || (
+            <Button 
+              variant="outline"
+              onClick={resetForm}
+              className="border-[#6a40ec] text-[#6a40ec] hover:bg-[#6a40ec] hover:text-white"
+            >
+              <Shield className="w-4 h-4 mr-2" />
+              Add Role
+            </Button>
+          )}
+        </SheetTrigger>
+      )}
+      <SheetContent side="right" className="sm:max-w-[700px] p-0 flex flex-col">
         {/* Header - Fixed */}
         <SheetHeader className="px-6 py-4 border-b bg-white shrink-0">
-          <SheetTitle className="text-xl">Add New Role</SheetTitle>
-          <SheetDescription>Create a new role. Permissions will be assigned when creating staff members.</SheetDescription>
+          <SheetTitle className="text-xl">{isEditing ? 'Edit Role' : 'Add New Role'}</SheetTitle>
+          <SheetDescription>
+            {isEditing
+              ? 'Change the role name and its permission template.'
+              : 'Create a new role with the permissions new staff members holding it start with.'}
+          </SheetDescription>
         </SheetHeader>
 
         {/* Scrollable Content Area */}
@@ -99,18 +165,91 @@ export function AddRoleSheet({ trigger, onRoleAdded }: AddRoleSheetProps) {
                 </div>
               </div>
 
-              {/* Info Note */}
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                <div className="flex gap-3">
-                  <Shield className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
-                  <div>
-                    <h4 className="font-semibold text-sm text-blue-900 mb-1">About Permissions</h4>
-                    <p className="text-xs text-blue-700">
-                      After creating this role, you can assign specific permissions to staff members when adding or editing them in the Staff Management section.
-                    </p>
+              {/* Permission Template Section */}
+              <div className="bg-white border rounded-lg overflow-hidden shadow-sm">
+                <div className="flex items-center gap-3 px-5 py-3 bg-gradient-to-r from-[#6a40ec]/5 to-transparent border-b">
+                  <div className="w-8 h-8 rounded-lg bg-[#6a40ec] flex items-center justify-center flex-shrink-0">
+                    <Shield className="w-4 h-4 text-white" />
                   </div>
+                  <span className="font-semibold text-base">Permission Template</span>
+                </div>
+
+                <div className="p-5">
+                  <PermissionsGrid permissions={permissions} onChange={setPermissions} idPrefix="role" />
                 </div>
               </div>
+
+              {/* Propagation (edit mode) */}
+              {isEditing ? (
+                <div className="bg-white border rounded-lg overflow-hidden shadow-sm">
+                  <div className="flex items-center justify-between gap-3 px-5 py-3 border-b">
+                    <div className="flex items-center gap-3">
+                      <Users className="w-4 h-4 text-[#6a40ec]" />
+                      <div>
+                        <span className="font-semibold text-sm">Apply to existing staff</span>
+                        <p className="text-xs text-gray-500">Replace the permissions of everyone holding this role with the template</p>
+                      </div>
+                    </div>
+                    <Switch checked={propagate} onCheckedChange={setPropagate} />
+                  </div>
+
+                  {propagate && (
+                    <div className="p-5 space-y-2">
+                      {affectedMembers === null ? (
+                        <p className="text-xs text-gray-500">Loading affected staff...</p>
+                      ) : affectedMembers.length === 0 ? (
+                        <p className="text-xs text-gray-500">No staff members hold this role.</p>
+                      ) : (
+                        <>
+                          <p className="text-xs text-gray-600">
+                            {changedMembers.length} of {affectedMembers.length} staff members will have their permissions changed.
+                          </p>
+                          {affectedMembers.map((member) => (
+                            <div key={member.id} className="p-2.5 border rounded-lg bg-gray-50">
+                              <div className="flex items-center justify-between gap-2">
+                                <div className="min-w-0">
+                                  <p className="text-sm font-medium truncate">{member.name}</p>
+                                  <p className="text-xs text-gray-500 truncate">{member.email}</p>
+                                </div>
+                                {member.skipped ? (
+                                  <Badge variant="outline" className="text-xs">Your account - not changed</Badge>
+                                ) : member.changes.length === 0 ? (
+                                  <Badge variant="outline" className="text-xs">No changes</Badge>
+                                ) : null}
+                              </div>
+                              {!member.skipped && member.changes.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-2">
+                                  {member.changes.map((change) => (
+                                    <Badge
+                                      key={change}
+                                      variant="outline"
+                                      className={`text-xs ${change.startsWith('+') ? 'text-green-700 border-green-200' : 'text-red-700 border-red-200'}`}
+                                    >
+                                      {change}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                  <div className="flex gap-3">
+                    <Shield className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+                    <div>
+                      <h4 className="font-semibold text-sm text-blue-900 mb-1">About Permissions</h4>
+                      <p className="text-xs text-blue-700">
+                        Staff members added with this role start with this template. You can still adjust each member's permissions in the Staff Management section.
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
           </form>
         </div>
@@ -139,7 +278,12 @@ export function AddRoleSheet({ trigger, onRoleAdded }: AddRoleSheetProps) {
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
-                  Adding...
+                  {isEditing ? 'Saving...' : 'Adding...'}
+                </>
+              ) : isEditing ? (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Changes
                 </>
               ) : (
                 <>
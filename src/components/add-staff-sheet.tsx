@@ -4,51 +4,37 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet';
-import { Checkbox } from './ui/checkbox';
-import { Plus, UserPlus, Shield } from 'lucide-react';
-import { useAdmin, Staff, UserRole, UserPermissions, ModulePermission } from './admin-context-new';
+import { Send, UserPlus, Shield } from 'lucide-react';
+import { useAdmin, UserRole, UserPermissions } from './admin-context-new';
+import { PermissionsGrid, emptyPermissions, withAllPermissions } from './permissions-grid';
 import { toast } from 'sonner@2.0.3';
 import * as api from '../utils/api';
 
-// No default permissions - all permissions start as false and must be manually assigned
-const emptyPermissions: UserPermissions = {
-  dashboard: { view: false, add: false, edit: false, delete: false },
-  deposits: { view: false, add: false, edit: false, delete: false },
-  bankDeposits: { view: false, add: false, edit: false, delete: false },
-  staffManagement: { view: false, add: false, edit: false, delete: false },
-};
-
 interface AddStaffSheetProps {
   trigger?: React.ReactNode;
+  // Called after the invitation was sent, e.g. to refresh the pending list
+  onInvited?: () => void;
 }
 
-export function AddStaffSheet({ trigger }: AddStaffSheetProps) {
-  const { staff, setStaff, addActivityLog, roles } = useAdmin();
+// New staff are invited by email and choose their own password when they accept
+export function AddStaffSheet({ trigger, onInvited }: AddStaffSheetProps) {
+  const { roles } = useAdmin();
   const [isOpen, setIsOpen] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     email: '',
-    password: '',
     role: '' as UserRole | '',
-    permissions: {
-      dashboard: { view: false, add: false, edit: false, delete: false },
-      deposits: { view: false, add: false, edit: false, delete: false },
-      bankDeposits: { view: false, add: false, edit: false, delete: false },
-      staffManagement: { view: false, add: false, edit: false, delete: false },
-    } as UserPermissions,
+    permissions: emptyPermissions,
   });
   const [isLoading, setIsLoading] = useState(false);
 
-  const handlePermissionChange = (module: keyof UserPermissions, action: keyof ModulePermission, value: boolean) => {
+  // Picking a role starts the member from that role's template; it can still be adjusted below
+  const handleRoleChange = (roleName: string) => {
+    const template = roles.find((role) => role.name === roleName)?.permissions;
     setFormData(prev => ({
       ...prev,
-      permissions: {
-        ...prev.permissions,
-        [module]: {
-          ...prev.permissions[module],
-          [action]: value,
-        },
-      },
+      role: roleName as UserRole,
+      permissions: template ? withAllPermissions(template) : prev.permissions,
     }));
   };
 
@@ -56,7 +42,6 @@ export function AddStaffSheet({ trigger }: AddStaffSheetProps) {
     setFormData({
       name: '',
       email: '',
-      password: '',
       role: '',
       permissions: emptyPermissions,
     });
@@ -68,36 +53,26 @@ export function AddStaffSheet({ trigger }: AddStaffSheetProps) {
     setIsLoading(true);
 
     try {
-      // Create account via backend signup API with manually assigned permissions
-      const result = await api.signUp(
-        formData.email,
-        formData.password,
-        formData.name,
-        formData.role as UserRole,
-        formData.permissions
-      );
-
-      if (result?.success) {
-        toast.success('Staff member added successfully!');
-        
-        // Reload staff data to get the new staff member
-        const staffData = await api.getStaff();
-        if (staffData?.staff) {
-          setStaff(staffData.staff);
-        }
-        
-        setIsOpen(false);
-        resetForm();
-      }
+      await api.inviteStaff({
+        email: formData.email,
+        name: formData.name,
+        role: formData.role as UserRole,
+        permissions: formData.permissions,
+      });
+
+      toast.success(`Invitation sent to ${formData.email}`);
+      onInvited?.();
+      setIsOpen(false);
+      resetForm();
     } catch (error: any) {
-      console.error('Add staff error:', error);
-      toast.error(error.message || 'Failed to add staff member');
+      console.error('Invite staff error:', error);
+      toast.error(error.message || 'Failed to send invitation');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const isFormValid = formData.name && formData.email && formData.password && formData.role;
+  const isFormValid = formData.name && formData.email && formData.role;
 
   return (
     <Sheet open={isOpen} onOpenChange={setIsOpen}>
@@ -105,15 +80,15 @@ export function AddStaffSheet({ trigger }: AddStaffSheetProps) {
         {trigger || (
           <Button className="bg-[#6a40ec] hover:bg-[#5a2fd9]" onClick={resetForm}>
             <UserPlus className="w-4 h-4 mr-2" />
-            Add Staff Member
+            Invite Staff Member
           </Button>
         )}
       </SheetTrigger>
       <SheetContent side="right" className="sm:max-w-[700px] p-0 flex flex-col">
         {/* Header - Fixed */}
         <SheetHeader className="px-6 py-4 border-b bg-white shrink-0">
-          <SheetTitle className="text-xl">Add Staff Member</SheetTitle>
-          <SheetDescription>Create a new team member account with role-based permissions</SheetDescription>
+          <SheetTitle className="text-xl">Invite Staff Member</SheetTitle>
+          <SheetDescription>Email an invitation link; they choose their own password when accepting it</SheetDescription>
         </SheetHeader>
 
         {/* Scrollable Content Area */}
@@ -160,23 +135,7 @@ export function AddStaffSheet({ trigger }: AddStaffSheetProps) {
                         required
                         className="h-10"
                       />
-                    </div>
-
-                    {/* Password Field */}
-                    <div className="space-y-2">
-                      <Label htmlFor="password" className="text-sm font-medium text-gray-700 flex items-center">
-                        Temporary Password <span className="text-red-500 ml-1">*</span>
-                      </Label>
-                      <Input
-                        id="password"
-                        type="password"
-                        value={formData.password}
-                        onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
-                        placeholder="Enter temporary password"
-                        required
-                        className="h-10"
-                      />
-                      <p className="text-xs text-gray-500 mt-1">Staff will use this password to login</p>
+                      <p className="text-xs text-gray-500 mt-1">The invitation link is sent here and expires after 7 days</p>
                     </div>
 
                     {/* Role Dropdown */}
@@ -186,7 +145,7 @@ export function AddStaffSheet({ trigger }: AddStaffSheetProps) {
                       </Label>
                       <Select
                         value={formData.role}
-                        onValueChange={(value) => setFormData(prev => ({ ...prev, role: value as UserRole }))}
+                        onValueChange={handleRoleChange}
                         required
                       >
                         <SelectTrigger className="h-10">
@@ -203,7 +162,7 @@ export function AddStaffSheet({ trigger }: AddStaffSheetProps) {
                           ))}
                         </SelectContent>
                       </Select>
-                      <p className="text-xs text-gray-500 mt-1">Select the role for this staff member</p>
+                      <p className="text-xs text-gray-500 mt-1">Select the role for this staff member; its permission template is applied below</p>
                     </div>
                   </div>
                 </div>
@@ -219,37 +178,10 @@ export function AddStaffSheet({ trigger }: AddStaffSheetProps) {
                 </div>
 
                 <div className="p-5">
-                  <div className="space-y-4">
-                    {Object.entries(formData.permissions).map(([module, perms]) => (
-                      <div key={module} className="border rounded-lg p-4 bg-gray-50/50">
-                        <h4 className="font-semibold text-sm capitalize mb-3 text-gray-800">
-                          {module.replace(/([A-Z])/g, ' $1').trim()}
-                        </h4>
-                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
-                          {Object.entries(perms)
-                            .filter(([action]) => action !== 'activity')
-                            .map(([action, enabled]) => (
-                            <div key={action} className="flex items-center space-x-2">
-                              <Checkbox
-                                id={`${module}-${action}`}
-                                checked={enabled}
-                                onCheckedChange={(checked) => 
-                                  handlePermissionChange(
-                                    module as keyof UserPermissions, 
-                                    action as keyof ModulePermission, 
-                                    !!checked
-                                  )
-                                }
-                              />
-                              <Label htmlFor={`${module}-${action}`} className="text-sm capitalize cursor-pointer font-medium">
-                                {action}
-                              </Label>
-                            </div>
-                          ))}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
+                  <PermissionsGrid
+                    permissions={formData.permissions}
+                    onChange={(permissions: UserPermissions) => setFormData(prev => ({ ...prev, permissions }))}
+                  />
                 </div>
               </div>
             </div>
@@ -280,12 +212,12 @@ export function AddStaffSheet({ trigger }: AddStaffSheetProps) {
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
-                  Adding...
+                  Sending...
                 </>
               ) : (
                 <>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Staff Member
+                  <Send className="w-4 h-4 mr-2" />
+                  Send Invitation
                 </>
               )}
             </Button>
@@ -3,6 +3,15 @@ import { createClient } from '@supabase/supabase-js';
 import { projectId, publicAnonKey } from '../utils/supabase/info';
 import * as api from '../utils/api';
 import { toast } from 'sonner@2.0.3';
+import type {
+  UserPermissions,
+  Staff,
+  DepositEntry,
+  Bank,
+  BankTransaction,
+  ActivityType,
+  ActivityLog,
+} from '../supabase/functions/server/contract';
 
 export type AdminPage = 
   | 'login' 
@@ -10,13 +19,18 @@ export type AdminPage =
   | 'forgot-password' 
   | 'otp-verification' 
   | 'change-password' 
+  | 'two-factor'
   | 'dashboard' 
   | 'profile' 
   | 'staff-management' 
-  | 'add-staff'
+  | 'archived-staff'
   | 'deposits'
   | 'bank-deposits'
-  | 'activity';
+  | 'activity'
+  | 'email-outbox'
+  | 'email-templates'
+  | 'exchange-rates'
+  | 'approvals';
 
 export interface User {
   id: string;
@@ -28,112 +42,45 @@ export interface User {
   status?: 'active' | 'inactive';
 }
 
-export type ModulePermission = {
-  view: boolean;
-  add: boolean;
-  edit: boolean;
-  delete: boolean;
-  activity?: boolean;
-};
-
-export type UserPermissions = {
-  dashboard: ModulePermission;
-  deposits: ModulePermission;
-  bankDeposits: ModulePermission;
-  staffManagement: ModulePermission;
-};
+// Record and permission types are shared with the server
+export type {
+  ModulePermission,
+  UserPermissions,
+  Staff,
+  ClientIncentive,
+  ExpenseItem,
+  DepositEntry,
+  Bank,
+  BankTransaction,
+  ActivityType,
+  ActivityLog,
+  DepositStatus,
+} from '../supabase/functions/server/contract';
+
+// Modules whose lists show other staff members' entries when `viewAll` is set
+export type ViewAllModule = 'dashboard' | 'deposits' | 'bankDeposits' | 'activityLogs';
 
 export type UserRole = string;
 
-export interface Staff {
-  id: string;
-  name: string;
-  email: string;
-  role: UserRole;
-  permissions: UserPermissions;
-  status: 'active' | 'inactive';
-  avatar?: string;
-  createdAt: string;
-  lastLogin?: string;
-  isArchived?: boolean;
-  archivedAt?: string;
-}
-
-export interface ClientIncentive {
-  id: string;
-  name: string;
-  amount: number;
-}
+// Second login step the signed-in session still owes: enter a code, or enroll first (the role requires 2FA)
+export type TwoFactorStep = 'verify' | 'enroll';
 
-export interface ExpenseItem {
-  id: string;
-  type: 'Promotion' | 'Salary' | 'Miscellaneous' | 'IB Commission' | 'Travel Expense';
-  amount: number;
-  description?: string;
-}
+const TWO_FACTOR_STEPS: Record<string, TwoFactorStep> = {
+  TWO_FACTOR_REQUIRED: 'verify',
+  TWO_FACTOR_ENROLLMENT_REQUIRED: 'enroll',
+};
 
-export interface DepositEntry {
-  id: string;
-  date: string;
-  localDeposit: number;
-  usdtDeposit: number;
-  cashDeposit: number;
-  localWithdraw: number;
-  usdtWithdraw: number;
-  cashWithdraw: number;
-  clientIncentives: ClientIncentive[];
-  expenses: ExpenseItem[];
-  submittedBy: string;
-  submittedByName: string;
-}
+// Permission sets saved before the approve flag existed fall back to the admin roles, matching the server
+const approvesDeposits = (member: Pick<User, 'role' | 'permissions'> | null) => {
+  const flag = member?.permissions?.deposits?.approve;
+  return typeof flag === 'boolean' ? flag : member?.role === 'Super Admin' || member?.role === 'Admin';
+};
 
-export interface Bank {
+export interface Role {
   id: string;
   name: string;
-}
-
-export interface BankTransaction {
-  id: string;
-  date: string;
-  bankId: string;
-  deposit: number;
-  withdraw: number;
-  pnl?: number;
-  remaining: number;
-  remainingBalance?: number;
-  submittedBy: string;
-  submittedByName: string;
-}
-
-export type ActivityType =
-  | 'login' 
-  | 'logout'
-  | 'signup'
-  | 'add_staff' 
-  | 'edit_staff' 
-  | 'delete_staff'
-  | 'add_bank' 
-  | 'edit_bank' 
-  | 'delete_bank'
-  | 'add_deposit' 
-  | 'edit_deposit' 
-  | 'delete_deposit'
-  | 'add_bank_deposit'
-  | 'edit_bank_deposit'
-  | 'delete_bank_deposit'
-  | 'add_bank_transaction'
-  | 'edit_bank_transaction'
-  | 'delete_bank_transaction';
-
-export interface ActivityLog {
-  id: string;
-  action: ActivityType;
-  description: string;
-  userId: string;
-  userName: string;
-  timestamp: string;
-  details?: string;
-  ipAddress?: string;
+  // Template new members of the role start with; roles created before templates existed have none
+  permissions?: UserPermissions;
 }
 
 interface AdminContextType {
@@ -145,11 +92,12 @@ interface AdminContextType {
   setIsAuthenticated: (auth: boolean) => void;
   staff: Staff[];
   setStaff: (staff: Staff[]) => void;
-  roles: { id: string; name: string; permissions: UserPermissions }[];
-  setRoles: (roles: { id: string; name: string; permissions: UserPermissions }[]) => void;
+  roles: Role[];
+  setRoles: (roles: Role[]) => void;
   loadRoles: () => Promise<void>;
-  otpData: { email: string; purpose: 'forgot-password' | 'verification' } | null;
-  setOtpData: (data: { email: string; purpose: 'forgot-password' | 'verification' } | null) => void;
+  // resetToken is set once a forgot-password code has been verified
+  otpData: { email: string; purpose: 'forgot-password' | 'verification'; resetToken?: string } | null;
+  setOtpData: (data: { email: string; purpose: 'forgot-password' | 'verification'; resetToken?: string } | null) => void;
   deposits: DepositEntry[];
   setDeposits: (deposits: DepositEntry[]) => void;
   banks: Bank[];
@@ -161,7 +109,8 @@ interface AdminContextType {
   activityLogs: ActivityLog[];
   addActivityLog: (type: ActivityType, description: string, details?: string) => void;
   isAdmin: () => boolean;
-  canViewAllEntries: () => boolean;
+  canViewAllEntries: (module?: ViewAllModule) => boolean;
+  canApproveDeposits: () => boolean;
   getFilteredDeposits: () => DepositEntry[];
   getFilteredBankTransactions: () => BankTransaction[];
   canAccessStaffManagement: () => boolean;
@@ -175,6 +124,13 @@ interface AdminContextType {
   loadData: () => Promise<void>;
   isLoading: boolean;
   accountStatus: 'active' | 'deactivated' | 'deleted';
+  twoFactorStep: TwoFactorStep | null;
+  // Called by the two-factor page once the session is verified; finishes signing in
+  completeTwoFactor: () => Promise<void>;
+  // Server's reason while the member must choose a new password (flagged by an admin, or expired)
+  passwordChangeRequired: string | null;
+  // Called by the change-password page once the new password is saved; finishes signing in
+  completePasswordChange: () => Promise<void>;
 }
 
 const AdminContext = createContext<AdminContextType | undefined>(undefined);
@@ -190,10 +146,12 @@ export function AdminProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
-  const [otpData, setOtpData] = useState<{ email: string; purpose: 'forgot-password' | 'verification' } | null>(null);
+  const [otpData, setOtpData] = useState<{ email: string; purpose: 'forgot-password' | 'verification'; resetToken?: string } | null>(null);
   const [staff, setStaff] = useState<Staff[]>([]);
-  const [roles, setRoles] = useState<{ id: string; name: string; permissions: UserPermissions }[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
   const [accountStatus, setAccountStatus] = useState<'active' | 'deactivated' | 'deleted'>('active');
+  const [twoFactorStep, setTwoFactorStep] = useState<TwoFactorStep | null>(null);
+  const [passwordChangeRequired, setPasswordChangeRequired] = useState<string | null>(null);
   const [deposits, setDeposits] = useState<DepositEntry[]>([]);
   const [banks, setBanks] = useState<Bank[]>([]);
   const [bankTransactions, setBankTransactions] = useState<BankTransaction[]>([]);
@@ -245,6 +203,20 @@ export function AdminProvider({ children }: { children: ReactNode }) {
       } catch (error: any) {
         if (error.message?.includes('ACCOUNT_DELETED') || error.message?.includes('ACCOUNT_DEACTIVATED')) {
           handleAccountStatusError(error.message);
+        } else if (TWO_FACTOR_STEPS[error.code]) {
+          // 2FA was reset or newly required, or the verified session expired
+          startTwoFactorStep(TWO_FACTOR_STEPS[error.code]);
+        } else if (error.code === 'PASSWORD_CHANGE_REQUIRED') {
+          // Flagged by an admin, or the password expired under the policy
+          startPasswordChange(error.message);
+        } else if (error.code === 'SESSION_REVOKED') {
+          // Signed out from another device or by an administrator
+          toast.error('This session was signed out. Please log in again.', { duration: 6000 });
+          await logout();
+        } else if (error.code === 'ACCOUNT_LOCKED') {
+          // Locked after repeated wrong passwords, here or on another device
+          toast.error(error.message, { duration: 6000 });
+          await logout();
         } else if (error.message?.includes('401') || error.message?.includes('Unauthorized')) {
           // Session expired or invalid, logout silently
           console.log('Session expired, logging out');
@@ -301,7 +273,7 @@ export function AdminProvider({ children }: { children: ReactNode }) {
             
             if (savedPage && savedPage !== 'login' && savedPage !== 'signup' && savedPage !== 'forgot-password' && savedPage !== 'otp-verification') {
               // Check if user has permission for saved page
-              const isValidPage = ['dashboard', 'deposits', 'bank-deposits', 'staff-management', 'add-staff', 'activity', 'profile'].includes(savedPage);
+              const isValidPage = ['dashboard', 'deposits', 'bank-deposits', 'staff-management', 'archived-staff', 'activity', 'email-outbox', 'email-templates', 'exchange-rates', 'approvals', 'profile'].includes(savedPage);
               
               if (isValidPage) {
                 // Check permissions for specific pages
@@ -311,7 +283,9 @@ export function AdminProvider({ children }: { children: ReactNode }) {
                   targetPage = savedPage as AdminPage;
                 } else if (savedPage === 'bank-deposits' && userData.user.permissions?.bankDeposits?.view) {
                   targetPage = savedPage as AdminPage;
-                } else if ((savedPage === 'staff-management' || savedPage === 'add-staff') && userData.user.permissions?.staffManagement?.view) {
+                } else if (savedPage === 'approvals' && approvesDeposits(userData.user)) {
+                  targetPage = savedPage as AdminPage;
+                } else if ((savedPage === 'staff-management' || savedPage === 'archived-staff') && userData.user.permissions?.staffManagement?.view) {
                   targetPage = savedPage as AdminPage;
                 } else if (savedPage === 'activity') {
                   // Activity can be accessed if user has any activity permission
@@ -321,6 +295,8 @@ export function AdminProvider({ children }: { children: ReactNode }) {
                   if (hasActivityPermission) {
                     targetPage = savedPage as AdminPage;
                   }
+                } else if ((savedPage === 'email-outbox' || savedPage === 'email-templates' || savedPage === 'exchange-rates') && (userData.user.role === 'Super Admin' || userData.user.role === 'Admin')) {
+                  targetPage = savedPage as AdminPage;
                 } else if (savedPage === 'profile') {
                   // Profile is accessible to all authenticated users
                   targetPage = savedPage as AdminPage;
@@ -341,6 +317,11 @@ export function AdminProvider({ children }: { children: ReactNode }) {
             await supabase.auth.signOut();
             api.clearAuthToken();
             handleAccountStatusError(userError.message);
+          } else if (TWO_FACTOR_STEPS[userError.code]) {
+            // Signed in with a password but not yet past 2FA - keep the session for the second step
+            startTwoFactorStep(TWO_FACTOR_STEPS[userError.code]);
+          } else if (userError.code === 'PASSWORD_CHANGE_REQUIRED') {
+            startPasswordChange(userError.message);
           } else if (userError.message?.includes('No permission')) {
             // Permission error - redirect to fix page but keep session
             console.log('Permission error detected, redirecting to fix page');
@@ -382,6 +363,32 @@ export function AdminProvider({ children }: { children: ReactNode }) {
     }
   }
 
+  // Keeps the Supabase session and shows the second login step
+  function startTwoFactorStep(step: TwoFactorStep) {
+    setTwoFactorStep(step);
+    setIsAuthenticated(false);
+    setCurrentPage('two-factor');
+  }
+
+  async function completeTwoFactor() {
+    setTwoFactorStep(null);
+    setIsLoading(true);
+    await checkSession();
+  }
+
+  // Keeps the Supabase session; the change-password page is the only one available until the password is changed
+  function startPasswordChange(reason: string) {
+    setPasswordChangeRequired(reason);
+    setIsAuthenticated(false);
+    setCurrentPage('change-password');
+  }
+
+  async function completePasswordChange() {
+    setPasswordChangeRequired(null);
+    setIsLoading(true);
+    await checkSession();
+  }
+
   // Handle account status errors (deleted/deactivated)
   function handleAccountStatusError(errorType: string) {
     if (errorType.includes('ACCOUNT_DELETED')) {
@@ -402,10 +409,10 @@ export function AdminProvider({ children }: { children: ReactNode }) {
     try {
       setIsLoading(true);
       
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
+      // The server checks the password (counting failures and locking the account after too many), then the
+      // Supabase client takes over the session so it keeps refreshing the token
+      const { session } = await api.login(email, password);
+      const { data, error } = await supabase.auth.setSession(session);
 
       if (error) {
         throw new Error(error.message);
@@ -451,6 +458,16 @@ export function AdminProvider({ children }: { children: ReactNode }) {
           }
         } catch (userError: any) {
           setIsLoading(false);
+
+          if (TWO_FACTOR_STEPS[userError.code]) {
+            startTwoFactorStep(TWO_FACTOR_STEPS[userError.code]);
+            return;
+          }
+          if (userError.code === 'PASSWORD_CHANGE_REQUIRED') {
+            startPasswordChange(userError.message);
+            return;
+          }
+
           // Handle account status errors - sign out and throw clean error
           await supabase.auth.signOut();
           api.clearAuthToken();
@@ -496,6 +513,8 @@ export function AdminProvider({ children }: { children: ReactNode }) {
 
   async function logout() {
     try {
+      // Best effort: also end the session on the server so its access token stops working right away
+      await api.revokeSession('current').catch(() => {});
       await supabase.auth.signOut();
       api.clearAuthToken();
       // Clear saved page and session checking flag
@@ -507,6 +526,8 @@ export function AdminProvider({ children }: { children: ReactNode }) {
       setDeposits([]);
       setBankTransactions([]);
       setActivityLogs([]);
+      setTwoFactorStep(null);
+      setPasswordChangeRequired(null);
       setCurrentPage('login');
       toast.success('Logged out successfully');
     } catch (error) {
@@ -517,17 +538,8 @@ export function AdminProvider({ children }: { children: ReactNode }) {
 
   async function loadData() {
     try {
-      // Load deposits
-      const depositsData = await api.getDeposits();
-      if (depositsData?.deposits) {
-        setDeposits(depositsData.deposits);
-      }
-
-      // Load bank deposits
-      const bankDepositsData = await api.getBankDeposits();
-      if (bankDepositsData?.bankDeposits) {
-        setBankTransactions(bankDepositsData.bankDeposits);
-      }
+      // Deposits and bank transactions are paged from the server by their own pages
+      // (see useServerPagination), so they are not loaded here
 
       // Load banks
       const banksData = await api.getBanks();
@@ -592,10 +604,14 @@ export function AdminProvider({ children }: { children: ReactNode }) {
     return user?.role === 'Super Admin' || user?.role === 'Admin';
   };
 
-  const canViewAllEntries = () => {
-    return isAdmin();
+  // Permission sets saved before viewAll existed fall back to the role, matching the server
+  const canViewAllEntries = (module: ViewAllModule = 'deposits') => {
+    const flag = user?.permissions?.[module]?.viewAll;
+    return typeof flag === 'boolean' ? flag : isAdmin();
   };
 
+  const canApproveDeposits = () => approvesDeposits(user);
+
   const canAccessStaffManagement = () => {
     if (!user) return false;
     const currentStaff = staff.find(s => s.id === user.id);
@@ -628,7 +644,7 @@ export function AdminProvider({ children }: { children: ReactNode }) {
   };
 
   const getFilteredBankTransactions = () => {
-    if (canViewAllEntries()) {
+    if (canViewAllEntries('bankDeposits')) {
       return bankTransactions;
     }
     return bankTransactions.filter(transaction => transaction.submittedBy === user?.id);
@@ -658,6 +674,7 @@ export function AdminProvider({ children }: { children: ReactNode }) {
       addActivityLog,
       isAdmin,
       canViewAllEntries,
+      canApproveDeposits,
       getFilteredDeposits,
       getFilteredBankTransactions,
       canAccessStaffManagement,
@@ -673,6 +690,10 @@ export function AdminProvider({ children }: { children: ReactNode }) {
       loadRoles,
       isLoading,
       accountStatus,
+      twoFactorStep,
+      completeTwoFactor,
+      passwordChangeRequired,
+      completePasswordChange,
     }}>
       {children}
     </AdminContext.Provider>
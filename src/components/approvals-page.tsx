@@ -0,0 +1,299 @@
+import { useCallback, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { TableSkeleton } from './shimmer-skeleton';
+import { TablePagination } from './table-pagination';
+import { HistorySheet } from './history-sheet';
+import { Check, ClipboardCheck, History, Loader2, RefreshCw, Search, X } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { useAdmin, type DepositEntry } from './admin-context-new';
+import { useServerPagination } from './use-server-pagination';
+import { formatCurrency, formatCurrencyTotals, type Money } from '../utils/currency';
+import * as api from '../utils/api';
+import { depositCurrencies, type DepositReviewDecision } from '../supabase/functions/server/contract';
+
+const sum = (items: { amount: number | string }[]) => items.reduce((total, item) => total + (Number(item.amount) || 0), 0);
+// Deposit and withdraw columns can each be in a different currency, so they are totalled per currency
+const depositAmounts = (d: DepositEntry): Money[] => {
+  const currencies = depositCurrencies(d);
+  return [
+    { amount: d.localDeposit, currency: currencies.local },
+    { amount: d.usdtDeposit, currency: currencies.usdt },
+    { amount: d.cashDeposit, currency: currencies.cash },
+  ];
+};
+const withdrawAmounts = (d: DepositEntry): Money[] => {
+  const currencies = depositCurrencies(d);
+  return [
+    { amount: d.localWithdraw, currency: currencies.local },
+    { amount: d.usdtWithdraw, currency: currencies.usdt },
+    { amount: d.cashWithdraw, currency: currencies.cash },
+  ];
+};
+
+// Review queue for staff with the deposits `approve` permission: everyone's submitted entries, oldest first
+export function ApprovalsPage() {
+  const { user, loadData } = useAdmin();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<DepositEntry | null>(null);
+  const [rejectComment, setRejectComment] = useState('');
+  const [historyDeposit, setHistoryDeposit] = useState<DepositEntry | null>(null);
+
+  const filters = useMemo(() => ({ search: searchTerm.trim() || undefined }), [searchTerm]);
+
+  const fetchApprovalsPage = useCallback(async (query: api.ListQuery) => {
+    const data = await api.getDepositApprovals(query);
+    return {
+      items: (data?.deposits || []) as DepositEntry[],
+      totalCount: data?.pagination?.totalCount || 0,
+      summary: null,
+    };
+  }, []);
+
+  const {
+    items: deposits,
+    totalCount,
+    isFetching,
+    currentPage,
+    setCurrentPage,
+    itemsPerPage,
+    setItemsPerPage,
+    reload,
+  } = useServerPagination({
+    fetchPage: fetchApprovalsPage,
+    filters,
+    enabled: !!user,
+  });
+
+  const review = async (deposit: DepositEntry, decision: DepositReviewDecision, comment?: string) => {
+    setReviewingId(deposit.id);
+    try {
+      await api.reviewDeposit(deposit.id, { decision, comment });
+      toast.success(`${decision === 'approve' ? 'Approved' : 'Rejected'} the entry of ${deposit.submittedByName}`);
+      setRejecting(null);
+      await Promise.all([reload(), loadData()]);
+    } catch (error: any) {
+      console.error('Review deposit error:', error);
+      toast.error(error.message || 'Failed to review entry');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const openReject = (deposit: DepositEntry) => {
+    setRejectComment('');
+    setRejecting(deposit);
+  };
+
+  return (
+    <TooltipProvider>
+      <div className="p-4 md:p-6 space-y-4 md:space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Approvals</h1>
+            <p className="text-sm md:text-base text-gray-600 mt-1">
+              Deposit entries awaiting review. Approved entries count toward the dashboard and are locked for their submitter.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <Input
+                placeholder="Search entries..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9 w-[220px]"
+              />
+            </div>
+            <Button variant="outline" size="sm" onClick={reload} disabled={isFetching}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Awaiting Review ({totalCount})</CardTitle>
+            <CardDescription>You cannot review entries you submitted yourself</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isFetching && deposits.length === 0 ? (
+              <TableSkeleton rows={6} columns={8} />
+            ) : deposits.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                <ClipboardCheck className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                <p>Nothing to review</p>
+              </div>
+            ) : (
+              <>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Submitted By</TableHead>
+                        <TableHead>Total Deposit</TableHead>
+                        <TableHead>Total Withdraw</TableHead>
+                        <TableHead>Client Incentive</TableHead>
+                        <TableHead>Company Expense</TableHead>
+                        <TableHead>Balance</TableHead>
+                        <TableHead>Submitted</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {deposits.map((deposit) => {
+                        // Nobody reviews their own entry, or an approved entry they changed
+                        const isOwn = deposit.submittedBy === user?.id || deposit.editedBy === user?.id;
+                        const ownLabel = deposit.submittedBy === user?.id ? 'Your own entry' : 'You changed this entry';
+                        const currencies = depositCurrencies(deposit);
+                        const incentives = sum(deposit.clientIncentives);
+                        const expenses = sum(deposit.expenses);
+                        const balance: Money[] = [
+                          ...depositAmounts(deposit),
+                          ...withdrawAmounts(deposit).map(({ amount, currency }) => ({ amount: -amount, currency })),
+                          { amount: -incentives, currency: currencies.incentives },
+                          { amount: -expenses, currency: currencies.expenses },
+                        ];
+                        const submittedAt = deposit.updatedAt || deposit.createdAt;
+
+                        return (
+                          <TableRow key={deposit.id}>
+                            <TableCell className="font-medium">{new Date(deposit.date).toLocaleDateString()}</TableCell>
+                            <TableCell className="text-sm text-gray-600">{deposit.submittedByName}</TableCell>
+                            <TableCell>{formatCurrencyTotals(depositAmounts(deposit))}</TableCell>
+                            <TableCell className="text-red-600">{formatCurrencyTotals(withdrawAmounts(deposit))}</TableCell>
+                            <TableCell>{formatCurrency(incentives, currencies.incentives)}</TableCell>
+                            <TableCell>{formatCurrency(expenses, currencies.expenses)}</TableCell>
+                            <TableCell className={`font-medium ${sum(balance) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {formatCurrencyTotals(balance)}
+                            </TableCell>
+                            <TableCell className="text-sm text-gray-500 whitespace-nowrap">
+                              {submittedAt ? format(new Date(submittedAt), 'MMM dd, yyyy HH:mm') : '-'}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-1">
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <span>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => review(deposit, 'approve')}
+                                        disabled={isOwn || reviewingId === deposit.id}
+                                        className="text-green-600 hover:text-green-800"
+                                      >
+                                        {reviewingId === deposit.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                                      </Button>
+                                    </span>
+                                  </TooltipTrigger>
+                                  <TooltipContent>{isOwn ? ownLabel : 'Approve'}</TooltipContent>
+                                </Tooltip>
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <span>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => openReject(deposit)}
+                                        disabled={isOwn || reviewingId === deposit.id}
+                                        className="text-red-600 hover:text-red-800"
+                                      >
+                                        <X className="w-4 h-4" />
+                                      </Button>
+                                    </span>
+                                  </TooltipTrigger>
+                                  <TooltipContent>{isOwn ? ownLabel : 'Reject'}</TooltipContent>
+                                </Tooltip>
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => setHistoryDeposit(deposit)}
+                                      className="text-gray-600 hover:text-gray-800"
+                                    >
+                                      <History className="w-4 h-4" />
+                                    </Button>
+                                  </TooltipTrigger>
+                                  <TooltipContent>View change history</TooltipContent>
+                                </Tooltip>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+                <TablePagination
+                  currentPage={currentPage}
+                  totalItems={totalCount}
+                  itemsPerPage={itemsPerPage}
+                  onPageChange={setCurrentPage}
+                  onItemsPerPageChange={setItemsPerPage}
+                />
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reject Entry</DialogTitle>
+              <DialogDescription>
+                {rejecting && `${rejecting.submittedByName}'s entry from ${new Date(rejecting.date).toLocaleDateString()} goes back to them with your comment.`}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="reject-comment">Comment</Label>
+              <Textarea
+                id="reject-comment"
+                value={rejectComment}
+                onChange={(e) => setRejectComment(e.target.value)}
+                placeholder="What needs to change?"
+                maxLength={1000}
+                rows={4}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+              <Button
+                className="bg-red-600 hover:bg-red-700 text-white"
+                onClick={() => rejecting && review(rejecting, 'reject', rejectComment.trim())}
+                disabled={!rejectComment.trim() || reviewingId !== null}
+              >
+                {reviewingId !== null && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Reject
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <HistorySheet
+          entityType="deposit"
+          entityId={historyDeposit?.id ?? null}
+          title={historyDeposit ? `Deposit entry from ${new Date(historyDeposit.date).toLocaleDateString()} by ${historyDeposit.submittedByName}` : ''}
+          onClose={() => setHistoryDeposit(null)}
+        />
+      </div>
+    </TooltipProvider>
+  );
+}
@@ -28,19 +28,22 @@ import {
   RotateCcw, 
   Trash2,
   Filter,
-  X
+  X,
+  Loader2
 } from 'lucide-react';
 import { useAdmin, Staff, UserRole } from './admin-context-new';
+import * as api from '../utils/api';
 import { toast } from 'sonner@2.0.3';
 import { TablePagination } from './table-pagination';
 
 export function ArchivedPage() {
-  const { staff, setStaff } = useAdmin();
+  const { staff, loadData } = useAdmin();
   const [searchTerm, setSearchTerm] = useState('');
   const [filterRole, setFilterRole] = useState<UserRole | 'all'>('all');
   const [currentPage, setCurrentPageState] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(10);
   const [selectedMember, setSelectedMember] = useState<Staff | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
 
   // Filter to show only archived staff
   const archivedStaff = useMemo(() => {
@@ -70,19 +73,35 @@ export function ArchivedPage() {
     setCurrentPageState(1);
   };
 
-  const handleRestore = (memberId: string) => {
-    setStaff(staff.map(member => 
-      member.id === memberId 
-        ? { ...member, isArchived: false, archivedAt: undefined }
-        : member
-    ));
-    toast.success('Staff member restored successfully');
+  const handleRestore = async (member: Staff) => {
+    if (busyId) return;
+    setBusyId(member.id);
+    try {
+      await api.restoreStaff(member.id);
+      await loadData();
+      toast.success(`${member.name} restored and can log in again`);
+    } catch (error: any) {
+      console.error('Restore staff error:', error);
+      toast.error(error.message || 'Failed to restore staff member');
+    } finally {
+      setBusyId(null);
+    }
   };
 
-  const handlePermanentDelete = (memberId: string) => {
-    setStaff(staff.filter(member => member.id !== memberId));
-    setSelectedMember(null);
-    toast.success('Staff member permanently deleted');
+  const handlePermanentDelete = async (member: Staff) => {
+    if (busyId) return;
+    setBusyId(member.id);
+    try {
+      await api.purgeStaff(member.id);
+      await loadData();
+      setSelectedMember(null);
+      toast.success('Staff member permanently deleted');
+    } catch (error: any) {
+      console.error('Purge staff error:', error);
+      toast.error(error.message || 'Failed to delete staff member');
+    } finally {
+      setBusyId(null);
+    }
   };
 
   const getRoleBadge = (role: UserRole) => {
@@ -107,7 +126,7 @@ export function ArchivedPage() {
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Archived Staff</h1>
-          <p className="text-gray-600 mt-1">Manage archived team members - restore or permanently delete.</p>
+          <p className="text-gray-600 mt-1">Archived members cannot log in. Restore them with their previous role and permissions, or delete them permanently.</p>
         </div>
       </div>
 
@@ -215,14 +234,14 @@ export function ArchivedPage() {
                     <TableCell>
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
-                          <Button variant="ghost" className="h-8 w-8 p-0">
-                            <MoreHorizontal className="h-4 w-4" />
+                          <Button variant="ghost" className="h-8 w-8 p-0" disabled={busyId === member.id}>
+                            {busyId === member.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <MoreHorizontal className="h-4 w-4" />}
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
                           <DropdownMenuItem 
                             className="cursor-pointer text-green-600"
-                            onClick={() => handleRestore(member.id)}
+                            onClick={() => handleRestore(member)}
                           >
                             <RotateCcw className="mr-2 h-4 w-4" />
                             Restore
@@ -244,7 +263,7 @@ export function ArchivedPage() {
                               <AlertDialogHeader>
                                 <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                                 <AlertDialogDescription>
-                                  This action cannot be undone. This will permanently delete {selectedMember?.name}'s account and remove all of their data from our servers.
+                                  This action cannot be undone. This will permanently delete {selectedMember?.name}'s staff record and login. Entries and activity they recorded keep their name.
                                 </AlertDialogDescription>
                               </AlertDialogHeader>
                               <AlertDialogFooter>
@@ -252,7 +271,7 @@ export function ArchivedPage() {
                                   Cancel
                                 </AlertDialogCancel>
                                 <AlertDialogAction 
-                                  onClick={() => selectedMember && handlePermanentDelete(selectedMember.id)}
+                                  onClick={() => selectedMember && handlePermanentDelete(selectedMember)}
                                   className="bg-red-600 hover:bg-red-700"
                                 >
                                   Permanently Delete
@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from './ui/sheet';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Button } from './ui/button';
+import { Wallet } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import * as api from '../utils/api';
+import { formatCurrency } from '../utils/currency';
+import { TableSkeleton } from './shimmer-skeleton';
+import { bankCurrency, type Bank, type BankLedger } from '../supabase/functions/server/contract';
+
+interface BankLedgerSheetProps {
+  bank: Bank | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Running balance of one bank as the server computes it, oldest transaction first
+export function BankLedgerSheet({ bank, onOpenChange }: BankLedgerSheetProps) {
+  const [ledger, setLedger] = useState<BankLedger | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!bank) {
+      setLedger(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    api.getBankLedger(bank.id)
+      .then((result) => {
+        if (!cancelled) setLedger(result);
+      })
+      .catch((error: any) => {
+        console.error('Load bank ledger error:', error);
+        if (!cancelled) toast.error(error.message || 'Failed to load bank ledger');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [bank?.id]);
+
+  const balanceClass = (value: number) => (value < 0 ? 'text-red-700' : 'text-gray-900');
+  const currency = bankCurrency(bank);
+
+  return (
+    <Sheet open={!!bank} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="sm:max-w-[800px] w-full p-0 flex flex-col h-full">
+        <div className="px-6 pt-6 pb-5 border-b flex-shrink-0 bg-white">
+          <SheetHeader>
+            <SheetTitle className="text-xl text-left">{bank?.name} Ledger</SheetTitle>
+            <SheetDescription className="text-sm text-left">
+              Balances are recalculated by the server from deposit - withdraw + P&L in date order
+            </SheetDescription>
+          </SheetHeader>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-6 bg-gray-50 space-y-4">
+          {isLoading || !ledger ? (
+            <TableSkeleton rows={8} />
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="bg-white border rounded-lg p-4">
+                  <p className="text-xs font-medium text-gray-500 uppercase">Opening Balance</p>
+                  <p className={`text-lg font-semibold ${balanceClass(ledger.openingBalance)}`}>{formatCurrency(ledger.openingBalance, currency)}</p>
+                </div>
+                <div className="bg-white border rounded-lg p-4">
+                  <p className="text-xs font-medium text-gray-500 uppercase">Closing Balance</p>
+                  <p className={`text-lg font-semibold ${balanceClass(ledger.closingBalance)}`}>{formatCurrency(ledger.closingBalance, currency)}</p>
+                </div>
+              </div>
+
+              <div className="bg-white border rounded-xl overflow-hidden shadow-sm">
+                {ledger.entries.length > 0 ? (
+                  <Table>
+                    <TableHeader className="bg-gray-50">
+                      <TableRow>
+                        <TableHead className="font-semibold text-gray-700">Date</TableHead>
+                        <TableHead className="font-semibold text-gray-700">Submitted By</TableHead>
+                        <TableHead className="font-semibold text-gray-700 text-right">Deposit</TableHead>
+                        <TableHead className="font-semibold text-gray-700 text-right">Withdraw</TableHead>
+                        <TableHead className="font-semibold text-gray-700 text-right">P&L</TableHead>
+                        <TableHead className="font-semibold text-gray-700 text-right">Balance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {ledger.entries.map((entry) => (
+                        <TableRow key={entry.id}>
+                          <TableCell className="text-sm">{format(new Date(`${entry.date}T00:00:00`), 'MMM dd, yyyy')}</TableCell>
+                          <TableCell className="text-sm text-gray-600">{entry.submittedByName}</TableCell>
+                          <TableCell className="text-sm text-right text-green-700">{formatCurrency(entry.deposit || 0, currency)}</TableCell>
+                          <TableCell className="text-sm text-right text-red-700">{formatCurrency(entry.withdraw || 0, currency)}</TableCell>
+                          <TableCell className="text-sm text-right">{entry.pnl ? formatCurrency(entry.pnl, currency) : '-'}</TableCell>
+                          <TableCell className={`text-sm text-right font-semibold ${balanceClass(entry.balance)}`}>{formatCurrency(entry.balance, currency)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <div className="text-center py-12 px-4">
+                    <Wallet className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                    <p className="text-sm font-medium text-gray-900">No transactions for this bank yet</p>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end px-6 py-5 border-t bg-white flex-shrink-0">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="h-11 px-8 min-w-[120px] border-gray-300 hover:bg-gray-50"
+          >
+            Close
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -4,10 +4,19 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Eye, EyeOff, CheckCircle } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
 import { useAdmin } from './admin-context-new';
+import { PasswordRequirements, meetsPasswordPolicy, usePasswordPolicy } from './password-requirements';
+import * as api from '../utils/api';
+import { ApiError } from '../utils/api';
 
+// Last step of forgot password, and the only page available to a signed-in member who must change their
+// password (`passwordChangeRequired`); the latter also asks for the current password
 export function ChangePasswordPage() {
-  const { setCurrentPage } = useAdmin();
+  const { setCurrentPage, otpData, setOtpData, passwordChangeRequired, completePasswordChange, logout } = useAdmin();
+  const resetToken = otpData?.purpose === 'forgot-password' ? otpData.resetToken : undefined;
+  const policy = usePasswordPolicy();
+  const [currentPassword, setCurrentPassword] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -17,22 +26,62 @@ export function ChangePasswordPage() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (password !== confirmPassword) {
-      alert('Passwords do not match');
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    if (passwordChangeRequired) {
+      setIsLoading(true);
+      try {
+        await api.changePassword(currentPassword, password);
+        toast.success('Password changed successfully');
+        await completePasswordChange();
+      } catch (error: any) {
+        console.error('Change password error:', error);
+        toast.error(error.message || 'Failed to change password');
+      } finally {
+        setIsLoading(false);
+      }
+      return;
+    }
+
+    if (!resetToken) {
+      toast.error('Please verify your email with a code first');
+      setCurrentPage('forgot-password');
       return;
     }
     
     setIsLoading(true);
-    
-    // Simulate API call
-    setTimeout(() => {
+
+    try {
+      await api.resetPassword(resetToken, password);
+      setOtpData(null);
+      toast.success('Password changed successfully! Please log in with your new password.');
       setCurrentPage('login');
+    } catch (error: any) {
+      console.error('Reset password error:', error);
+      toast.error(error.message || 'Failed to reset password');
+      // The token is spent or expired; start over with a new code
+      if (error instanceof ApiError && error.code === 'RESET_TOKEN_INVALID') {
+        setOtpData(null);
+        setCurrentPage('forgot-password');
+      }
+    } finally {
       setIsLoading(false);
-      alert('Password changed successfully! Please log in with your new password.');
-    }, 1000);
+    }
+  };
+
+  const handleCancel = () => {
+    if (passwordChangeRequired) {
+      logout();
+      return;
+    }
+    setOtpData(null);
+    setCurrentPage('login');
   };
 
   const passwordsMatch = password && confirmPassword && password === confirmPassword;
-  const isFormValid = password.length >= 8 && passwordsMatch;
+  const isFormValid = meetsPasswordPolicy(password, policy) && passwordsMatch && (!passwordChangeRequired || currentPassword.length > 0);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-[#6a40ec] to-[#8b5cf6] flex items-center justify-center p-4">
@@ -44,13 +93,30 @@ export function ChangePasswordPage() {
                 <span className="text-white font-bold text-lg">Your Logo</span>
               </div>
             </div>
-            <CardTitle className="text-2xl text-gray-800">Set New Password</CardTitle>
+            <CardTitle className="text-2xl text-gray-800">
+              {passwordChangeRequired ? 'Change Your Password' : 'Set New Password'}
+            </CardTitle>
             <CardDescription className="text-gray-600">
-              Create a new secure password for your account
+              {passwordChangeRequired || 'Create a new secure password for your account'}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
+              {passwordChangeRequired && (
+                <div>
+                  <Label htmlFor="currentPassword" className="mb-2 block">Current Password</Label>
+                  <Input
+                    id="currentPassword"
+                    type="password"
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                    placeholder="Enter current password"
+                    autoComplete="current-password"
+                    required
+                  />
+                </div>
+              )}
+
               <div>
                 <Label htmlFor="password" className="mb-2 block">New Password</Label>
                 <div className="relative">
@@ -60,6 +126,7 @@ export function ChangePasswordPage() {
                     value={password}
                     onChange={(e) => setPassword(e.target.value)}
                     placeholder="Enter new password"
+                    autoComplete="new-password"
                     required
                     className="pr-10"
                   />
@@ -71,9 +138,6 @@ export function ChangePasswordPage() {
                     {showPassword ? <EyeOff size={20} /> : <Eye size={20} />}
                   </button>
                 </div>
-                <p className="text-xs text-gray-500 mt-1">
-                  Password must be at least 8 characters
-                </p>
               </div>
 
               <div>
@@ -107,10 +171,7 @@ export function ChangePasswordPage() {
               <div className="space-y-2">
                 <div className="text-xs text-gray-600">Password requirements:</div>
                 <div className="space-y-1">
-                  <div className={`flex items-center text-xs ${password.length >= 8 ? 'text-green-600' : 'text-gray-400'}`}>
-                    <CheckCircle size={12} className="mr-2" />
-                    At least 8 characters
-                  </div>
+                  <PasswordRequirements password={password} policy={policy} />
                   <div className={`flex items-center text-xs ${passwordsMatch ? 'text-green-600' : 'text-gray-400'}`}>
                     <CheckCircle size={12} className="mr-2" />
                     Passwords match
@@ -130,9 +191,9 @@ export function ChangePasswordPage() {
                 type="button"
                 variant="ghost"
                 className="w-full"
-                onClick={() => setCurrentPage('login')}
+                onClick={handleCancel}
               >
-                Cancel
+                {passwordChangeRequired ? 'Log Out' : 'Cancel'}
               </Button>
             </form>
           </CardContent>
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import * as api from '../utils/api';
+import type { CurrencySettings } from '../supabase/functions/server/contract';
+
+// The currency settings, or null until they have loaded
+export function useCurrencySettings(): CurrencySettings | null {
+  const [settings, setSettings] = useState<CurrencySettings | null>(null);
+
+  useEffect(() => {
+    api.getCurrencySettings()
+      .then((data) => setSettings(data.settings))
+      .catch((error) => console.error('Load currency settings error:', error));
+  }, []);
+
+  return settings;
+}
+
+interface CurrencySelectProps {
+  value: string;
+  onChange: (currency: string) => void;
+  // Offered codes; the current value stays selectable even if it was removed from the list since
+  currencies: string[];
+  id?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function CurrencySelect({ value, onChange, currencies, id, disabled, className = 'w-[100px]' }: CurrencySelectProps) {
+  const options = currencies.includes(value) ? currencies : [value, ...currencies];
+
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((currency) => (
+          <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -2,6 +2,8 @@ import { useState, useMemo, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
@@ -10,14 +12,46 @@ import {
 } from './ui/dropdown-menu';
 import { Calendar } from './ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
-import { Users, UserPlus, Activity, DollarSign, Clock, Shield, TrendingUp, Wallet, Calculator, Filter, CalendarIcon, X, ArrowDownCircle, Receipt, Gift } from 'lucide-react';
+import { Users, UserPlus, Activity, DollarSign, Clock, Shield, TrendingUp, Wallet, Calculator, Filter, CalendarIcon, X, ArrowDownCircle, Receipt, Gift, AlertTriangle } from 'lucide-react';
 import { useAdmin } from './admin-context-new';
 import { format } from 'date-fns';
 import { MetricsSkeleton, TableSkeleton, ListSkeleton } from './shimmer-skeleton';
-import { supabase } from './admin-context-new';
-import { projectId } from '../utils/supabase/info';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from './ui/chart';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts@2.15.2';
+import * as api from '../utils/api';
 import { toast } from 'sonner@2.0.3';
 import { formatCurrency } from '../utils/currency';
+import { presetDateBounds, rangeDateBounds } from '../utils/date-range';
+import type { DashboardMetricsResponse, MetricsInterval, MetricsSeriesPoint } from '../supabase/functions/server/contract';
+
+const flowChartConfig = {
+  deposits: { label: 'Deposits', color: '#6a40ec' },
+  withdrawals: { label: 'Withdrawals', color: '#ef4444' },
+} satisfies ChartConfig;
+
+const profitChartConfig = {
+  expenses: { label: 'Expenses', color: '#f59e0b' },
+  incentives: { label: 'Incentives', color: '#ec4899' },
+  netProfit: { label: 'Net Profit', color: '#10b981' },
+} satisfies ChartConfig;
+
+const INTERVAL_LABELS: Record<MetricsInterval, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+// Series periods are the first day of the bucket (`YYYY-MM-DD`)
+function formatPeriod(period: string, interval: MetricsInterval) {
+  const date = new Date(`${period}T00:00:00`);
+  if (interval === 'month') return format(date, 'MMM yyyy');
+  if (interval === 'week') return `Week of ${format(date, 'MMM dd')}`;
+  return format(date, 'MMM dd');
+}
+
+function formatAxisAmount(value: number) {
+  return Math.abs(value) >= 1000 ? `${(value / 1000).toFixed(0)}k` : String(value);
+}
 
 export function DashboardPage() {
   const { user, setCurrentPage, canViewDashboardExtras, canAccessStaffManagement, activityLogs, canViewAllEntries, isLoading: contextLoading } = useAdmin();
@@ -44,6 +78,10 @@ export function DashboardPage() {
     to: undefined
   });
   const [isCustomDateOpen, setIsCustomDateOpen] = useState(false);
+  // 'auto' lets the server pick the bucket size from the length of the range
+  const [seriesInterval, setSeriesInterval] = useState<MetricsInterval | 'auto'>('auto');
+  // Only approved deposit entries count unless this is on
+  const [includeUnapproved, setIncludeUnapproved] = useState(false);
 
   // Metrics state (fetched from backend)
   const [metrics, setMetrics] = useState({
@@ -59,6 +97,18 @@ export function DashboardPage() {
   const [counts, setCounts] = useState({
     depositsCount: 0,
     withdrawalsCount: 0,
+    pendingDepositsCount: 0,
+  });
+
+  const [series, setSeries] = useState<{ interval: MetricsInterval; points: MetricsSeriesPoint[] }>({
+    interval: 'month',
+    points: [],
+  });
+
+  // Every amount on the page is converted to the reporting currency
+  const [currency, setCurrency] = useState<DashboardMetricsResponse['currency']>({
+    reportingCurrency: 'USD',
+    missingRates: [],
   });
 
   const [isLoading, setIsLoading] = useState(true);
@@ -66,68 +116,24 @@ export function DashboardPage() {
   // Fetch metrics from backend API
   const fetchMetrics = async () => {
     setIsLoading(true);
-    let session = null;
     try {
-      // Use the singleton supabase client from admin context
-      const { data: sessionData } = await supabase.auth.getSession();
-      session = sessionData.session;
-      
-      if (!session?.access_token) {
-        console.error('No active session for dashboard metrics');
-        setIsLoading(false);
-        return;
-      }
-
-      // Build query parameters
-      const params = new URLSearchParams();
-      
-      if (customDateRange.from || customDateRange.to) {
-        if (customDateRange.from) {
-          params.append('dateFrom', customDateRange.from.toISOString().split('T')[0]);
-        }
-        if (customDateRange.to) {
-          params.append('dateTo', customDateRange.to.toISOString().split('T')[0]);
-        }
-      } else if (dateFilter !== 'all') {
-        params.append('dateFilter', dateFilter);
-      }
+      // Bounds are computed here so presets follow the user's calendar day rather than the server's
+      const bounds = customDateRange.from || customDateRange.to
+        ? rangeDateBounds(customDateRange.from, customDateRange.to)
+        : presetDateBounds(dateFilter);
 
-      // Fetch from backend
-      const baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-63060bc2/dashboard/metrics`;
-      const queryString = params.toString();
-      const url = queryString ? `${baseUrl}?${queryString}` : baseUrl;
-      
-      console.log('Fetching dashboard metrics from:', url);
-      
-      const response = await fetch(url, {
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-        },
+      const data = await api.getDashboardMetrics({
+        ...bounds,
+        interval: seriesInterval === 'auto' ? undefined : seriesInterval,
+        includeUnapproved: includeUnapproved ? 'true' : undefined,
       });
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-        throw new Error(errorData.error || 'Failed to fetch metrics');
-      }
-
-      const data = await response.json();
-      
-      if (!data.success) {
-        throw new Error(data.error || 'Failed to fetch metrics');
-      }
-      
       setMetrics(data.metrics);
       setCounts(data.counts);
-      
+      setSeries(data.series);
+      setCurrency(data.currency);
     } catch (error: any) {
       console.error('Error fetching dashboard metrics:', error);
-      console.error('Error details:', {
-        message: error.message,
-        projectId,
-        hasSession: !!session?.access_token,
-        dateFilter,
-        customDateRange
-      });
       toast.error(`Failed to load dashboard metrics: ${error.message}`);
     } finally {
       setIsLoading(false);
@@ -137,7 +143,7 @@ export function DashboardPage() {
   // Fetch on mount and when filters change
   useEffect(() => {
     fetchMetrics();
-  }, [dateFilter, customDateRange]);
+  }, [dateFilter, customDateRange, seriesInterval, includeUnapproved]);
 
   const clearCustomDateRange = () => {
     setCustomDateRange({ from: undefined, to: undefined });
@@ -149,7 +155,7 @@ export function DashboardPage() {
   const stats = [
     {
       title: 'Total Withdrawals',
-      value: formatCurrency(metrics.totalWithdrawals),
+      value: formatCurrency(metrics.totalWithdrawals, currency.reportingCurrency),
       change: counts.withdrawalsCount > 0 ? `${counts.withdrawalsCount} transactions` : 'No withdrawals',
       changeType: 'negative',
       icon: ArrowDownCircle,
@@ -157,7 +163,7 @@ export function DashboardPage() {
     },
     {
       title: 'Total Deposits',
-      value: formatCurrency(metrics.totalDeposits),
+      value: formatCurrency(metrics.totalDeposits, currency.reportingCurrency),
       change: counts.depositsCount > 0 ? `${counts.depositsCount} entries` : 'No data',
       changeType: 'neutral',
       icon: DollarSign,
@@ -165,15 +171,15 @@ export function DashboardPage() {
     },
     {
       title: 'Total Company Expenses',
-      value: formatCurrency(metrics.totalCompanyExpenses),
-      change: metrics.totalCompanyExpenses > 0 ? `${formatCurrency(metrics.totalCompanyExpenses)} spent` : 'No expenses',
+      value: formatCurrency(metrics.totalCompanyExpenses, currency.reportingCurrency),
+      change: metrics.totalCompanyExpenses > 0 ? `${formatCurrency(metrics.totalCompanyExpenses, currency.reportingCurrency)} spent` : 'No expenses',
       changeType: 'negative',
       icon: Receipt,
       description: 'All company operational expenses',
     },
     {
       title: 'Total Balance',
-      value: formatCurrency(metrics.totalBalance),
+      value: formatCurrency(metrics.totalBalance, currency.reportingCurrency),
       change: metrics.totalBalance > 0 ? '+' + ((metrics.totalBalance / (metrics.totalDeposits || 1)) * 100).toFixed(1) + '%' : '0%',
       changeType: metrics.totalBalance > 0 ? 'positive' : 'neutral',
       icon: Wallet,
@@ -181,15 +187,15 @@ export function DashboardPage() {
     },
     {
       title: 'Total Client Incentives',
-      value: formatCurrency(metrics.totalClientIncentives),
-      change: metrics.totalClientIncentives > 0 ? `${formatCurrency(metrics.totalClientIncentives)} paid` : 'No incentives',
+      value: formatCurrency(metrics.totalClientIncentives, currency.reportingCurrency),
+      change: metrics.totalClientIncentives > 0 ? `${formatCurrency(metrics.totalClientIncentives, currency.reportingCurrency)} paid` : 'No incentives',
       changeType: 'negative',
       icon: Gift,
       description: 'All client incentive payments',
     },
     {
       title: 'Balance (Excluding Expenses)',
-      value: formatCurrency(metrics.balanceExcludingExpenses),
+      value: formatCurrency(metrics.balanceExcludingExpenses, currency.reportingCurrency),
       change: metrics.balanceExcludingExpenses > 0 ? '+' + ((metrics.balanceExcludingExpenses / (metrics.totalBalance || 1)) * 100).toFixed(1) + '%' : '0%',
       changeType: metrics.balanceExcludingExpenses > 0 ? 'positive' : 'negative',
       icon: Calculator,
@@ -197,7 +203,7 @@ export function DashboardPage() {
     },
     {
       title: 'Net Profit',
-      value: formatCurrency(metrics.netProfit),
+      value: formatCurrency(metrics.netProfit, currency.reportingCurrency),
       change: metrics.netProfit > 0 ? '+' + ((metrics.netProfit / (metrics.balanceExcludingExpenses || 1)) * 100).toFixed(1) + '%' : '0%',
       changeType: metrics.netProfit > 0 ? 'positive' : 'negative',
       icon: TrendingUp,
@@ -296,6 +302,19 @@ export function DashboardPage() {
             <p className="text-sm md:text-base text-gray-600 mt-1">Overview of deposits, withdrawals, expenses, and profit.</p>
           </div>
           <div className="flex flex-wrap items-center gap-2 md:gap-3">
+            {/* Entries awaiting review */}
+            <div className="flex items-center gap-2 mr-1">
+              <Switch id="include-unapproved" checked={includeUnapproved} onCheckedChange={setIncludeUnapproved} />
+              <Label htmlFor="include-unapproved" className="text-sm text-gray-700 cursor-pointer">
+                Include unapproved
+                {counts.pendingDepositsCount > 0 && (
+                  <Badge variant="outline" className="ml-2 bg-yellow-100 text-yellow-800 border-yellow-200">
+                    {counts.pendingDepositsCount} pending
+                  </Badge>
+                )}
+              </Label>
+            </div>
+
             {/* Quick Date Filter */}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -411,6 +430,16 @@ export function DashboardPage() {
         </div>
       </div>
 
+      {currency.missingRates.length > 0 && (
+        <div className="flex items-start gap-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>
+            No exchange rate for {currency.missingRates.join(', ')}; those amounts are left out of the totals.
+            Add the rates under Exchange Rates.
+          </span>
+        </div>
+      )}
+
       {/* Financial Stats Grid - 7 Cards */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
         {stats.map((stat) => {
@@ -456,6 +485,105 @@ export function DashboardPage() {
         })}
       </div>
 
+      {/* Trends */}
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-900">Trends</h2>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="justify-between">
+              {seriesInterval === 'auto' ? `Auto (${INTERVAL_LABELS[series.interval]})` : INTERVAL_LABELS[seriesInterval]}
+              <Filter className="ml-2 h-3 w-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {(['auto', 'day', 'week', 'month'] as const).map((option) => (
+              <DropdownMenuItem
+                key={option}
+                onClick={() => setSeriesInterval(option)}
+                className={seriesInterval === option ? 'bg-gray-100' : ''}
+              >
+                {option === 'auto' ? 'Auto' : INTERVAL_LABELS[option]}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Deposits & Withdrawals</CardTitle>
+            <CardDescription>{INTERVAL_LABELS[series.interval]} totals for the selected period</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {series.points.length > 0 ? (
+              <ChartContainer config={flowChartConfig} className="aspect-auto h-[280px] w-full">
+                <BarChart data={series.points}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="period"
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    minTickGap={24}
+                    tickFormatter={(period) => formatPeriod(period, series.interval)}
+                  />
+                  <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={formatAxisAmount} />
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(period) => formatPeriod(String(period), series.interval)} />}
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="deposits" fill="var(--color-deposits)" radius={4} />
+                  <Bar dataKey="withdrawals" fill="var(--color-withdrawals)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            ) : (
+              <div className="text-center py-8 text-gray-500">
+                <TrendingUp className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                <p>No transactions in this period</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Expenses, Incentives & Net Profit</CardTitle>
+            <CardDescription>Net profit is deposits less withdrawals, expenses and incentives</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {series.points.length > 0 ? (
+              <ChartContainer config={profitChartConfig} className="aspect-auto h-[280px] w-full">
+                <LineChart data={series.points}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="period"
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    minTickGap={24}
+                    tickFormatter={(period) => formatPeriod(period, series.interval)}
+                  />
+                  <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={formatAxisAmount} />
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(period) => formatPeriod(String(period), series.interval)} />}
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line type="monotone" dataKey="expenses" stroke="var(--color-expenses)" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="incentives" stroke="var(--color-incentives)" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="netProfit" stroke="var(--color-netProfit)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <div className="text-center py-8 text-gray-500">
+                <TrendingUp className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                <p>No transactions in this period</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Recent Financial Activity - Only show for admin/manager roles */}
       {canViewDashboardExtras() && (
         <Card>
@@ -0,0 +1,47 @@
+import { Badge } from './ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
+import { format } from 'date-fns';
+import { depositStatus, type DepositEntry, type DepositStatus } from '../supabase/functions/server/contract';
+
+const STATUS_STYLES: Record<DepositStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700 border-gray-200',
+  submitted: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  approved: 'bg-green-100 text-green-700 border-green-200',
+  rejected: 'bg-red-100 text-red-700 border-red-200',
+};
+
+const STATUS_LABELS: Record<DepositStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Awaiting review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+// Approval status of a deposit entry; the tooltip names the reviewer and their comment
+export function DepositStatusBadge({ deposit }: { deposit: DepositEntry }) {
+  const status = depositStatus(deposit);
+  const badge = (
+    <Badge variant="outline" className={`${STATUS_STYLES[status]} whitespace-nowrap`}>
+      {STATUS_LABELS[status]}
+    </Badge>
+  );
+
+  if (!deposit.reviewedByName) {
+    return badge;
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="cursor-help">{badge}</span>
+      </TooltipTrigger>
+      <TooltipContent>
+        <div className="text-sm">
+          {STATUS_LABELS[status]} by {deposit.reviewedByName}
+          {deposit.reviewedAt && ` on ${format(new Date(deposit.reviewedAt), 'MMM dd, yyyy HH:mm')}`}
+        </div>
+        {deposit.reviewComment && <div className="text-xs opacity-80 mt-1 max-w-xs">{deposit.reviewComment}</div>}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
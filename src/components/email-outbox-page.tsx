@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
+import { TableSkeleton } from './shimmer-skeleton';
+import { Mail, RefreshCw, Send } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import * as api from '../utils/api';
+import type { OutboxEmail, OutboxEmailStatus } from '../supabase/functions/server/contract';
+
+const STATUS_STYLES: Record<OutboxEmailStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  sent: 'bg-green-100 text-green-700 border-green-200',
+  failed: 'bg-red-100 text-red-700 border-red-200',
+};
+
+// Kind is the key of the template the message was rendered from
+const KIND_LABELS: Record<string, string> = {
+  welcome: 'Welcome',
+  invite: 'Staff invitation',
+  otp: 'Password reset code',
+  'new-login': 'New sign-in alert',
+  test: 'Template test',
+};
+
+export function EmailOutboxPage() {
+  const [statusFilter, setStatusFilter] = useState<OutboxEmailStatus | 'all'>('failed');
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [counts, setCounts] = useState<Record<OutboxEmailStatus, number>>({ pending: 0, sent: 0, failed: 0 });
+  const [isLoading, setIsLoading] = useState(true);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+
+  const loadEmails = async () => {
+    setIsLoading(true);
+    try {
+      const data = await api.getEmailOutbox(statusFilter === 'all' ? undefined : statusFilter);
+      setEmails(data.emails);
+      setCounts(data.counts);
+    } catch (error: any) {
+      console.error('Load email outbox error:', error);
+      toast.error(error.message || 'Failed to load email outbox');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEmails();
+  }, [statusFilter]);
+
+  const handleResend = async (email: OutboxEmail) => {
+    setResendingId(email.id);
+    try {
+      const { email: result } = await api.resendOutboxEmail(email.id);
+      if (result.status === 'sent') {
+        toast.success(`Email to ${email.to} sent`);
+      } else {
+        toast.error(`Email to ${email.to} could not be sent${result.lastError ? `: ${result.lastError}` : ''}. It will be retried automatically.`);
+      }
+      await loadEmails();
+    } catch (error: any) {
+      console.error('Resend email error:', error);
+      toast.error(error.message || 'Failed to resend email');
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  return (
+    <TooltipProvider>
+      <div className="p-4 md:p-6 space-y-4 md:space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Email Outbox</h1>
+            <p className="text-sm md:text-base text-gray-600 mt-1">
+              Outgoing emails with their delivery attempts. Pending emails are retried automatically.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as OutboxEmailStatus | 'all')}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="failed">Failed ({counts.failed})</SelectItem>
+                <SelectItem value="pending">Pending ({counts.pending})</SelectItem>
+                <SelectItem value="sent">Sent ({counts.sent})</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={loadEmails} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Emails</CardTitle>
+            <CardDescription>Message bodies are not shown; sent messages keep only their delivery log</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <TableSkeleton rows={6} columns={7} />
+            ) : emails.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                <Mail className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                <p>No {statusFilter === 'all' ? '' : `${statusFilter} `}emails</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Created</TableHead>
+                      <TableHead>Recipient</TableHead>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Attempts</TableHead>
+                      <TableHead>Provider / Error</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {emails.map((email) => (
+                      <TableRow key={email.id}>
+                        <TableCell className="text-sm whitespace-nowrap">{format(new Date(email.createdAt), 'MMM dd, yyyy HH:mm')}</TableCell>
+                        <TableCell className="text-sm">{email.to}</TableCell>
+                        <TableCell className="text-sm">
+                          <p className="truncate max-w-[240px]">{email.subject}</p>
+                          <p className="text-xs text-gray-500">{KIND_LABELS[email.kind] || email.kind}</p>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={`capitalize ${STATUS_STYLES[email.status]}`}>{email.status}</Badge>
+                          {email.status === 'pending' && email.nextAttemptAt && (
+                            <p className="text-xs text-gray-500 mt-1">Next try {format(new Date(email.nextAttemptAt), 'HH:mm')}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{email.attempts}</TableCell>
+                        <TableCell className="text-sm">
+                          <p>{email.provider || 'No provider configured'}</p>
+                          {email.lastError && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <p className="text-xs text-red-600 truncate max-w-[240px] cursor-help">{email.lastError}</p>
+                              </TooltipTrigger>
+                              <TooltipContent className="max-w-sm">
+                                {email.deliveryLog.map((attempt) => (
+                                  <p key={attempt.at} className="text-xs">
+                                    {format(new Date(attempt.at), 'MMM dd HH:mm')} · {attempt.provider || 'none'} · {attempt.ok ? 'sent' : attempt.error}
+                                  </p>
+                                ))}
+                              </TooltipContent>
+                            </Tooltip>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {email.status === 'failed' && !email.bodyRemoved && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleResend(email)}
+                              disabled={resendingId === email.id}
+                              className="border-[#6a40ec] text-[#6a40ec] hover:bg-[#6a40ec] hover:text-white"
+                            >
+                              <Send className="w-3.5 h-3.5 mr-1.5" />
+                              {resendingId === email.id ? 'Sending...' : 'Resend'}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </TooltipProvider>
+  );
+}
@@ -0,0 +1,485 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { TableSkeleton } from './shimmer-skeleton';
+import { FieldError } from './field-error';
+import { useDeleteConfirmation } from './use-delete-confirmation';
+import { Eye, FileText, Plus, RotateCcw, Save, Send, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import * as api from '../utils/api';
+import { ApiError } from '../utils/api';
+import type {
+  EmailTemplate,
+  EmailTemplateInput,
+  EmailTemplatePreview,
+  FieldErrors,
+} from '../supabase/functions/server/contract';
+
+// Only the editable fields; the server rejects unknown ones
+const toInput = (template: EmailTemplate): EmailTemplateInput => ({
+  name: template.name,
+  description: template.description || undefined,
+  subject: template.subject,
+  html: template.html,
+  text: template.text,
+  variables: template.variables.map((variable) => ({ ...variable })),
+});
+
+const STARTER_TEMPLATE = {
+  html: '<p>Hi {{name}},</p>\n\n<p></p>\n\n<p>– The Fliptrade Group Team</p>',
+  text: 'Hi {{name}},\n\n\n\n– The Fliptrade Group Team',
+  variables: [{ name: 'name', description: 'Recipient name', sample: 'Jane Doe' }],
+};
+
+export function EmailTemplatesPage() {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<EmailTemplateInput | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSendingTest, setIsSendingTest] = useState(false);
+  const [preview, setPreview] = useState<EmailTemplatePreview | null>(null);
+  const [showNewDialog, setShowNewDialog] = useState(false);
+  const [newTemplate, setNewTemplate] = useState({ id: '', name: '' });
+  const [newTemplateErrors, setNewTemplateErrors] = useState<FieldErrors>({});
+  const { showConfirmation, DeleteConfirmationDialog } = useDeleteConfirmation();
+
+  const selected = templates.find((template) => template.id === selectedId) || null;
+
+  const selectTemplate = (template: EmailTemplate) => {
+    setSelectedId(template.id);
+    setForm(toInput(template));
+    setFieldErrors({});
+  };
+
+  const replaceTemplate = (template: EmailTemplate) => {
+    setTemplates((prev) => {
+      const exists = prev.some((item) => item.id === template.id);
+      return exists ? prev.map((item) => (item.id === template.id ? template : item)) : [...prev, template];
+    });
+    selectTemplate(template);
+  };
+
+  const loadTemplates = async () => {
+    setIsLoading(true);
+    try {
+      const { templates: loaded } = await api.getEmailTemplates();
+      setTemplates(loaded);
+      if (loaded.length > 0 && !selectedId) {
+        selectTemplate(loaded[0]);
+      }
+    } catch (error: any) {
+      console.error('Load email templates error:', error);
+      toast.error(error.message || 'Failed to load email templates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const showErrors = (error: any, fallback: string) => {
+    if (error instanceof ApiError && error.fields) {
+      setFieldErrors(error.fields);
+    }
+    toast.error(error.message || fallback);
+  };
+
+  const updateField = <K extends keyof EmailTemplateInput>(field: K, value: EmailTemplateInput[K]) => {
+    setForm((prev) => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const updateVariable = (index: number, field: 'name' | 'description' | 'sample', value: string) => {
+    if (!form) return;
+    updateField('variables', form.variables.map((variable, i) => (i === index ? { ...variable, [field]: value } : variable)));
+  };
+
+  const handleSave = async () => {
+    if (!form || !selectedId) return;
+    setIsSaving(true);
+    setFieldErrors({});
+    try {
+      const { template } = await api.updateEmailTemplate(selectedId, form);
+      replaceTemplate(template);
+      toast.success('Template saved');
+    } catch (error: any) {
+      console.error('Save email template error:', error);
+      showErrors(error, 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!form) return;
+    setFieldErrors({});
+    try {
+      const { preview: rendered } = await api.previewEmailTemplate(form);
+      setPreview(rendered);
+    } catch (error: any) {
+      console.error('Preview email template error:', error);
+      showErrors(error, 'Failed to preview template');
+    }
+  };
+
+  const handleSendTest = async () => {
+    if (!form) return;
+    setIsSendingTest(true);
+    setFieldErrors({});
+    try {
+      const { email } = await api.sendTestEmailTemplate(form);
+      if (email.status === 'sent') {
+        toast.success(`Test email sent to ${email.to}`);
+      } else {
+        toast.error(`Test email to ${email.to} could not be sent${email.lastError ? `: ${email.lastError}` : ''}`);
+      }
+    } catch (error: any) {
+      console.error('Send test email error:', error);
+      showErrors(error, 'Failed to send test email');
+    } finally {
+      setIsSendingTest(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    try {
+      const { template } = await api.deleteEmailTemplate(selected.id);
+      if (template) {
+        replaceTemplate(template);
+        toast.success('Default template restored');
+      } else {
+        const remaining = templates.filter((item) => item.id !== selected.id);
+        setTemplates(remaining);
+        setSelectedId(null);
+        setForm(null);
+        if (remaining.length > 0) selectTemplate(remaining[0]);
+        toast.success('Template deleted');
+      }
+    } catch (error: any) {
+      console.error('Delete email template error:', error);
+      toast.error(error.message || 'Failed to delete template');
+    }
+  };
+
+  const confirmDelete = () => {
+    if (!selected) return;
+    showConfirmation(selected.builtIn
+      ? {
+        title: 'Restore Default Template',
+        description: `Your changes to "${selected.name}" will be discarded and the default version used again.`,
+        confirmText: 'Restore',
+        onConfirm: handleDelete,
+      }
+      : {
+        title: 'Delete Template',
+        description: `"${selected.name}" will be deleted. Emails that use this template can no longer be sent.`,
+        onConfirm: handleDelete,
+      });
+  };
+
+  const handleCreate = async () => {
+    setNewTemplateErrors({});
+    try {
+      const { template } = await api.createEmailTemplate({
+        id: newTemplate.id.trim(),
+        name: newTemplate.name.trim(),
+        subject: newTemplate.name.trim() || newTemplate.id.trim(),
+        ...STARTER_TEMPLATE,
+      });
+      replaceTemplate(template);
+      setShowNewDialog(false);
+      setNewTemplate({ id: '', name: '' });
+      toast.success('Template created');
+    } catch (error: any) {
+      console.error('Create email template error:', error);
+      if (error instanceof ApiError && error.fields) {
+        setNewTemplateErrors(error.fields);
+      }
+      toast.error(error.message || 'Failed to create template');
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-6 space-y-4 md:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Email Templates</h1>
+          <p className="text-sm md:text-base text-gray-600 mt-1">
+            Edit the emails the system sends. Use <code className="text-xs bg-gray-100 px-1 rounded">{'{{variable}}'}</code> placeholders; <code className="text-xs bg-gray-100 px-1 rounded">{'{{appUrl}}'}</code> and <code className="text-xs bg-gray-100 px-1 rounded">{'{{year}}'}</code> are always available.
+          </p>
+        </div>
+        <Button onClick={() => setShowNewDialog(true)} className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white">
+          <Plus className="w-4 h-4 mr-2" />
+          New Template
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <TableSkeleton rows={6} columns={3} />
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-[280px_1fr] gap-4 md:gap-6 items-start">
+          <Card>
+            <CardHeader>
+              <CardTitle>Templates</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {templates.map((template) => (
+                <button
+                  key={template.id}
+                  onClick={() => selectTemplate(template)}
+                  className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+                    template.id === selectedId ? 'border-[#6a40ec] bg-[#6a40ec]/5' : 'border-transparent hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900 truncate">{template.name}</span>
+                    {template.builtIn ? (
+                      <Badge variant="outline" className="text-xs">{template.customized ? 'Edited' : 'Default'}</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-xs bg-blue-50 text-blue-700 border-blue-200">Custom</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 font-mono">{template.id}</p>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          {form && selected ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="w-5 h-5 text-[#6a40ec]" />
+                  {selected.name}
+                </CardTitle>
+                <CardDescription>
+                  Key <span className="font-mono">{selected.id}</span>
+                  {selected.updatedAt && ` · Last edited ${format(new Date(selected.updatedAt), 'MMM dd, yyyy HH:mm')}${selected.updatedBy ? ` by ${selected.updatedBy}` : ''}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="template-name">Name</Label>
+                    <Input id="template-name" value={form.name} onChange={(e) => updateField('name', e.target.value)} />
+                    <FieldError errors={fieldErrors} name="name" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="template-description">Description</Label>
+                    <Input
+                      id="template-description"
+                      value={form.description || ''}
+                      onChange={(e) => updateField('description', e.target.value || undefined)}
+                    />
+                    <FieldError errors={fieldErrors} name="description" />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="template-subject">Subject</Label>
+                  <Input id="template-subject" value={form.subject} onChange={(e) => updateField('subject', e.target.value)} />
+                  <FieldError errors={fieldErrors} name="subject" />
+                </div>
+
+                <Tabs defaultValue="html">
+                  <TabsList>
+                    <TabsTrigger value="html">HTML</TabsTrigger>
+                    <TabsTrigger value="text">Plain Text</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="html" className="space-y-2">
+                    <Textarea
+                      value={form.html}
+                      onChange={(e) => updateField('html', e.target.value)}
+                      className="font-mono text-xs min-h-[320px]"
+                    />
+                    <FieldError errors={fieldErrors} name="html" />
+                  </TabsContent>
+                  <TabsContent value="text" className="space-y-2">
+                    <Textarea
+                      value={form.text}
+                      onChange={(e) => updateField('text', e.target.value)}
+                      className="font-mono text-xs min-h-[320px]"
+                    />
+                    <FieldError errors={fieldErrors} name="text" />
+                  </TabsContent>
+                </Tabs>
+
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label>Variables</Label>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateField('variables', [...form.variables, { name: '', sample: '' }])}
+                    >
+                      <Plus className="w-3.5 h-3.5 mr-1.5" />
+                      Add Variable
+                    </Button>
+                  </div>
+                  {form.variables.length === 0 && (
+                    <p className="text-sm text-gray-500">No variables declared</p>
+                  )}
+                  {form.variables.map((variable, index) => (
+                    <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1.5fr_auto] gap-2 items-start">
+                      <div>
+                        <Input
+                          placeholder="name"
+                          value={variable.name}
+                          onChange={(e) => updateVariable(index, 'name', e.target.value)}
+                          className="font-mono text-sm"
+                        />
+                        <FieldError errors={fieldErrors} name={`variables.${index}.name`} />
+                      </div>
+                      <div>
+                        <Input
+                          placeholder="Sample value"
+                          value={variable.sample}
+                          onChange={(e) => updateVariable(index, 'sample', e.target.value)}
+                        />
+                        <FieldError errors={fieldErrors} name={`variables.${index}.sample`} />
+                      </div>
+                      <Input
+                        placeholder="Description"
+                        value={variable.description || ''}
+                        onChange={(e) => updateVariable(index, 'description', e.target.value)}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateField('variables', form.variables.filter((_, i) => i !== index))}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-2 pt-4 border-t">
+                  <div>
+                    {selected.builtIn ? (
+                      selected.customized && (
+                        <Button variant="outline" onClick={confirmDelete}>
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                          Restore Default
+                        </Button>
+                      )
+                    ) : (
+                      <Button
+                        variant="outline"
+                        onClick={confirmDelete}
+                        className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete
+                      </Button>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" onClick={handlePreview}>
+                      <Eye className="w-4 h-4 mr-2" />
+                      Preview
+                    </Button>
+                    <Button variant="outline" onClick={handleSendTest} disabled={isSendingTest}>
+                      <Send className="w-4 h-4 mr-2" />
+                      {isSendingTest ? 'Sending...' : 'Send Test to Me'}
+                    </Button>
+                    <Button onClick={handleSave} disabled={isSaving} className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white">
+                      <Save className="w-4 h-4 mr-2" />
+                      {isSaving ? 'Saving...' : 'Save'}
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="text-center py-12 text-gray-500">
+                <FileText className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                <p>Select a template to edit</p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{preview?.subject}</DialogTitle>
+            <DialogDescription>Rendered with the variables' sample values</DialogDescription>
+          </DialogHeader>
+          {preview && preview.missing.length > 0 && (
+            <div className="rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+              No value for: {preview.missing.map((name) => `{{${name}}}`).join(', ')}. Declare these as variables or remove them.
+            </div>
+          )}
+          <Tabs defaultValue="html">
+            <TabsList>
+              <TabsTrigger value="html">HTML</TabsTrigger>
+              <TabsTrigger value="text">Plain Text</TabsTrigger>
+            </TabsList>
+            <TabsContent value="html">
+              {/* Sandboxed so template markup can't run scripts in the admin panel */}
+              <iframe title="Email preview" sandbox="" srcDoc={preview?.html} className="w-full h-[60vh] border rounded-lg bg-white" />
+            </TabsContent>
+            <TabsContent value="text">
+              <pre className="whitespace-pre-wrap text-sm bg-gray-50 border rounded-lg p-4 h-[60vh] overflow-y-auto">{preview?.text}</pre>
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showNewDialog} onOpenChange={setShowNewDialog}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>New Email Template</DialogTitle>
+            <DialogDescription>
+              The key is how the server refers to the template, e.g. <span className="font-mono">deposit-approved</span>. It can't be changed later.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-template-id">Key</Label>
+              <Input
+                id="new-template-id"
+                value={newTemplate.id}
+                onChange={(e) => setNewTemplate((prev) => ({ ...prev, id: e.target.value }))}
+                className="font-mono"
+              />
+              <FieldError errors={newTemplateErrors} name="id" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-template-name">Name</Label>
+              <Input
+                id="new-template-name"
+                value={newTemplate.name}
+                onChange={(e) => setNewTemplate((prev) => ({ ...prev, name: e.target.value }))}
+              />
+              <FieldError errors={newTemplateErrors} name="name" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowNewDialog(false)}>Cancel</Button>
+            <Button onClick={handleCreate} className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white">Create</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmationDialog />
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import { format } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
@@ -13,7 +13,10 @@ import { Switch } from './ui/switch';
 import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
 import { Calendar as CalendarComponent } from './ui/calendar';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
-import { Plus, Building2, Trash2, Search, Filter, Calendar, X, User, Settings, Edit2, DollarSign, TrendingUp, TrendingDown, ArrowUpDown, Wallet, CalendarIcon } from 'lucide-react';
+import { HistorySheet } from './history-sheet';
+import { ExportMenu } from './export-menu';
+import { ImportWizard } from './import-wizard';
+import { Plus, Building2, Trash2, History, Search, Filter, Calendar, X, User, Settings, Edit2, DollarSign, TrendingUp, TrendingDown, ArrowUpDown, Wallet, CalendarIcon, AlertTriangle } from 'lucide-react';
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
@@ -25,15 +28,20 @@ import * as api from '../utils/api';
 import { toast } from 'sonner@2.0.3';
 import { TablePagination } from './table-pagination';
 import { MetricsSkeleton, TableSkeleton } from './shimmer-skeleton';
-import { formatCurrency } from '../utils/currency';
+import { formatCurrency, formatCurrencyTotals } from '../utils/currency';
+import { CurrencySelect, useCurrencySettings } from './currency-select';
+import { presetDateBounds, rangeDateBounds } from '../utils/date-range';
+import { useServerPagination } from './use-server-pagination';
+import { BankLedgerSheet } from './bank-ledger-sheet';
+import { validate, summarizeFieldErrors, bankTransactionInputSchema, bankCurrency, type BankTransactionInput, type BankDepositSummary, type ReportingCurrencyInfo } from '../supabase/functions/server/contract';
+
+// Totals returned alongside each page by GET /bank-deposits, with the currency they were converted into
+type BankDepositsSummary = BankDepositSummary & { currency: ReportingCurrencyInfo };
 
 export function EnhancedBankDeposits() {
   const { 
     banks, 
     setBanks, 
-    bankTransactions, 
-    setBankTransactions, 
-    getFilteredBankTransactions, 
     canViewAllEntries,
     isAdmin,
     user,
@@ -62,7 +70,7 @@ export function EnhancedBankDeposits() {
     if (!permissions) return false;
     
     // Admin can edit anything
-    if (canViewAllEntries()) return permissions.edit;
+    if (isAdmin()) return permissions.edit;
     
     // Staff can only edit their own entries
     return permissions.edit && transaction.submittedBy === user?.id;
@@ -73,7 +81,7 @@ export function EnhancedBankDeposits() {
     if (!permissions) return false;
     
     // Admin can delete anything
-    if (canViewAllEntries()) return permissions.delete;
+    if (isAdmin()) return permissions.delete;
     
     // Staff can only delete their own entries
     return permissions.delete && transaction.submittedBy === user?.id;
@@ -98,12 +106,12 @@ export function EnhancedBankDeposits() {
 
   const canEditBanks = () => {
     // Only admins can edit banks
-    return canViewAllEntries() && getCurrentUserPermissions()?.edit;
+    return isAdmin() && getCurrentUserPermissions()?.edit;
   };
 
   const canDeleteBanks = () => {
     // Only admins can delete banks
-    return canViewAllEntries() && getCurrentUserPermissions()?.delete;
+    return isAdmin() && getCurrentUserPermissions()?.delete;
   };
   
   const { showConfirmation, DeleteConfirmationDialog } = useDeleteConfirmation();
@@ -111,9 +119,18 @@ export function EnhancedBankDeposits() {
   const [isBankDialogOpen, setIsBankDialogOpen] = useState(false);
   const [isTransactionDialogOpen, setIsTransactionDialogOpen] = useState(false);
   const [newBankName, setNewBankName] = useState('');
+  const [newBankOpeningBalance, setNewBankOpeningBalance] = useState('');
+  // Empty until picked; the configured default applies
+  const [newBankCurrency, setNewBankCurrency] = useState('');
   const [isManageBanksMode, setIsManageBanksMode] = useState(false);
   const [editingBankId, setEditingBankId] = useState<string | null>(null);
   const [editingBankName, setEditingBankName] = useState('');
+  const [editingBankOpeningBalance, setEditingBankOpeningBalance] = useState('');
+  const [editingBankCurrency, setEditingBankCurrency] = useState('');
+  const currencySettings = useCurrencySettings();
+  // Transactions are in the currency of their bank
+  const currencyOfBank = (bankId: string) => bankCurrency(banks.find(b => b.id === bankId));
+  const [ledgerBank, setLedgerBank] = useState<Bank | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [bankFilter, setBankFilter] = useState('all');
   
@@ -130,19 +147,20 @@ export function EnhancedBankDeposits() {
   
   // Employee Filter State
   const [selectedEmployee, setSelectedEmployee] = useState('all');
-  const [currentPage, setCurrentPage] = useState(1);
   const [sortBy, setSortBy] = useState('date-desc');
-  const [itemsPerPage, setItemsPerPage] = useState(10);
   const [transactionForm, setTransactionForm] = useState({
     date: new Date().toISOString().split('T')[0],
     bankId: 'none',
     deposit: '',
     withdraw: '',
     pnl: '',
-    remainingBalance: '',
+    netChange: '',
     selectedStaff: user?.id || '', // For admin selecting on behalf of staff
   });
 
+  // Transaction whose change history is open
+  const [historyTransaction, setHistoryTransaction] = useState<BankTransaction | null>(null);
+
   // Edit transaction state
   const [isEditTransactionDialogOpen, setIsEditTransactionDialogOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<BankTransaction | null>(null);
@@ -152,7 +170,7 @@ export function EnhancedBankDeposits() {
     deposit: '',
     withdraw: '',
     pnl: '',
-    remainingBalance: '',
+    netChange: '',
     selectedStaff: '',
   });
 
@@ -201,7 +219,7 @@ export function EnhancedBankDeposits() {
       deposit: '',
       withdraw: '',
       pnl: '',
-      remainingBalance: '',
+      netChange: '',
       selectedStaff: user?.id || '',
     });
   };
@@ -211,12 +229,15 @@ export function EnhancedBankDeposits() {
     if (!newBankName.trim()) return;
 
     try {
-      const response = await api.addBank(newBankName.trim());
+      const openingBalance = parseFloat(newBankOpeningBalance) || 0;
+      const response = await api.addBank(newBankName.trim(), openingBalance, newBankCurrency || undefined);
       
       if (response.success && response.bank) {
         setBanks([...banks, response.bank]);
         addActivityLog('add_bank', `Added new bank: ${newBankName.trim()}`);
         setNewBankName('');
+        setNewBankOpeningBalance('');
+        setNewBankCurrency('');
         setIsBankDialogOpen(false);
         toast.success('Bank added successfully');
       }
@@ -231,8 +252,7 @@ export function EnhancedBankDeposits() {
     if (!bankToDelete) return;
 
     // Check if bank has transactions
-    const hasTransactions = bankTransactions.some(t => t.bankId === bankId);
-    if (hasTransactions) {
+    if (bankToDelete.transactionCount) {
       toast.error(`Cannot delete ${bankToDelete.name} as it has existing transactions`);
       return;
     }
@@ -260,6 +280,8 @@ export function EnhancedBankDeposits() {
   const handleEditBank = (bank: Bank) => {
     setEditingBankId(bank.id);
     setEditingBankName(bank.name);
+    setEditingBankOpeningBalance((bank.openingBalance || 0).toString());
+    setEditingBankCurrency(bankCurrency(bank));
   };
 
   const handleSaveEdit = async (bankId: string) => {
@@ -276,21 +298,26 @@ export function EnhancedBankDeposits() {
     }
 
     const oldBankName = banks.find(b => b.id === bankId)?.name || '';
+    const openingBalance = parseFloat(editingBankOpeningBalance) || 0;
     
     try {
-      await api.updateBank(bankId, editingBankName.trim());
+      await api.updateBank(bankId, editingBankName.trim(), openingBalance, editingBankCurrency);
       
       setBanks(banks.map(b => 
       b.id === bankId 
-        ? { ...b, name: editingBankName.trim() }
+        ? { ...b, name: editingBankName.trim(), openingBalance, currency: editingBankCurrency }
         : b
     ));
+    // A new opening balance moves every stored balance of the bank
+    await reloadTransactions();
     
     addActivityLog('edit_bank', `Updated bank name from "${oldBankName}" to "${editingBankName.trim()}"`);
     
     setEditingBankId(null);
     setEditingBankName('');
-      toast.success('Bank name updated successfully');
+    setEditingBankOpeningBalance('');
+    setEditingBankCurrency('');
+      toast.success('Bank updated successfully');
     } catch (error: any) {
       console.error('Update bank error:', error);
       toast.error(error.message || 'Failed to update bank');
@@ -300,6 +327,7 @@ export function EnhancedBankDeposits() {
   const handleCancelEdit = () => {
     setEditingBankId(null);
     setEditingBankName('');
+    setEditingBankOpeningBalance('');
   };
 
   // Filter Helper Functions (matching dashboard pattern)
@@ -317,30 +345,6 @@ export function EnhancedBankDeposits() {
     setSortBy('date-desc');
   };
 
-  // Get the previous balance for a specific bank
-  const getPreviousBalance = (bankId: string, currentDate?: string, excludeTransactionId?: string) => {
-    if (bankId === 'none' || !bankId) return 0;
-    
-    const previousTransactions = bankTransactions
-      .filter(t => {
-        const matchesBank = t.bankId === bankId;
-        const matchesDate = !currentDate || t.date < currentDate;
-        const notExcluded = !excludeTransactionId || t.id !== excludeTransactionId;
-        return matchesBank && matchesDate && notExcluded;
-      })
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    
-    if (previousTransactions.length === 0) return 0;
-    
-    // Return the most recent remaining balance
-    return previousTransactions[0].remaining || previousTransactions[0].remainingBalance || 0;
-  };
-
-  const calculateRemaining = (bankId: string, currentDate: string, newDeposit: number, newWithdraw: number) => {
-    const previousBalance = getPreviousBalance(bankId, currentDate);
-    return previousBalance + newDeposit - newWithdraw;
-  };
-
   const handleAddTransaction = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!transactionForm.bankId || transactionForm.bankId === 'none') {
@@ -353,22 +357,27 @@ export function EnhancedBankDeposits() {
     const deposit = parseFloat(transactionForm.deposit) || 0;
     const withdraw = parseFloat(transactionForm.withdraw) || 0;
     const pnl = parseFloat(transactionForm.pnl) || 0;
-    const remainingBalance = parseFloat(transactionForm.remainingBalance) || calculateRemaining(transactionForm.bankId, transactionForm.date, deposit, withdraw);
 
-    const transactionData = {
+    // The running balance is computed by the server's ledger
+    const transactionData: BankTransactionInput = {
       date: transactionForm.date,
       bankId: transactionForm.bankId,
       deposit,
       withdraw,
       pnl: pnl !== 0 ? pnl : undefined,
-      remaining: remainingBalance,
-      remainingBalance: remainingBalance,
       amount: deposit, // For compatibility
     };
 
+    const checked = validate(bankTransactionInputSchema, transactionData);
+    if (!checked.ok) {
+      toast.error(summarizeFieldErrors(checked.errors));
+      setIsSubmittingTransaction(false);
+      return;
+    }
+
     try {
       await api.createBankDeposit(transactionData);
-      await loadData();
+      await Promise.all([reloadTransactions(), loadData()]);
       resetTransactionForm();
       setIsTransactionDialogOpen(false);
       toast.success('Transaction added successfully');
@@ -397,20 +406,20 @@ export function EnhancedBankDeposits() {
     const withdrawAmount = parseFloat(transactionForm.withdraw || '0');
     const pnlAmount = parseFloat(transactionForm.pnl || '0');
     
-    // Calculate balance: Deposit - Withdraw + P&L
-    const newBalance = depositAmount - withdrawAmount + pnlAmount;
+    // Net change of this transaction: Deposit - Withdraw + P&L
+    const netChange = depositAmount - withdrawAmount + pnlAmount;
     
     setTransactionForm({ 
       ...transactionForm, 
       bankId,
-      remainingBalance: newBalance.toFixed(2)
+      netChange: netChange.toFixed(2)
     });
     setIsDropdownOpen(false);
     setSearchQuery('');
   };
 
   const handleDeleteTransaction = (id: string) => {
-    const transactionToDelete = bankTransactions.find(t => t.id === id);
+    const transactionToDelete = paginatedTransactions.find(t => t.id === id);
     if (!transactionToDelete) return;
 
     const bank = banks.find(b => b.id === transactionToDelete.bankId);
@@ -423,7 +432,7 @@ export function EnhancedBankDeposits() {
       onConfirm: async () => {
         try {
           await api.deleteBankDeposit(transactionToDelete.id);
-          await loadData();
+          await Promise.all([reloadTransactions(), loadData()]);
           toast.success('Transaction deleted successfully');
         } catch (error: any) {
           console.error('Delete transaction error:', error);
@@ -443,7 +452,7 @@ export function EnhancedBankDeposits() {
       deposit: transaction.deposit.toString(),
       withdraw: transaction.withdraw.toString(),
       pnl: transaction.pnl !== undefined && transaction.pnl !== null ? transaction.pnl.toString() : '',
-      remainingBalance: (transaction.remainingBalance || transaction.remaining || 0).toString(),
+      netChange: (transaction.deposit - transaction.withdraw + (transaction.pnl || 0)).toFixed(2),
       selectedStaff: transaction.submittedBy,
     });
     setIsEditTransactionDialogOpen(true);
@@ -463,40 +472,30 @@ export function EnhancedBankDeposits() {
     const deposit = parseFloat(editTransactionForm.deposit) || 0;
     const withdraw = parseFloat(editTransactionForm.withdraw) || 0;
     const pnl = parseFloat(editTransactionForm.pnl) || 0;
-    
-    // Use provided remaining balance or recalculate
-    const remainingBalance = parseFloat(editTransactionForm.remainingBalance) || calculateRemaining(editTransactionForm.bankId, editTransactionForm.date, deposit, withdraw);
-
-    // Determine who is submitting this transaction
-    let submittedBy = editTransactionForm.selectedStaff;
-    let submittedByName = '';
-    
-    if (submittedBy === user?.id) {
-      submittedByName = user?.name || '';
-    } else {
-      const selectedStaffMember = staff.find(s => s.id === submittedBy);
-      submittedByName = selectedStaffMember?.name || '';
-    }
 
-    const updateData = {
+    // The submitter is fixed when the transaction is created, so it is not part of the update
+    const updateData: BankTransactionInput = {
       date: editTransactionForm.date,
       bankId: editTransactionForm.bankId,
       deposit,
       withdraw,
       pnl: pnl !== 0 ? pnl : undefined,
-      remaining: remainingBalance,
-      remainingBalance: remainingBalance,
-      submittedBy,
-      submittedByName,
       amount: deposit, // For compatibility
     };
 
+    const checked = validate(bankTransactionInputSchema, updateData);
+    if (!checked.ok) {
+      toast.error(summarizeFieldErrors(checked.errors));
+      setIsSubmittingTransaction(false);
+      return;
+    }
+
     try {
       await api.updateBankDeposit(editingTransaction.id, updateData);
-      await loadData();
+      await Promise.all([reloadTransactions(), loadData()]);
       
       const bankName = banks.find(b => b.id === editTransactionForm.bankId)?.name || 'Unknown Bank';
-      addActivityLog('edit_bank_transaction', `Updated bank transaction for ${bankName}`, `Date: ${format(new Date(editTransactionForm.date), 'MMM dd, yyyy')}, Deposit: ${formatCurrency(deposit)}`);
+      addActivityLog('edit_bank_transaction', `Updated bank transaction for ${bankName}`, `Date: ${format(new Date(editTransactionForm.date), 'MMM dd, yyyy')}, Deposit: ${formatCurrency(deposit, currencyOfBank(editTransactionForm.bankId))}`);
       
       setIsEditTransactionDialogOpen(false);
       setEditingTransaction(null);
@@ -517,158 +516,64 @@ export function EnhancedBankDeposits() {
       deposit: '',
       withdraw: '',
       pnl: '',
-      remainingBalance: '',
+      netChange: '',
       selectedStaff: '',
     });
     setEditingTransaction(null);
   };
 
-  // Enhanced Filtering Logic with Sorting (matching dashboard pattern)
-  const filteredTransactions = useMemo(() => {
-    let filtered = getFilteredBankTransactions();
-
-    // Apply date range filter
-    if (customDateRange.from || customDateRange.to) {
-      filtered = filtered.filter(transaction => {
-        const transactionDate = new Date(transaction.date);
-        const from = customDateRange.from;
-        const to = customDateRange.to;
-        
-        if (from && to) {
-          return transactionDate >= from && transactionDate <= to;
-        } else if (from) {
-          return transactionDate >= from;
-        } else if (to) {
-          return transactionDate <= to;
-        }
-        return true;
-      });
-    } else if (dateFilter !== 'all') {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      filtered = filtered.filter(transaction => {
-        const transactionDate = new Date(transaction.date);
-        transactionDate.setHours(0, 0, 0, 0);
-        
-        switch (dateFilter) {
-          case 'today':
-            return transactionDate.getTime() === today.getTime();
-          case 'week':
-            const weekAgo = new Date(today);
-            weekAgo.setDate(today.getDate() - 7);
-            return transactionDate >= weekAgo && transactionDate <= today;
-          case 'month':
-            const monthAgo = new Date(today);
-            monthAgo.setMonth(today.getMonth() - 1);
-            return transactionDate >= monthAgo && transactionDate <= today;
-          default:
-            return true;
-        }
-      });
-    }
-
-    // Apply employee filter (only for admins)
-    if (canViewAllEntries() && selectedEmployee !== 'all') {
-      filtered = filtered.filter(transaction => transaction.submittedBy === selectedEmployee);
-    }
-
-    // Apply bank filter
-    if (bankFilter !== 'all') {
-      filtered = filtered.filter(transaction => transaction.bankId === bankFilter);
-    }
-
-    // Apply search term filter
-    if (searchTerm) {
-      filtered = filtered.filter(transaction => {
-        const bank = banks.find(b => b.id === transaction.bankId);
-        const submitterName = transaction.submittedByName || '';
-        return (
-          bank?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          submitterName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          transaction.deposit.toString().includes(searchTerm) ||
-          transaction.withdraw.toString().includes(searchTerm) ||
-          transaction.date.includes(searchTerm) ||
-          (transaction.remainingBalance || transaction.remaining || 0).toString().includes(searchTerm)
-        );
-      });
-    }
-
-    // Apply sorting (create a copy to avoid mutation)
-    const sorted = [...filtered].sort((a, b) => {
-      switch (sortBy) {
-        case 'date-desc':
-          // Sort by date first (newest first), then by createdAt if available (most recent first)
-          const dateDiff = new Date(b.date).getTime() - new Date(a.date).getTime();
-          if (dateDiff !== 0) return dateDiff;
-          // If same date, sort by createdAt (most recent first) if available
-          const createdAtA = (a as any).createdAt ? new Date((a as any).createdAt).getTime() : 0;
-          const createdAtB = (b as any).createdAt ? new Date((b as any).createdAt).getTime() : 0;
-          return createdAtB - createdAtA;
-        case 'date-asc':
-          // Sort by date first (oldest first), then by createdAt if available (oldest first)
-          const dateDiffAsc = new Date(a.date).getTime() - new Date(b.date).getTime();
-          if (dateDiffAsc !== 0) return dateDiffAsc;
-          // If same date, sort by createdAt (oldest first) if available
-          const createdAtAAsc = (a as any).createdAt ? new Date((a as any).createdAt).getTime() : 0;
-          const createdAtBAsc = (b as any).createdAt ? new Date((b as any).createdAt).getTime() : 0;
-          return createdAtAAsc - createdAtBAsc;
-        case 'deposit-desc':
-          return (b.deposit || 0) - (a.deposit || 0);
-        case 'deposit-asc':
-          return (a.deposit || 0) - (b.deposit || 0);
-        case 'withdraw-desc':
-          return (b.withdraw || 0) - (a.withdraw || 0);
-        case 'withdraw-asc':
-          return (a.withdraw || 0) - (b.withdraw || 0);
-        case 'remaining-desc':
-          return (b.remainingBalance || b.remaining || 0) - (a.remainingBalance || a.remaining || 0);
-        case 'remaining-asc':
-          return (a.remainingBalance || a.remaining || 0) - (b.remainingBalance || b.remaining || 0);
-        case 'bank-asc':
-          const bankA = banks.find(bank => bank.id === a.bankId)?.name || '';
-          const bankB = banks.find(bank => bank.id === b.bankId)?.name || '';
-          return bankA.localeCompare(bankB);
-        case 'bank-desc':
-          const bankA2 = banks.find(bank => bank.id === a.bankId)?.name || '';
-          const bankB2 = banks.find(bank => bank.id === b.bankId)?.name || '';
-          return bankB2.localeCompare(bankA2);
-        default:
-          return 0;
-      }
-    });
-    return sorted;
-  }, [
-    bankTransactions, 
-    dateFilter,
-    customDateRange,
-    selectedEmployee, 
-    bankFilter,
-    searchTerm, 
-    sortBy,
-    banks, 
-    canViewAllEntries,
-    getFilteredBankTransactions
-  ]);
+  // Filters and sorting are applied server-side; staff only ever receive their own transactions
+  const transactionFilters = useMemo(() => ({
+    search: searchTerm.trim() || undefined,
+    // A custom range takes precedence over the quick date filter
+    ...(customDateRange.from || customDateRange.to
+      ? rangeDateBounds(customDateRange.from, customDateRange.to)
+      : presetDateBounds(dateFilter)),
+    submittedBy: canViewAllEntries('bankDeposits') && selectedEmployee !== 'all' ? selectedEmployee : undefined,
+    bankId: bankFilter !== 'all' ? bankFilter : undefined,
+    sort: sortBy,
+  }), [searchTerm, customDateRange, dateFilter, canViewAllEntries, selectedEmployee, bankFilter, sortBy]);
+
+  const fetchTransactionsPage = useCallback(async (query: api.ListQuery) => {
+    const data = await api.getBankDeposits(query);
+    return {
+      items: (data?.bankDeposits || []) as BankTransaction[],
+      totalCount: data?.pagination?.totalCount || 0,
+      summary: (data?.summary ? { ...data.summary, currency: data.currency } : null) as BankDepositsSummary | null,
+    };
+  }, []);
+
+  const {
+    items: paginatedTransactions,
+    totalCount,
+    summary,
+    currentPage,
+    setCurrentPage,
+    itemsPerPage,
+    setItemsPerPage,
+    reload: reloadTransactions,
+  } = useServerPagination({
+    fetchPage: fetchTransactionsPage,
+    filters: transactionFilters,
+    enabled: !!user,
+  });
 
-  // Calculate metrics based on filtered transactions
+  // Metrics cover every matching transaction, not just the current page
   const metrics = useMemo(() => {
-    const totalDeposits = filteredTransactions.reduce((sum, t) => sum + t.deposit, 0);
-    const totalWithdrawals = filteredTransactions.reduce((sum, t) => sum + t.withdraw, 0);
+    const totalDeposits = summary?.totalDeposits || 0;
+    const totalWithdrawals = summary?.totalWithdrawals || 0;
     const netBalance = totalDeposits - totalWithdrawals;
-    const totalRemaining = filteredTransactions.reduce((sum, t) => sum + (t.remainingBalance || t.remaining || 0), 0);
+    const totalRemaining = summary?.totalRemaining || 0;
     
-    // Calculate largest bank balance
-    const bankBalances = banks.map(bank => {
-      const bankTransactions = filteredTransactions.filter(t => t.bankId === bank.id);
-      return {
-        bankName: bank.name,
-        balance: bankTransactions.length > 0 ? bankTransactions[bankTransactions.length - 1]?.remaining || bankTransactions[bankTransactions.length - 1]?.remainingBalance || 0 : 0
-      };
-    });
+    // Calculate largest bank balance from each bank's latest remaining balance
+    const bankBalances = banks.map(bank => ({
+      bankName: bank.name,
+      balance: summary?.latestRemainingByBank?.[bank.id] || 0,
+      currency: bankCurrency(bank)
+    }));
     
     const largestBalance = bankBalances.reduce((max, bank) => 
-      bank.balance > max.balance ? bank : max, { bankName: 'N/A', balance: 0 }
+      bank.balance > max.balance ? bank : max, { bankName: 'N/A', balance: 0, currency: bankCurrency(null) }
     );
 
     return {
@@ -678,15 +583,10 @@ export function EnhancedBankDeposits() {
       totalRemaining,
       activeBanks: banks.length,
       largestBalance,
-      transactionCount: filteredTransactions.length
+      transactionCount: totalCount,
+      reportingCurrency: summary?.currency.reportingCurrency,
     };
-  }, [filteredTransactions, banks]);
-
-  // Paginated transactions
-  const paginatedTransactions = useMemo(() => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return filteredTransactions.slice(startIndex, startIndex + itemsPerPage);
-  }, [filteredTransactions, currentPage, itemsPerPage]);
+  }, [summary, totalCount, banks]);
 
   // Check if there are active filters
   const hasActiveFilters = useMemo(() => {
@@ -724,7 +624,7 @@ export function EnhancedBankDeposits() {
               <CardTitle className="text-xl md:text-2xl">Bank Deposits Management</CardTitle>
               <CardDescription className="text-sm">
                 Track bank deposits and withdrawals with detailed transaction history
-                {!canViewAllEntries() && (
+                {!canViewAllEntries('bankDeposits') && (
                   <span className="block text-sm text-blue-600 mt-1">
                     <User className="w-4 h-4 inline mr-1" />
                     Showing only your transactions
@@ -831,7 +731,7 @@ export function EnhancedBankDeposits() {
               )} */}
 
               {/* Employee Filter - Only for Admins */}
-              {/* {canViewAllEntries() && (
+              {/* {canViewAllEntries('bankDeposits') && (
                 <Select value={selectedEmployee} onValueChange={setSelectedEmployee}>
                   <SelectTrigger className="w-48">
                     <SelectValue placeholder="All Employees" />
@@ -861,12 +761,19 @@ export function EnhancedBankDeposits() {
               )}
             </div>
             <div className="flex space-x-2">
+              <ExportMenu resource="bank-deposits" params={transactionFilters} />
+
+              {isAdmin() && (
+                <ImportWizard type="bankDeposits" onImported={() => Promise.all([reloadTransactions(), loadData()])} />
+              )}
+
               {canAddBanks() && (
                 <Sheet open={isBankDialogOpen} onOpenChange={(open) => {
                   setIsBankDialogOpen(open);
                   if (open) {
                     setIsManageBanksMode(false); // Reset to add mode when opening
                     setNewBankName(''); // Clear form
+                    setNewBankOpeningBalance('');
                   }
                 }}>
                   <SheetTrigger asChild>
@@ -938,6 +845,38 @@ export function EnhancedBankDeposits() {
                                   Enter the full name of the bank you want to add to the system
                                 </p>
                               </div>
+                              <div className="space-y-2.5 mt-5">
+                                <Label htmlFor="bankOpeningBalance" className="text-sm font-medium text-gray-700 block">
+                                  Opening Balance
+                                </Label>
+                                <Input
+                                  id="bankOpeningBalance"
+                                  type="number"
+                                  step="0.01"
+                                  placeholder="0.00"
+                                  value={newBankOpeningBalance}
+                                  onChange={(e) => setNewBankOpeningBalance(e.target.value)}
+                                  className="h-12 text-sm border-gray-300 focus:border-[#6a40ec] focus:ring-[#6a40ec]"
+                                />
+                                <p className="text-xs text-gray-500 leading-relaxed pt-1">
+                                  Balance held before the first transaction; running balances start from it
+                                </p>
+                              </div>
+                              <div className="space-y-2.5 mt-5">
+                                <Label htmlFor="bankCurrency" className="text-sm font-medium text-gray-700 block">
+                                  Currency
+                                </Label>
+                                <CurrencySelect
+                                  id="bankCurrency"
+                                  value={newBankCurrency || currencySettings?.defaults.bank || 'USD'}
+                                  onChange={setNewBankCurrency}
+                                  currencies={currencySettings?.currencies || []}
+                                  className="h-12 w-40"
+                                />
+                                <p className="text-xs text-gray-500 leading-relaxed pt-1">
+                                  Currency of the bank's transactions and balances; it can't change once the bank has transactions
+                                </p>
+                              </div>
                             </div>
                           </div>
                         </div>
@@ -992,13 +931,15 @@ export function EnhancedBankDeposits() {
                                   <TableHeader className="sticky top-0 bg-gray-50 z-10">
                                     <TableRow>
                                       <TableHead className="font-semibold text-gray-700">Bank Name</TableHead>
+                                      <TableHead className="font-semibold text-gray-700">Opening Balance</TableHead>
+                                      <TableHead className="font-semibold text-gray-700">Currency</TableHead>
                                       <TableHead className="font-semibold text-gray-700">Transactions</TableHead>
                                       <TableHead className="font-semibold text-gray-700 text-right">Actions</TableHead>
                                     </TableRow>
                                   </TableHeader>
                                   <TableBody>
                                     {banks.map((bank) => {
-                                      const transactionCount = bankTransactions.filter(t => t.bankId === bank.id).length;
+                                      const transactionCount = bank.transactionCount || 0;
                                       const canDelete = transactionCount === 0;
                                       const isEditing = editingBankId === bank.id;
                                       
@@ -1040,6 +981,36 @@ export function EnhancedBankDeposits() {
                                               </div>
                                             )}
                                           </TableCell>
+                                          <TableCell className="text-sm text-gray-600 py-4">
+                                            {isEditing ? (
+                                              <Input
+                                                type="number"
+                                                step="0.01"
+                                                value={editingBankOpeningBalance}
+                                                onChange={(e) => setEditingBankOpeningBalance(e.target.value)}
+                                                className="h-9 w-28 border-gray-300 focus:border-[#6a40ec] focus:ring-[#6a40ec]"
+                                                onKeyDown={(e) => {
+                                                  if (e.key === 'Enter') handleSaveEdit(bank.id);
+                                                  if (e.key === 'Escape') handleCancelEdit();
+                                                }}
+                                              />
+                                            ) : (
+                                              formatCurrency(bank.openingBalance || 0, bankCurrency(bank))
+                                            )}
+                                          </TableCell>
+                                          <TableCell className="text-sm text-gray-600 py-4">
+                                            {isEditing ? (
+                                              <CurrencySelect
+                                                value={editingBankCurrency}
+                                                onChange={setEditingBankCurrency}
+                                                currencies={currencySettings?.currencies || []}
+                                                disabled={transactionCount > 0}
+                                                className="h-9 w-28"
+                                              />
+                                            ) : (
+                                              bankCurrency(bank)
+                                            )}
+                                          </TableCell>
                                           <TableCell className="text-sm text-gray-600 py-4">
                                             <div className="flex items-center gap-2">
                                               <DollarSign className="w-3.5 h-3.5 text-gray-400" />
@@ -1049,13 +1020,24 @@ export function EnhancedBankDeposits() {
                                           <TableCell className="py-4">
                                             {!isEditing && (
                                               <div className="flex items-center justify-end gap-2">
+                                                {canViewAllEntries('bankDeposits') && (
+                                                  <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => setLedgerBank(bank)}
+                                                    className="h-9 px-3 text-[#6a40ec] hover:text-[#5a2fd9] hover:bg-[#6a40ec]/10"
+                                                    title="View ledger"
+                                                  >
+                                                    <Wallet className="w-4 h-4" />
+                                                  </Button>
+                                                )}
                                                 {canEditBanks() && (
                                                   <Button
                                                     variant="ghost"
                                                     size="sm"
                                                     onClick={() => handleEditBank(bank)}
                                                     className="h-9 px-3 text-[#6a40ec] hover:text-[#5a2fd9] hover:bg-[#6a40ec]/10"
-                                                    title="Edit bank name"
+                                                    title="Edit bank"
                                                   >
                                                     <Edit2 className="w-4 h-4" />
                                                   </Button>
@@ -1246,13 +1228,13 @@ export function EnhancedBankDeposits() {
                                     const withdrawAmount = parseFloat(transactionForm.withdraw || '0');
                                     const pnlAmount = parseFloat(transactionForm.pnl || '0');
                                     
-                                    // Calculate balance: Deposit - Withdraw + P&L
-                                    const newBalance = depositAmount - withdrawAmount + pnlAmount;
+                                    // Net change of this transaction: Deposit - Withdraw + P&L
+                                    const netChange = depositAmount - withdrawAmount + pnlAmount;
                                     
                                     setTransactionForm({ 
                                       ...transactionForm, 
                                       deposit: depositValue,
-                                      remainingBalance: newBalance.toFixed(2)
+                                      netChange: netChange.toFixed(2)
                                     });
                                   }}
                                   className="pl-8 h-10"
@@ -1281,13 +1263,13 @@ export function EnhancedBankDeposits() {
                                     const withdrawAmount = parseFloat(withdrawValue || '0');
                                     const pnlAmount = parseFloat(transactionForm.pnl || '0');
                                     
-                                    // Calculate balance: Deposit - Withdraw + P&L
-                                    const newBalance = depositAmount - withdrawAmount + pnlAmount;
+                                    // Net change of this transaction: Deposit - Withdraw + P&L
+                                    const netChange = depositAmount - withdrawAmount + pnlAmount;
                                     
                                     setTransactionForm({ 
                                       ...transactionForm, 
                                       withdraw: withdrawValue,
-                                      remainingBalance: newBalance.toFixed(2)
+                                      netChange: netChange.toFixed(2)
                                     });
                                   }}
                                   className="pl-8 h-10"
@@ -1329,13 +1311,13 @@ export function EnhancedBankDeposits() {
                                   const withdrawAmount = parseFloat(transactionForm.withdraw || '0');
                                   const pnlAmount = parseFloat(pnlValue || '0');
                                   
-                                  // Calculate balance: Deposit - Withdraw + P&L
-                                  const newBalance = depositAmount - withdrawAmount + pnlAmount;
+                                  // Net change of this transaction: Deposit - Withdraw + P&L
+                                  const netChange = depositAmount - withdrawAmount + pnlAmount;
                                   
                                   setTransactionForm({ 
                                     ...transactionForm, 
                                     pnl: pnlValue,
-                                    remainingBalance: newBalance.toFixed(2)
+                                    netChange: netChange.toFixed(2)
                                   });
                                 }}
                                   className={`pl-8 pr-10 h-10 ${
@@ -1359,31 +1341,31 @@ export function EnhancedBankDeposits() {
                             </div>
                             
                             <div className="space-y-1.5">
-                              <Label htmlFor="remainingBalance" className="text-sm font-medium text-gray-700 flex items-center gap-1.5">
+                              <Label htmlFor="netChange" className="text-sm font-medium text-gray-700 flex items-center gap-1.5">
                                 <div className="w-5 h-5 rounded bg-blue-100 flex items-center justify-center flex-shrink-0">
                                   <Wallet className="w-3 h-3 text-blue-700" />
                                 </div>
-                                Balance (Auto)
+                                Net Change (Auto)
                               </Label>
                               <div className="relative">
                                 <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 font-medium text-sm">$</span>
                                 <Input
-                                  id="remainingBalance"
+                                  id="netChange"
                                   type="text"
                                   placeholder="0.00"
-                                  value={transactionForm.remainingBalance ? parseFloat(transactionForm.remainingBalance).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '0.00'}
+                                  value={transactionForm.netChange ? parseFloat(transactionForm.netChange).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '0.00'}
                                   readOnly
                                   className={`pl-8 pr-10 h-10 cursor-not-allowed font-semibold ${
-                                    transactionForm.remainingBalance && parseFloat(transactionForm.remainingBalance) < 0
+                                    transactionForm.netChange && parseFloat(transactionForm.netChange) < 0
                                       ? 'border-red-400 text-red-700 bg-red-50'
-                                      : transactionForm.remainingBalance && parseFloat(transactionForm.remainingBalance) > 0
+                                      : transactionForm.netChange && parseFloat(transactionForm.netChange) > 0
                                       ? 'border-green-400 text-green-700 bg-green-50'
                                       : 'bg-gray-100 border-gray-300'
                                   }`}
                                 />
-                                {transactionForm.remainingBalance && parseFloat(transactionForm.remainingBalance) !== 0 && (
+                                {transactionForm.netChange && parseFloat(transactionForm.netChange) !== 0 && (
                                   <div className="absolute right-3 top-1/2 -translate-y-1/2">
-                                    {parseFloat(transactionForm.remainingBalance) >= 0 ? (
+                                    {parseFloat(transactionForm.netChange) >= 0 ? (
                                       <TrendingUp className="w-4 h-4 text-green-600" />
                                     ) : (
                                       <TrendingDown className="w-4 h-4 text-red-600" />
@@ -1395,7 +1377,7 @@ export function EnhancedBankDeposits() {
                           </div>
                           <p className="text-xs text-gray-500 mt-2 flex items-center gap-1.5">
                             <span className="inline-block w-1 h-1 rounded-full bg-gray-400"></span>
-                            Use + for profit, - for loss
+                            Use + for profit, - for loss. The bank's running balance is updated automatically when you save.
                           </p>
                         </div>
                       </div>
@@ -1485,13 +1467,13 @@ export function EnhancedBankDeposits() {
                                   const withdrawAmount = parseFloat(editTransactionForm.withdraw || '0');
                                   const pnlAmount = parseFloat(editTransactionForm.pnl || '0');
                                   
-                                  // Calculate balance: Deposit - Withdraw + P&L (same as Add form)
-                                  const newBalance = depositAmount - withdrawAmount + pnlAmount;
+                                  // Net change of this transaction: Deposit - Withdraw + P&L (same as Add form)
+                                  const netChange = depositAmount - withdrawAmount + pnlAmount;
                                   
                                   setEditTransactionForm({ 
                                     ...editTransactionForm, 
                                     date: newDate,
-                                    remainingBalance: newBalance.toFixed(2)
+                                    netChange: netChange.toFixed(2)
                                   });
                                 }}
                                 required
@@ -1508,6 +1490,7 @@ export function EnhancedBankDeposits() {
                                 <Select 
                                   value={editTransactionForm.selectedStaff} 
                                   onValueChange={(value) => setEditTransactionForm({ ...editTransactionForm, selectedStaff: value })}
+                                  disabled
                                 >
                                   <SelectTrigger className="h-10">
                                     <SelectValue placeholder="Select staff member" />
@@ -1546,13 +1529,13 @@ export function EnhancedBankDeposits() {
                                 const withdrawAmount = parseFloat(editTransactionForm.withdraw || '0');
                                 const pnlAmount = parseFloat(editTransactionForm.pnl || '0');
                                 
-                                // Calculate balance: Deposit - Withdraw + P&L (same as Add form)
-                                const newBalance = depositAmount - withdrawAmount + pnlAmount;
+                                // Net change of this transaction: Deposit - Withdraw + P&L (same as Add form)
+                                const netChange = depositAmount - withdrawAmount + pnlAmount;
                                 
                                 setEditTransactionForm({ 
                                   ...editTransactionForm, 
                                   bankId: value,
-                                  remainingBalance: newBalance.toFixed(2)
+                                  netChange: netChange.toFixed(2)
                                 });
                               }}
                             >
@@ -1606,13 +1589,13 @@ export function EnhancedBankDeposits() {
                                     const withdrawAmount = parseFloat(editTransactionForm.withdraw || '0');
                                     const pnlAmount = parseFloat(editTransactionForm.pnl || '0');
                                     
-                                    // Calculate balance: Deposit - Withdraw + P&L (same as Add form)
-                                    const newBalance = depositAmount - withdrawAmount + pnlAmount;
+                                    // Net change of this transaction: Deposit - Withdraw + P&L (same as Add form)
+                                    const netChange = depositAmount - withdrawAmount + pnlAmount;
                                     
                                     setEditTransactionForm({ 
                                       ...editTransactionForm, 
                                       deposit: depositValue,
-                                      remainingBalance: newBalance.toFixed(2)
+                                      netChange: netChange.toFixed(2)
                                     });
                                   }}
                                   className="pl-8 h-10"
@@ -1641,13 +1624,13 @@ export function EnhancedBankDeposits() {
                                     const withdrawAmount = parseFloat(withdrawValue || '0');
                                     const pnlAmount = parseFloat(editTransactionForm.pnl || '0');
                                     
-                                    // Calculate balance: Deposit - Withdraw + P&L (same as Add form)
-                                    const newBalance = depositAmount - withdrawAmount + pnlAmount;
+                                    // Net change of this transaction: Deposit - Withdraw + P&L (same as Add form)
+                                    const netChange = depositAmount - withdrawAmount + pnlAmount;
                                     
                                     setEditTransactionForm({ 
                                       ...editTransactionForm, 
                                       withdraw: withdrawValue,
-                                      remainingBalance: newBalance.toFixed(2)
+                                      netChange: netChange.toFixed(2)
                                     });
                                   }}
                                   className="pl-8 h-10"
@@ -1676,13 +1659,13 @@ export function EnhancedBankDeposits() {
                                     const withdrawAmount = parseFloat(editTransactionForm.withdraw || '0');
                                     const pnlAmount = parseFloat(pnlValue || '0');
                                     
-                                    // Calculate balance: Deposit - Withdraw + P&L (same as Add form)
-                                    const newBalance = depositAmount - withdrawAmount + pnlAmount;
+                                    // Net change of this transaction: Deposit - Withdraw + P&L (same as Add form)
+                                    const netChange = depositAmount - withdrawAmount + pnlAmount;
                                     
                                     setEditTransactionForm({ 
                                       ...editTransactionForm, 
                                       pnl: pnlValue,
-                                      remainingBalance: newBalance.toFixed(2)
+                                      netChange: netChange.toFixed(2)
                                     });
                                   }}
                                   className={`pr-12 h-10 ${
@@ -1709,32 +1692,32 @@ export function EnhancedBankDeposits() {
                             </div>
                             
                             <div className="space-y-1.5">
-                              <Label htmlFor="edit-remainingBalance" className="text-sm font-medium text-gray-700 flex items-center gap-1.5 mb-2">
+                              <Label htmlFor="edit-netChange" className="text-sm font-medium text-gray-700 flex items-center gap-1.5 mb-2">
                                 <div className="w-5 h-5 rounded bg-blue-100 flex items-center justify-center flex-shrink-0">
                                   <Wallet className="w-3 h-3 text-blue-700" />
                                 </div>
-                                Remaining Balance
+                                Net Change (Auto)
                               </Label>
                               <div className="relative">
                                 <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 font-medium text-sm">$</span>
                                 <Input
-                                  id="edit-remainingBalance"
+                                  id="edit-netChange"
                                   type="number"
                                   step="0.01"
                                   placeholder="0.00"
-                                  value={editTransactionForm.remainingBalance}
+                                  value={editTransactionForm.netChange}
                                   readOnly
                                   className={`pl-8 pr-12 h-10 bg-gray-50 cursor-not-allowed ${
-                                    editTransactionForm.remainingBalance && parseFloat(editTransactionForm.remainingBalance) < 0
+                                    editTransactionForm.netChange && parseFloat(editTransactionForm.netChange) < 0
                                       ? 'border-red-300 text-red-600'
-                                      : editTransactionForm.remainingBalance && parseFloat(editTransactionForm.remainingBalance) > 0
+                                      : editTransactionForm.netChange && parseFloat(editTransactionForm.netChange) > 0
                                       ? 'border-green-300 text-green-600'
                                       : ''
                                   }`}
                                 />
-                                {editTransactionForm.remainingBalance && parseFloat(editTransactionForm.remainingBalance) !== 0 && (
+                                {editTransactionForm.netChange && parseFloat(editTransactionForm.netChange) !== 0 && (
                                   <div className="absolute right-3 top-1/2 -translate-y-1/2">
-                                    {parseFloat(editTransactionForm.remainingBalance) >= 0 ? (
+                                    {parseFloat(editTransactionForm.netChange) >= 0 ? (
                                       <TrendingUp className="w-4 h-4 text-green-600" />
                                     ) : (
                                       <TrendingDown className="w-4 h-4 text-red-600" />
@@ -1789,6 +1772,16 @@ export function EnhancedBankDeposits() {
         </CardHeader>
       </Card>
 
+      {summary && summary.currency.missingRates.length > 0 && (
+        <div className="flex items-start gap-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>
+            No exchange rate for {summary.currency.missingRates.join(', ')}; those amounts are left out of the totals.
+            Add the rates under Exchange Rates.
+          </span>
+        </div>
+      )}
+
       {/* Dashboard Cards */}
       {(() => {
         return (
@@ -1808,7 +1801,7 @@ export function EnhancedBankDeposits() {
               <CardContent className="relative px-4 pb-4 pt-1">
                 <div className="space-y-2">
                   <div className="text-2xl font-bold text-green-600 tracking-tight leading-none">
-                    {formatCurrency(metrics.totalDeposits)}
+                    {formatCurrency(metrics.totalDeposits, metrics.reportingCurrency)}
                   </div>
                   <div className="flex items-center justify-start">
                     <div className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold tracking-wide bg-green-100 text-green-700 border border-green-200">
@@ -1834,11 +1827,11 @@ export function EnhancedBankDeposits() {
               <CardContent className="relative px-4 pb-4 pt-1">
                 <div className="space-y-2">
                   <div className="text-2xl font-bold text-red-600 tracking-tight leading-none">
-                    {formatCurrency(metrics.totalWithdrawals)}
+                    {formatCurrency(metrics.totalWithdrawals, metrics.reportingCurrency)}
                   </div>
                   <div className="flex items-center justify-start">
                     <div className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold tracking-wide bg-gray-100 text-gray-700 border border-gray-200">
-                      Net: {formatCurrency(metrics.netBalance)}
+                      Net: {formatCurrency(metrics.netBalance, metrics.reportingCurrency)}
                     </div>
                   </div>
                 </div>
@@ -1860,7 +1853,7 @@ export function EnhancedBankDeposits() {
               <CardContent className="relative px-4 pb-4 pt-1">
                 <div className="space-y-2">
                   <div className="text-2xl font-bold text-blue-600 tracking-tight leading-none">
-                    {formatCurrency(metrics.totalRemaining)}
+                    {formatCurrency(metrics.totalRemaining, metrics.reportingCurrency)}
                   </div>
                   <div className="flex items-center justify-start">
                     <div className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold tracking-wide bg-blue-100 text-blue-700 border border-blue-200">
@@ -1886,7 +1879,7 @@ export function EnhancedBankDeposits() {
               <CardContent className="relative px-4 pb-4 pt-1">
                 <div className="space-y-2">
                   <div className="text-2xl font-bold text-[#6a40ec] tracking-tight leading-none">
-                    {formatCurrency(metrics.largestBalance.balance)}
+                    {formatCurrency(metrics.largestBalance.balance, metrics.largestBalance.currency)}
                   </div>
                   <div className="flex items-center justify-start">
                     <div className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold tracking-wide bg-purple-100 text-purple-700 border border-purple-200">
@@ -1909,7 +1902,7 @@ export function EnhancedBankDeposits() {
           <CardTitle className="flex items-center justify-between">
             <span>Filters & Search</span>
             <div className="text-sm text-gray-500">
-              Showing {filteredTransactions.length} of {getFilteredBankTransactions().length} transactions
+              {totalCount} {totalCount === 1 ? 'transaction' : 'transactions'}
             </div>
           </CardTitle>
         </CardHeader>
@@ -1972,7 +1965,7 @@ export function EnhancedBankDeposits() {
             </div>
             
             {/* Staff Filter (only show for admins) */}
-            {canViewAllEntries() && (
+            {canViewAllEntries('bankDeposits') && (
               <div>
                 <Label className="mb-2 block">Filter by Staff</Label>
                 <Select value={selectedEmployee} onValueChange={setSelectedEmployee}>
@@ -2031,6 +2024,7 @@ export function EnhancedBankDeposits() {
               <TableBody>
                 {paginatedTransactions.map((transaction, index) => {
                   const bank = banks.find(b => b.id === transaction.bankId);
+                  const currency = bankCurrency(bank);
                   const isEven = index % 2 === 0;
                   const pnlValue = transaction.pnl || 0;
                   return (
@@ -2048,17 +2042,17 @@ export function EnhancedBankDeposits() {
                         {bank?.name || 'Unknown Bank'}
                       </TableCell>
                       <TableCell className="text-green-600">
-                        {transaction.deposit > 0 ? formatCurrency(transaction.deposit) : '-'}
+                        {transaction.deposit > 0 ? formatCurrency(transaction.deposit, currency) : '-'}
                       </TableCell>
                       <TableCell className="text-red-600">
-                        {transaction.withdraw > 0 ? formatCurrency(transaction.withdraw) : '-'}
+                        {transaction.withdraw > 0 ? formatCurrency(transaction.withdraw, currency) : '-'}
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-1">
                           {transaction.pnl !== undefined && transaction.pnl !== null ? (
                             <>
                               <span className={transaction.pnl >= 0 ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>
-                                {transaction.pnl >= 0 ? '+' : ''}{formatCurrency(transaction.pnl)}
+                                {transaction.pnl >= 0 ? '+' : ''}{formatCurrency(transaction.pnl, currency)}
                               </span>
                               {transaction.pnl > 0 ? (
                                 <TrendingUp className="w-4 h-4 text-green-600" />
@@ -2073,7 +2067,7 @@ export function EnhancedBankDeposits() {
                       </TableCell>
                       <TableCell className="font-medium">
                         <span className={transaction.remaining >= 0 ? 'text-green-600' : 'text-red-600'}>
-                          {formatCurrency(transaction.remaining)}
+                          {formatCurrency(transaction.remaining, currency)}
                         </span>
                       </TableCell>
                       <TableCell>
@@ -2105,7 +2099,7 @@ export function EnhancedBankDeposits() {
                                 </Button>
                               </TooltipTrigger>
                               <TooltipContent>
-                                {canViewAllEntries() ? "No edit permission" : "Can only edit your own transactions"}
+                                {isAdmin() ? "No edit permission" : "Can only edit your own transactions"}
                               </TooltipContent>
                             </Tooltip>
                           )}
@@ -2137,10 +2131,24 @@ export function EnhancedBankDeposits() {
                                 </Button>
                               </TooltipTrigger>
                               <TooltipContent>
-                                {canViewAllEntries() ? "No delete permission" : "Can only delete your own transactions"}
+                                {isAdmin() ? "No delete permission" : "Can only delete your own transactions"}
                               </TooltipContent>
                             </Tooltip>
                           )}
+
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setHistoryTransaction(transaction)}
+                                className="text-gray-600 hover:text-gray-800"
+                              >
+                                <History className="w-4 h-4" />
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>View change history</TooltipContent>
+                          </Tooltip>
                         </div>
                       </TableCell>
                     </TableRow>
@@ -2150,16 +2158,16 @@ export function EnhancedBankDeposits() {
                   <TableRow className="bg-gray-50 hover:bg-gray-50 border-t-2 border-gray-300">
                     <TableCell className="font-bold text-left" colSpan={3}>Total</TableCell> 
                     <TableCell className="font-semibold text-green-600 text-left">
-                      {formatCurrency(paginatedTransactions.reduce((sum, t) => sum + (t.deposit || 0), 0))}
+                      {formatCurrencyTotals(paginatedTransactions.map(t => ({ amount: t.deposit || 0, currency: currencyOfBank(t.bankId) })))}
                     </TableCell>
                     <TableCell className="font-semibold text-red-600 text-left">
-                      {formatCurrency(paginatedTransactions.reduce((sum, t) => sum + (t.withdraw || 0), 0))}
+                      {formatCurrencyTotals(paginatedTransactions.map(t => ({ amount: t.withdraw || 0, currency: currencyOfBank(t.bankId) })))}
                     </TableCell>
                     <TableCell className={`font-semibold text-left ${paginatedTransactions.reduce((sum, t) => sum + (t.pnl || 0), 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      {paginatedTransactions.reduce((sum, t) => sum + (t.pnl || 0), 0) >= 0 ? '+' : ''}{formatCurrency(paginatedTransactions.reduce((sum, t) => sum + (t.pnl || 0), 0))}
+                      {paginatedTransactions.reduce((sum, t) => sum + (t.pnl || 0), 0) >= 0 ? '+' : ''}{formatCurrencyTotals(paginatedTransactions.map(t => ({ amount: t.pnl || 0, currency: currencyOfBank(t.bankId) })))}
                     </TableCell>
                     <TableCell className={`font-semibold text-left ${paginatedTransactions.reduce((sum, t) => sum + t.remaining, 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      {formatCurrency(paginatedTransactions.reduce((sum, t) => sum + t.remaining, 0))}
+                      {formatCurrencyTotals(paginatedTransactions.map(t => ({ amount: t.remaining, currency: currencyOfBank(t.bankId) })))}
                     </TableCell>
                     <TableCell></TableCell>
                   </TableRow>
@@ -2173,23 +2181,32 @@ export function EnhancedBankDeposits() {
             )}
           </div>
           
-          {filteredTransactions.length > 0 && (
+          {totalCount > 0 && (
             <TablePagination
-              totalItems={filteredTransactions.length}
+              totalItems={totalCount}
               currentPage={currentPage}
               itemsPerPage={itemsPerPage}
               onPageChange={setCurrentPageState}
-              onItemsPerPageChange={(newItemsPerPage) => {
-                setItemsPerPage(newItemsPerPage);
-                setCurrentPageState(1);
-              }}
+              onItemsPerPageChange={setItemsPerPage}
             />
           )}
         </CardContent>
       </Card>
 
+      {/* Bank Ledger */}
+      <BankLedgerSheet bank={ledgerBank} onOpenChange={(open) => !open && setLedgerBank(null)} />
+
       {/* Delete Confirmation Dialog */}
       <DeleteConfirmationDialog />
+
+      {/* Change History */}
+      <HistorySheet
+        entityType="bankDeposit"
+        entityId={historyTransaction?.id ?? null}
+        title={historyTransaction ? `${banks.find(b => b.id === historyTransaction.bankId)?.name || 'Unknown Bank'} transaction from ${format(new Date(historyTransaction.date), 'MMM dd, yyyy')}` : ''}
+        onClose={() => setHistoryTransaction(null)}
+        formatValue={(field, value) => (field === 'bankId' && value ? banks.find(b => b.id === value)?.name : undefined)}
+      />
       </div>
     </TooltipProvider>
   );
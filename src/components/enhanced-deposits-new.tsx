@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -8,6 +8,10 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFoo
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
+import { HistorySheet } from './history-sheet';
+import { ExportMenu } from './export-menu';
+import { ImportWizard } from './import-wizard';
+import { DepositStatusBadge } from './deposit-status-badge';
 import { Textarea } from './ui/textarea';
 import { Calendar as CalendarComponent } from './ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
@@ -17,25 +21,37 @@ import {
   DropdownMenuItem, 
   DropdownMenuTrigger 
 } from './ui/dropdown-menu';
-import { Plus, Edit, Trash2, Search, Filter, Calendar, X, UserPlus, DollarSign, MinusCircle, User, TrendingUp, Wallet, Calculator, ArrowUpDown, TrendingDown, CalendarIcon } from 'lucide-react';
+import { Plus, Edit, Trash2, History, Send, Save, Search, Filter, Calendar, X, UserPlus, DollarSign, MinusCircle, User, TrendingUp, Wallet, Calculator, ArrowUpDown, TrendingDown, CalendarIcon, AlertTriangle } from 'lucide-react';
 import { useAdmin, type DepositEntry, type ClientIncentive, type ExpenseItem } from './admin-context-new';
 import * as api from '../utils/api';
 import { toast } from 'sonner@2.0.3';
 import { TablePagination } from './table-pagination';
 import { format } from 'date-fns';
 import { MetricsSkeleton, TableSkeleton } from './shimmer-skeleton';
-import { formatCurrency } from '../utils/currency';
+import { formatCurrency, formatCurrencyTotals, type Money } from '../utils/currency';
+import { CurrencySelect, useCurrencySettings } from './currency-select';
+import { presetDateBounds, rangeDateBounds, intersectDateBounds } from '../utils/date-range';
+import { useServerPagination } from './use-server-pagination';
+import { FieldError } from './field-error';
+import { validate, depositInputSchema, depositStatus, depositCurrencies, DEPOSIT_STATUSES, type DepositCurrencies, type DepositSummary, type ReportingCurrencyInfo, type DepositInput, type DepositStatus, type FieldErrors } from '../supabase/functions/server/contract';
 
 const expenseTypes = ['Promotion', 'Salary', 'Miscellaneous', 'IB Commission', 'Travel Expense'] as const;
 
+const STATUS_FILTER_LABELS: Record<DepositStatus, string> = {
+  draft: 'Drafts',
+  submitted: 'Awaiting Review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+// Totals returned alongside each page by GET /deposits, with the currency they were converted into
+type DepositsSummary = DepositSummary & { currency: ReportingCurrencyInfo };
+
 export function EnhancedDepositsNew() {
   const { 
-    deposits, 
-    setDeposits, 
-    withdrawals, 
-    getFilteredDeposits, 
     canViewAllEntries, 
     isAdmin,
+    canApproveDeposits,
     user,
     staff,
     addActivityLog,
@@ -73,6 +89,13 @@ export function EnhancedDepositsNew() {
     return currentStaff?.permissions.deposits || null;
   };
 
+  // Approved entries are locked for their submitter and for anyone who can't review; the server enforces the same
+  const isLocked = (deposit: DepositEntry) =>
+    depositStatus(deposit) === 'approved' && (deposit.submittedBy === user?.id || !canApproveDeposits());
+
+  // Entries awaiting review can't be edited, so the reviewer approves what they saw
+  const isInReview = (deposit: DepositEntry) => depositStatus(deposit) === 'submitted';
+
   const canEditDeposit = (deposit: DepositEntry) => {
     const permissions = getCurrentUserPermissions();
     console.log('Deposits - canEditDeposit check:', { 
@@ -81,13 +104,13 @@ export function EnhancedDepositsNew() {
       depositSubmittedBy: deposit.submittedBy,
       permissions, 
       canEdit: permissions?.edit,
-      isAdmin: canViewAllEntries(),
-      result: permissions ? (canViewAllEntries() ? permissions.edit : (permissions.edit && deposit.submittedBy === user?.id)) : false
+      isAdmin: isAdmin(),
+      result: permissions ? (isAdmin() ? permissions.edit : (permissions.edit && deposit.submittedBy === user?.id)) : false
     });
-    if (!permissions) return false;
+    if (!permissions || isLocked(deposit) || isInReview(deposit)) return false;
     
     // Admin can edit anything
-    if (canViewAllEntries()) return permissions.edit;
+    if (isAdmin()) return permissions.edit;
     
     // Staff can only edit their own entries
     return permissions.edit && deposit.submittedBy === user?.id;
@@ -101,13 +124,13 @@ export function EnhancedDepositsNew() {
       depositSubmittedBy: deposit.submittedBy,
       permissions, 
       canDelete: permissions?.delete,
-      isAdmin: canViewAllEntries(),
-      result: permissions ? (canViewAllEntries() ? permissions.delete : (permissions.delete && deposit.submittedBy === user?.id)) : false
+      isAdmin: isAdmin(),
+      result: permissions ? (isAdmin() ? permissions.delete : (permissions.delete && deposit.submittedBy === user?.id)) : false
     });
-    if (!permissions) return false;
+    if (!permissions || isLocked(deposit)) return false;
     
     // Admin can delete anything
-    if (canViewAllEntries()) return permissions.delete;
+    if (isAdmin()) return permissions.delete;
     
     // Staff can only delete their own entries
     return permissions.delete && deposit.submittedBy === user?.id;
@@ -130,14 +153,15 @@ export function EnhancedDepositsNew() {
   const [startDate, setStartDate] = useState<Date | undefined>(undefined);
   const [endDate, setEndDate] = useState<Date | undefined>(undefined);
   const [expenseTypeFilter, setExpenseTypeFilter] = useState('all');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPage] = useState(10);
+  const [statusFilter, setStatusFilter] = useState<DepositStatus | 'all'>('all');
   const [selectedStaffFilter, setSelectedStaffFilter] = useState('all');
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
   const [sortBy, setSortBy] = useState('date-desc');
   
   // Loading state
   const [isSubmittingDeposit, setIsSubmittingDeposit] = useState(false);
+  const [submittingForReviewId, setSubmittingForReviewId] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   
   // New filter state
   const [dateFilter, setDateFilter] = useState<'all' | 'today' | 'week' | 'month'>('all');
@@ -151,47 +175,6 @@ export function EnhancedDepositsNew() {
   const [isCustomDateOpen, setIsCustomDateOpen] = useState(false);
   const [employeeFilter, setEmployeeFilter] = useState('all');
 
-  // Helper function to check if date is in range
-  const isDateInRange = (dateStr: string) => {
-    const date = new Date(dateStr);
-    const now = new Date();
-    
-    switch (dateFilter) {
-      case 'today':
-        return date.toDateString() === now.toDateString();
-      case 'week':
-        const weekAgo = new Date(now);
-        weekAgo.setDate(now.getDate() - 7);
-        return date >= weekAgo && date <= now;
-      case 'month':
-        const monthAgo = new Date(now);
-        monthAgo.setMonth(now.getMonth() - 1);
-        return date >= monthAgo && date <= now;
-      case 'all':
-      default:
-        return true;
-    }
-  };
-
-  // Check custom date range
-  const isDateInCustomRange = (dateStr: string) => {
-    if (!customDateRange.from && !customDateRange.to) return true;
-    
-    const date = new Date(dateStr);
-    const from = customDateRange.from;
-    const to = customDateRange.to;
-    
-    if (from && to) {
-      return date >= from && date <= to;
-    } else if (from) {
-      return date >= from;
-    } else if (to) {
-      return date <= to;
-    }
-    
-    return true;
-  };
-
   const clearCustomDateRange = () => {
     setCustomDateRange({ from: undefined, to: undefined });
     setIsCustomDateOpen(false);
@@ -207,6 +190,9 @@ export function EnhancedDepositsNew() {
     isOpen: false,
     deposit: null
   });
+
+  // Entry whose change history is open
+  const [historyDeposit, setHistoryDeposit] = useState<DepositEntry | null>(null);
   
   // Form state for deposit entry
   const [formData, setFormData] = useState({
@@ -230,6 +216,15 @@ export function EnhancedDepositsNew() {
     { id: '1', type: 'Miscellaneous', amount: '', description: '' }
   ]);
 
+  // Currencies picked for the entry; null follows the configured defaults
+  const currencySettings = useCurrencySettings();
+  const [currencies, setCurrencies] = useState<DepositCurrencies | null>(null);
+  const formCurrencies: DepositCurrencies = currencies || (currencySettings
+    ? (({ bank, ...defaults }) => defaults)(currencySettings.defaults)
+    : depositCurrencies({}));
+  const setFormCurrency = (key: keyof DepositCurrencies, currency: string) =>
+    setCurrencies({ ...formCurrencies, [key]: currency });
+
   const resetForm = () => {
     setFormData({
       date: new Date().toISOString().split('T')[0],
@@ -243,10 +238,13 @@ export function EnhancedDepositsNew() {
     });
     setClientIncentives([{ id: '1', name: '', amount: '' }]);
     setExpenses([{ id: '1', type: 'Miscellaneous', amount: '', description: '' }]);
+    setCurrencies(null);
     setEditingDeposit(null);
+    setFieldErrors({});
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  // `asDraft` keeps a new entry out of the review queue until it is submitted
+  const handleSubmit = async (e: React.FormEvent, asDraft = false) => {
     e.preventDefault();
     
     // Filter valid client incentives and expenses (optional fields)
@@ -284,7 +282,7 @@ export function EnhancedDepositsNew() {
       }
     }
 
-    const depositData = {
+    const depositData: DepositInput = {
       date: formData.date,
       localDeposit: parseFloat(formData.localDeposit) || 0,
       usdtDeposit: parseFloat(formData.usdtDeposit) || 0,
@@ -294,26 +292,54 @@ export function EnhancedDepositsNew() {
       cashWithdraw: parseFloat(formData.cashWithdraw) || 0,
       clientIncentives: validClientIncentives,
       expenses: validExpenses,
+      // Until the settings load the server applies the defaults
+      currencies: currencies || (currencySettings ? formCurrencies : undefined),
+    };
+
+    // Empty incentive/expense rows are dropped before sending, so row errors are re-keyed by row id
+    const showFieldErrors = (errors: FieldErrors) => {
+      const keyed: FieldErrors = {};
+      Object.entries(errors).forEach(([path, message]) => {
+        const [list, index, ...rest] = path.split('.');
+        const rows = list === 'clientIncentives' ? validClientIncentives : list === 'expenses' ? validExpenses : null;
+        const row = rows?.[Number(index)];
+        keyed[row ? [list, row.id, ...rest].join('.') : path] = message;
+      });
+      setFieldErrors(keyed);
+      toast.error('Please correct the highlighted fields');
     };
 
+    const checked = validate(depositInputSchema, depositData);
+    if (!checked.ok) {
+      showFieldErrors(checked.errors);
+      return;
+    }
+    setFieldErrors({});
+
     setIsSubmittingDeposit(true);
 
     try {
       if (editingDeposit) {
         await api.updateDeposit(editingDeposit.id, depositData);
-        toast.success('Deposit entry updated successfully');
+        toast.success(depositStatus(editingDeposit) === 'approved'
+          ? 'Deposit entry updated and sent back for review'
+          : 'Deposit entry updated successfully');
       } else {
-        await api.createDeposit(depositData);
-        toast.success('Deposit entry added successfully');
+        await api.createDeposit({ ...depositData, draft: asDraft });
+        toast.success(asDraft ? 'Deposit entry saved as draft' : 'Deposit entry submitted for review');
       }
       
-      // Reload data from backend
-      await loadData();
+      // Reload the current page and shared data from backend
+      await Promise.all([reloadDeposits(), loadData()]);
       setIsSheetOpen(false);
       resetForm();
     } catch (error: any) {
       console.error('Save deposit error:', error);
-      toast.error(error.message || 'Failed to save deposit');
+      if (error instanceof api.ApiError && error.fields) {
+        showFieldErrors(error.fields);
+      } else {
+        toast.error(error.message || 'Failed to save deposit');
+      }
     } finally {
       setIsSubmittingDeposit(false);
     }
@@ -321,6 +347,7 @@ export function EnhancedDepositsNew() {
 
   const handleEdit = (deposit: DepositEntry) => {
     setEditingDeposit(deposit);
+    setFieldErrors({});
     setFormData({
       date: deposit.date,
       localDeposit: deposit.localDeposit.toString(),
@@ -331,13 +358,14 @@ export function EnhancedDepositsNew() {
       cashWithdraw: deposit.cashWithdraw.toString(),
       selectedStaff: deposit.submittedBy,
     });
+    setCurrencies(depositCurrencies(deposit));
     setClientIncentives(deposit.clientIncentives.length > 0 ? deposit.clientIncentives : [{ id: '1', name: '', amount: '' }]);
     setExpenses(deposit.expenses.length > 0 ? deposit.expenses : [{ id: '1', type: 'Miscellaneous', amount: '', description: '' }]);
     setIsSheetOpen(true);
   };
 
   const handleDelete = (id: string) => {
-    const depositToDelete = deposits.find(d => d.id === id);
+    const depositToDelete = pagedDeposits.find(d => d.id === id);
     if (!depositToDelete) return;
 
     // Show confirmation dialog
@@ -354,8 +382,8 @@ export function EnhancedDepositsNew() {
     try {
       await api.deleteDeposit(depositToDelete.id);
       
-      // Reload data from backend
-      await loadData();
+      // Reload the current page and shared data from backend
+      await Promise.all([reloadDeposits(), loadData()]);
       
       setDeleteConfirmation({
         isOpen: false,
@@ -369,26 +397,27 @@ export function EnhancedDepositsNew() {
     }
   };
 
-  // Calculate dashboard metrics based on filtered data
-  const calculateDashboardMetrics = (deposits: DepositEntry[]) => {
-    const totalDeposits = deposits.reduce((sum, deposit) => 
-      sum + deposit.localDeposit + deposit.usdtDeposit + deposit.cashDeposit, 0
-    );
-    
-    const totalWithdraws = deposits.reduce((sum, deposit) => 
-      sum + deposit.localWithdraw + deposit.usdtWithdraw + deposit.cashWithdraw, 0
-    );
-    
+  const handleSubmitForReview = async (deposit: DepositEntry) => {
+    setSubmittingForReviewId(deposit.id);
+    try {
+      await api.submitDeposit(deposit.id);
+      await reloadDeposits();
+      toast.success('Deposit entry submitted for review');
+    } catch (error: any) {
+      console.error('Submit deposit error:', error);
+      toast.error(error.message || 'Failed to submit deposit');
+    } finally {
+      setSubmittingForReviewId(null);
+    }
+  };
+
+  // Dashboard metrics come from the server summary, which covers every matching entry (not just this page)
+  const calculateDashboardMetrics = (summary: DepositsSummary | null, entryCount: number) => {
+    const totalDeposits = summary?.totalDeposits || 0;
+    const totalWithdraws = summary?.totalWithdraws || 0;
     const netDeposits = totalDeposits - totalWithdraws;
-    
-    const totalClientIncentives = deposits.reduce((sum, deposit) => 
-      sum + deposit.clientIncentives.reduce((incentiveSum, incentive) => incentiveSum + incentive.amount, 0), 0
-    );
-    
-    const totalCompanyExpenses = deposits.reduce((sum, deposit) => 
-      sum + deposit.expenses.reduce((expSum, expense) => expSum + expense.amount, 0), 0
-    );
-    
+    const totalClientIncentives = summary?.totalClientIncentives || 0;
+    const totalCompanyExpenses = summary?.totalCompanyExpenses || 0;
     const netProfit = netDeposits - totalClientIncentives - totalCompanyExpenses;
     
     return {
@@ -398,87 +427,55 @@ export function EnhancedDepositsNew() {
       totalClientIncentives,
       totalCompanyExpenses,
       netProfit,
-      entryCount: deposits.length
+      entryCount,
+      reportingCurrency: summary?.currency.reportingCurrency,
     };
   };
 
-  // Filter deposits based on search and filters with role-based access control
-  const filteredDeposits = useMemo(() => {
-    const userDeposits = getFilteredDeposits(); // Get deposits based on user role
-    return userDeposits.filter((deposit) => {
-      const matchesSearch = 
-        deposit.clientIncentives.some(ci => ci.name.toLowerCase().includes(searchTerm.toLowerCase())) ||
-        deposit.expenses.some(exp => exp.type.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                                   exp.description?.toLowerCase().includes(searchTerm.toLowerCase())) ||
-        deposit.date.includes(searchTerm) ||
-        deposit.submittedByName.toLowerCase().includes(searchTerm.toLowerCase());
-      
-      const matchesDate = (() => {
-        if (!startDate && !endDate) return true;
-        const depositDate = new Date(deposit.date);
-        if (startDate && endDate) {
-          return depositDate >= startDate && depositDate <= endDate;
-        }
-        if (startDate) {
-          return depositDate >= startDate;
-        }
-        if (endDate) {
-          return depositDate <= endDate;
-        }
-        return true;
-      })();
-      
-      // New date filters
-      const matchesDateFilter = dateFilter === 'all' || isDateInRange(deposit.date);
-      const matchesCustomDateRange = isDateInCustomRange(deposit.date);
-      
-      const matchesExpenseType = expenseTypeFilter === 'all' || 
-        deposit.expenses.some(exp => exp.type === expenseTypeFilter);
-      const matchesStaff = selectedStaffFilter === 'all' || deposit.submittedBy === selectedStaffFilter;
-      
-      // New employee filter
-      const matchesEmployee = employeeFilter === 'all' || deposit.submittedBy === employeeFilter;
-      
-      return matchesSearch && matchesDate && matchesDateFilter && matchesCustomDateRange && matchesExpenseType && matchesStaff && matchesEmployee;
-    }).sort((a, b) => {
-      switch (sortBy) {
-        case 'date-desc':
-          // Sort by date first (newest first), then by createdAt if available (most recent first)
-          const dateDiff = new Date(b.date).getTime() - new Date(a.date).getTime();
-          if (dateDiff !== 0) return dateDiff;
-          // If same date, sort by createdAt (most recent first) if available
-          const createdAtA = (a as any).createdAt ? new Date((a as any).createdAt).getTime() : 0;
-          const createdAtB = (b as any).createdAt ? new Date((b as any).createdAt).getTime() : 0;
-          if (createdAtA !== 0 || createdAtB !== 0) return createdAtB - createdAtA;
-          // If no createdAt, use id as fallback (newer IDs typically come first)
-          return b.id.localeCompare(a.id);
-        case 'date-asc':
-          // Sort by date first (oldest first), then by createdAt if available (oldest first)
-          const dateDiffAsc = new Date(a.date).getTime() - new Date(b.date).getTime();
-          if (dateDiffAsc !== 0) return dateDiffAsc;
-          // If same date, sort by createdAt (oldest first) if available
-          const createdAtAAsc = (a as any).createdAt ? new Date((a as any).createdAt).getTime() : 0;
-          const createdAtBAsc = (b as any).createdAt ? new Date((b as any).createdAt).getTime() : 0;
-          if (createdAtAAsc !== 0 || createdAtBAsc !== 0) return createdAtAAsc - createdAtBAsc;
-          // If no createdAt, use id as fallback
-          return a.id.localeCompare(b.id);
-        case 'amount-desc':
-          return calculateTotalDeposit(b) - calculateTotalDeposit(a);
-        case 'amount-asc':
-          return calculateTotalDeposit(a) - calculateTotalDeposit(b);
-        case 'submitter-asc':
-          return a.submittedByName.localeCompare(b.submittedByName);
-        case 'submitter-desc':
-          return b.submittedByName.localeCompare(a.submittedByName);
-        default:
-          return 0;
-      }
-    });
-  }, [getFilteredDeposits, searchTerm, startDate, endDate, expenseTypeFilter, selectedStaffFilter, sortBy, dateFilter, customDateRange, employeeFilter]);
+  // Filters are applied server-side; staff only ever receive their own entries
+  const depositFilters = useMemo(() => {
+    const staffFilter = employeeFilter !== 'all' ? employeeFilter : selectedStaffFilter;
+    return {
+      search: searchTerm.trim() || undefined,
+      ...intersectDateBounds(
+        rangeDateBounds(startDate, endDate),
+        presetDateBounds(dateFilter),
+        rangeDateBounds(customDateRange.from, customDateRange.to),
+      ),
+      expenseType: expenseTypeFilter !== 'all' ? expenseTypeFilter : undefined,
+      status: statusFilter !== 'all' ? statusFilter : undefined,
+      submittedBy: canViewAllEntries('deposits') && staffFilter !== 'all' ? staffFilter : undefined,
+      sort: sortBy,
+    };
+  }, [searchTerm, startDate, endDate, dateFilter, customDateRange, expenseTypeFilter, statusFilter, employeeFilter, selectedStaffFilter, canViewAllEntries, sortBy]);
+
+  const fetchDepositsPage = useCallback(async (query: api.ListQuery) => {
+    const data = await api.getDeposits(query);
+    return {
+      items: (data?.deposits || []) as DepositEntry[],
+      totalCount: data?.pagination?.totalCount || 0,
+      summary: (data?.summary ? { ...data.summary, currency: data.currency } : null) as DepositsSummary | null,
+    };
+  }, []);
+
+  const {
+    items: pagedDeposits,
+    totalCount,
+    summary,
+    currentPage,
+    setCurrentPage,
+    itemsPerPage,
+    setItemsPerPage,
+    reload: reloadDeposits,
+  } = useServerPagination({
+    fetchPage: fetchDepositsPage,
+    filters: depositFilters,
+    enabled: !!user,
+  });
 
   // Group deposits by date and staff member (show separately even if same date)
   const groupedDeposits = useMemo(() => {
-    return filteredDeposits.reduce((acc, deposit) => {
+    return pagedDeposits.reduce((acc, deposit) => {
       const key = `${deposit.date}-${deposit.submittedBy}`;
       if (!acc[key]) {
         acc[key] = [];
@@ -486,7 +483,7 @@ export function EnhancedDepositsNew() {
       acc[key].push(deposit);
       return acc;
     }, {} as Record<string, DepositEntry[]>);
-  }, [filteredDeposits]);
+  }, [pagedDeposits]);
 
   // Flatten grouped deposits for pagination (keeping separate entries for same date/different staff)
   const flattenedDeposits = useMemo(() => {
@@ -499,23 +496,20 @@ export function EnhancedDepositsNew() {
     );
   }, [groupedDeposits]);
 
-  const paginatedDeposits = useMemo(() => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return flattenedDeposits.slice(startIndex, startIndex + itemsPerPage);
-  }, [flattenedDeposits, currentPage, itemsPerPage]);
+  const paginatedDeposits = flattenedDeposits;
 
-  const hasActiveFilters = searchTerm !== '' || startDate || endDate || expenseTypeFilter !== 'all' || selectedStaffFilter !== 'all' || hasNewActiveFilters;
+  const hasActiveFilters = searchTerm !== '' || startDate || endDate || expenseTypeFilter !== 'all' || statusFilter !== 'all' || selectedStaffFilter !== 'all' || hasNewActiveFilters;
 
   const clearAllFilters = () => {
     setSearchTerm('');
     setStartDate(undefined);
     setEndDate(undefined);
     setExpenseTypeFilter('all');
+    setStatusFilter('all');
     setSelectedStaffFilter('all');
     setDateFilter('all');
     clearCustomDateRange();
     setEmployeeFilter('all');
-    setCurrentPage(1);
   };
 
   const setCurrentPageState = (page: number) => {
@@ -543,6 +537,25 @@ export function EnhancedDepositsNew() {
     return totalDeposit - totalIncentives - totalExpenses;
   };
 
+  // The amounts behind the total and the balance, each in its own currency, for formatCurrencyTotals
+  const depositAmounts = (deposit: DepositEntry): Money[] => {
+    const currencies = depositCurrencies(deposit);
+    return [
+      { amount: deposit.localDeposit - deposit.localWithdraw, currency: currencies.local },
+      { amount: deposit.usdtDeposit - deposit.usdtWithdraw, currency: currencies.usdt },
+      { amount: deposit.cashDeposit - deposit.cashWithdraw, currency: currencies.cash },
+    ];
+  };
+
+  const balanceAmounts = (deposit: DepositEntry): Money[] => {
+    const currencies = depositCurrencies(deposit);
+    return [
+      ...depositAmounts(deposit),
+      { amount: -calculateTotalIncentives(deposit), currency: currencies.incentives },
+      { amount: -calculateTotalExpenses(deposit), currency: currencies.expenses },
+    ];
+  };
+
   const addClientIncentive = () => {
     setClientIncentives([...clientIncentives, { id: Date.now().toString(), name: '', amount: '' }]);
   };
@@ -607,7 +620,7 @@ export function EnhancedDepositsNew() {
                 <CardTitle className="text-xl md:text-2xl">Daily Deposits Management</CardTitle>
                 <CardDescription className="text-sm">
                   Track daily deposits, client incentives, and company expenses
-                  {!canViewAllEntries() && (
+                  {!canViewAllEntries('deposits') && (
                     <span className="block text-sm text-blue-600 mt-1">
                       <User className="w-4 h-4 inline mr-1" />
                       Showing only your entries
@@ -701,7 +714,7 @@ export function EnhancedDepositsNew() {
 
 
                 {/* Employee Filter - Only show for admin users */}
-                {canViewAllEntries() && (
+                {canViewAllEntries('deposits') && (
                   <Select value={employeeFilter} onValueChange={setEmployeeFilter}>
                     <SelectTrigger className="w-40">
                       <SelectValue placeholder="All Employees" />
@@ -730,6 +743,12 @@ export function EnhancedDepositsNew() {
                   </Button>
                 )}
 
+                <ExportMenu resource="deposits" params={depositFilters} />
+
+                {isAdmin() && (
+                  <ImportWizard type="deposits" onImported={() => Promise.all([reloadDeposits(), loadData()])} />
+                )}
+
                 {/* Add New Entry Button - Only visible if user has add permission */}
                 {canAddDeposit() && (
                   <Sheet open={isSheetOpen} onOpenChange={setIsSheetOpen}>
@@ -771,6 +790,7 @@ export function EnhancedDepositsNew() {
                                 required
                                 className="h-10"
                               />
+                              <FieldError errors={fieldErrors} name="date" />
                             </div>
                             
                             {/* Staff Selection (only for admins) */}
@@ -796,6 +816,31 @@ export function EnhancedDepositsNew() {
                               </div>
                             )}
                           </div>
+
+                          <div className="mt-4 space-y-1.5">
+                            <Label className="text-sm font-medium text-gray-700">Currencies</Label>
+                            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                              {([
+                                ['local', 'Local'],
+                                ['usdt', 'USDT'],
+                                ['cash', 'Cash'],
+                                ['incentives', 'Incentives'],
+                                ['expenses', 'Expenses'],
+                              ] as [keyof DepositCurrencies, string][]).map(([key, label]) => (
+                                <div key={key} className="space-y-1">
+                                  <Label htmlFor={`currency-${key}`} className="text-xs text-gray-500">{label}</Label>
+                                  <CurrencySelect
+                                    id={`currency-${key}`}
+                                    value={formCurrencies[key]}
+                                    onChange={(currency) => setFormCurrency(key, currency)}
+                                    currencies={currencySettings?.currencies || []}
+                                    className="h-9 w-full"
+                                  />
+                                  <FieldError errors={fieldErrors} name={`currencies.${key}`} />
+                                </div>
+                              ))}
+                            </div>
+                          </div>
                         </div>
                       </div>
 
@@ -813,7 +858,7 @@ export function EnhancedDepositsNew() {
                             <div className="space-y-1.5">
                               <Label htmlFor="localDeposit" className="text-sm font-medium text-gray-700 flex items-center gap-1.5">
                                 <Wallet className="w-4 h-4 text-green-600" />
-                                Local Deposit
+                                Local Deposit ({formCurrencies.local})
                               </Label>
                               <Input
                                 id="localDeposit"
@@ -824,11 +869,12 @@ export function EnhancedDepositsNew() {
                                 onChange={(e) => setFormData({ ...formData, localDeposit: e.target.value })}
                                 className="h-10"
                               />
+                              <FieldError errors={fieldErrors} name="localDeposit" />
                             </div>
                             <div className="space-y-1.5">
                               <Label htmlFor="usdtDeposit" className="text-sm font-medium text-gray-700 flex items-center gap-1.5">
                                 <Wallet className="w-4 h-4 text-blue-600" />
-                                USDT Deposit
+                                USDT Deposit ({formCurrencies.usdt})
                               </Label>
                               <Input
                                 id="usdtDeposit"
@@ -839,11 +885,12 @@ export function EnhancedDepositsNew() {
                                 onChange={(e) => setFormData({ ...formData, usdtDeposit: e.target.value })}
                                 className="h-10"
                               />
+                              <FieldError errors={fieldErrors} name="usdtDeposit" />
                             </div>
                             <div className="space-y-1.5">
                               <Label htmlFor="cashDeposit" className="text-sm font-medium text-gray-700 flex items-center gap-1.5">
                                 <Wallet className="w-4 h-4 text-purple-600" />
-                                Cash Deposit
+                                Cash Deposit ({formCurrencies.cash})
                               </Label>
                               <Input
                                 id="cashDeposit"
@@ -854,6 +901,7 @@ export function EnhancedDepositsNew() {
                                 onChange={(e) => setFormData({ ...formData, cashDeposit: e.target.value })}
                                 className="h-10"
                               />
+                              <FieldError errors={fieldErrors} name="cashDeposit" />
                             </div>
                           </div>
                         </div>
@@ -873,7 +921,7 @@ export function EnhancedDepositsNew() {
                             <div className="space-y-1.5">
                               <Label htmlFor="localWithdraw" className="text-sm font-medium text-gray-700 flex items-center gap-1.5">
                                 <Wallet className="w-4 h-4 text-red-600" />
-                                Local Withdraw
+                                Local Withdraw ({formCurrencies.local})
                               </Label>
                               <Input
                                 id="localWithdraw"
@@ -884,11 +932,12 @@ export function EnhancedDepositsNew() {
                                 onChange={(e) => setFormData({ ...formData, localWithdraw: e.target.value })}
                                 className="h-10"
                               />
+                              <FieldError errors={fieldErrors} name="localWithdraw" />
                             </div>
                             <div className="space-y-1.5">
                               <Label htmlFor="usdtWithdraw" className="text-sm font-medium text-gray-700 flex items-center gap-1.5">
                                 <Wallet className="w-4 h-4 text-red-600" />
-                                USDT Withdraw
+                                USDT Withdraw ({formCurrencies.usdt})
                               </Label>
                               <Input
                                 id="usdtWithdraw"
@@ -899,11 +948,12 @@ export function EnhancedDepositsNew() {
                                 onChange={(e) => setFormData({ ...formData, usdtWithdraw: e.target.value })}
                                 className="h-10"
                               />
+                              <FieldError errors={fieldErrors} name="usdtWithdraw" />
                             </div>
                             <div className="space-y-1.5">
                               <Label htmlFor="cashWithdraw" className="text-sm font-medium text-gray-700 flex items-center gap-1.5">
                                 <Wallet className="w-4 h-4 text-red-600" />
-                                Cash Withdraw
+                                Cash Withdraw ({formCurrencies.cash})
                               </Label>
                               <Input
                                 id="cashWithdraw"
@@ -914,6 +964,7 @@ export function EnhancedDepositsNew() {
                                 onChange={(e) => setFormData({ ...formData, cashWithdraw: e.target.value })}
                                 className="h-10"
                               />
+                              <FieldError errors={fieldErrors} name="cashWithdraw" />
                             </div>
                           </div>
                         </div>
@@ -959,10 +1010,11 @@ export function EnhancedDepositsNew() {
                                     onChange={(e) => updateClientIncentive(incentive.id, 'name', e.target.value)}
                                     className="h-10"
                                   />
+                                  <FieldError errors={fieldErrors} name={`clientIncentives.${incentive.id}.name`} />
                                 </div>
                                 <div className="flex-1 space-y-1.5">
                                   <Label className="text-xs font-medium text-gray-700">
-                                    Incentive Amount ($)
+                                    Incentive Amount ({formCurrencies.incentives})
                                   </Label>
                                   <Input
                                     type="number"
@@ -975,6 +1027,7 @@ export function EnhancedDepositsNew() {
                                     }}
                                     className="h-10"
                                   />
+                                  <FieldError errors={fieldErrors} name={`clientIncentives.${incentive.id}.amount`} />
                                 </div>
                                 {clientIncentives.length > 1 && (
                                   <Button
@@ -999,10 +1052,10 @@ export function EnhancedDepositsNew() {
                                 <div className="flex justify-between items-center">
                                   <span className="text-sm font-medium text-blue-900">Total Client Incentives:</span>
                                   <span className="font-semibold text-blue-900">
-                                    ${clientIncentives.reduce((sum, ci) => {
+                                    {clientIncentives.reduce((sum, ci) => {
                                       const amount = typeof ci.amount === 'string' ? parseFloat(ci.amount) || 0 : (ci.amount || 0);
                                       return sum + amount;
-                                    }, 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                    }, 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} {formCurrencies.incentives}
                                   </span>
                                 </div>
                               </div>
@@ -1059,10 +1112,11 @@ export function EnhancedDepositsNew() {
                                         ))}
                                       </SelectContent>
                                     </Select>
+                                    <FieldError errors={fieldErrors} name={`expenses.${expense.id}.type`} />
                                   </div>
                                   <div className="col-span-2 space-y-1.5">
                                     <Label className="text-xs font-medium text-gray-700">
-                                      Amount ($)
+                                      Amount ({formCurrencies.expenses})
                                     </Label>
                                     <Input
                                       type="number"
@@ -1075,6 +1129,7 @@ export function EnhancedDepositsNew() {
                                     }}
                                       className="h-10"
                                     />
+                                    <FieldError errors={fieldErrors} name={`expenses.${expense.id}.amount`} />
                                   </div>
                                   <div className="flex items-end">
                                     {expenses.length > 1 && (
@@ -1099,6 +1154,7 @@ export function EnhancedDepositsNew() {
                                     rows={2}
                                     className="resize-none"
                                   />
+                                  <FieldError errors={fieldErrors} name={`expenses.${expense.id}.description`} />
                                 </div>
                               </div>
                             ))}
@@ -1112,10 +1168,10 @@ export function EnhancedDepositsNew() {
                                 <div className="flex justify-between items-center">
                                   <span className="text-sm font-medium text-red-900">Total Company Expenses:</span>
                                   <span className="font-semibold text-red-900">
-                                    ${expenses.reduce((sum, exp) => {
+                                    {expenses.reduce((sum, exp) => {
                                       const amount = typeof exp.amount === 'string' ? parseFloat(exp.amount) || 0 : (exp.amount || 0);
                                       return sum + amount;
-                                    }, 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                    }, 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} {formCurrencies.expenses}
                                   </span>
                                 </div>
                               </div>
@@ -1137,6 +1193,18 @@ export function EnhancedDepositsNew() {
                         >
                           Cancel
                         </Button>
+                        {!editingDeposit && (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            onClick={(e) => handleSubmit(e, true)}
+                            className="h-10 px-6"
+                            disabled={isSubmittingDeposit}
+                          >
+                            <Save className="w-4 h-4 mr-2" />
+                            Save as Draft
+                          </Button>
+                        )}
                         <Button 
                           type="submit" 
                           className="bg-[#6a40ec] hover:bg-[#5a2fd9] h-10 px-6"
@@ -1153,7 +1221,7 @@ export function EnhancedDepositsNew() {
                           ) : (
                             <>
                               <Plus className="w-4 h-4 mr-2" />
-                              {editingDeposit ? 'Update Entry' : 'Add Entry'}
+                              {editingDeposit ? 'Update Entry' : 'Submit Entry'}
                             </>
                           )}
                         </Button>
@@ -1168,9 +1236,19 @@ export function EnhancedDepositsNew() {
           </CardHeader>
         </Card>
 
+        {summary && summary.currency.missingRates.length > 0 && (
+          <div className="flex items-start gap-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              No exchange rate for {summary.currency.missingRates.join(', ')}; those amounts are left out of the totals.
+              Add the rates under Exchange Rates.
+            </span>
+          </div>
+        )}
+
         {/* Dashboard Cards */}
         {(() => {
-          const metrics = calculateDashboardMetrics(filteredDeposits);
+          const metrics = calculateDashboardMetrics(summary, totalCount);
           return (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
               <Card className="group relative overflow-hidden hover:shadow-2xl hover:scale-[1.02] transition-all duration-500 bg-gradient-to-br from-white via-green-50/40 to-green-100/15 border border-green-200/60 hover:border-green-400/30 backdrop-blur-sm">
@@ -1188,7 +1266,7 @@ export function EnhancedDepositsNew() {
                 <CardContent className="relative px-4 pb-4 pt-1">
                   <div className="space-y-2">
                     <div className="text-2xl font-bold text-green-600 tracking-tight leading-none">
-                      {formatCurrency(metrics.totalDeposits)}
+                      {formatCurrency(metrics.totalDeposits, metrics.reportingCurrency)}
                     </div>
                     <div className="flex items-center justify-start">
                       <div className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold tracking-wide bg-green-100 text-green-700 border border-green-200">
@@ -1214,11 +1292,11 @@ export function EnhancedDepositsNew() {
                 <CardContent className="relative px-4 pb-4 pt-1">
                   <div className="space-y-2">
                     <div className="text-2xl font-bold text-red-600 tracking-tight leading-none">
-                      {formatCurrency(metrics.totalWithdraws)}
+                      {formatCurrency(metrics.totalWithdraws, metrics.reportingCurrency)}
                     </div>
                     <div className="flex items-center justify-start">
                       <div className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold tracking-wide bg-gray-100 text-gray-700 border border-gray-200">
-                        Net: {formatCurrency(metrics.netDeposits)}
+                        Net: {formatCurrency(metrics.netDeposits, metrics.reportingCurrency)}
                       </div>
                     </div>
                   </div>
@@ -1240,11 +1318,11 @@ export function EnhancedDepositsNew() {
                 <CardContent className="relative px-4 pb-4 pt-1">
                   <div className="space-y-2">
                     <div className="text-2xl font-bold text-blue-600 tracking-tight leading-none">
-                      {formatCurrency(metrics.totalClientIncentives)}
+                      {formatCurrency(metrics.totalClientIncentives, metrics.reportingCurrency)}
                     </div>
                     <div className="flex items-center justify-start">
                       <div className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold tracking-wide bg-orange-100 text-orange-700 border border-orange-200">
-                        Expenses: {formatCurrency(metrics.totalCompanyExpenses)}
+                        Expenses: {formatCurrency(metrics.totalCompanyExpenses, metrics.reportingCurrency)}
                       </div>
                     </div>
                   </div>
@@ -1266,7 +1344,7 @@ export function EnhancedDepositsNew() {
                 <CardContent className="relative px-4 pb-4 pt-1">
                   <div className="space-y-2">
                     <div className={`text-2xl font-bold tracking-tight leading-none ${metrics.netProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      {formatCurrency(metrics.netProfit)}
+                      {formatCurrency(metrics.netProfit, metrics.reportingCurrency)}
                     </div>
                     <div className="flex items-center justify-start">
                       <div className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold tracking-wide transition-colors ${
@@ -1381,6 +1459,20 @@ export function EnhancedDepositsNew() {
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as DepositStatus | 'all')}>
+                  <SelectTrigger>
+                    <Filter className="w-4 h-4 mr-2" />
+                    <SelectValue placeholder="Filter by status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Statuses</SelectItem>
+                    {DEPOSIT_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>{STATUS_FILTER_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               
               {/* Sort By */}
               <div>
@@ -1401,7 +1493,7 @@ export function EnhancedDepositsNew() {
               </div>
               
               {/* Staff Filter (only show for admins) */}
-              {canViewAllEntries() && (
+              {canViewAllEntries('deposits') && (
                 <div>
                   <Select value={selectedStaffFilter} onValueChange={setSelectedStaffFilter}>
                     <SelectTrigger>
@@ -1429,7 +1521,7 @@ export function EnhancedDepositsNew() {
                   </Button>
                 )}
                 <span className="text-sm text-gray-500">
-                  {filteredDeposits.length} of {deposits.length} entries
+                  {totalCount} {totalCount === 1 ? 'entry' : 'entries'}
                 </span>
               </div>
             </div>
@@ -1449,6 +1541,7 @@ export function EnhancedDepositsNew() {
                   <TableRow>
                     <TableHead>Date</TableHead>
                     <TableHead>Submitted By</TableHead>
+                    <TableHead>Status</TableHead>
                     <TableHead>Local Deposit</TableHead>
                     <TableHead>USDT Deposit</TableHead>
                     <TableHead>Cash Deposit</TableHead>
@@ -1474,19 +1567,17 @@ export function EnhancedDepositsNew() {
                       <TableCell className="text-sm text-gray-600">
                         {deposit.submittedByName}
                       </TableCell>
-                      <TableCell>{formatCurrency(deposit.localDeposit)}</TableCell>
-                      <TableCell>{formatCurrency(deposit.usdtDeposit)}</TableCell>
-                      <TableCell>{formatCurrency(deposit.cashDeposit)}</TableCell>
-                      <TableCell className="text-red-600">{formatCurrency(deposit.localWithdraw)}</TableCell>
-                      <TableCell className="text-red-600">{formatCurrency(deposit.usdtWithdraw)}</TableCell>
-                      <TableCell className="text-red-600">{formatCurrency(deposit.cashWithdraw)}</TableCell>
+                      <TableCell>
+                        <DepositStatusBadge deposit={deposit} />
+                      </TableCell>
+                      <TableCell>{formatCurrency(deposit.localDeposit, depositCurrencies(deposit).local)}</TableCell>
+                      <TableCell>{formatCurrency(deposit.usdtDeposit, depositCurrencies(deposit).usdt)}</TableCell>
+                      <TableCell>{formatCurrency(deposit.cashDeposit, depositCurrencies(deposit).cash)}</TableCell>
+                      <TableCell className="text-red-600">{formatCurrency(deposit.localWithdraw, depositCurrencies(deposit).local)}</TableCell>
+                      <TableCell className="text-red-600">{formatCurrency(deposit.usdtWithdraw, depositCurrencies(deposit).usdt)}</TableCell>
+                      <TableCell className="text-red-600">{formatCurrency(deposit.cashWithdraw, depositCurrencies(deposit).cash)}</TableCell>
                       <TableCell className="font-medium">
-                        {(() => {
-                          const value = calculateTotalDeposit(deposit);
-                          return value < 0 
-                            ? `-$${Math.abs(value).toLocaleString()}` 
-                            : `$${value.toLocaleString()}`;
-                        })()}
+                        {formatCurrencyTotals(depositAmounts(deposit))}
                       </TableCell>
                       <TableCell>
                         <Tooltip>
@@ -1498,7 +1589,7 @@ export function EnhancedDepositsNew() {
                                   : `${deposit.clientIncentives.length} clients`}
                               </div>
                               <div className="text-gray-500">
-                                {formatCurrency(calculateTotalIncentives(deposit))}
+                                {formatCurrency(calculateTotalIncentives(deposit), depositCurrencies(deposit).incentives)}
                               </div>
                             </div>
                           </TooltipTrigger>
@@ -1506,7 +1597,7 @@ export function EnhancedDepositsNew() {
                             <div className="space-y-1">
                               {deposit.clientIncentives.map((ci, index) => (
                                 <div key={index} className="text-sm">
-                                  {ci.name}: {formatCurrency(ci.amount)}
+                                  {ci.name}: {formatCurrency(ci.amount, depositCurrencies(deposit).incentives)}
                                 </div>
                               ))}
                             </div>
@@ -1523,7 +1614,7 @@ export function EnhancedDepositsNew() {
                                   : `${deposit.expenses.length} expenses`}
                               </div>
                               <div className="text-gray-500">
-                                {formatCurrency(calculateTotalExpenses(deposit))}
+                                {formatCurrency(calculateTotalExpenses(deposit), depositCurrencies(deposit).expenses)}
                               </div>
                             </div>
                           </TooltipTrigger>
@@ -1531,7 +1622,7 @@ export function EnhancedDepositsNew() {
                             <div className="space-y-1">
                               {deposit.expenses.map((exp, index) => (
                                 <div key={index} className="text-sm">
-                                  {exp.type}: {formatCurrency(exp.amount)}
+                                  {exp.type}: {formatCurrency(exp.amount, depositCurrencies(deposit).expenses)}
                                   {exp.description && <div className="text-xs text-gray-500">{exp.description}</div>}
                                 </div>
                               ))}
@@ -1541,7 +1632,7 @@ export function EnhancedDepositsNew() {
                       </TableCell>
                       <TableCell className="font-medium">
                         <span className={calculateTodaysBalance(deposit) >= 0 ? 'text-green-600' : 'text-red-600'}>
-                          {formatCurrency(calculateTodaysBalance(deposit))}
+                          {formatCurrencyTotals(balanceAmounts(deposit))}
                         </span>
                       </TableCell>
                       <TableCell>
@@ -1573,7 +1664,7 @@ export function EnhancedDepositsNew() {
                                 </Button>
                               </TooltipTrigger>
                               <TooltipContent>
-                                {canViewAllEntries() ? "No edit permission" : "Can only edit your own entries"}
+                                {isLocked(deposit) ? "Approved entries are locked" : isInReview(deposit) ? "Entries under review are locked" : isAdmin() ? "No edit permission" : "Can only edit your own entries"}
                               </TooltipContent>
                             </Tooltip>
                           )}
@@ -1605,10 +1696,41 @@ export function EnhancedDepositsNew() {
                                 </Button>
                               </TooltipTrigger>
                               <TooltipContent>
-                                {canViewAllEntries() ? "No delete permission" : "Can only delete your own entries"}
+                                {isLocked(deposit) ? "Approved entries are locked" : isAdmin() ? "No delete permission" : "Can only delete your own entries"}
                               </TooltipContent>
                             </Tooltip>
                           )}
+
+                          {['draft', 'rejected'].includes(depositStatus(deposit)) && (isAdmin() || deposit.submittedBy === user?.id) && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleSubmitForReview(deposit)}
+                                  disabled={submittingForReviewId === deposit.id}
+                                  className="text-[#6a40ec] hover:text-[#5a2fd9] hover:bg-[#6a40ec]/10"
+                                >
+                                  <Send className="w-4 h-4" />
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>Submit for review</TooltipContent>
+                            </Tooltip>
+                          )}
+
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setHistoryDeposit(deposit)}
+                                className="text-gray-600 hover:text-gray-800"
+                              >
+                                <History className="w-4 h-4" />
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>View change history</TooltipContent>
+                          </Tooltip>
                         </div>
                       </TableCell>
                     </TableRow>
@@ -1619,36 +1741,37 @@ export function EnhancedDepositsNew() {
                     <TableRow className="bg-purple-50 hover:bg-purple-50 border-t-2 border-purple-200">
                       <TableCell className="font-bold">Total</TableCell>
                       <TableCell></TableCell>
+                      <TableCell></TableCell>
                       <TableCell className="font-bold">
-                        {formatCurrency(paginatedDeposits.reduce((sum, d) => sum + d.localDeposit, 0))}
+                        {formatCurrencyTotals(paginatedDeposits.map(d => ({ amount: d.localDeposit, currency: depositCurrencies(d).local })))}
                       </TableCell>
                       <TableCell className="font-bold">
-                        {formatCurrency(paginatedDeposits.reduce((sum, d) => sum + d.usdtDeposit, 0))}
+                        {formatCurrencyTotals(paginatedDeposits.map(d => ({ amount: d.usdtDeposit, currency: depositCurrencies(d).usdt })))}
                       </TableCell>
                       <TableCell className="font-bold">
-                        {formatCurrency(paginatedDeposits.reduce((sum, d) => sum + d.cashDeposit, 0))}
+                        {formatCurrencyTotals(paginatedDeposits.map(d => ({ amount: d.cashDeposit, currency: depositCurrencies(d).cash })))}
                       </TableCell>
                       <TableCell className="font-bold text-red-600">
-                        {formatCurrency(paginatedDeposits.reduce((sum, d) => sum + d.localWithdraw, 0))}
+                        {formatCurrencyTotals(paginatedDeposits.map(d => ({ amount: d.localWithdraw, currency: depositCurrencies(d).local })))}
                       </TableCell>
                       <TableCell className="font-bold text-red-600">
-                        {formatCurrency(paginatedDeposits.reduce((sum, d) => sum + d.usdtWithdraw, 0))}
+                        {formatCurrencyTotals(paginatedDeposits.map(d => ({ amount: d.usdtWithdraw, currency: depositCurrencies(d).usdt })))}
                       </TableCell>
                       <TableCell className="font-bold text-red-600">
-                        {formatCurrency(paginatedDeposits.reduce((sum, d) => sum + d.cashWithdraw, 0))}
+                        {formatCurrencyTotals(paginatedDeposits.map(d => ({ amount: d.cashWithdraw, currency: depositCurrencies(d).cash })))}
                       </TableCell>
                       <TableCell className="font-bold">
-                        {formatCurrency(paginatedDeposits.reduce((sum, d) => sum + calculateTotalDeposit(d), 0))}
+                        {formatCurrencyTotals(paginatedDeposits.flatMap(depositAmounts))}
                       </TableCell>
                       <TableCell className="font-bold">
-                        {formatCurrency(paginatedDeposits.reduce((sum, d) => sum + calculateTotalIncentives(d), 0))}
+                        {formatCurrencyTotals(paginatedDeposits.map(d => ({ amount: calculateTotalIncentives(d), currency: depositCurrencies(d).incentives })))}
                       </TableCell>
                       <TableCell className="font-bold">
-                        {formatCurrency(paginatedDeposits.reduce((sum, d) => sum + calculateTotalExpenses(d), 0))}
+                        {formatCurrencyTotals(paginatedDeposits.map(d => ({ amount: calculateTotalExpenses(d), currency: depositCurrencies(d).expenses })))}
                       </TableCell>
                       <TableCell className="font-bold">
                         <span className={paginatedDeposits.reduce((sum, d) => sum + calculateTodaysBalance(d), 0) >= 0 ? 'text-green-600' : 'text-red-600'}>
-                          {formatCurrency(paginatedDeposits.reduce((sum, d) => sum + calculateTodaysBalance(d), 0))}
+                          {formatCurrencyTotals(paginatedDeposits.flatMap(balanceAmounts))}
                         </span>
                       </TableCell>
                       <TableCell></TableCell>
@@ -1663,16 +1786,13 @@ export function EnhancedDepositsNew() {
               )}
             </div>
             
-            {filteredDeposits.length > 0 && (
+            {totalCount > 0 && (
               <TablePagination
-                totalItems={filteredDeposits.length}
+                totalItems={totalCount}
                 currentPage={currentPage}
                 itemsPerPage={itemsPerPage}
                 onPageChange={setCurrentPageState}
-                onItemsPerPageChange={(newItemsPerPage) => {
-                  setItemsPerPage(newItemsPerPage);
-                  setCurrentPageState(1);
-                }}
+                onItemsPerPageChange={setItemsPerPage}
               />
             )}
           </CardContent>
@@ -1709,6 +1829,13 @@ export function EnhancedDepositsNew() {
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
+
+        <HistorySheet
+          entityType="deposit"
+          entityId={historyDeposit?.id ?? null}
+          title={historyDeposit ? `Deposit entry from ${new Date(historyDeposit.date).toLocaleDateString()} by ${historyDeposit.submittedByName}` : ''}
+          onClose={() => setHistoryDeposit(null)}
+        />
       </div>
     </TooltipProvider>
   );
@@ -0,0 +1,560 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { TableSkeleton } from './shimmer-skeleton';
+import { FieldError } from './field-error';
+import { CurrencySelect } from './currency-select';
+import { useDeleteConfirmation } from './use-delete-confirmation';
+import { ArrowLeftRight, Edit2, Plus, Save, Trash2, Upload, X } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import * as api from '../utils/api';
+import { ApiError } from '../utils/api';
+import { parseCsv } from '../utils/csv';
+import { toISODate } from '../utils/date-range';
+import {
+  IMPORT_DATE_FORMATS,
+  RATE_QUOTE_CURRENCY,
+  type CurrencySettings,
+  type DepositCurrencies,
+  type ExchangeRateImportReport,
+  type ExchangeRateImportRow,
+  type ExchangeRateTable,
+  type FieldErrors,
+  type ImportDateFormat,
+} from '../supabase/functions/server/contract';
+
+const DEFAULT_FIELDS: [keyof DepositCurrencies | 'bank', string][] = [
+  ['local', 'Local amounts'],
+  ['usdt', 'USDT amounts'],
+  ['cash', 'Cash amounts'],
+  ['incentives', 'Client incentives'],
+  ['expenses', 'Company expenses'],
+  ['bank', 'New banks'],
+];
+
+// Columns of a rate file, matched by header name
+const IMPORT_COLUMNS = ['date', 'currency', 'rate'] as const;
+
+interface RateRow {
+  currency: string;
+  rate: string;
+}
+
+// Admin page for the currency settings and the daily exchange-rate tables used to convert dashboard totals
+export function ExchangeRatesPage() {
+  const [settings, setSettings] = useState<CurrencySettings | null>(null);
+  const [settingsErrors, setSettingsErrors] = useState<FieldErrors>({});
+  const [newCurrency, setNewCurrency] = useState('');
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+
+  const [tables, setTables] = useState<ExchangeRateTable[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Add/edit dialog; `editingDate` is set when an existing table is edited
+  const [isRateDialogOpen, setIsRateDialogOpen] = useState(false);
+  const [editingDate, setEditingDate] = useState<string | null>(null);
+  const [rateDate, setRateDate] = useState(toISODate(new Date()));
+  const [rateRows, setRateRows] = useState<RateRow[]>([]);
+  const [rateErrors, setRateErrors] = useState<FieldErrors>({});
+  const [isSavingRates, setIsSavingRates] = useState(false);
+
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importRows, setImportRows] = useState<ExchangeRateImportRow[]>([]);
+  const [importFileName, setImportFileName] = useState('');
+  const [importDateFormat, setImportDateFormat] = useState<ImportDateFormat>('YYYY-MM-DD');
+  const [importReport, setImportReport] = useState<ExchangeRateImportReport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const { showConfirmation, DeleteConfirmationDialog } = useDeleteConfirmation();
+
+  const loadData = async () => {
+    setIsLoading(true);
+    try {
+      const [settingsData, ratesData] = await Promise.all([api.getCurrencySettings(), api.getExchangeRates()]);
+      setSettings(settingsData.settings);
+      setTables(ratesData.tables);
+    } catch (error: any) {
+      console.error('Load exchange rates error:', error);
+      toast.error(error.message || 'Failed to load exchange rates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  // ==================== SETTINGS ====================
+
+  const addCurrency = () => {
+    const code = newCurrency.trim().toUpperCase();
+    if (!settings || !code) return;
+    if (settings.currencies.includes(code)) {
+      toast.error(`${code} is already in the list`);
+      return;
+    }
+    setSettings({ ...settings, currencies: [...settings.currencies, code] });
+    setNewCurrency('');
+  };
+
+  const removeCurrency = (code: string) => {
+    if (!settings) return;
+    setSettings({ ...settings, currencies: settings.currencies.filter((currency) => currency !== code) });
+  };
+
+  const handleSaveSettings = async () => {
+    if (!settings) return;
+    setIsSavingSettings(true);
+    setSettingsErrors({});
+    try {
+      const { settings: saved } = await api.updateCurrencySettings(settings);
+      setSettings(saved);
+      toast.success('Currency settings saved');
+    } catch (error: any) {
+      console.error('Save currency settings error:', error);
+      if (error instanceof ApiError && error.fields) {
+        setSettingsErrors(error.fields);
+      }
+      toast.error(error.message || 'Failed to save currency settings');
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  // ==================== RATE TABLES ====================
+
+  const rateCurrencies = (settings?.currencies || []).filter((currency) => currency !== RATE_QUOTE_CURRENCY);
+
+  const openRateDialog = (table?: ExchangeRateTable) => {
+    setEditingDate(table?.date || null);
+    setRateDate(table?.date || toISODate(new Date()));
+    // A new table starts from the newest rates so only the changes need typing
+    const source = table || tables[0];
+    setRateRows(source
+      ? source.rates.map((rate) => ({ currency: rate.currency, rate: String(rate.rate) }))
+      : rateCurrencies.map((currency) => ({ currency, rate: '' })));
+    setRateErrors({});
+    setIsRateDialogOpen(true);
+  };
+
+  const updateRateRow = (index: number, field: keyof RateRow, value: string) => {
+    setRateRows((rows) => rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleSaveRates = async () => {
+    setIsSavingRates(true);
+    setRateErrors({});
+    try {
+      const rates = rateRows
+        .filter((row) => row.currency && row.rate.trim() !== '')
+        .map((row) => ({ currency: row.currency, rate: Number(row.rate) }));
+      const { table } = await api.saveExchangeRates(rateDate, rates);
+      setTables((prev) => [table, ...prev.filter((item) => item.date !== table.date)].sort((a, b) => b.date.localeCompare(a.date)));
+      setIsRateDialogOpen(false);
+      toast.success(`Rates for ${format(new Date(`${table.date}T00:00:00`), 'MMM dd, yyyy')} saved`);
+    } catch (error: any) {
+      console.error('Save exchange rates error:', error);
+      if (error instanceof ApiError && error.fields) {
+        setRateErrors(error.fields);
+      }
+      toast.error(error.message || 'Failed to save exchange rates');
+    } finally {
+      setIsSavingRates(false);
+    }
+  };
+
+  const confirmDeleteTable = (table: ExchangeRateTable) => {
+    showConfirmation({
+      title: 'Delete Exchange Rates',
+      description: `The rates of ${format(new Date(`${table.date}T00:00:00`), 'MMM dd, yyyy')} will be deleted. Amounts of that date use the rates of the previous date instead.`,
+      onConfirm: async () => {
+        try {
+          await api.deleteExchangeRates(table.date);
+          setTables((prev) => prev.filter((item) => item.date !== table.date));
+          toast.success('Exchange rates deleted');
+        } catch (error: any) {
+          console.error('Delete exchange rates error:', error);
+          toast.error(error.message || 'Failed to delete exchange rates');
+        }
+      },
+    });
+  };
+
+  // ==================== IMPORT ====================
+
+  const openImport = () => {
+    setImportRows([]);
+    setImportFileName('');
+    setImportReport(null);
+    setIsImportOpen(true);
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    setImportReport(null);
+
+    const rows = parseCsv(await file.text());
+    const headers = (rows[0] || []).map((header) => header.trim().toLowerCase());
+    const missing = IMPORT_COLUMNS.filter((column) => !headers.includes(column));
+    if (rows.length < 2 || missing.length > 0) {
+      toast.error(`The file needs a header row with ${IMPORT_COLUMNS.join(', ')} columns and at least one data row`);
+      return;
+    }
+
+    setImportFileName(file.name);
+    setImportRows(rows.slice(1).map((cells) => ({
+      date: cells[headers.indexOf('date')] ?? '',
+      currency: cells[headers.indexOf('currency')] ?? '',
+      rate: cells[headers.indexOf('rate')] ?? '',
+    })));
+  };
+
+  const submitImport = async (dryRun: boolean) => {
+    setIsImporting(true);
+    try {
+      const { report } = await api.importExchangeRates({ rows: importRows, dateFormat: importDateFormat, dryRun });
+      setImportReport(report);
+      if (!dryRun) {
+        toast.success(`Imported ${report.valid} rates for ${report.dates.length} date${report.dates.length !== 1 ? 's' : ''}`);
+        setIsImportOpen(false);
+        await loadData();
+      }
+    } catch (error: any) {
+      console.error('Import exchange rates error:', error);
+      toast.error(error.message || 'Failed to import exchange rates');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-6 space-y-4 md:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Exchange Rates</h1>
+          <p className="text-sm md:text-base text-gray-600 mt-1">
+            Rates are the value of one unit in {RATE_QUOTE_CURRENCY}. Dashboard totals use the rate of each amount's date, or the latest earlier one.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={openImport}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import CSV
+          </Button>
+          <Button onClick={() => openRateDialog()} className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Rates
+          </Button>
+        </div>
+      </div>
+
+      {isLoading || !settings ? (
+        <TableSkeleton rows={6} columns={4} />
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Currency Settings</CardTitle>
+              <CardDescription>
+                The currencies staff can pick, the one dashboard totals are shown in, and the defaults for new entries and banks.
+                Entries saved before currencies were tracked stay in {RATE_QUOTE_CURRENCY}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              <div className="space-y-2">
+                <Label>Currencies</Label>
+                <div className="flex flex-wrap items-center gap-2">
+                  {settings.currencies.map((currency) => (
+                    <Badge key={currency} variant="outline" className="gap-1 pl-2 pr-1 py-1">
+                      {currency}
+                      <button
+                        type="button"
+                        onClick={() => removeCurrency(currency)}
+                        className="rounded hover:bg-gray-200 p-0.5"
+                        title={`Remove ${currency}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                  <Input
+                    value={newCurrency}
+                    onChange={(e) => setNewCurrency(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        addCurrency();
+                      }
+                    }}
+                    placeholder="e.g. EUR"
+                    className="h-8 w-28 uppercase"
+                  />
+                  <Button type="button" variant="outline" size="sm" onClick={addCurrency}>
+                    <Plus className="w-3.5 h-3.5 mr-1.5" />
+                    Add
+                  </Button>
+                </div>
+                <FieldError errors={settingsErrors} name="currencies" />
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reporting-currency">Reporting currency</Label>
+                  <CurrencySelect
+                    id="reporting-currency"
+                    value={settings.reportingCurrency}
+                    onChange={(reportingCurrency) => setSettings({ ...settings, reportingCurrency })}
+                    currencies={settings.currencies}
+                    className="w-full"
+                  />
+                  <FieldError errors={settingsErrors} name="reportingCurrency" />
+                </div>
+                {DEFAULT_FIELDS.map(([key, label]) => (
+                  <div key={key} className="space-y-2">
+                    <Label htmlFor={`default-${key}`}>{label}</Label>
+                    <CurrencySelect
+                      id={`default-${key}`}
+                      value={settings.defaults[key]}
+                      onChange={(currency) => setSettings({ ...settings, defaults: { ...settings.defaults, [key]: currency } })}
+                      currencies={settings.currencies}
+                      className="w-full"
+                    />
+                    <FieldError errors={settingsErrors} name={`defaults.${key}`} />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-end">
+                <Button onClick={handleSaveSettings} disabled={isSavingSettings} className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white">
+                  <Save className="w-4 h-4 mr-2" />
+                  {isSavingSettings ? 'Saving...' : 'Save Settings'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Rate Tables</CardTitle>
+              <CardDescription>
+                {tables.length} date{tables.length !== 1 ? 's' : ''} with rates. Amounts dated before a currency's first rate use that first rate.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {tables.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">
+                  <ArrowLeftRight className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                  <p>No exchange rates yet. Only {RATE_QUOTE_CURRENCY} amounts can be converted until rates are added.</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Rates</TableHead>
+                      <TableHead>Last Updated</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tables.map((table) => (
+                      <TableRow key={table.date}>
+                        <TableCell className="font-medium whitespace-nowrap">
+                          {format(new Date(`${table.date}T00:00:00`), 'MMM dd, yyyy')}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1.5">
+                            {table.rates.map((rate) => (
+                              <Badge key={rate.currency} variant="outline" className="font-mono text-xs">
+                                {rate.currency} {rate.rate}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-500 whitespace-nowrap">
+                          {format(new Date(table.updatedAt), 'MMM dd, yyyy HH:mm')} by {table.updatedByName}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => openRateDialog(table)} title="Edit rates">
+                              <Edit2 className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => confirmDeleteTable(table)}
+                              className="text-red-600 hover:text-red-700"
+                              title="Delete rates"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Dialog open={isRateDialogOpen} onOpenChange={setIsRateDialogOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>{editingDate ? 'Edit Exchange Rates' : 'Add Exchange Rates'}</DialogTitle>
+            <DialogDescription>
+              Value of one unit of each currency in {RATE_QUOTE_CURRENCY}. Saving replaces every rate of the date.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rate-date">Date</Label>
+              <Input
+                id="rate-date"
+                type="date"
+                value={rateDate}
+                onChange={(e) => setRateDate(e.target.value)}
+                disabled={!!editingDate}
+              />
+              <FieldError errors={rateErrors} name="date" />
+            </div>
+            <div className="space-y-2">
+              <Label>Rates</Label>
+              {rateRows.map((row, index) => (
+                <div key={index}>
+                  <div className="flex items-center gap-2">
+                    <CurrencySelect
+                      value={row.currency}
+                      onChange={(currency) => updateRateRow(index, 'currency', currency)}
+                      currencies={rateCurrencies}
+                      className="w-32"
+                    />
+                    <Input
+                      type="number"
+                      step="any"
+                      min="0"
+                      placeholder="0.00"
+                      value={row.rate}
+                      onChange={(e) => updateRateRow(index, 'rate', e.target.value)}
+                      className="flex-1"
+                    />
+                    <span className="text-sm text-gray-500 w-12">{RATE_QUOTE_CURRENCY}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRateRows((rows) => rows.filter((_, i) => i !== index))}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <FieldError errors={rateErrors} name={`rates.${index}.currency`} />
+                  <FieldError errors={rateErrors} name={`rates.${index}.rate`} />
+                </div>
+              ))}
+              <FieldError errors={rateErrors} name="rates" />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={rateCurrencies.length === 0}
+                onClick={() => setRateRows((rows) => [
+                  ...rows,
+                  { currency: rateCurrencies.find((currency) => !rows.some((row) => row.currency === currency)) || rateCurrencies[0], rate: '' },
+                ])}
+              >
+                <Plus className="w-3.5 h-3.5 mr-1.5" />
+                Add Currency
+              </Button>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRateDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveRates} disabled={isSavingRates} className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white">
+              {isSavingRates ? 'Saving...' : 'Save Rates'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isImportOpen} onOpenChange={setIsImportOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Import Exchange Rates</DialogTitle>
+            <DialogDescription>
+              A CSV file with <span className="font-mono">date</span>, <span className="font-mono">currency</span> and <span className="font-mono">rate</span> columns, one row per currency and date.
+              Imported rates replace those of the same currency and date; other rates are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            <Input type="file" accept=".csv,text/csv" onChange={(e) => handleImportFile(e.target.files?.[0])} />
+            <div className="space-y-2">
+              <Label>Date format</Label>
+              <Select
+                value={importDateFormat}
+                onValueChange={(value) => {
+                  setImportDateFormat(value as ImportDateFormat);
+                  setImportReport(null);
+                }}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_DATE_FORMATS.map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {importFileName && !importReport && (
+              <p className="text-sm text-gray-600">{importFileName}: {importRows.length} rows</p>
+            )}
+
+            {importReport && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-700">
+                  {importReport.valid} of {importReport.total} rows are valid
+                  {importReport.dates.length > 0 && `, for ${importReport.dates.length} date${importReport.dates.length !== 1 ? 's' : ''} from ${importReport.dates[0]} to ${importReport.dates[importReport.dates.length - 1]}`}.
+                </p>
+                {importReport.errors.length > 0 && (
+                  <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700 space-y-1 max-h-48 overflow-y-auto">
+                    {importReport.errors.map((error, index) => (
+                      <div key={index}>Row {error.row}, {error.field}: {error.message}</div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsImportOpen(false)}>Cancel</Button>
+            {importReport && importReport.errors.length === 0 ? (
+              <Button onClick={() => submitImport(false)} disabled={isImporting} className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white">
+                {isImporting ? 'Importing...' : `Import ${importReport.valid} Rates`}
+              </Button>
+            ) : (
+              <Button onClick={() => submitImport(true)} disabled={isImporting || importRows.length === 0} className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white">
+                {isImporting ? 'Checking...' : 'Check File'}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmationDialog />
+    </div>
+  );
+}
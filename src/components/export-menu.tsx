@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { Download, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import * as api from '../utils/api';
+import type { ExportFormat } from '../supabase/functions/server/contract';
+
+interface ExportMenuProps {
+  resource: api.ExportResource;
+  // The page's current filters; the server applies them and the caller's visibility
+  params?: api.ExportQuery;
+}
+
+// Export button for list pages: downloads every matching record, not just the visible page
+export function ExportMenu({ resource, params = {} }: ExportMenuProps) {
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExportingFormat(format);
+    try {
+      await api.downloadExport(resource, format, params);
+    } catch (error: any) {
+      console.error('Export error:', error);
+      toast.error(error.message || 'Failed to export');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={exportingFormat !== null}>
+          {exportingFormat ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+          {exportingFormat ? 'Exporting...' : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem className="cursor-pointer" onClick={() => handleExport('csv')}>
+          <FileText className="mr-2 h-4 w-4" />
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem className="cursor-pointer" onClick={() => handleExport('xlsx')}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          Excel (XLSX)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
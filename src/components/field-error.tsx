@@ -0,0 +1,13 @@
+import type { FieldErrors } from '../supabase/functions/server/contract';
+
+interface FieldErrorProps {
+  errors: FieldErrors;
+  name: string;
+}
+
+// Inline message under a form control for a field the contract schema (or the server) rejected
+export function FieldError({ errors, name }: FieldErrorProps) {
+  const message = errors[name];
+  if (!message) return null;
+  return <p className="text-xs text-red-600 mt-1">{message}</p>;
+}
@@ -3,23 +3,25 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
-import { ArrowLeft, Mail, Lock, KeyRound } from 'lucide-react';
+import { ArrowLeft, Mail, KeyRound } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { useAdmin } from './admin-context-new';
 import Group1 from '../imports/Group1-47-1099';
 
 interface ForgotPasswordPageProps {
   onBackToLogin: () => void;
 }
 
+const MAX_OTP_ATTEMPTS = 5;
+
 export function ForgotPasswordPage({ onBackToLogin }: ForgotPasswordPageProps) {
+  const { setCurrentPage, setOtpData } = useAdmin();
   const [step, setStep] = useState<'email' | 'otp'>('email');
   const [email, setEmail] = useState('');
   const [otp, setOtp] = useState('');
-  const [newPassword, setNewPassword] = useState('');
-  const [confirmPassword, setConfirmPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [remainingAttempts, setRemainingAttempts] = useState(3);
+  const [remainingAttempts, setRemainingAttempts] = useState(MAX_OTP_ATTEMPTS);
 
   const handleSendOTP = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -50,9 +52,9 @@ export function ForgotPasswordPage({ onBackToLogin }: ForgotPasswordPageProps) {
         throw new Error(data.error || 'Failed to send OTP');
       }
 
-      toast.success('OTP sent to your email! Check your inbox.');
+      toast.success(data.message || 'OTP sent to your email! Check your inbox.');
       
-      // Show debug OTP if available (development only)
+      // Only returned by a local server started with OTP_DEBUG_ECHO=true
       if (data.debug_otp) {
         toast.info(`Development Mode - OTP: ${data.debug_otp}`, {
           duration: 10000,
@@ -60,7 +62,7 @@ export function ForgotPasswordPage({ onBackToLogin }: ForgotPasswordPageProps) {
       }
       
       setStep('otp');
-      setRemainingAttempts(3);
+      setRemainingAttempts(MAX_OTP_ATTEMPTS);
     } catch (error: any) {
       console.error('Send OTP error:', error);
       toast.error(error.message || 'Failed to send OTP');
@@ -72,23 +74,8 @@ export function ForgotPasswordPage({ onBackToLogin }: ForgotPasswordPageProps) {
   const handleVerifyOTP = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!otp) {
-      toast.error('Please enter the OTP');
-      return;
-    }
-
-    if (!newPassword) {
-      toast.error('Please enter a new password');
-      return;
-    }
-
-    if (newPassword.length < 6) {
-      toast.error('Password must be at least 6 characters long');
-      return;
-    }
-
-    if (newPassword !== confirmPassword) {
-      toast.error('Passwords do not match');
+    if (otp.length !== 6) {
+      toast.error('Please enter the 6-digit OTP');
       return;
     }
 
@@ -103,7 +90,7 @@ export function ForgotPasswordPage({ onBackToLogin }: ForgotPasswordPageProps) {
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${publicAnonKey}`,
           },
-          body: JSON.stringify({ email, otp, newPassword }),
+          body: JSON.stringify({ email, otp }),
         }
       );
 
@@ -113,14 +100,17 @@ export function ForgotPasswordPage({ onBackToLogin }: ForgotPasswordPageProps) {
         if (data.remainingAttempts !== undefined) {
           setRemainingAttempts(data.remainingAttempts);
         }
+        // Locked out or no longer valid: a new code has to be requested
+        if (data.code === 'OTP_LOCKED' || data.code === 'OTP_EXPIRED') {
+          setOtp('');
+          setStep('email');
+        }
         throw new Error(data.error || 'Failed to verify OTP');
       }
 
-      toast.success('Password reset successfully! Redirecting to login...');
-      
-      setTimeout(() => {
-        onBackToLogin();
-      }, 2000);
+      // The code is used up; the reset token lets the next page set the password once
+      setOtpData({ email, purpose: 'forgot-password', resetToken: data.resetToken });
+      setCurrentPage('change-password');
     } catch (error: any) {
       console.error('Verify OTP error:', error);
       toast.error(error.message || 'Failed to verify OTP');
@@ -131,8 +121,6 @@ export function ForgotPasswordPage({ onBackToLogin }: ForgotPasswordPageProps) {
 
   const handleResendOTP = async () => {
     setOtp('');
-    setNewPassword('');
-    setConfirmPassword('');
     await handleSendOTP(new Event('submit') as any);
   };
 
@@ -150,7 +138,7 @@ export function ForgotPasswordPage({ onBackToLogin }: ForgotPasswordPageProps) {
             <CardDescription className="text-gray-600">
               {step === 'email' 
                 ? 'Enter your email to receive a verification code'
-                : 'Enter the OTP sent to your email and set a new password'
+                : 'Enter the OTP sent to your email'
               }
             </CardDescription>
           </CardHeader>
@@ -200,45 +188,13 @@ export function ForgotPasswordPage({ onBackToLogin }: ForgotPasswordPageProps) {
                       maxLength={6}
                     />
                   </div>
-                  {remainingAttempts < 3 && (
+                  {remainingAttempts < MAX_OTP_ATTEMPTS && (
                     <p className="text-sm text-amber-600">
                       {remainingAttempts} attempt(s) remaining
                     </p>
                   )}
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="newPassword">New Password</Label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
-                    <Input
-                      id="newPassword"
-                      type="password"
-                      placeholder="Enter new password"
-                      value={newPassword}
-                      onChange={(e) => setNewPassword(e.target.value)}
-                      className="pl-10"
-                      disabled={isLoading}
-                    />
-                  </div>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="confirmPassword">Confirm New Password</Label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
-                    <Input
-                      id="confirmPassword"
-                      type="password"
-                      placeholder="Confirm new password"
-                      value={confirmPassword}
-                      onChange={(e) => setConfirmPassword(e.target.value)}
-                      className="pl-10"
-                      disabled={isLoading}
-                    />
-                  </div>
-                </div>
-
                 <div className="flex gap-2">
                   <Button
                     type="button"
@@ -254,7 +210,7 @@ export function ForgotPasswordPage({ onBackToLogin }: ForgotPasswordPageProps) {
                     className="flex-1 bg-[#6a40ec] hover:bg-[#5a2fd9] text-white"
                     disabled={isLoading}
                   >
-                    {isLoading ? 'Verifying...' : 'Reset Password'}
+                    {isLoading ? 'Verifying...' : 'Verify Code'}
                   </Button>
                 </div>
               </form>
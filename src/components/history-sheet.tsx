@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from './ui/sheet';
+import { Badge } from './ui/badge';
+import { History, Loader2 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import * as api from '../utils/api';
+import type { AuditAction, AuditEntityType, AuditEntry, FieldChange } from '../supabase/functions/server/contract';
+
+const ACTION_STYLES: Record<AuditAction, { label: string; className: string }> = {
+  create: { label: 'Created', className: 'bg-green-100 text-green-700 border-green-200' },
+  update: { label: 'Updated', className: 'bg-blue-100 text-blue-700 border-blue-200' },
+  delete: { label: 'Deleted', className: 'bg-red-100 text-red-700 border-red-200' },
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  usdtDeposit: 'USDT Deposit',
+  usdtWithdraw: 'USDT Withdraw',
+  pnl: 'P&L',
+  bankId: 'Bank',
+  submittedByName: 'Submitted By',
+  clientIncentives: 'Client Incentives',
+};
+
+// Identifiers that only add noise to the field list of a create or delete
+const SNAPSHOT_HIDDEN_FIELDS = new Set(['id', 'submittedBy', 'createdAt']);
+
+const humanize = (key: string) =>
+  FIELD_LABELS[key] || key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, (char) => char.toUpperCase());
+
+// `expenses[1].amount` -> "Expenses #2 · Amount"
+function fieldLabel(field: string): string {
+  return field
+    .split('.')
+    .map((part) => {
+      const item = part.match(/^(\w+)\[(\d+)\]$/);
+      return item ? `${humanize(item[1])} #${Number(item[2]) + 1}` : humanize(part);
+    })
+    .join(' · ');
+}
+
+function defaultFormatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'object') {
+    const item = value as Record<string, any>;
+    // Expense and client incentive items
+    if ('amount' in item && (item.type || item.name)) {
+      return `${item.type || item.name}: ${Number(item.amount).toLocaleString()}${item.description ? ` (${item.description})` : ''}`;
+    }
+    return JSON.stringify(value);
+  }
+  const text = String(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+interface HistorySheetProps {
+  entityType: AuditEntityType;
+  // Record whose history is shown; the sheet is closed while null
+  entityId: string | null;
+  title: string;
+  onClose: () => void;
+  // Page-specific display of a value, e.g. a bank name for `bankId`; return undefined for the default
+  formatValue?: (field: string, value: unknown) => string | undefined;
+}
+
+export function HistorySheet({ entityType, entityId, title, onClose, formatValue }: HistorySheetProps) {
+  const [history, setHistory] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!entityId) return;
+
+    setIsLoading(true);
+    setHistory([]);
+    api.getRecordHistory(entityType, entityId)
+      .then((data) => setHistory(data.history))
+      .catch((error: any) => {
+        console.error('Load history error:', error);
+        toast.error(error.message || 'Failed to load history');
+      })
+      .finally(() => setIsLoading(false));
+  }, [entityType, entityId]);
+
+  const display = (change: FieldChange, value: unknown) =>
+    formatValue?.(change.field, value) ?? defaultFormatValue(value);
+
+  const visibleChanges = (entry: AuditEntry) =>
+    entry.action === 'update' ? entry.changes : entry.changes.filter((change) => !SNAPSHOT_HIDDEN_FIELDS.has(change.field));
+
+  return (
+    <Sheet open={entityId !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="sm:max-w-[560px] overflow-y-auto">
+        <SheetHeader className="pb-4 border-b">
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-5 h-5 text-[#6a40ec]" />
+            History
+          </SheetTitle>
+          <SheetDescription>{title}</SheetDescription>
+        </SheetHeader>
+
+        <div className="p-4 space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 text-[#6a40ec] animate-spin" />
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-12">
+              No recorded changes. History is kept for changes made after auditing was enabled.
+            </p>
+          ) : (
+            history.map((entry) => (
+              <div key={entry.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className={ACTION_STYLES[entry.action].className}>
+                      {ACTION_STYLES[entry.action].label}
+                    </Badge>
+                    <span className="text-sm font-medium">{entry.userName}</span>
+                  </div>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {format(new Date(entry.timestamp), 'MMM dd, yyyy HH:mm')}
+                  </span>
+                </div>
+
+                <table className="w-full text-sm">
+                  <tbody>
+                    {visibleChanges(entry).map((change) => (
+                      <tr key={change.field} className="border-t align-top">
+                        <td className="py-1.5 pr-3 text-gray-600 w-1/3">{fieldLabel(change.field)}</td>
+                        {entry.action === 'update' ? (
+                          <td className="py-1.5 break-all">
+                            <span className="text-red-600 line-through">{display(change, change.before)}</span>
+                            <span className="mx-1.5 text-gray-400">→</span>
+                            <span className="text-green-700">{display(change, change.after)}</span>
+                          </td>
+                        ) : (
+                          <td className="py-1.5 break-all">{display(change, entry.action === 'create' ? change.after : change.before)}</td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-400">IP {entry.ipAddress}</p>
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
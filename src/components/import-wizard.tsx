@@ -0,0 +1,449 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from './ui/alert-dialog';
+import { CheckCircle2, Loader2, Undo2, Upload, XCircle } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { useAdmin } from './admin-context-new';
+import { parseCsv } from '../utils/csv';
+import * as api from '../utils/api';
+import {
+  IMPORT_DATE_FORMATS,
+  type BankAlias,
+  type ImportBatch,
+  type ImportDateFormat,
+  type ImportReport,
+  type ImportType,
+} from '../supabase/functions/server/contract';
+
+type Step = 'upload' | 'map' | 'review' | 'done';
+
+interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+}
+
+const IMPORT_FIELDS: Record<ImportType, ImportField[]> = {
+  deposits: [
+    { key: 'date', label: 'Date', required: true },
+    { key: 'localDeposit', label: 'Local Deposit' },
+    { key: 'usdtDeposit', label: 'USDT Deposit' },
+    { key: 'cashDeposit', label: 'Cash Deposit' },
+    { key: 'localWithdraw', label: 'Local Withdraw' },
+    { key: 'usdtWithdraw', label: 'USDT Withdraw' },
+    { key: 'cashWithdraw', label: 'Cash Withdraw' },
+    { key: 'incentiveClient', label: 'Incentive Client' },
+    { key: 'incentiveAmount', label: 'Incentive Amount' },
+    { key: 'expenseType', label: 'Expense Type' },
+    { key: 'expenseAmount', label: 'Expense Amount' },
+    { key: 'expenseDescription', label: 'Expense Description' },
+  ],
+  bankDeposits: [
+    { key: 'date', label: 'Date', required: true },
+    { key: 'bank', label: 'Bank', required: true },
+    { key: 'deposit', label: 'Deposit' },
+    { key: 'withdraw', label: 'Withdraw' },
+    { key: 'pnl', label: 'P&L' },
+  ],
+};
+
+const TITLES: Record<ImportType, string> = {
+  deposits: 'Import Deposit Entries',
+  bankDeposits: 'Import Bank Transactions',
+};
+
+const NOT_MAPPED = '__none__';
+const MAX_LISTED_ERRORS = 100;
+
+// Letters only, so "Incentive 1 Client" (an export header) matches "Incentive Client" and "P&L" matches "pnl"
+const headerKey = (text: string) => text.toLowerCase().replace(/[^a-z]/g, '');
+
+function guessMapping(fields: ImportField[], headers: string[]): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const field of fields) {
+    const index = headers.findIndex((header) => [headerKey(field.label), headerKey(field.key)].includes(headerKey(header)));
+    mapping[field.key] = index === -1 ? NOT_MAPPED : String(index);
+  }
+  return mapping;
+}
+
+// Admin-only wizard: upload a CSV, map its columns, check it with a dry run, then import it as one batch that
+// can be rolled back from the first step
+export function ImportWizard({ type, onImported }: { type: ImportType; onImported: () => void }) {
+  const { staff, banks, user } = useAdmin();
+  const fields = IMPORT_FIELDS[type];
+
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('YYYY-MM-DD');
+  const [submittedBy, setSubmittedBy] = useState(user?.id || '');
+  const [bankAliases, setBankAliases] = useState<Record<string, string>>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [batches, setBatches] = useState<Omit<ImportBatch, 'recordIds'>[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadBatches = async () => {
+    try {
+      const data = await api.getImportBatches();
+      setBatches(data.batches.filter((batch) => batch.type === type));
+    } catch (error: any) {
+      console.error('Load imports error:', error);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setStep('upload');
+      setReport(null);
+      setBankAliases({});
+      loadBatches();
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      toast.error('The file needs a header row and at least one data row');
+      return;
+    }
+    setFileName(file.name);
+    setHeaders(rows[0].map((header) => header.trim()));
+    setDataRows(rows.slice(1));
+    setMapping(guessMapping(fields, rows[0]));
+    setStep('map');
+  };
+
+  const buildRequest = (dryRun: boolean) => ({
+    rows: dataRows.map((cells) => {
+      const row: Record<string, string> = {};
+      for (const field of fields) {
+        if (mapping[field.key] !== NOT_MAPPED) {
+          row[field.key] = cells[Number(mapping[field.key])] ?? '';
+        }
+      }
+      return row;
+    }),
+    submittedBy,
+    dateFormat,
+    dryRun,
+    bankAliases: Object.entries(bankAliases).map(([name, bankId]): BankAlias => ({ name, bankId })),
+  });
+
+  const submit = (dryRun: boolean) =>
+    type === 'deposits' ? api.importDeposits(buildRequest(dryRun)) : api.importBankTransactions(buildRequest(dryRun));
+
+  const handleCheck = async () => {
+    setIsWorking(true);
+    try {
+      const data = await submit(true);
+      setReport(data.report);
+      setStep('review');
+    } catch (error: any) {
+      console.error('Import check error:', error);
+      toast.error(error.message || 'Failed to check the file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    try {
+      const data = await submit(false);
+      setReport(data.report);
+      setStep('done');
+      toast.success(`Imported ${data.report.batch?.count ?? data.report.valid} entries`);
+      onImported();
+    } catch (error: any) {
+      console.error('Import error:', error);
+      toast.error(error.message || 'Failed to import');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRollback = async (batch: Omit<ImportBatch, 'recordIds'>) => {
+    try {
+      await api.rollbackImport(batch.id);
+      toast.success(`Removed the ${batch.count} imported entries`);
+      await loadBatches();
+      onImported();
+    } catch (error: any) {
+      console.error('Rollback import error:', error);
+      toast.error(error.message || 'Failed to roll back import');
+    }
+  };
+
+  const missingRequired = fields.filter((field) => field.required && mapping[field.key] === NOT_MAPPED);
+  const fieldLabel = (key: string) => fields.find((field) => field.key === key)?.label || (key === 'row' ? 'Row' : key);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{TITLES[type]}</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV file with a header row. Save spreadsheets as CSV first.'}
+            {step === 'map' && `${fileName}: ${dataRows.length} rows. Choose the column for each field.`}
+            {step === 'review' && 'Nothing has been imported yet.'}
+            {step === 'done' && 'The entries were imported as one batch.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-4">
+          {step === 'upload' && (
+            <>
+              <Input type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+
+              {batches.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Previous imports</Label>
+                  {batches.map((batch) => (
+                    <div key={batch.id} className="flex items-center justify-between border rounded-lg px-3 py-2 text-sm">
+                      <div>
+                        <div className="font-medium">
+                          {batch.count} entries for {batch.submittedByName}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {format(new Date(batch.createdAt), 'MMM dd, yyyy HH:mm')} by {batch.importedByName}
+                        </div>
+                      </div>
+                      {batch.rolledBackAt ? (
+                        <Badge variant="outline" className="text-gray-500">Rolled back</Badge>
+                      ) : (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-800">
+                              <Undo2 className="w-4 h-4 mr-1" />
+                              Roll back
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Roll Back Import?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                This deletes the {batch.count} entries imported on {format(new Date(batch.createdAt), 'MMM dd, yyyy')}, including any changes made to them since.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleRollback(batch)} className="bg-red-600 hover:bg-red-700">
+                                Roll Back
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          {step === 'map' && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Record entries for</Label>
+                  <Select value={submittedBy} onValueChange={setSubmittedBy}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select staff member" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {staff.filter((member) => member.status !== 'inactive' && !member.isArchived).map((member) => (
+                        <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Date format</Label>
+                  <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as ImportDateFormat)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {IMPORT_DATE_FORMATS.map((option) => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {fields.map((field) => (
+                  <div key={field.key} className="grid grid-cols-2 gap-4 items-center">
+                    <Label>
+                      {field.label}
+                      {field.required && <span className="text-red-500"> *</span>}
+                    </Label>
+                    <Select
+                      value={mapping[field.key]}
+                      onValueChange={(value) => setMapping({ ...mapping, [field.key]: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>— Not in file —</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {step === 'review' && report && (
+            <>
+              <div className={`flex items-center gap-2 rounded-lg border p-3 text-sm ${report.errors.length === 0 ? 'border-green-200 bg-green-50 text-green-800' : 'border-red-200 bg-red-50 text-red-800'}`}>
+                {report.errors.length === 0 ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+                {report.errors.length === 0
+                  ? `All ${report.total} rows are valid.`
+                  : `${report.valid} of ${report.total} rows are valid. Fix the problems below in the file, or adjust the mapping, then check again.`}
+              </div>
+
+              {report.unmatchedBanks.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Unknown banks</Label>
+                  <p className="text-xs text-gray-500">Pick the existing bank each name stands for, then check again.</p>
+                  {report.unmatchedBanks.map((name) => (
+                    <div key={name} className="grid grid-cols-2 gap-4 items-center">
+                      <span className="text-sm font-medium truncate">{name}</span>
+                      <Select
+                        value={bankAliases[name] || ''}
+                        onValueChange={(bankId) => setBankAliases({ ...bankAliases, [name]: bankId })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select bank" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {banks.map((bank) => (
+                            <SelectItem key={bank.id} value={bank.id}>{bank.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {report.errors.length > 0 && (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[80px]">Line</TableHead>
+                        <TableHead className="w-[160px]">Field</TableHead>
+                        <TableHead>Problem</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                        <TableRow key={index}>
+                          {/* Line in the file, counting the header */}
+                          <TableCell>{error.row + 1}</TableCell>
+                          <TableCell>{fieldLabel(error.field)}</TableCell>
+                          <TableCell>{error.message}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {report.errors.length > MAX_LISTED_ERRORS && (
+                    <p className="text-xs text-gray-500 p-2">…and {report.errors.length - MAX_LISTED_ERRORS} more</p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {step === 'done' && report?.batch && (
+            <div className="flex items-start gap-2 rounded-lg border border-green-200 bg-green-50 p-3 text-sm text-green-800">
+              <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>
+                Imported {report.batch.count} entries for {report.batch.submittedByName}. To undo, open this dialog
+                again and roll back the import.
+              </span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('upload')}>Back</Button>
+              <Button
+                className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white"
+                onClick={handleCheck}
+                disabled={isWorking || !submittedBy || missingRequired.length > 0}
+              >
+                {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Check File
+              </Button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')}>Back</Button>
+              <Button variant="outline" onClick={handleCheck} disabled={isWorking}>Check Again</Button>
+              <Button
+                className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white"
+                onClick={handleImport}
+                disabled={isWorking || !report || report.errors.length > 0}
+              >
+                {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Import {report?.valid ?? 0} Entries
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <Button onClick={() => setOpen(false)}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Loader2, Lock, LockOpen } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import * as api from '../utils/api';
+import type { LoginActivity, Staff } from '../supabase/functions/server/contract';
+
+interface LoginActivityDialogProps {
+  member: Staff | null;
+  canUnlock: boolean;
+  onClose: () => void;
+  onUnlocked: () => void;
+}
+
+// Failed logins and known addresses of a member, with an early unlock when repeated failures locked the account
+export function LoginActivityDialog({ member, canUnlock, onClose, onUnlocked }: LoginActivityDialogProps) {
+  const [activity, setActivity] = useState<LoginActivity | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  useEffect(() => {
+    if (!member) return;
+    setActivity(null);
+    setIsLoading(true);
+    api.getStaffLoginActivity(member.id)
+      .then(setActivity)
+      .catch((error: any) => {
+        console.error('Load login activity error:', error);
+        toast.error(error.message || 'Failed to load login activity');
+      })
+      .finally(() => setIsLoading(false));
+  }, [member]);
+
+  const handleUnlock = async () => {
+    if (!member) return;
+    setIsUnlocking(true);
+    try {
+      await api.unlockStaffLogin(member.id);
+      toast.success(`${member.name} can log in again`);
+      setActivity((current) => (current ? { ...current, failedAttempts: [], lockedUntil: undefined } : current));
+      onUnlocked();
+    } catch (error: any) {
+      console.error('Unlock account error:', error);
+      toast.error(error.message || 'Failed to unlock account');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!member} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Login Activity</DialogTitle>
+          <DialogDescription>{member ? `${member.name} (${member.email})` : ''}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !activity ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 text-[#6a40ec] animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            {activity.lockedUntil && (
+              <div className="flex items-center justify-between gap-3 bg-red-50 border border-red-200 rounded-lg p-3">
+                <div className="flex items-center gap-2 text-sm text-red-700">
+                  <Lock className="w-4 h-4" />
+                  Locked after repeated failed logins, for another {formatDistanceToNow(new Date(activity.lockedUntil))}
+                </div>
+                {canUnlock && (
+                  <Button size="sm" variant="outline" onClick={handleUnlock} disabled={isUnlocking}>
+                    {isUnlocking ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <LockOpen className="w-4 h-4 mr-2" />}
+                    Unlock
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Failed Logins ({activity.failedAttempts.length})</h3>
+              {activity.failedAttempts.length === 0 ? (
+                <p className="text-sm text-gray-500">No failed logins since the last successful one</p>
+              ) : (
+                <div className="max-h-60 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Time</TableHead>
+                        <TableHead>IP Address</TableHead>
+                        <TableHead>Device</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {activity.failedAttempts.map((attempt) => (
+                        <TableRow key={`${attempt.at}-${attempt.ipAddress}`}>
+                          <TableCell className="text-sm whitespace-nowrap">{format(new Date(attempt.at), 'MMM dd, yyyy HH:mm:ss')}</TableCell>
+                          <TableCell className="text-sm font-mono">{attempt.ipAddress}</TableCell>
+                          <TableCell className="text-xs text-gray-500 max-w-[240px] truncate" title={attempt.userAgent}>
+                            {attempt.userAgent || '-'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Known IP Addresses ({activity.knownIps.length})</h3>
+              {activity.knownIps.length === 0 ? (
+                <p className="text-sm text-gray-500">No successful logins recorded yet</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {activity.knownIps.map((known) => (
+                    <Badge
+                      key={known.ipAddress}
+                      variant="outline"
+                      className="font-mono text-xs"
+                      title={`First seen ${format(new Date(known.firstSeenAt), 'MMM dd, yyyy')}, last ${format(new Date(known.lastSeenAt), 'MMM dd, yyyy HH:mm')}`}
+                    >
+                      {known.ipAddress}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -30,6 +30,8 @@ export function LoginPage() {
       // Check for specific error types
       if (errorMessage.includes('ACCOUNT_DELETED') || errorMessage.includes('deleted by the administrator')) {
         errorMessage = 'Your account has been deleted. Please contact support for assistance.';
+      } else if (errorMessage.includes('archived') || errorMessage.includes('banned')) {
+        errorMessage = 'Your account has been archived. Please contact support to restore it.';
       } else if (errorMessage.includes('ACCOUNT_DEACTIVATED') || errorMessage.includes('deactivated')) {
         errorMessage = 'Your account has been deactivated. Please contact support to reactivate.';
       } else if (errorMessage.includes('Invalid login credentials') || errorMessage.includes('Invalid email or password')) {
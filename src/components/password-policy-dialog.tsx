@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import * as api from '../utils/api';
+import type { PasswordPolicy } from '../supabase/functions/server/contract';
+
+type RuleKey = 'requireUppercase' | 'requireLowercase' | 'requireNumber' | 'requireSymbol';
+
+const CHARACTER_RULES: { key: RuleKey; label: string }[] = [
+  { key: 'requireUppercase', label: 'Uppercase letter' },
+  { key: 'requireLowercase', label: 'Lowercase letter' },
+  { key: 'requireNumber', label: 'Number' },
+  { key: 'requireSymbol', label: 'Symbol' },
+];
+
+// Admin-only: rules for new passwords, reuse history and expiry. Stricter rules apply from each member's next
+// password change; a shorter maximum age makes older passwords expire right away.
+export function PasswordPolicyDialog() {
+  const [open, setOpen] = useState(false);
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) return;
+
+    setIsLoading(true);
+    try {
+      const data = await api.getPasswordPolicy();
+      setPolicy(data.policy);
+    } catch (error: any) {
+      console.error('Load password policy error:', error);
+      toast.error(error.message || 'Failed to load password policy');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const update = (changes: Partial<PasswordPolicy>) => {
+    setPolicy((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  const handleSave = async () => {
+    if (!policy) return;
+    setIsSaving(true);
+    try {
+      await api.updatePasswordPolicy(policy);
+      toast.success('Password policy updated');
+      setOpen(false);
+    } catch (error: any) {
+      console.error('Update password policy error:', error);
+      toast.error(error.message || 'Failed to update password policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="border-[#6a40ec] text-[#6a40ec] hover:bg-[#6a40ec] hover:text-white">
+          <KeyRound className="w-4 h-4 mr-2" />
+          Password Policy
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Password Policy</DialogTitle>
+          <DialogDescription>
+            Applies whenever a member sets a password: accepting an invitation, changing it, or resetting a forgotten one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !policy ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 text-[#6a40ec] animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="password-min-length" className="mb-2 block">Minimum length</Label>
+              <Input
+                id="password-min-length"
+                type="number"
+                min={6}
+                max={128}
+                value={policy.minLength}
+                onChange={(e) => update({ minLength: Number(e.target.value) })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="block">Must contain</Label>
+              {CHARACTER_RULES.map((rule) => (
+                <div key={rule.key} className="flex items-center justify-between border rounded-lg px-3 py-2">
+                  <Label htmlFor={`password-${rule.key}`} className="cursor-pointer font-normal">{rule.label}</Label>
+                  <Switch
+                    id={`password-${rule.key}`}
+                    checked={policy[rule.key]}
+                    onCheckedChange={(checked) => update({ [rule.key]: checked })}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <Label htmlFor="password-history" className="mb-2 block">Previous passwords that can't be reused</Label>
+              <Input
+                id="password-history"
+                type="number"
+                min={0}
+                max={12}
+                value={policy.historyCount}
+                onChange={(e) => update({ historyCount: Number(e.target.value) })}
+              />
+              <p className="text-xs text-gray-500 mt-1">0 allows reusing any earlier password</p>
+            </div>
+
+            <div>
+              <Label htmlFor="password-max-age" className="mb-2 block">Password expires after (days)</Label>
+              <Input
+                id="password-max-age"
+                type="number"
+                min={0}
+                max={365}
+                value={policy.maxAgeDays}
+                onChange={(e) => update({ maxAgeDays: Number(e.target.value) })}
+              />
+              <p className="text-xs text-gray-500 mt-1">0 means passwords never expire</p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button
+            className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white"
+            onClick={handleSave}
+            disabled={isLoading || isSaving || !policy}
+          >
+            {isSaving ? 'Saving...' : 'Save Policy'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle } from 'lucide-react';
+import * as api from '../utils/api';
+import { checkPasswordRules, type PasswordPolicy } from '../supabase/functions/server/contract';
+
+// The server's minimum when the policy could not be loaded
+const FALLBACK_MIN_LENGTH = 6;
+
+// The current password policy, or null until it has loaded
+export function usePasswordPolicy(): PasswordPolicy | null {
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+
+  useEffect(() => {
+    api.getPasswordPolicy()
+      .then((data) => setPolicy(data.policy))
+      .catch((error) => console.error('Load password policy error:', error));
+  }, []);
+
+  return policy;
+}
+
+export function meetsPasswordPolicy(password: string, policy: PasswordPolicy | null): boolean {
+  return policy
+    ? checkPasswordRules(password, policy).every((rule) => rule.met)
+    : password.length >= FALLBACK_MIN_LENGTH;
+}
+
+interface PasswordRequirementsProps {
+  password: string;
+  policy: PasswordPolicy | null;
+  // Mention the reuse rule; off for brand-new accounts, which have no earlier passwords
+  showHistory?: boolean;
+}
+
+// Checklist of the policy's rules for a new password. Reuse of an earlier password is only reported on submit.
+export function PasswordRequirements({ password, policy, showHistory = true }: PasswordRequirementsProps) {
+  const rules = policy
+    ? checkPasswordRules(password, policy)
+    : [{ label: `At least ${FALLBACK_MIN_LENGTH} characters`, met: password.length >= FALLBACK_MIN_LENGTH }];
+
+  return (
+    <>
+      {rules.map((rule) => (
+        <div key={rule.label} className={`flex items-center text-xs ${rule.met ? 'text-green-600' : 'text-gray-400'}`}>
+          <CheckCircle size={12} className="mr-2" />
+          {rule.label}
+        </div>
+      ))}
+      {showHistory && policy && policy.historyCount > 0 && (
+        <p className="text-xs text-gray-500">Your last {policy.historyCount} passwords can't be reused</p>
+      )}
+    </>
+  );
+}
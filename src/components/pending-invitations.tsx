@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { Loader2, MailCheck, RotateCw, XCircle } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import * as api from '../utils/api';
+import type { StaffInvitation } from '../supabase/functions/server/contract';
+
+interface PendingInvitationsProps {
+  // Bumped by the parent after sending an invitation, to reload the list
+  refreshKey?: number;
+}
+
+// Invitations that have not been accepted yet, with resend (new link, new expiry) and revoke
+export function PendingInvitations({ refreshKey = 0 }: PendingInvitationsProps) {
+  const [invitations, setInvitations] = useState<StaffInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<StaffInvitation | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await api.getInvitations();
+      setInvitations(data.invitations);
+    } catch (error: any) {
+      console.error('Load invitations error:', error);
+      toast.error(error.message || 'Failed to load invitations');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const handleResend = async (invitation: StaffInvitation) => {
+    setBusyId(invitation.id);
+    try {
+      await api.resendInvitation(invitation.id);
+      toast.success(`New invitation link sent to ${invitation.email}`);
+      await load();
+    } catch (error: any) {
+      console.error('Resend invitation error:', error);
+      toast.error(error.message || 'Failed to resend invitation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revoking) return;
+    const invitation = revoking;
+    setBusyId(invitation.id);
+    try {
+      await api.revokeInvitation(invitation.id);
+      toast.success(`Invitation to ${invitation.email} revoked`);
+      setRevoking(null);
+      await load();
+    } catch (error: any) {
+      console.error('Revoke invitation error:', error);
+      toast.error(error.message || 'Failed to revoke invitation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Nothing to show until someone is invited
+  if (isLoading || invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <TooltipProvider>
+      <Card>
+        <CardHeader>
+          <CardTitle>Pending Invitations ({invitations.length})</CardTitle>
+          <CardDescription>Invited staff appear under Team Members once they accept and set their password</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invitee</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Invited By</TableHead>
+                  <TableHead>Last Sent</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map((invitation) => {
+                  const expired = new Date(invitation.expiresAt).getTime() <= Date.now();
+                  return (
+                    <TableRow key={invitation.id}>
+                      <TableCell>
+                        <div className="font-medium">{invitation.name}</div>
+                        <div className="text-sm text-gray-500">{invitation.email}</div>
+                      </TableCell>
+                      <TableCell>{invitation.role}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{invitation.invitedByName}</TableCell>
+                      <TableCell className="text-sm text-gray-500 whitespace-nowrap">
+                        {format(new Date(invitation.lastSentAt), 'MMM dd, yyyy HH:mm')}
+                        {invitation.sendCount > 1 && <span className="text-gray-400"> ({invitation.sendCount}×)</span>}
+                      </TableCell>
+                      <TableCell>
+                        {expired ? (
+                          <Badge variant="outline" className="bg-red-100 text-red-700 border-red-200">Expired</Badge>
+                        ) : (
+                          <span className="text-sm text-gray-600 whitespace-nowrap">
+                            in {formatDistanceToNow(new Date(invitation.expiresAt))}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleResend(invitation)}
+                                disabled={busyId === invitation.id}
+                                className="text-[#6a40ec] hover:text-[#5a2fd9]"
+                              >
+                                {busyId === invitation.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCw className="w-4 h-4" />}
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>Resend with a new link</TooltipContent>
+                          </Tooltip>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setRevoking(invitation)}
+                                disabled={busyId === invitation.id}
+                                className="text-red-600 hover:text-red-800"
+                              >
+                                <XCircle className="w-4 h-4" />
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>Revoke</TooltipContent>
+                          </Tooltip>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!revoking} onOpenChange={(open) => !open && setRevoking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <MailCheck className="w-5 h-5 text-red-600" />
+              Revoke Invitation
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The link sent to {revoking?.email} will stop working. You can invite them again later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={busyId !== null}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevoke}
+              className="bg-red-600 hover:bg-red-700"
+              disabled={busyId !== null}
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </TooltipProvider>
+  );
+}
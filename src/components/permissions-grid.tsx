@@ -0,0 +1,71 @@
+import { Checkbox } from './ui/checkbox';
+import { Label } from './ui/label';
+import { UserPermissions } from './admin-context-new';
+
+// No default permissions - all permissions start as false and must be manually assigned
+export const emptyPermissions: UserPermissions = {
+  dashboard: { view: false, add: false, edit: false, delete: false, viewAll: false },
+  deposits: { view: false, add: false, edit: false, delete: false, viewAll: false, approve: false },
+  bankDeposits: { view: false, add: false, edit: false, delete: false, viewAll: false },
+  staffManagement: { view: false, add: false, edit: false, delete: false },
+  activityLogs: { view: false, viewAll: false },
+};
+
+// Fills in modules and flags missing from older permission sets so every checkbox has a value,
+// and drops legacy flags the server's permissions schema no longer accepts
+export function withAllPermissions(permissions?: Partial<UserPermissions>): UserPermissions {
+  const result: any = JSON.parse(JSON.stringify(emptyPermissions));
+  Object.keys(result).forEach((module) => {
+    const current = (permissions as any)?.[module] || {};
+    Object.keys(result[module]).forEach((action) => {
+      if (typeof current[action] === 'boolean') result[module][action] = current[action];
+    });
+  });
+  return result;
+}
+
+interface PermissionsGridProps {
+  permissions: UserPermissions;
+  onChange: (permissions: UserPermissions) => void;
+  idPrefix?: string;
+}
+
+export function PermissionsGrid({ permissions, onChange, idPrefix = 'perm' }: PermissionsGridProps) {
+  const handleChange = (module: string, action: string, value: boolean) => {
+    onChange({
+      ...permissions,
+      [module]: {
+        ...(permissions as any)[module],
+        [action]: value,
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {Object.entries(permissions).map(([module, perms]) => (
+        <div key={module} className="border rounded-lg p-4 bg-gray-50/50">
+          <h4 className="font-semibold text-sm capitalize mb-3 text-gray-800">
+            {module.replace(/([A-Z])/g, ' $1').trim()}
+          </h4>
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-4">
+            {Object.entries(perms || {})
+              .filter(([action]) => action !== 'activity')
+              .map(([action, enabled]) => (
+              <div key={action} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${idPrefix}-${module}-${action}`}
+                  checked={!!enabled}
+                  onCheckedChange={(checked) => handleChange(module, action, !!checked)}
+                />
+                <Label htmlFor={`${idPrefix}-${module}-${action}`} className="text-sm capitalize cursor-pointer font-medium">
+                  {action === 'viewAll' ? 'View All' : action}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -7,10 +7,275 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
 import { Badge } from './ui/badge';
 import { Separator } from './ui/separator';
-import { Eye, EyeOff, Upload, User, Lock, Mail, Calendar } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Eye, EyeOff, Upload, User, Lock, Mail, Calendar, ShieldCheck, Monitor, LogOut } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 import { useAdmin } from './admin-context-new';
+import { CodeInput, RecoveryCodes, TwoFactorSetup } from './two-factor-setup';
+import { PasswordRequirements, meetsPasswordPolicy, usePasswordPolicy } from './password-requirements';
 import { toast } from 'sonner@2.0.3';
 import { projectId, publicAnonKey } from '../utils/supabase/info';
+import * as api from '../utils/api';
+import type { StaffSession, TwoFactorStatus } from '../supabase/functions/server/contract';
+
+type CodeAction = 'disable' | 'recovery-codes';
+
+// Enable / disable TOTP and replace recovery codes. Disabling and new codes both need a current code.
+function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadStatus = async () => {
+    try {
+      const data = await api.getTwoFactorStatus();
+      setStatus(data.status);
+    } catch (error: any) {
+      console.error('Load 2FA status error:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const closeCodeDialog = () => {
+    setCodeAction(null);
+    setCode('');
+    setNewRecoveryCodes(null);
+  };
+
+  const handleCodeAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length !== 6) return;
+
+    setIsSubmitting(true);
+    try {
+      if (codeAction === 'disable') {
+        await api.disableTwoFactor(code);
+        toast.success('Two-factor authentication disabled');
+        closeCodeDialog();
+      } else {
+        const data = await api.regenerateRecoveryCodes(code);
+        setNewRecoveryCodes(data.recoveryCodes);
+      }
+      await loadStatus();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to verify code');
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEnrollComplete = async () => {
+    setIsEnrolling(false);
+    await loadStatus();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="font-medium text-gray-900 flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4 text-[#6a40ec]" />
+            Two-Factor Authentication
+          </h4>
+          <p className="text-sm text-gray-600 mt-1">
+            Ask for a code from an authenticator app after your password when you sign in.
+          </p>
+        </div>
+        {status && (
+          <Badge variant="outline" className={status.enabled ? 'bg-green-100 text-green-700 border-green-200' : 'bg-gray-100 text-gray-600'}>
+            {status.enabled ? 'Enabled' : 'Off'}
+          </Badge>
+        )}
+      </div>
+
+      {status?.enabled ? (
+        <>
+          <p className="text-sm text-gray-600">{status.recoveryCodesRemaining} recovery code(s) left.</p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => setCodeAction('recovery-codes')}>
+              New Recovery Codes
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1 border-red-200 text-red-600 hover:bg-red-50"
+              onClick={() => setCodeAction('disable')}
+              disabled={status.required}
+            >
+              Disable
+            </Button>
+          </div>
+          {status.required && (
+            <p className="text-xs text-gray-500">Your role requires two-factor authentication, so it can't be disabled.</p>
+          )}
+        </>
+      ) : (
+        <Button
+          type="button"
+          className="w-full bg-[#6a40ec] hover:bg-[#5a2fd9] text-white"
+          onClick={() => setIsEnrolling(true)}
+          disabled={!status}
+        >
+          Enable Two-Factor Authentication
+        </Button>
+      )}
+
+      <Dialog open={isEnrolling} onOpenChange={setIsEnrolling}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Enable Two-Factor Authentication</DialogTitle>
+            <DialogDescription>You'll need your authenticator app every time you sign in.</DialogDescription>
+          </DialogHeader>
+          {isEnrolling && <TwoFactorSetup onComplete={handleEnrollComplete} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={codeAction !== null} onOpenChange={(open) => !open && closeCodeDialog()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{codeAction === 'disable' ? 'Disable Two-Factor Authentication' : 'New Recovery Codes'}</DialogTitle>
+            <DialogDescription>
+              {newRecoveryCodes
+                ? 'Your previous recovery codes no longer work.'
+                : 'Enter the 6-digit code from your authenticator app to confirm.'}
+            </DialogDescription>
+          </DialogHeader>
+          {newRecoveryCodes ? (
+            <div className="space-y-4">
+              <RecoveryCodes codes={newRecoveryCodes} />
+              <Button type="button" className="w-full bg-[#6a40ec] hover:bg-[#5a2fd9] text-white" onClick={closeCodeDialog}>
+                Done
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleCodeAction} className="space-y-4">
+              <CodeInput value={code} onChange={setCode} />
+              <Button
+                type="submit"
+                className={`w-full text-white ${codeAction === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-[#6a40ec] hover:bg-[#5a2fd9]'}`}
+                disabled={isSubmitting || code.length !== 6}
+              >
+                {isSubmitting ? 'Verifying...' : codeAction === 'disable' ? 'Disable' : 'Create New Codes'}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// Devices signed in to this account, with sign-out per session or for all other sessions
+function ActiveSessions() {
+  const [sessions, setSessions] = useState<StaffSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadSessions = async () => {
+    try {
+      const data = await api.getSessions();
+      setSessions(data.sessions);
+    } catch (error: any) {
+      console.error('Load sessions error:', error);
+      toast.error(error.message || 'Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const handleRevoke = async (session: StaffSession) => {
+    setRevokingId(session.id);
+    try {
+      await api.revokeSession(session.id);
+      toast.success(`Signed out ${session.device}`);
+      await loadSessions();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to sign out session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setRevokingId('others');
+    try {
+      const { count } = await api.revokeOtherSessions();
+      toast.success(`Signed out ${count} other session(s)`);
+      await loadSessions();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to sign out sessions');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const otherSessions = sessions.filter((session) => !session.current);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Your Sessions</CardTitle>
+          <CardDescription className="mt-1.5">Devices where you're signed in. Sign out any you don't recognize.</CardDescription>
+        </div>
+        {otherSessions.length > 0 && (
+          <Button variant="outline" size="sm" onClick={handleRevokeOthers} disabled={revokingId !== null}>
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign Out Others
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading sessions...</p>
+        ) : (
+          <div className="divide-y">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Monitor className="w-5 h-5 text-gray-400 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm flex items-center gap-2">
+                      {session.device}
+                      {session.current && (
+                        <Badge variant="outline" className="text-xs bg-green-100 text-green-700 border-green-200">This device</Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {session.ip} · Last active {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })} · Signed in {new Date(session.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-red-200 text-red-600 hover:bg-red-50 shrink-0"
+                    onClick={() => handleRevoke(session)}
+                    disabled={revokingId !== null}
+                  >
+                    {revokingId === session.id ? 'Signing out...' : 'Sign Out'}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 export function ProfilePage() {
   const { user, setUser, logout } = useAdmin();
@@ -24,6 +289,7 @@ export function ProfilePage() {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const passwordPolicy = usePasswordPolicy();
 
   const handleProfileUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -97,8 +363,8 @@ export function ProfilePage() {
       return;
     }
 
-    if (newPassword.length < 6) {
-      toast.error('New password must be at least 6 characters long');
+    if (!meetsPasswordPolicy(newPassword, passwordPolicy)) {
+      toast.error('New password does not meet the password requirements');
       return;
     }
 
@@ -110,34 +376,7 @@ export function ProfilePage() {
     setIsChangingPassword(true);
 
     try {
-      const accessToken = sessionStorage.getItem('auth_token');
-      
-      if (!accessToken) {
-        toast.error('Session expired. Please login again.');
-        setIsChangingPassword(false);
-        return;
-      }
-
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-63060bc2/change-password`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${accessToken}`,
-          },
-          body: JSON.stringify({
-            currentPassword,
-            newPassword,
-          }),
-        }
-      );
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to change password');
-      }
+      await api.changePassword(currentPassword, newPassword);
 
       // Show success message with longer duration
       toast.success('Password changed successfully! Please login again with your new password.', {
@@ -349,26 +588,30 @@ export function ProfilePage() {
 
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                     <h4 className="font-medium text-blue-900 mb-2">Password Requirements</h4>
-                    <ul className="text-sm text-blue-800 space-y-1">
-                      <li>• At least 8 characters long</li>
-                      <li>• Mix of uppercase and lowercase letters</li>
-                      <li>• At least one number or special character</li>
-                    </ul>
+                    <div className="space-y-1">
+                      <PasswordRequirements password={newPassword} policy={passwordPolicy} />
+                    </div>
                   </div>
 
                   <Button
                     type="submit"
                     className="w-full bg-[#6a40ec] hover:bg-[#5a2fd9] text-white"
-                    disabled={isChangingPassword || newPassword !== confirmPassword || newPassword.length < 8}
+                    disabled={isChangingPassword || newPassword !== confirmPassword || !meetsPasswordPolicy(newPassword, passwordPolicy)}
                   >
                     {isChangingPassword ? 'Changing Password...' : 'Change Password'}
                   </Button>
                 </form>
+
+                <Separator className="my-6" />
+
+                <TwoFactorSettings />
               </CardContent>
             </TabsContent>
           </Tabs>
         </Card>
       </div>
+
+      <ActiveSessions />
     </div>
   );
 }
\ No newline at end of file
@@ -7,7 +7,12 @@ import {
   Activity,
   LogOut,
   X,
-  Check
+  Check,
+  Mail,
+  FileText,
+  ClipboardCheck,
+  Archive,
+  ArrowLeftRight
 } from 'lucide-react';
 import { useAdmin } from './admin-context-new';
 import { 
@@ -36,6 +41,12 @@ const menuItems = [
     icon: DollarSign,
     page: 'deposits' as const,
   },
+  {
+    id: 'approvals',
+    label: 'Approvals',
+    icon: ClipboardCheck,
+    page: 'approvals' as const,
+  },
   {
     id: 'bank-deposits',
     label: 'Bank Deposits',
@@ -48,16 +59,40 @@ const menuItems = [
     icon: Users,
     page: 'staff-management' as const,
   },
+  {
+    id: 'archived-staff',
+    label: 'Archived Staff',
+    icon: Archive,
+    page: 'archived-staff' as const,
+  },
   {
     id: 'activity',
     label: 'Activity Logs',
     icon: Activity,
     page: 'activity' as const,
   },
+  {
+    id: 'email-outbox',
+    label: 'Email Outbox',
+    icon: Mail,
+    page: 'email-outbox' as const,
+  },
+  {
+    id: 'email-templates',
+    label: 'Email Templates',
+    icon: FileText,
+    page: 'email-templates' as const,
+  },
+  {
+    id: 'exchange-rates',
+    label: 'Exchange Rates',
+    icon: ArrowLeftRight,
+    page: 'exchange-rates' as const,
+  },
 ];
 
 export function Sidebar({ isOpen, onClose }: { isOpen?: boolean; onClose?: () => void }) {
-  const { currentPage, setCurrentPage, logout, user, loadData } = useAdmin();
+  const { currentPage, setCurrentPage, logout, user, loadData, isAdmin, canApproveDeposits } = useAdmin();
   
   // Helper to check if user has view permission for a module
   const canViewModule = (moduleName: 'dashboard' | 'deposits' | 'bankDeposits' | 'staffManagement') => {
@@ -111,6 +146,10 @@ export function Sidebar({ isOpen, onClose }: { isOpen?: boolean; onClose?: () =>
             if (item.id === 'deposits' && !canViewModule('deposits')) {
               return null;
             }
+            // Approvals only for reviewers
+            if (item.id === 'approvals' && !canApproveDeposits()) {
+              return null;
+            }
             // Hide Bank Deposits for users without view permission
             if (item.id === 'bank-deposits' && !canViewModule('bankDeposits')) {
               return null;
@@ -119,6 +158,10 @@ export function Sidebar({ isOpen, onClose }: { isOpen?: boolean; onClose?: () =>
             if (item.id === 'staff-management' && !canViewModule('staffManagement')) {
               return null;
             }
+            // Archived Staff for users who can archive, restore and purge members
+            if (item.id === 'archived-staff' && !(canViewModule('staffManagement') && user?.permissions?.staffManagement?.delete)) {
+              return null;
+            }
             // Hide Activity Logs for users without activity permission
             if (item.id === 'activity') {
               const hasActivityPermission = user?.permissions?.dashboard?.activity || 
@@ -129,6 +172,11 @@ export function Sidebar({ isOpen, onClose }: { isOpen?: boolean; onClose?: () =>
               }
             }
 
+            // Email Outbox, Email Templates and Exchange Rates are for admins only
+            if ((item.id === 'email-outbox' || item.id === 'email-templates' || item.id === 'exchange-rates') && !isAdmin()) {
+              return null;
+            }
+
             const Icon = item.icon;
             const isActive = currentPage === item.page;
             
@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Eye, EyeOff, Loader2 } from 'lucide-react';
 import { useAdmin, UserRole } from './admin-context-new';
+import { PasswordRequirements, meetsPasswordPolicy, usePasswordPolicy } from './password-requirements';
 import Group1 from '../imports/Group1-47-1099';
 
 export function SignupPage() {
@@ -21,6 +22,7 @@ export function SignupPage() {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const passwordPolicy = usePasswordPolicy();
 
   const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -34,8 +36,8 @@ export function SignupPage() {
       return;
     }
 
-    if (formData.password.length < 6) {
-      setError('Password must be at least 6 characters long');
+    if (!meetsPasswordPolicy(formData.password, passwordPolicy)) {
+      setError('Password does not meet the requirements');
       setIsLoading(false);
       return;
     }
@@ -152,6 +154,9 @@ export function SignupPage() {
                     {showPassword ? <EyeOff size={20} /> : <Eye size={20} />}
                   </button>
                 </div>
+                <div className="space-y-1 mt-2">
+                  <PasswordRequirements password={formData.password} policy={passwordPolicy} showHistory={false} />
+                </div>
               </div>
 
               <div>
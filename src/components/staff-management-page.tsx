@@ -20,21 +20,34 @@ import {
   UserPlus, 
   Eye, 
   Edit, 
-  Trash2,
+  Archive,
   Filter,
   X,
   UserX,
   Shield,
   Save,
   User,
-  Calendar
+  Calendar,
+  ShieldOff,
+  LogOut,
+  History,
+  KeyRound,
+  LockOpen,
+  ScrollText
 } from 'lucide-react';
-import { useAdmin, Staff, UserRole } from './admin-context-new';
+import { useAdmin, Staff, UserRole, type Role, type ViewAllModule } from './admin-context-new';
 import * as api from '../utils/api';
 import { toast } from 'sonner@2.0.3';
 import { TablePagination } from './table-pagination';
 import { AddStaffSheet } from './add-staff-sheet';
+import { PendingInvitations } from './pending-invitations';
 import { AddRoleSheet } from './add-role-sheet';
+import { TwoFactorPolicyDialog } from './two-factor-policy-dialog';
+import { PasswordPolicyDialog } from './password-policy-dialog';
+import { ExportMenu } from './export-menu';
+import { FieldError } from './field-error';
+import { withAllPermissions } from './permissions-grid';
+import { validate, staffUpdateSchema, type FieldErrors, type StaffUpdateInput } from '../supabase/functions/server/contract';
 import { TableSkeleton } from './shimmer-skeleton';
 import { 
   Dialog,
@@ -68,9 +81,18 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from './ui/tooltip';
+import { HistorySheet } from './history-sheet';
+import { LoginActivityDialog } from './login-activity-dialog';
+
+// Locked by repeated failed logins; the lock runs out on its own
+const isLoginLocked = (member: Staff) =>
+  !!member.loginLockedUntil && new Date(member.loginLockedUntil).getTime() > Date.now();
+
+// Modules where the viewAll flag decides whether other staff members' entries are visible
+const VIEW_ALL_MODULES: ViewAllModule[] = ['dashboard', 'deposits', 'bankDeposits', 'activityLogs'];
 
 export function StaffManagementPage() {
-  const { staff, setStaff, setCurrentPage, user, canViewAllEntries, addActivityLog, loadData, loadRoles, roles, isLoading } = useAdmin();
+  const { staff, setStaff, setCurrentPage, user, canViewAllEntries, addActivityLog, loadData, loadRoles, roles, isLoading, isAdmin } = useAdmin();
 
   // Permission checks for current user
   const getCurrentUserPermissions = () => {
@@ -99,6 +121,22 @@ export function StaffManagementPage() {
     // Users with delete permission can delete others, but not themselves
     return permissions.delete && staffMember.id !== user?.id;
   };
+
+  // Admins can reset 2FA for members who lost their device; only a Super Admin can reset another Super Admin
+  const canResetTwoFactor = (staffMember: Staff) => {
+    return isAdmin()
+      && staffMember.twoFactorEnabled === true
+      && staffMember.id !== user?.id
+      && (staffMember.role !== 'Super Admin' || user?.role === 'Super Admin');
+  };
+
+  const canEditRoles = () => {
+    const permissions = getCurrentUserPermissions();
+    return permissions?.edit || false;
+  };
+
+  // Role whose template is open in the edit sheet
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'inactive'>('all');
   const [filterRole, setFilterRole] = useState<UserRole | 'all'>('all');
@@ -110,6 +148,7 @@ export function StaffManagementPage() {
   const [editingPermissions, setEditingPermissions] = useState<any>(null);
   const [isEditingProfile, setIsEditingProfile] = useState(false);
   const [editingProfile, setEditingProfile] = useState<{ name: string; email: string } | null>(null);
+  const [profileErrors, setProfileErrors] = useState<FieldErrors>({});
   
   // Loading states
   const [isSavingProfile, setIsSavingProfile] = useState(false);
@@ -117,6 +156,7 @@ export function StaffManagementPage() {
   const [isAddingStaff, setIsAddingStaff] = useState(false);
   const [isDeletingStaff, setIsDeletingStaff] = useState(false);
   const [isDeactivatingStaff, setIsDeactivatingStaff] = useState(false);
+  const [invitationsVersion, setInvitationsVersion] = useState(0);
   
   // Delete confirmation state
   const [deleteConfirmation, setDeleteConfirmation] = useState<{
@@ -127,6 +167,10 @@ export function StaffManagementPage() {
     staff: null
   });
 
+  // Member whose change history is open
+  const [historyMember, setHistoryMember] = useState<Staff | null>(null);
+  const [loginActivityMember, setLoginActivityMember] = useState<Staff | null>(null);
+
   const filteredStaff = useMemo(() => {
     return staff.filter((member) => {
       // Filter out archived members
@@ -193,7 +237,8 @@ export function StaffManagementPage() {
       // Reload data from backend
       await loadData();
       
-      toast.success('Staff status updated successfully');
+      // The server signs a deactivated member out of every session
+      toast.success(newStatus === 'inactive' ? `${staffMember.name} deactivated and signed out` : 'Staff status updated successfully');
     } catch (error: any) {
       console.error('Update status error:', error);
       toast.error(error.message || 'Failed to update status');
@@ -219,8 +264,7 @@ export function StaffManagementPage() {
 
     setIsDeletingStaff(true);
     try {
-      // Delete from backend
-      await api.deleteStaff(staffMember.id);
+      await api.archiveStaff(staffMember.id);
       
       // Reload data from backend
       await loadData();
@@ -230,10 +274,10 @@ export function StaffManagementPage() {
         staff: null
       });
       
-      toast.success('Staff member deleted successfully');
+      toast.success(`${staffMember.name} archived and signed out`);
     } catch (error: any) {
-      console.error('Delete staff error:', error);
-      toast.error(error.message || 'Failed to delete staff');
+      console.error('Archive staff error:', error);
+      toast.error(error.message || 'Failed to archive staff');
       
       setDeleteConfirmation({
         isOpen: false,
@@ -244,6 +288,50 @@ export function StaffManagementPage() {
     }
   };
 
+  const handleSignOutEverywhere = async (member: Staff) => {
+    try {
+      const { count } = await api.revokeStaffSessions(member.id);
+      toast.success(`Signed out ${count} session(s) of ${member.name}`);
+    } catch (error: any) {
+      console.error('Revoke staff sessions error:', error);
+      toast.error(error.message || 'Failed to sign out sessions');
+    }
+  };
+
+  // The member can only change their password on their next request; the flag clears once they do
+  const handleRequirePasswordChange = async (member: Staff) => {
+    try {
+      await api.updateStaff(member.id, { mustChangePassword: true });
+      await loadData();
+      toast.success(`${member.name} must change their password`);
+    } catch (error: any) {
+      console.error('Require password change error:', error);
+      toast.error(error.message || 'Failed to require a password change');
+    }
+  };
+
+  const handleUnlock = async (member: Staff) => {
+    try {
+      await api.unlockStaffLogin(member.id);
+      await loadData();
+      toast.success(`${member.name} can log in again`);
+    } catch (error: any) {
+      console.error('Unlock account error:', error);
+      toast.error(error.message || 'Failed to unlock account');
+    }
+  };
+
+  const handleResetTwoFactor = async (member: Staff) => {
+    try {
+      await api.resetStaffTwoFactor(member.id);
+      await loadData();
+      toast.success(`Two-factor authentication reset for ${member.name}`);
+    } catch (error: any) {
+      console.error('Reset 2FA error:', error);
+      toast.error(error.message || 'Failed to reset two-factor authentication');
+    }
+  };
+
   const handleViewDetails = (member: Staff) => {
     setSelectedMember(member);
     setIsEditingProfile(false);
@@ -257,6 +345,7 @@ export function StaffManagementPage() {
         name: selectedMember.name,
         email: selectedMember.email,
       });
+      setProfileErrors({});
       setIsEditingProfile(true);
     }
   };
@@ -269,13 +358,21 @@ export function StaffManagementPage() {
   const handleSaveProfile = async () => {
     if (!selectedMember || !editingProfile || isSavingProfile) return;
 
+    const update: StaffUpdateInput = {
+      name: editingProfile.name.trim(),
+      email: editingProfile.email.trim(),
+    };
+    const checked = validate(staffUpdateSchema, update);
+    if (!checked.ok) {
+      setProfileErrors(checked.errors);
+      return;
+    }
+    setProfileErrors({});
+
     setIsSavingProfile(true);
     try {
       // Update on backend
-      await api.updateStaff(selectedMember.id, {
-        name: editingProfile.name,
-        email: editingProfile.email,
-      });
+      await api.updateStaff(selectedMember.id, update);
 
       // Reload data from backend
       await loadData();
@@ -287,6 +384,9 @@ export function StaffManagementPage() {
       toast.success('Profile updated successfully');
     } catch (error: any) {
       console.error('Update profile error:', error);
+      if (error instanceof api.ApiError && error.fields) {
+        setProfileErrors(error.fields);
+      }
       toast.error(error.message || 'Failed to update profile');
     } finally {
       setIsSavingProfile(false);
@@ -295,7 +395,18 @@ export function StaffManagementPage() {
 
   const handleEditPermissions = (member: Staff) => {
     setSelectedMember(member);
-    setEditingPermissions(JSON.parse(JSON.stringify(member.permissions))); // Deep copy
+    const stored: any = member.permissions || {};
+    const permissions: any = withAllPermissions(member.permissions);
+    // Show the visibility the server currently applies: older permission sets have no viewAll and follow the role
+    const isAdminRole = member.role === 'Admin' || member.role === 'Super Admin';
+    if (!stored.activityLogs) permissions.activityLogs.view = true;
+    VIEW_ALL_MODULES.forEach((module) => {
+      if (stored[module]?.viewAll === undefined) {
+        permissions[module].viewAll = isAdminRole;
+      }
+    });
+    if (stored.deposits?.approve === undefined) permissions.deposits.approve = isAdminRole;
+    setEditingPermissions(permissions);
     setEditPermissionsOpen(true);
   };
 
@@ -321,7 +432,7 @@ export function StaffManagementPage() {
     setIsSavingPermissions(true);
     try {
       // Update on backend
-      await api.updateStaff(selectedMember.id, { permissions: editingPermissions });
+      await api.updateStaff(selectedMember.id, { permissions: withAllPermissions(editingPermissions) });
       
       // Reload data from backend
       await loadData();
@@ -405,11 +516,50 @@ export function StaffManagementPage() {
           <p className="text-sm md:text-base text-gray-600 mt-1">Manage your team members and their role-based permissions.</p>
         </div>
         <div className="flex gap-2">
+          <ExportMenu
+            resource="staff"
+            params={{ search: searchTerm || undefined, status: filterStatus, role: filterRole, archived: 'false' }}
+          />
+          {isAdmin() && (
+            <TwoFactorPolicyDialog roles={allAvailableRoles} />
+          )}
+          {isAdmin() && (
+            <PasswordPolicyDialog />
+          )}
           {canAddStaff() && (
             <AddRoleSheet onRoleAdded={loadRoles} />
           )}
+          {canEditRoles() && roles.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="border-[#6a40ec] text-[#6a40ec] hover:bg-[#6a40ec] hover:text-white">
+                  <Edit className="w-4 h-4 mr-2" />
+                  Edit Role
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="max-h-[280px] overflow-y-auto">
+                {roles.map((role) => (
+                  <DropdownMenuItem key={role.id} onClick={() => setEditingRole(role)}>
+                    <Shield className="w-4 h-4 mr-2 text-[#6a40ec]" />
+                    {role.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {editingRole && (
+            <AddRoleSheet
+              role={editingRole}
+              open
+              onOpenChange={(open) => !open && setEditingRole(null)}
+              onRoleAdded={async () => {
+                // Renames and propagated templates change staff records too
+                await Promise.all([loadRoles(), loadData()]);
+              }}
+            />
+          )}
           {canAddStaff() ? (
-            <AddStaffSheet />
+            <AddStaffSheet onInvited={() => setInvitationsVersion((version) => version + 1)} />
           ) : (
             <TooltipProvider>
               <Tooltip>
@@ -419,7 +569,7 @@ export function StaffManagementPage() {
                     className="bg-gray-300 cursor-not-allowed"
                   >
                     <UserPlus className="w-4 h-4 mr-2" />
-                    Add Staff Member
+                    Invite Staff Member
                   </Button>
                 </TooltipTrigger>
                 <TooltipContent>You don't have permission to add staff members</TooltipContent>
@@ -492,6 +642,8 @@ export function StaffManagementPage() {
         </CardContent>
       </Card>
 
+      {canAddStaff() && <PendingInvitations refreshKey={invitationsVersion} />}
+
       {/* Staff Table */}
       <Card>
         <CardHeader>
@@ -562,7 +714,18 @@ export function StaffManagementPage() {
                       </div>
                     </TableCell>
                     <TableCell>
-                      {getStatusBadge(member.status)}
+                      <div className="flex flex-wrap gap-1">
+                        {getStatusBadge(member.status)}
+                        {member.twoFactorEnabled && (
+                          <Badge variant="outline" className="text-xs border-[#6a40ec]/40 text-[#6a40ec]">2FA</Badge>
+                        )}
+                        {member.mustChangePassword && (
+                          <Badge variant="outline" className="text-xs border-yellow-300 text-yellow-700">Password change due</Badge>
+                        )}
+                        {isLoginLocked(member) && (
+                          <Badge variant="outline" className="text-xs border-red-300 text-red-700">Locked</Badge>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell className="text-sm text-gray-500">
                       {member.lastLogin ? new Date(member.lastLogin).toLocaleDateString() : 'Never'}
@@ -582,6 +745,20 @@ export function StaffManagementPage() {
                             <Eye className="mr-2 h-4 w-4" />
                             View Details
                           </DropdownMenuItem>
+                          <DropdownMenuItem 
+                            className="cursor-pointer"
+                            onClick={() => setHistoryMember(member)}
+                          >
+                            <History className="mr-2 h-4 w-4" />
+                            History
+                          </DropdownMenuItem>
+                          <DropdownMenuItem 
+                            className="cursor-pointer"
+                            onClick={() => setLoginActivityMember(member)}
+                          >
+                            <ScrollText className="mr-2 h-4 w-4" />
+                            Login Activity
+                          </DropdownMenuItem>
                           {canEditStaff(member) && (
                             <DropdownMenuItem 
                               className="cursor-pointer"
@@ -600,6 +777,63 @@ export function StaffManagementPage() {
                               {member.status === 'active' ? 'Deactivate' : 'Activate'}
                             </DropdownMenuItem>
                           )}
+                          {canEditStaff(member) && (
+                            <DropdownMenuItem 
+                              className="cursor-pointer"
+                              onClick={() => handleSignOutEverywhere(member)}
+                            >
+                              <LogOut className="mr-2 h-4 w-4" />
+                              Sign Out Everywhere
+                            </DropdownMenuItem>
+                          )}
+                          {canEditStaff(member) && isLoginLocked(member) && (
+                            <DropdownMenuItem 
+                              className="cursor-pointer"
+                              onClick={() => handleUnlock(member)}
+                            >
+                              <LockOpen className="mr-2 h-4 w-4" />
+                              Unlock Account
+                            </DropdownMenuItem>
+                          )}
+                          {canEditStaff(member) && !member.mustChangePassword && (
+                            <DropdownMenuItem 
+                              className="cursor-pointer"
+                              onClick={() => handleRequirePasswordChange(member)}
+                            >
+                              <KeyRound className="mr-2 h-4 w-4" />
+                              Require Password Change
+                            </DropdownMenuItem>
+                          )}
+                          {canResetTwoFactor(member) && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <DropdownMenuItem 
+                                  className="cursor-pointer"
+                                  onSelect={(e) => e.preventDefault()}
+                                >
+                                  <ShieldOff className="mr-2 h-4 w-4" />
+                                  Reset 2FA
+                                </DropdownMenuItem>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Reset Two-Factor Authentication?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    This turns off two-factor authentication for {member.name} and deletes their authenticator secret and recovery codes. If their role requires 2FA, they will set it up again on their next login.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction 
+                                    onClick={() => handleResetTwoFactor(member)}
+                                    className="bg-red-600 hover:bg-red-700"
+                                  >
+                                    Reset 2FA
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
                           {canDeleteStaff(member) && (
                             <AlertDialog>
                               <AlertDialogTrigger asChild>
@@ -607,15 +841,15 @@ export function StaffManagementPage() {
                                   className="cursor-pointer text-red-600"
                                   onSelect={(e) => e.preventDefault()}
                                 >
-                                  <Trash2 className="mr-2 h-4 w-4" />
-                                  Delete
+                                  <Archive className="mr-2 h-4 w-4" />
+                                  Archive
                                 </DropdownMenuItem>
                               </AlertDialogTrigger>
                               <AlertDialogContent>
                                 <AlertDialogHeader>
-                                  <AlertDialogTitle>Delete Staff Member?</AlertDialogTitle>
+                                  <AlertDialogTitle>Archive Staff Member?</AlertDialogTitle>
                                   <AlertDialogDescription>
-                                    This will delete {member.name} and remove them from the system. You can restore them later if needed.
+                                    This will archive {member.name} and disable their login. You can restore them later if needed.
                                   </AlertDialogDescription>
                                 </AlertDialogHeader>
                                 <AlertDialogFooter>
@@ -624,7 +858,7 @@ export function StaffManagementPage() {
                                     onClick={() => handleDelete(member.id)}
                                     className="bg-red-600 hover:bg-red-700"
                                   >
-                                    Delete
+                                    Archive
                                   </AlertDialogAction>
                                 </AlertDialogFooter>
                               </AlertDialogContent>
@@ -844,6 +1078,7 @@ export function StaffManagementPage() {
                           placeholder="Enter full name"
                           className="h-10"
                         />
+                        <FieldError errors={profileErrors} name="name" />
                       </div>
 
                       <div>
@@ -858,6 +1093,7 @@ export function StaffManagementPage() {
                           placeholder="Enter email address"
                           className="h-10"
                         />
+                        <FieldError errors={profileErrors} name="email" />
                       </div>
 
                       <div className="pt-3 flex gap-3">
@@ -926,7 +1162,7 @@ export function StaffManagementPage() {
                       Adjust the permissions for each module and action type.
                     </div>
                     <div className="space-y-3">
-                      {['dashboard', 'deposits', 'bankDeposits', 'staffManagement'].map((module) => {
+                      {['dashboard', 'deposits', 'bankDeposits', 'staffManagement', 'activityLogs'].map((module) => {
                         const permissions = editingPermissions[module as keyof typeof editingPermissions];
                         if (!permissions) return null;
                         
@@ -937,15 +1173,15 @@ export function StaffManagementPage() {
                                 {module.replace(/([A-Z])/g, ' $1').trim()}
                               </span>
                             </div>
-                            <div className="grid grid-cols-4 gap-2">
-                              {['view', 'add', 'edit', 'delete'].map((permission) => {
+                            <div className="grid grid-cols-5 gap-2">
+                              {['view', 'add', 'edit', 'delete', 'viewAll', 'approve'].map((permission) => {
                                 const value = permissions[permission as keyof typeof permissions];
                                 if (permission === 'activity' || value === undefined) return null;
                                 
                                 return (
                                   <div key={permission} className="flex items-center justify-between p-1.5 bg-white rounded border">
-                                    <span className="text-xs font-medium capitalize">
-                                      {permission}
+                                    <span className="text-xs font-medium capitalize" title={permission === 'viewAll' ? "Show every staff member's entries, not only their own" : permission === 'approve' ? 'Review entries other staff submitted' : undefined}>
+                                      {permission === 'viewAll' ? 'View All' : permission}
                                     </span>
                                     <Switch
                                       checked={value}
@@ -1018,7 +1254,7 @@ export function StaffManagementPage() {
               Archive Staff Member
             </AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to archive "{deleteConfirmation.staff?.name}"? This will remove them from active staff but preserve their data. This action can be undone later.
+              Are you sure you want to archive "{deleteConfirmation.staff?.name}"? They will be signed out and unable to log in, but their data and permissions are kept. You can restore them from Archived Staff.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -1043,6 +1279,20 @@ export function StaffManagementPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <HistorySheet
+        entityType="staff"
+        entityId={historyMember?.id ?? null}
+        title={historyMember ? `${historyMember.name} (${historyMember.email})` : ''}
+        onClose={() => setHistoryMember(null)}
+      />
+
+      <LoginActivityDialog
+        member={loginActivityMember}
+        canUnlock={!!loginActivityMember && canEditStaff(loginActivityMember)}
+        onClose={() => setLoginActivityMember(null)}
+        onUnlocked={loadData}
+      />
     </div>
   );
 }
\ No newline at end of file
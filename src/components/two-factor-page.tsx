@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { LogOut, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { useAdmin } from './admin-context-new';
+import { CodeInput, TwoFactorSetup } from './two-factor-setup';
+import * as api from '../utils/api';
+import Group1 from '../imports/Group1-47-1099';
+
+// Second login step, shown after a password login while the session still owes a code (or, when the
+// member's role requires 2FA, enrollment)
+export function TwoFactorPage() {
+  const { twoFactorStep, completeTwoFactor, logout } = useAdmin();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const result = await api.verifyTwoFactor(code.trim());
+      if (result.usedRecoveryCode) {
+        toast.warning(`Recovery code used. ${result.recoveryCodesRemaining} left - create new ones from your profile if you're running low.`, { duration: 6000 });
+      }
+      await completeTwoFactor();
+    } catch (err: any) {
+      setError(err.message || 'Failed to verify code');
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+    setError('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#6a40ec] to-[#8b5cf6] flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card className="backdrop-blur-md bg-white/95 shadow-2xl border-0">
+          <CardHeader className="text-center pb-6">
+            <div className="flex justify-center mb-4">
+              <div className="w-56 h-16 flex items-center justify-center">
+                <Group1 />
+              </div>
+            </div>
+            <CardTitle className="text-2xl text-gray-800">
+              {twoFactorStep === 'enroll' ? 'Set Up Two-Factor Authentication' : 'Two-Factor Authentication'}
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              {twoFactorStep === 'enroll'
+                ? 'Your role requires two-factor authentication before you can continue'
+                : useRecoveryCode
+                  ? 'Enter one of your recovery codes'
+                  : 'Enter the 6-digit code from your authenticator app'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              {twoFactorStep === 'enroll' ? (
+                <TwoFactorSetup onComplete={completeTwoFactor} />
+              ) : (
+                <>
+                  <div className="w-16 h-16 bg-[#6a40ec]/10 rounded-full flex items-center justify-center mx-auto">
+                    <ShieldCheck className="w-8 h-8 text-[#6a40ec]" />
+                  </div>
+
+                  <form onSubmit={handleVerify} className="space-y-4">
+                    {useRecoveryCode ? (
+                      <Input
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        placeholder="xxxxx-xxxxx"
+                        className="font-mono text-center"
+                        autoFocus
+                      />
+                    ) : (
+                      <CodeInput value={code} onChange={setCode} />
+                    )}
+                    {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+
+                    <Button
+                      type="submit"
+                      className="w-full bg-[#6a40ec] hover:bg-[#5a2fd9] text-white"
+                      disabled={isSubmitting || (useRecoveryCode ? !code.trim() : code.length !== 6)}
+                    >
+                      {isSubmitting ? 'Verifying...' : 'Verify'}
+                    </Button>
+                  </form>
+
+                  <div className="text-center">
+                    <Button type="button" variant="ghost" onClick={toggleRecoveryCode} className="text-[#6a40ec] hover:text-[#5a2fd9]">
+                      {useRecoveryCode ? 'Use authenticator app' : 'Lost your device? Use a recovery code'}
+                    </Button>
+                  </div>
+                </>
+              )}
+
+              <Button type="button" variant="ghost" className="w-full" onClick={logout}>
+                <LogOut className="w-4 h-4 mr-2" />
+                Sign out
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import * as api from '../utils/api';
+
+// Admin-only: which roles must use two-factor authentication. Members of a required role without 2FA are
+// asked to set it up on their next request.
+export function TwoFactorPolicyDialog({ roles }: { roles: string[] }) {
+  const [open, setOpen] = useState(false);
+  const [requiredRoles, setRequiredRoles] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const allRoles = Array.from(new Set(['Super Admin', 'Admin', ...roles]));
+
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) return;
+
+    setIsLoading(true);
+    try {
+      const data = await api.getTwoFactorRequiredRoles();
+      setRequiredRoles(data.roles);
+    } catch (error: any) {
+      console.error('Load 2FA policy error:', error);
+      toast.error(error.message || 'Failed to load two-factor policy');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleRole = (role: string, required: boolean) => {
+    setRequiredRoles((current) => (required ? [...current, role] : current.filter((item) => item !== role)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await api.updateTwoFactorRequiredRoles(requiredRoles);
+      toast.success('Two-factor policy updated');
+      setOpen(false);
+    } catch (error: any) {
+      console.error('Update 2FA policy error:', error);
+      toast.error(error.message || 'Failed to update two-factor policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="border-[#6a40ec] text-[#6a40ec] hover:bg-[#6a40ec] hover:text-white">
+          <ShieldCheck className="w-4 h-4 mr-2" />
+          Two-Factor Policy
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Two-Factor Policy</DialogTitle>
+          <DialogDescription>
+            Members of the selected roles must set up an authenticator app before they can use the panel.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 text-[#6a40ec] animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-[320px] overflow-y-auto">
+            {allRoles.map((role) => (
+              <div key={role} className="flex items-center justify-between border rounded-lg px-3 py-2">
+                <Label htmlFor={`2fa-role-${role}`} className="cursor-pointer">{role}</Label>
+                <Switch
+                  id={`2fa-role-${role}`}
+                  checked={requiredRoles.includes(role)}
+                  onCheckedChange={(checked) => toggleRole(role, checked)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button
+            className="bg-[#6a40ec] hover:bg-[#5a2fd9] text-white"
+            onClick={handleSave}
+            disabled={isLoading || isSaving}
+          >
+            {isSaving ? 'Saving...' : 'Save Policy'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
+import { Copy, Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import * as api from '../utils/api';
+import type { TwoFactorEnrollment } from '../supabase/functions/server/contract';
+
+export function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <div className="flex justify-center">
+      <InputOTP maxLength={6} value={value} onChange={onChange}>
+        <InputOTPGroup>
+          <InputOTPSlot index={0} />
+          <InputOTPSlot index={1} />
+          <InputOTPSlot index={2} />
+          <InputOTPSlot index={3} />
+          <InputOTPSlot index={4} />
+          <InputOTPSlot index={5} />
+        </InputOTPGroup>
+      </InputOTP>
+    </div>
+  );
+}
+
+// Recovery codes are only shown once, right after they are created
+export function RecoveryCodes({ codes }: { codes: string[] }) {
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'));
+    toast.success('Recovery codes copied');
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([`Fliptrade Admin recovery codes\n\n${codes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'fliptrade-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator. They won't be shown again.
+      </div>
+      <div className="grid grid-cols-2 gap-2 bg-gray-50 border rounded-lg p-4 font-mono text-sm text-center">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" className="flex-1" onClick={handleCopy}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" className="flex-1" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Enrollment: scan the QR code, confirm a code, then save the recovery codes. `onComplete` runs once the
+ * member has acknowledged the recovery codes.
+ */
+export function TwoFactorSetup({ onComplete }: { onComplete: () => void }) {
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    api.startTwoFactorEnrollment()
+      .then((data) => setEnrollment(data.enrollment))
+      .catch((err: any) => {
+        console.error('Start 2FA enrollment error:', err);
+        setError(err.message || 'Failed to start two-factor setup');
+      });
+  }, []);
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length !== 6) return;
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const data = await api.enableTwoFactor(code);
+      setRecoveryCodes(data.recoveryCodes);
+      toast.success('Two-factor authentication enabled');
+    } catch (err: any) {
+      setError(err.message || 'Failed to enable two-factor authentication');
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodes codes={recoveryCodes} />
+        <Button type="button" className="w-full bg-[#6a40ec] hover:bg-[#5a2fd9] text-white" onClick={onComplete}>
+          I've saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (!enrollment) {
+    return error ? (
+      <p className="text-sm text-red-600 text-center">{error}</p>
+    ) : (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 text-[#6a40ec] animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleEnable} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Scan this QR code with an authenticator app (Google Authenticator, 1Password, Authy...), then enter the 6-digit code it shows.
+      </p>
+      <div className="flex justify-center">
+        <img src={enrollment.qrCode} alt="Two-factor QR code" className="w-44 h-44 border rounded-lg" />
+      </div>
+      <p className="text-xs text-gray-500 text-center">
+        Can't scan? Enter this key instead:
+        <span className="block font-mono text-sm text-gray-800 break-all mt-1">{enrollment.secret}</span>
+      </p>
+
+      <CodeInput value={code} onChange={setCode} />
+      {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+
+      <Button
+        type="submit"
+        className="w-full bg-[#6a40ec] hover:bg-[#5a2fd9] text-white"
+        disabled={isSubmitting || code.length !== 6}
+      >
+        {isSubmitting ? 'Verifying...' : 'Verify and Enable'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ListQuery } from '../utils/api';
+
+export interface ServerPage<T, S> {
+  items: T[];
+  totalCount: number;
+  summary: S | null;
+}
+
+interface ServerPaginationOptions<T, S> {
+  // Fetches one page for the given filters, sort and page
+  fetchPage: (query: ListQuery) => Promise<ServerPage<T, S>>;
+  filters: Omit<ListQuery, 'page' | 'limit'>;
+  initialItemsPerPage?: number;
+  enabled?: boolean;
+}
+
+// Keeps the current page of a server-paginated list in sync with its filters.
+// Changing any filter jumps back to page 1; stale responses are dropped.
+export function useServerPagination<T, S>({
+  fetchPage,
+  filters,
+  initialItemsPerPage = 10,
+  enabled = true,
+}: ServerPaginationOptions<T, S>) {
+  const [currentPage, setCurrentPage] = useState(1);
+  const [itemsPerPage, setItemsPerPage] = useState(initialItemsPerPage);
+  const [page, setPage] = useState<ServerPage<T, S>>({ items: [], totalCount: 0, summary: null });
+  const [isFetching, setIsFetching] = useState(false);
+  const requestId = useRef(0);
+  const filtersKey = JSON.stringify(filters);
+  const previousFiltersKey = useRef(filtersKey);
+
+  const load = useCallback(async (pageNumber: number, limit: number) => {
+    const id = ++requestId.current;
+    setIsFetching(true);
+    try {
+      const result = await fetchPage({ ...JSON.parse(filtersKey), page: pageNumber, limit });
+      if (id === requestId.current) {
+        setPage(result);
+      }
+    } catch (error: any) {
+      console.log('Load page error:', error.message);
+    } finally {
+      if (id === requestId.current) {
+        setIsFetching(false);
+      }
+    }
+  }, [fetchPage, filtersKey]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // New filters start from the first page
+    if (previousFiltersKey.current !== filtersKey) {
+      previousFiltersKey.current = filtersKey;
+      if (currentPage !== 1) {
+        setCurrentPage(1);
+        return;
+      }
+    }
+
+    // Debounce so typing in the search box doesn't fire a request per keystroke
+    const timer = setTimeout(() => load(currentPage, itemsPerPage), 250);
+    return () => clearTimeout(timer);
+  }, [enabled, load, filtersKey, currentPage, itemsPerPage]);
+
+  const reload = useCallback(() => load(currentPage, itemsPerPage), [load, currentPage, itemsPerPage]);
+
+  const changeItemsPerPage = (count: number) => {
+    setItemsPerPage(count);
+    setCurrentPage(1);
+  };
+
+  return {
+    items: page.items,
+    totalCount: page.totalCount,
+    summary: page.summary,
+    isFetching,
+    currentPage,
+    setCurrentPage,
+    itemsPerPage,
+    setItemsPerPage: changeItemsPerPage,
+    reload,
+  };
+}
@@ -3,7 +3,10 @@
 -- ============================================
 -- Purpose: Production-ready SQL schema for scalability (1M+ records)
 -- Created: 2025-11-02
--- Note: Currently using KV Store, but this schema is ready for migration
+-- Note: The server reads these tables when DATA_STORE=relational.
+--       Copy existing KV records with supabase/functions/server/migrate-kv-to-sql.tsx
+--       Record ids are TEXT so legacy KV ids (e.g. "1730534400000_<userId>") carry over unchanged.
+--       Fields without a dedicated column are kept in each table's `extra` JSONB column.
 -- ============================================
 
 -- ============================================
@@ -13,7 +16,7 @@ CREATE TABLE IF NOT EXISTS users (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     email VARCHAR(255) UNIQUE NOT NULL,
     name VARCHAR(255) NOT NULL,
-    role VARCHAR(50) NOT NULL CHECK (role IN ('Super Admin', 'Admin', 'Manager', 'Accountant', 'Viewer')),
+    role VARCHAR(50) NOT NULL,
     status VARCHAR(20) DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
     permissions JSONB NOT NULL DEFAULT '{}',
     avatar TEXT,
@@ -21,15 +24,20 @@ CREATE TABLE IF NOT EXISTS users (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     last_login TIMESTAMP WITH TIME ZONE,
     is_archived BOOLEAN DEFAULT FALSE,
-    archived_at TIMESTAMP WITH TIME ZONE
+    archived_at TIMESTAMP WITH TIME ZONE,
+    extra JSONB NOT NULL DEFAULT '{}'
 );
 
+-- Tables created by an earlier version of this file: add the newer column and allow custom roles
+ALTER TABLE users ADD COLUMN IF NOT EXISTS extra JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+
 -- Indexes for performance
-CREATE INDEX idx_users_email ON users(email);
-CREATE INDEX idx_users_role ON users(role);
-CREATE INDEX idx_users_status ON users(status);
-CREATE INDEX idx_users_is_archived ON users(is_archived);
-CREATE INDEX idx_users_created_at ON users(created_at);
+CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
+CREATE INDEX IF NOT EXISTS idx_users_status ON users(status);
+CREATE INDEX IF NOT EXISTS idx_users_is_archived ON users(is_archived);
+CREATE INDEX IF NOT EXISTS idx_users_created_at ON users(created_at);
 
 -- Comments
 COMMENT ON TABLE users IS 'Stores all staff and admin users with role-based permissions';
@@ -39,14 +47,17 @@ COMMENT ON COLUMN users.permissions IS 'JSON object containing module-level perm
 -- 2. BANKS TABLE
 -- ============================================
 CREATE TABLE IF NOT EXISTS banks (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
     name VARCHAR(255) NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    extra JSONB NOT NULL DEFAULT '{}'
 );
 
+ALTER TABLE banks ADD COLUMN IF NOT EXISTS extra JSONB NOT NULL DEFAULT '{}';
+
 -- Indexes
-CREATE INDEX idx_banks_name ON banks(name);
+CREATE INDEX IF NOT EXISTS idx_banks_name ON banks(name);
 
 -- Comments
 COMMENT ON TABLE banks IS 'Master list of all banks for bank deposits';
@@ -55,7 +66,7 @@ COMMENT ON TABLE banks IS 'Master list of all banks for bank deposits';
 -- 3. DEPOSITS TABLE (Daily Financial Entries)
 -- ============================================
 CREATE TABLE IF NOT EXISTS deposits (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
     date DATE NOT NULL,
     local_deposit DECIMAL(15, 2) DEFAULT 0,
     usdt_deposit DECIMAL(15, 2) DEFAULT 0,
@@ -63,39 +74,51 @@ CREATE TABLE IF NOT EXISTS deposits (
     local_withdraw DECIMAL(15, 2) DEFAULT 0,
     usdt_withdraw DECIMAL(15, 2) DEFAULT 0,
     cash_withdraw DECIMAL(15, 2) DEFAULT 0,
-    submitted_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    submitted_by UUID NOT NULL,
     submitted_by_name VARCHAR(255) NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    extra JSONB NOT NULL DEFAULT '{}'
 );
 
+ALTER TABLE deposits ADD COLUMN IF NOT EXISTS extra JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE deposits DROP CONSTRAINT IF EXISTS deposits_submitted_by_fkey;
+
 -- Indexes for performance (especially for 1M+ records)
-CREATE INDEX idx_deposits_date ON deposits(date DESC);
-CREATE INDEX idx_deposits_submitted_by ON deposits(submitted_by);
-CREATE INDEX idx_deposits_created_at ON deposits(created_at DESC);
-CREATE INDEX idx_deposits_date_submitted ON deposits(date DESC, submitted_by);
+CREATE INDEX IF NOT EXISTS idx_deposits_date ON deposits(date DESC);
+CREATE INDEX IF NOT EXISTS idx_deposits_submitted_by ON deposits(submitted_by);
+CREATE INDEX IF NOT EXISTS idx_deposits_created_at ON deposits(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_deposits_date_submitted ON deposits(date DESC, submitted_by);
 
 -- Composite index for common queries
-CREATE INDEX idx_deposits_search ON deposits(date, submitted_by, created_at);
+CREATE INDEX IF NOT EXISTS idx_deposits_search ON deposits(date, submitted_by, created_at);
+
+-- Approval status (kept in `extra`; entries without one count as approved) for the approvals queue
+CREATE INDEX IF NOT EXISTS idx_deposits_status ON deposits((COALESCE(extra->>'status', 'approved')), date DESC);
 
 -- Comments
 COMMENT ON TABLE deposits IS 'Daily financial deposits and withdrawals (Local, USDT, Cash)';
-COMMENT ON COLUMN deposits.submitted_by IS 'Foreign key to users table';
+COMMENT ON COLUMN deposits.submitted_by IS 'Submitting user id (no FK: entries outlive deleted staff, submitted_by_name keeps the label)';
 
 -- ============================================
 -- 4. CLIENT INCENTIVES TABLE (Related to Deposits)
 -- ============================================
 CREATE TABLE IF NOT EXISTS client_incentives (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    deposit_id UUID NOT NULL REFERENCES deposits(id) ON DELETE CASCADE,
+    id TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+    deposit_id TEXT NOT NULL REFERENCES deposits(id) ON DELETE CASCADE,
     name VARCHAR(255) NOT NULL,
     amount DECIMAL(15, 2) NOT NULL,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (deposit_id, id)
 );
 
+-- Item ids come from the entry form and are only unique within their deposit (databases created with `id` alone as key)
+ALTER TABLE client_incentives DROP CONSTRAINT IF EXISTS client_incentives_pkey;
+ALTER TABLE client_incentives ADD PRIMARY KEY (deposit_id, id);
+
 -- Indexes
-CREATE INDEX idx_client_incentives_deposit_id ON client_incentives(deposit_id);
-CREATE INDEX idx_client_incentives_created_at ON client_incentives(created_at);
+CREATE INDEX IF NOT EXISTS idx_client_incentives_deposit_id ON client_incentives(deposit_id);
+CREATE INDEX IF NOT EXISTS idx_client_incentives_created_at ON client_incentives(created_at);
 
 -- Comments
 COMMENT ON TABLE client_incentives IS 'Client incentives linked to deposit entries';
@@ -104,18 +127,22 @@ COMMENT ON TABLE client_incentives IS 'Client incentives linked to deposit entri
 -- 5. EXPENSES TABLE (Related to Deposits)
 -- ============================================
 CREATE TABLE IF NOT EXISTS expenses (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    deposit_id UUID NOT NULL REFERENCES deposits(id) ON DELETE CASCADE,
+    id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    deposit_id TEXT NOT NULL REFERENCES deposits(id) ON DELETE CASCADE,
     type VARCHAR(50) NOT NULL CHECK (type IN ('Promotion', 'Salary', 'Miscellaneous', 'IB Commission', 'Travel Expense')),
     amount DECIMAL(15, 2) NOT NULL,
     description TEXT,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (deposit_id, id)
 );
 
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_pkey;
+ALTER TABLE expenses ADD PRIMARY KEY (deposit_id, id);
+
 -- Indexes
-CREATE INDEX idx_expenses_deposit_id ON expenses(deposit_id);
-CREATE INDEX idx_expenses_type ON expenses(type);
-CREATE INDEX idx_expenses_created_at ON expenses(created_at);
+CREATE INDEX IF NOT EXISTS idx_expenses_deposit_id ON expenses(deposit_id);
+CREATE INDEX IF NOT EXISTS idx_expenses_type ON expenses(type);
+CREATE INDEX IF NOT EXISTS idx_expenses_created_at ON expenses(created_at);
 
 -- Comments
 COMMENT ON TABLE expenses IS 'Business expenses linked to deposit entries';
@@ -124,29 +151,33 @@ COMMENT ON TABLE expenses IS 'Business expenses linked to deposit entries';
 -- 6. BANK DEPOSITS TABLE (Bank Transactions)
 -- ============================================
 CREATE TABLE IF NOT EXISTS bank_deposits (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
     date DATE NOT NULL,
-    bank_id UUID NOT NULL REFERENCES banks(id) ON DELETE CASCADE,
+    bank_id TEXT NOT NULL REFERENCES banks(id) ON DELETE RESTRICT,
     deposit DECIMAL(15, 2) DEFAULT 0,
     withdraw DECIMAL(15, 2) DEFAULT 0,
     pnl DECIMAL(15, 2) DEFAULT 0,
     remaining DECIMAL(15, 2) DEFAULT 0,
     remaining_balance DECIMAL(15, 2) DEFAULT 0,
-    submitted_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    submitted_by UUID NOT NULL,
     submitted_by_name VARCHAR(255) NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    extra JSONB NOT NULL DEFAULT '{}'
 );
 
+ALTER TABLE bank_deposits ADD COLUMN IF NOT EXISTS extra JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE bank_deposits DROP CONSTRAINT IF EXISTS bank_deposits_submitted_by_fkey;
+
 -- Indexes for performance
-CREATE INDEX idx_bank_deposits_date ON bank_deposits(date DESC);
-CREATE INDEX idx_bank_deposits_bank_id ON bank_deposits(bank_id);
-CREATE INDEX idx_bank_deposits_submitted_by ON bank_deposits(submitted_by);
-CREATE INDEX idx_bank_deposits_created_at ON bank_deposits(created_at DESC);
-CREATE INDEX idx_bank_deposits_date_bank ON bank_deposits(date DESC, bank_id);
+CREATE INDEX IF NOT EXISTS idx_bank_deposits_date ON bank_deposits(date DESC);
+CREATE INDEX IF NOT EXISTS idx_bank_deposits_bank_id ON bank_deposits(bank_id);
+CREATE INDEX IF NOT EXISTS idx_bank_deposits_submitted_by ON bank_deposits(submitted_by);
+CREATE INDEX IF NOT EXISTS idx_bank_deposits_created_at ON bank_deposits(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bank_deposits_date_bank ON bank_deposits(date DESC, bank_id);
 
 -- Composite index for common queries
-CREATE INDEX idx_bank_deposits_search ON bank_deposits(date, bank_id, submitted_by);
+CREATE INDEX IF NOT EXISTS idx_bank_deposits_search ON bank_deposits(date, bank_id, submitted_by);
 
 -- Comments
 COMMENT ON TABLE bank_deposits IS 'Bank-wise deposit and withdrawal transactions';
@@ -155,7 +186,7 @@ COMMENT ON TABLE bank_deposits IS 'Bank-wise deposit and withdrawal transactions
 -- 7. ACTIVITY LOGS TABLE (Audit Trail)
 -- ============================================
 CREATE TABLE IF NOT EXISTS activity_logs (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
     action VARCHAR(100) NOT NULL,
     description TEXT NOT NULL,
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
@@ -166,12 +197,12 @@ CREATE TABLE IF NOT EXISTS activity_logs (
 );
 
 -- Indexes for fast querying
-CREATE INDEX idx_activity_logs_user_id ON activity_logs(user_id);
-CREATE INDEX idx_activity_logs_timestamp ON activity_logs(timestamp DESC);
-CREATE INDEX idx_activity_logs_action ON activity_logs(action);
+CREATE INDEX IF NOT EXISTS idx_activity_logs_user_id ON activity_logs(user_id);
+CREATE INDEX IF NOT EXISTS idx_activity_logs_timestamp ON activity_logs(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_logs_action ON activity_logs(action);
 
 -- Composite index for filtering
-CREATE INDEX idx_activity_logs_search ON activity_logs(timestamp DESC, user_id, action);
+CREATE INDEX IF NOT EXISTS idx_activity_logs_search ON activity_logs(timestamp DESC, user_id, action);
 
 -- Comments
 COMMENT ON TABLE activity_logs IS 'Complete audit trail of all user actions';
@@ -190,20 +221,231 @@ END;
 $$ LANGUAGE plpgsql;
 
 -- Apply trigger to tables
+DROP TRIGGER IF EXISTS update_users_updated_at ON users;
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_deposits_updated_at ON deposits;
 CREATE TRIGGER update_deposits_updated_at BEFORE UPDATE ON deposits
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_bank_deposits_updated_at ON bank_deposits;
 CREATE TRIGGER update_bank_deposits_updated_at BEFORE UPDATE ON bank_deposits
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_banks_updated_at ON banks;
 CREATE TRIGGER update_banks_updated_at BEFORE UPDATE ON banks
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 -- ============================================
--- 9. PERFORMANCE OPTIMIZATION
+-- 9. QUERY FUNCTIONS (Server-side filtering & pagination)
+-- ============================================
+-- The server calls these through PostgREST RPC and applies ORDER / LIMIT / OFFSET on top,
+-- so filtering uses the date / submitted_by / bank_id indexes above instead of loading every row.
+-- NULL arguments mean "no filter".
+
+-- Deposits matching the list filters. The approval status lives in `extra`; entries from before the
+-- approval workflow have none and count as approved.
+DROP FUNCTION IF EXISTS filter_deposits(UUID, DATE, DATE, TEXT, TEXT);
+DROP FUNCTION IF EXISTS deposit_summary(UUID, DATE, DATE, TEXT, TEXT);
+-- The server builds list summaries from the *_daily_totals functions below, converted into the reporting
+-- currency; the old summary functions added amounts in different currencies together
+DROP FUNCTION IF EXISTS deposit_summary(UUID, DATE, DATE, TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS bank_deposit_summary(UUID, TEXT, DATE, DATE, TEXT);
+
+CREATE OR REPLACE FUNCTION filter_deposits(
+    p_submitted_by UUID DEFAULT NULL,
+    p_date_from DATE DEFAULT NULL,
+    p_date_to DATE DEFAULT NULL,
+    p_expense_type TEXT DEFAULT NULL,
+    p_search TEXT DEFAULT NULL,
+    p_status TEXT DEFAULT NULL
+)
+RETURNS SETOF deposits AS $$
+    SELECT d.*
+    FROM deposits d
+    WHERE (p_submitted_by IS NULL OR d.submitted_by = p_submitted_by)
+      AND (p_status IS NULL OR COALESCE(d.extra->>'status', 'approved') = p_status)
+      AND (p_date_from IS NULL OR d.date >= p_date_from)
+      AND (p_date_to IS NULL OR d.date <= p_date_to)
+      AND (p_expense_type IS NULL OR EXISTS (
+            SELECT 1 FROM expenses e WHERE e.deposit_id = d.id AND e.type = p_expense_type))
+      AND (p_search IS NULL
+            OR d.submitted_by_name ILIKE '%' || p_search || '%'
+            OR d.date::text LIKE '%' || p_search || '%'
+            OR EXISTS (SELECT 1 FROM client_incentives ci
+                       WHERE ci.deposit_id = d.id AND ci.name ILIKE '%' || p_search || '%')
+            OR EXISTS (SELECT 1 FROM expenses e
+                       WHERE e.deposit_id = d.id
+                         AND (e.type ILIKE '%' || p_search || '%' OR e.description ILIKE '%' || p_search || '%')));
+$$ LANGUAGE sql STABLE;
+
+-- Per-day totals over the same filter, split by status and currencies (feeds the summary cards and the
+-- dashboard metrics)
+CREATE OR REPLACE FUNCTION deposit_daily_totals(
+    p_submitted_by UUID DEFAULT NULL,
+    p_date_from DATE DEFAULT NULL,
+    p_date_to DATE DEFAULT NULL,
+    p_expense_type TEXT DEFAULT NULL,
+    p_search TEXT DEFAULT NULL,
+    p_status TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    date DATE,
+    status TEXT,
+    currencies JSONB,
+    entry_count BIGINT,
+    local_deposit DECIMAL,
+    usdt_deposit DECIMAL,
+    cash_deposit DECIMAL,
+    local_withdraw DECIMAL,
+    usdt_withdraw DECIMAL,
+    cash_withdraw DECIMAL,
+    client_incentives DECIMAL,
+    expenses DECIMAL
+) AS $$
+    SELECT
+        d.date,
+        COALESCE(d.extra->>'status', 'approved'),
+        d.extra->'currencies',
+        COUNT(*),
+        COALESCE(SUM(d.local_deposit), 0),
+        COALESCE(SUM(d.usdt_deposit), 0),
+        COALESCE(SUM(d.cash_deposit), 0),
+        COALESCE(SUM(d.local_withdraw), 0),
+        COALESCE(SUM(d.usdt_withdraw), 0),
+        COALESCE(SUM(d.cash_withdraw), 0),
+        COALESCE(SUM((SELECT SUM(ci.amount) FROM client_incentives ci WHERE ci.deposit_id = d.id)), 0),
+        COALESCE(SUM((SELECT SUM(e.amount) FROM expenses e WHERE e.deposit_id = d.id)), 0)
+    FROM filter_deposits(p_submitted_by, p_date_from, p_date_to, p_expense_type, p_search, p_status) d
+    GROUP BY 1, 2, 3;
+$$ LANGUAGE sql STABLE;
+
+-- Saves a deposit with its incentives and expenses in one transaction. Items are upserted by their id, so
+-- unchanged items keep their rows and ids; items missing from the arrays are deleted.
+-- p_deposit holds the deposit columns (as the server's toRow builds them), p_incentives / p_expenses the items.
+CREATE OR REPLACE FUNCTION save_deposit(p_deposit JSONB, p_incentives JSONB, p_expenses JSONB)
+RETURNS VOID AS $$
+DECLARE
+    v_id TEXT := p_deposit->>'id';
+BEGIN
+    INSERT INTO deposits AS d (
+        id, date, local_deposit, usdt_deposit, cash_deposit, local_withdraw, usdt_withdraw, cash_withdraw,
+        submitted_by, submitted_by_name, created_at, updated_at, extra
+    )
+    SELECT r.id, r.date,
+           COALESCE(r.local_deposit, 0), COALESCE(r.usdt_deposit, 0), COALESCE(r.cash_deposit, 0),
+           COALESCE(r.local_withdraw, 0), COALESCE(r.usdt_withdraw, 0), COALESCE(r.cash_withdraw, 0),
+           r.submitted_by, r.submitted_by_name,
+           COALESCE(r.created_at, NOW()), COALESCE(r.updated_at, NOW()), COALESCE(r.extra, '{}'::jsonb)
+    FROM jsonb_populate_record(NULL::deposits, p_deposit) r
+    ON CONFLICT (id) DO UPDATE SET
+        date = EXCLUDED.date,
+        local_deposit = EXCLUDED.local_deposit,
+        usdt_deposit = EXCLUDED.usdt_deposit,
+        cash_deposit = EXCLUDED.cash_deposit,
+        local_withdraw = EXCLUDED.local_withdraw,
+        usdt_withdraw = EXCLUDED.usdt_withdraw,
+        cash_withdraw = EXCLUDED.cash_withdraw,
+        submitted_by = EXCLUDED.submitted_by,
+        submitted_by_name = EXCLUDED.submitted_by_name,
+        created_at = CASE WHEN p_deposit ? 'created_at' THEN EXCLUDED.created_at ELSE d.created_at END,
+        extra = EXCLUDED.extra;
+
+    DELETE FROM client_incentives
+    WHERE deposit_id = v_id
+      AND id NOT IN (SELECT item->>'id' FROM jsonb_array_elements(p_incentives) item);
+    INSERT INTO client_incentives (deposit_id, id, name, amount)
+    SELECT v_id, item->>'id', item->>'name', (item->>'amount')::DECIMAL
+    FROM jsonb_array_elements(p_incentives) item
+    ON CONFLICT (deposit_id, id) DO UPDATE SET
+        name = EXCLUDED.name,
+        amount = EXCLUDED.amount;
+
+    DELETE FROM expenses
+    WHERE deposit_id = v_id
+      AND id NOT IN (SELECT item->>'id' FROM jsonb_array_elements(p_expenses) item);
+    INSERT INTO expenses (deposit_id, id, type, amount, description)
+    SELECT v_id, item->>'id', item->>'type', (item->>'amount')::DECIMAL, NULLIF(item->>'description', '')
+    FROM jsonb_array_elements(p_expenses) item
+    ON CONFLICT (deposit_id, id) DO UPDATE SET
+        type = EXCLUDED.type,
+        amount = EXCLUDED.amount,
+        description = EXCLUDED.description;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Computed field: deposits minus withdrawals (used for "amount" sorting)
+CREATE OR REPLACE FUNCTION net_amount(deposits)
+RETURNS DECIMAL AS $$
+    SELECT $1.local_deposit + $1.usdt_deposit + $1.cash_deposit
+         - $1.local_withdraw - $1.usdt_withdraw - $1.cash_withdraw;
+$$ LANGUAGE sql STABLE;
+
+-- Bank transactions matching the list filters
+CREATE OR REPLACE FUNCTION filter_bank_deposits(
+    p_submitted_by UUID DEFAULT NULL,
+    p_bank_id TEXT DEFAULT NULL,
+    p_date_from DATE DEFAULT NULL,
+    p_date_to DATE DEFAULT NULL,
+    p_search TEXT DEFAULT NULL
+)
+RETURNS SETOF bank_deposits AS $$
+    SELECT bd.*
+    FROM bank_deposits bd
+    LEFT JOIN banks b ON b.id = bd.bank_id
+    WHERE (p_submitted_by IS NULL OR bd.submitted_by = p_submitted_by)
+      AND (p_bank_id IS NULL OR bd.bank_id = p_bank_id)
+      AND (p_date_from IS NULL OR bd.date >= p_date_from)
+      AND (p_date_to IS NULL OR bd.date <= p_date_to)
+      AND (p_search IS NULL
+            OR bd.submitted_by_name ILIKE '%' || p_search || '%'
+            OR b.name ILIKE '%' || p_search || '%'
+            OR bd.date::text LIKE '%' || p_search || '%');
+$$ LANGUAGE sql STABLE;
+
+-- Per-day totals for each bank over the same filter. `amount` is the legacy mirror of `deposit` kept in
+-- `extra`; closing_remaining is the balance after the bank's last transaction of the day.
+CREATE OR REPLACE FUNCTION bank_deposit_daily_totals(
+    p_submitted_by UUID DEFAULT NULL,
+    p_bank_id TEXT DEFAULT NULL,
+    p_date_from DATE DEFAULT NULL,
+    p_date_to DATE DEFAULT NULL,
+    p_search TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    date DATE,
+    bank_id TEXT,
+    entry_count BIGINT,
+    deposit DECIMAL,
+    withdraw DECIMAL,
+    pnl DECIMAL,
+    remaining DECIMAL,
+    amount DECIMAL,
+    closing_remaining DECIMAL
+) AS $$
+    SELECT
+        bd.date,
+        bd.bank_id,
+        COUNT(*),
+        COALESCE(SUM(bd.deposit), 0),
+        COALESCE(SUM(bd.withdraw), 0),
+        COALESCE(SUM(bd.pnl), 0),
+        COALESCE(SUM(bd.remaining), 0),
+        COALESCE(SUM((bd.extra->>'amount')::DECIMAL), 0),
+        (ARRAY_AGG(bd.remaining ORDER BY bd.created_at DESC, bd.id DESC))[1]
+    FROM filter_bank_deposits(p_submitted_by, p_bank_id, p_date_from, p_date_to, p_search) bd
+    GROUP BY bd.date, bd.bank_id;
+$$ LANGUAGE sql STABLE;
+
+-- Computed field: bank name (used for "bank" sorting)
+CREATE OR REPLACE FUNCTION bank_name(bank_deposits)
+RETURNS TEXT AS $$
+    SELECT name FROM banks WHERE id = $1.bank_id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- 10. PERFORMANCE OPTIMIZATION
 -- ============================================
 
 -- Analyze tables for query optimization
@@ -215,25 +457,10 @@ ANALYZE client_incentives;
 ANALYZE expenses;
 ANALYZE banks;
 
--- ============================================
--- 10. SAMPLE DATA SEEDING (Optional - for testing)
--- ============================================
-
--- Insert default banks
-INSERT INTO banks (id, name) VALUES
-    (gen_random_uuid(), 'Bank of America'),
-    (gen_random_uuid(), 'Chase Bank'),
-    (gen_random_uuid(), 'Wells Fargo'),
-    (gen_random_uuid(), 'JPMorgan Chase'),
-    (gen_random_uuid(), 'Citibank'),
-    (gen_random_uuid(), 'HSBC Bank'),
-    (gen_random_uuid(), 'TD Bank')
-ON CONFLICT DO NOTHING;
-
 -- ============================================
 -- NOTES FOR PRODUCTION:
 -- ============================================
--- 1. Run this schema on fresh Supabase database
+-- 1. Run this schema on a fresh Supabase database; it is safe to re-apply after upgrading
 -- 2. Enable Row Level Security (RLS) policies as needed
 -- 3. Set up automatic backups
 -- 4. Monitor query performance with pg_stat_statements
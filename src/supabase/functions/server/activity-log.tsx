@@ -0,0 +1,270 @@
+// Activity log
+// Append-only and hash-chained: every entry carries its position (`seq`), the hash of the entry before it and
+// its own SHA-256 hash, so editing, removing or reordering an entry breaks the chain and verifyActivityChain()
+// reports it. There is no delete; entries older than the retention period are moved into archives instead.
+//   activity:{id}                - ChainedActivityLog, `id` starting with the timestamp
+//   activityLog:seq:{seq}        - { seq, hash, id }: claims a position; written with an atomic insert-if-absent
+//   activityLog:head             - { seq, hash } of the newest entry, as last recorded (may trail the claims)
+//   activityArchive:{id}         - ActivityArchive: a run of archived entries with their hashes
+//   settings:activityRetention   - ActivityRetention
+// Entries written before the chain existed are sealed into it, oldest first, by the first append.
+// Appends from any number of isolates stay in one chain: an entry is only written once its position is claimed,
+// and an append that loses the claim re-reads the end of the chain and tries again.
+
+import * as kv from './storage.tsx';
+import type {
+  ActivityArchive,
+  ActivityArchiveSummary,
+  ActivityChainIssue,
+  ActivityChainVerification,
+  ActivityLog,
+  ActivityRetention,
+  ChainedActivityLog,
+} from './contract.tsx';
+
+const HEAD_KEY = 'activityLog:head';
+// Claims lost to concurrent appends before giving up
+const MAX_APPEND_ATTEMPTS = 20;
+const RETENTION_KEY = 'settings:activityRetention';
+const GENESIS_HASH = '0'.repeat(64);
+const DEFAULT_RETENTION_DAYS = 365;
+// Entries per archive record, to keep single values a manageable size
+const ARCHIVE_BATCH_SIZE = 2000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ChainLink {
+  seq: number;
+  hash: string;
+}
+
+const activityKey = (id: string) => `activity:${id}`;
+const archiveKey = (id: string) => `activityArchive:${id}`;
+const positionKey = (seq: number) => `activityLog:seq:${seq}`;
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Fixed field order, so the hash does not depend on how the record was serialized
+function hashEntry(entry: Omit<ChainedActivityLog, 'hash'>): Promise<string> {
+  return sha256(JSON.stringify([
+    entry.seq,
+    entry.prevHash,
+    entry.id,
+    entry.userId,
+    entry.userName,
+    entry.action,
+    entry.description,
+    entry.details || '',
+    entry.ipAddress || '',
+    entry.timestamp,
+  ]));
+}
+
+async function chain(entry: ActivityLog, previous: ChainLink): Promise<ChainedActivityLog> {
+  const linked = { ...entry, details: entry.details || '', seq: previous.seq + 1, prevHash: previous.hash };
+  return { ...linked, hash: await hashEntry(linked) };
+}
+
+const bySeq = (a: ChainedActivityLog, b: ChainedActivityLog) => a.seq - b.seq;
+
+async function loadHead(): Promise<ChainLink> {
+  const head: ChainLink | null = await kv.get(HEAD_KEY);
+  if (head) return head;
+
+  const entries: any[] = await kv.getByPrefix('activity:');
+  const chained = entries.filter((entry) => typeof entry.seq === 'number').sort(bySeq);
+  if (chained.length > 0) {
+    // The head record is gone but the chain isn't; carry on from its end and let verification report it
+    const last = chained[chained.length - 1];
+    return { seq: last.seq, hash: last.hash };
+  }
+
+  // First append: seal the entries written before the chain existed, oldest first
+  let previous: ChainLink = { seq: 0, hash: GENESIS_HASH };
+  const sealed: ChainedActivityLog[] = [];
+  for (const entry of entries.sort((a, b) => a.id.localeCompare(b.id))) {
+    const linked = await chain(entry, previous);
+    sealed.push(linked);
+    previous = { seq: linked.seq, hash: linked.hash };
+  }
+  if (sealed.length > 0) {
+    await kv.mset(sealed.map((entry) => activityKey(entry.id)), sealed);
+  }
+  await kv.set(HEAD_KEY, previous);
+  return previous;
+}
+
+// The recorded head, moved past any positions claimed since it was written
+async function currentHead(): Promise<ChainLink> {
+  let head = await loadHead();
+  for (;;) {
+    const next: ChainLink | null = await kv.get(positionKey(head.seq + 1));
+    if (!next) return head;
+    head = { seq: next.seq, hash: next.hash };
+  }
+}
+
+/**
+ * Adds an entry to the end of the chain
+ */
+export async function appendActivity(entry: Omit<ActivityLog, 'id' | 'timestamp'>): Promise<ChainedActivityLog> {
+  for (let attempt = 0; attempt < MAX_APPEND_ATTEMPTS; attempt++) {
+    const head = await currentHead();
+    const activity = await chain({
+      ...entry,
+      id: `${Date.now()}_${entry.userId}_${Math.random().toString(36).slice(2, 11)}`,
+      timestamp: new Date().toISOString(),
+    }, head);
+
+    if (!(await kv.add(positionKey(activity.seq), { seq: activity.seq, hash: activity.hash, id: activity.id }))) {
+      continue;
+    }
+    await kv.set(activityKey(activity.id), activity);
+    await kv.set(HEAD_KEY, { seq: activity.seq, hash: activity.hash });
+    return activity;
+  }
+  throw new Error(`Could not append to the activity log after ${MAX_APPEND_ATTEMPTS} attempts`);
+}
+
+/**
+ * Checks every entry, archived ones included, from the first: no gaps or duplicates in `seq`, each hash
+ * matches the entry's contents and links to the one before, and the newest entry is the recorded head.
+ */
+export async function verifyActivityChain(): Promise<ActivityChainVerification> {
+  const issues: ActivityChainIssue[] = [];
+  const archives: ActivityArchive[] = await kv.getByPrefix('activityArchive:');
+  const archived = archives.flatMap((archive) => archive.entries);
+  const live: any[] = await kv.getByPrefix('activity:');
+  // Appends claim their position before moving the recorded head, so the end of the chain is found from the claims
+  const head: ChainLink | null = (await kv.get(HEAD_KEY)) ? await currentHead() : null;
+
+  for (const entry of live.filter((item) => typeof item.seq !== 'number')) {
+    issues.push({ type: 'unchained', id: entry.id, message: `Entry ${entry.id} was written outside the chain` });
+  }
+
+  // An interrupted archive run can leave an entry both archived and live; that copy is not a duplicate
+  const archivedIds = new Set(archived.map((entry) => entry.id));
+  const entries: ChainedActivityLog[] = [
+    ...archived,
+    ...live.filter((item) => typeof item.seq === 'number' && !archivedIds.has(item.id)),
+  ].sort(bySeq);
+
+  const lastSeq = Math.max(head?.seq ?? 0, entries.length > 0 ? entries[entries.length - 1].seq : 0);
+  const entriesBySeq = new Map<number, ChainedActivityLog>();
+  for (const entry of entries) {
+    if (entriesBySeq.has(entry.seq)) {
+      issues.push({ type: 'duplicate', seq: entry.seq, id: entry.id, message: `More than one entry at position ${entry.seq}` });
+    } else {
+      entriesBySeq.set(entry.seq, entry);
+    }
+  }
+
+  let previousHash: string | null = GENESIS_HASH;
+  for (let seq = 1; seq <= lastSeq; seq++) {
+    const entry = entriesBySeq.get(seq);
+    if (!entry) {
+      issues.push({ type: 'missing', seq, message: `Entry at position ${seq} is missing` });
+      previousHash = null;
+      continue;
+    }
+
+    const { hash, ...fields } = entry;
+    if ((await hashEntry(fields)) !== hash) {
+      issues.push({ type: 'modified', seq, id: entry.id, message: `Entry at position ${seq} was changed after it was written` });
+    }
+    // After a gap there is nothing to compare the link with
+    if (previousHash !== null && entry.prevHash !== previousHash) {
+      issues.push({ type: 'broken_link', seq, id: entry.id, message: `Entry at position ${seq} does not follow the entry before it` });
+    }
+    previousHash = hash;
+  }
+
+  if (lastSeq > 0 && (!head || entriesBySeq.get(head.seq)?.hash !== head.hash || head.seq !== lastSeq)) {
+    issues.push({ type: 'head_mismatch', seq: head?.seq, message: 'The newest entry does not match the recorded end of the log' });
+  }
+
+  return {
+    valid: issues.length === 0,
+    checked: entries.length,
+    archived: archived.length,
+    lastSeq,
+    issues,
+    verifiedAt: new Date().toISOString(),
+  };
+}
+
+export async function getRetention(): Promise<ActivityRetention> {
+  return (await kv.get(RETENTION_KEY)) || { days: DEFAULT_RETENTION_DAYS };
+}
+
+export async function setRetention(days: number): Promise<ActivityRetention> {
+  const retention = { days: Math.floor(days) };
+  await kv.set(RETENTION_KEY, retention);
+  return retention;
+}
+
+/**
+ * Moves entries older than the retention period out of the live log into archive records. Only the oldest
+ * run of entries is moved, so the live log always continues the archived chain. Returns the new archives.
+ * Run by the scheduled worker (archive-activities.tsx or POST /activities/archive/process) and on demand.
+ */
+export async function archiveExpiredActivities(archivedBy: string, now = Date.now()): Promise<ActivityArchiveSummary[]> {
+  const { days } = await getRetention();
+  const cutoff = new Date(now - days * DAY_MS).toISOString();
+
+  // Ids start with the creation time, so the oldest key tells whether anything is due
+  const oldestKey = (await kv.getKeysByPrefix('activity:')).sort()[0];
+  if (!oldestKey || new Date(Number(oldestKey.slice('activity:'.length).split('_')[0])).toISOString() >= cutoff) {
+    return [];
+  }
+
+  const head = await currentHead();
+  const entries: ChainedActivityLog[] = (await kv.getByPrefix('activity:')).sort(bySeq);
+  const expiredCount = entries.findIndex((entry) => entry.timestamp >= cutoff);
+  const expired = expiredCount === -1 ? entries : entries.slice(0, expiredCount);
+
+  const archives: ActivityArchiveSummary[] = [];
+  for (let start = 0; start < expired.length; start += ARCHIVE_BATCH_SIZE) {
+    const batch = expired.slice(start, start + ARCHIVE_BATCH_SIZE);
+    const first = batch[0];
+    const last = batch[batch.length - 1];
+    const archive: ActivityArchive = {
+      // From the positions, so a run repeated by another instance overwrites rather than duplicates
+      id: `${String(first.seq).padStart(10, '0')}-${String(last.seq).padStart(10, '0')}`,
+      fromSeq: first.seq,
+      toSeq: last.seq,
+      count: batch.length,
+      from: first.timestamp,
+      to: last.timestamp,
+      lastHash: last.hash,
+      createdAt: new Date(now).toISOString(),
+      createdBy: archivedBy,
+      entries: batch,
+    };
+
+    // The archive is written before the entries are removed, so an interruption never loses entries
+    await kv.set(archiveKey(archive.id), archive);
+    await kv.mdel(batch.map((entry) => activityKey(entry.id)));
+    // Position claims behind the end of the chain are no longer read by appends
+    await kv.mdel(batch.filter((entry) => entry.seq < head.seq).map((entry) => positionKey(entry.seq)));
+    const { entries: _entries, ...summary } = archive;
+    archives.push(summary);
+  }
+  return archives;
+}
+
+/**
+ * Archive records without their entries, oldest first
+ */
+export async function listArchives(): Promise<ActivityArchiveSummary[]> {
+  const archives: ActivityArchive[] = await kv.getByPrefix('activityArchive:');
+  return archives
+    .map(({ entries: _entries, ...summary }) => summary)
+    .sort((a, b) => a.fromSeq - b.fromSeq);
+}
+
+export async function getArchive(id: string): Promise<ActivityArchive | null> {
+  return kv.get(archiveKey(id));
+}
@@ -0,0 +1,13 @@
+// Activity retention worker command: moves activity log entries past the retention period into archives, prunes
+// expired failed-login records by address (see login-attempts.tsx) once and exits. Schedule it (cron, systemd timer, ...) as an alternative to calling POST /activities/archive/process.
+//
+// Usage (from this directory, with SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY set):
+//   deno run --allow-net --allow-env --allow-read --allow-write archive-activities.tsx
+
+import { archiveExpiredActivities } from './activity-log.tsx';
+import { pruneIpFailures } from './login-attempts.tsx';
+
+const archives = await archiveExpiredActivities('System');
+const count = archives.reduce((sum, archive) => sum + archive.count, 0);
+console.log(`Activity log: ${count} entries archived in ${archives.length} archive(s)`);
+console.log(`Login failures: ${await pruneIpFailures()} expired address record(s) pruned`);
@@ -0,0 +1,110 @@
+// Audit history
+// Field-level before/after diffs for every create, update and delete of deposits, bank transactions and staff,
+// so "who changed this, and from what" can be answered per record:
+//   audit:{entityType}:{entityId}:{id} - AuditEntry, `id` starting with the timestamp so keys sort by time
+// Unlike activities, audit entries are never trimmed, and they survive the record's deletion.
+
+import * as kv from './storage.tsx';
+import type { AuditAction, AuditEntityType, AuditEntry, FieldChange } from './contract.tsx';
+
+// Bookkeeping fields that change on every save or are derived by the server
+const IGNORED_FIELDS = new Set(['updatedAt', 'remaining']);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIdList = (value: unknown): value is { id: string }[] =>
+  Array.isArray(value) && value.every((item) => isPlainObject(item) && typeof item.id === 'string');
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Changed fields between two versions of a record, as dotted paths (`permissions.deposits.edit`). Lists of
+ * items with ids (expenses, client incentives) are matched by id and addressed by position, e.g.
+ * `expenses[2].amount`; whole items appear as added or removed.
+ */
+export function diffRecords(before: Record<string, any> | null, after: Record<string, any> | null, path = ''): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    if (!path && IGNORED_FIELDS.has(key)) continue;
+    const field = path ? `${path}.${key}` : key;
+    const from = before?.[key];
+    const to = after?.[key];
+
+    if (same(from, to)) continue;
+
+    if (isPlainObject(from) && isPlainObject(to)) {
+      changes.push(...diffRecords(from, to, field));
+    } else if (isIdList(from) && isIdList(to)) {
+      changes.push(...diffItems(from, to, field));
+    } else {
+      changes.push({ field, before: from ?? null, after: to ?? null });
+    }
+  }
+
+  return changes;
+}
+
+function diffItems(before: { id: string }[], after: { id: string }[], field: string): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const afterIds = new Set(after.map((item) => item.id));
+
+  after.forEach((item, index) => {
+    const previous = beforeById.get(item.id);
+    if (!previous) {
+      changes.push({ field: `${field}[${index}]`, before: null, after: item });
+    } else if (!same(previous, item)) {
+      changes.push(...diffRecords(previous, item, `${field}[${index}]`));
+    }
+  });
+  before.forEach((item, index) => {
+    if (!afterIds.has(item.id)) {
+      changes.push({ field: `${field}[${index}]`, before: item, after: null });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Stores the diff between two versions of a record. `before` is null for a create and `after` for a delete.
+ * Updates that change nothing are not stored.
+ */
+export async function recordAudit(
+  entityType: AuditEntityType,
+  entityId: string,
+  action: AuditAction,
+  before: Record<string, any> | null,
+  after: Record<string, any> | null,
+  actor: { id: string; name: string; ipAddress?: string },
+): Promise<AuditEntry | null> {
+  const changes = diffRecords(before, after);
+  if (action === 'update' && changes.length === 0) return null;
+
+  const timestamp = new Date().toISOString();
+  const entry: AuditEntry = {
+    id: `${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    entityType,
+    entityId,
+    action,
+    changes,
+    userId: actor.id,
+    userName: actor.name,
+    ipAddress: actor.ipAddress || 'Unknown',
+    timestamp,
+  };
+
+  await kv.set(`audit:${entityType}:${entityId}:${entry.id}`, entry);
+  return entry;
+}
+
+/**
+ * History of one record, newest first
+ */
+export async function getAuditHistory(entityType: AuditEntityType, entityId: string): Promise<AuditEntry[]> {
+  const entries: AuditEntry[] = await kv.getByPrefix(`audit:${entityType}:${entityId}:`);
+  return entries.sort((a, b) => b.id.localeCompare(a.id));
+}
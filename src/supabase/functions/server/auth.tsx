@@ -0,0 +1,292 @@
+// Authorization
+// Resolves the caller once per request (token -> staff record -> permissions) and stores it on the Hono
+// context as `caller`. Routes declare what they need with guards instead of re-checking inline:
+//   app.put('/deposits/:id', requirePermission('deposits', 'edit'), async (c) => { const caller = c.get('caller'); ... })
+// Every denial uses the same body: { error, code } plus `required` for missing permissions.
+
+import type { Context, MiddlewareHandler } from 'npm:hono';
+import { repos } from './repositories.tsx';
+import { pendingSecondFactor } from './two-factor.tsx';
+import { touchSession } from './sessions.tsx';
+import { pendingPasswordChange } from './password-policy.tsx';
+import { accountLockedFor, sessionPredatesLock } from './login-attempts.tsx';
+import type { ModulePermission, PasswordChangeReason, UserPermissions } from './contract.tsx';
+
+export type { ModulePermission, UserPermissions };
+
+export type PermissionModule = 'dashboard' | 'deposits' | 'bankDeposits' | 'staffManagement' | 'activityLogs';
+export type PermissionAction = 'view' | 'add' | 'edit' | 'delete' | 'activity' | 'approve';
+
+// Modules whose lists show everyone's records only when `viewAll` is set
+export type ViewAllModule = 'dashboard' | 'deposits' | 'bankDeposits' | 'activityLogs';
+
+export const ADMIN_ROLES = ['Admin', 'Super Admin'];
+
+export interface Caller {
+  id: string;
+  email?: string;
+  staff: any;
+  permissions: UserPermissions;
+  isAdmin: boolean;
+  isSuperAdmin: boolean;
+  // Auth session the token belongs to; two-factor verification is tracked per session
+  sessionId?: string;
+  // Set while the session still has to pass (or enroll in) two-factor authentication
+  secondFactorPending: 'verify' | 'enroll' | null;
+  // Set while the member has to change their password (flagged by an admin, or expired under the policy)
+  passwordChangePending: PasswordChangeReason | null;
+}
+
+export type AuthEnv = { Variables: { caller: Caller } };
+
+export type VerifyUser = (authHeader: string | null | undefined) => Promise<{ user: { id: string; email?: string } | null; error: string | null; sessionId?: string }>;
+
+export type AuthErrorCode =
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'ACCOUNT_DELETED'
+  | 'ACCOUNT_DEACTIVATED'
+  | 'SESSION_REVOKED'
+  | 'ACCOUNT_LOCKED'
+  | 'TWO_FACTOR_REQUIRED'
+  | 'TWO_FACTOR_ENROLLMENT_REQUIRED'
+  | 'PASSWORD_CHANGE_REQUIRED';
+
+// ==================== PERMISSION TEMPLATES ====================
+
+// Full permissions - given to first user automatically
+export function getFullPermissions(): UserPermissions {
+  return {
+    dashboard: { view: true, add: true, edit: true, delete: true, activity: true, viewAll: true },
+    deposits: { view: true, add: true, edit: true, delete: true, activity: true, viewAll: true, approve: true },
+    bankDeposits: { view: true, add: true, edit: true, delete: true, activity: true, viewAll: true },
+    staffManagement: { view: true, add: true, edit: true, delete: true, activity: true },
+    activityLogs: { view: true, viewAll: true },
+  };
+}
+
+// Empty permissions - all other users must be manually assigned permissions
+export function getEmptyPermissions(): UserPermissions {
+  return {
+    dashboard: { view: false, add: false, edit: false, delete: false, activity: false, viewAll: false },
+    deposits: { view: false, add: false, edit: false, delete: false, activity: false, viewAll: false, approve: false },
+    bankDeposits: { view: false, add: false, edit: false, delete: false, activity: false, viewAll: false },
+    staffManagement: { view: false, add: false, edit: false, delete: false, activity: false },
+    activityLogs: { view: false, viewAll: false },
+  };
+}
+
+// Basic access for staff records saved before the permissions system existed
+export function getLegacyStaffPermissions(): UserPermissions {
+  return {
+    dashboard: { view: true, add: false, edit: false, delete: false, activity: false, viewAll: false },
+    deposits: { view: true, add: true, edit: true, delete: false, activity: false, viewAll: false, approve: false },
+    bankDeposits: { view: true, add: true, edit: true, delete: false, activity: false, viewAll: false },
+    staffManagement: { view: false, add: false, edit: false, delete: false, activity: false },
+    activityLogs: { view: true, viewAll: false },
+  };
+}
+
+// Coerces client-supplied permissions to the full template shape (every module and flag, booleans only)
+export function normalizePermissions(input: any): UserPermissions {
+  const template = getEmptyPermissions();
+  for (const [module, flags] of Object.entries(template) as [string, Record<string, boolean>][]) {
+    for (const flag of Object.keys(flags)) {
+      flags[flag] = input?.[module]?.[flag] === true;
+    }
+  }
+  return template;
+}
+
+// Flags that applying `next` would switch, as `+module.flag` / `-module.flag`
+export function permissionChanges(current: any, next: UserPermissions): string[] {
+  const before = normalizePermissions(current);
+  const changes: string[] = [];
+  for (const [module, flags] of Object.entries(next) as [PermissionModule, Record<string, boolean>][]) {
+    for (const [flag, value] of Object.entries(flags)) {
+      if ((before[module] as Record<string, boolean> | undefined)?.[flag] !== value) {
+        changes.push(`${value ? '+' : '-'}${module}.${flag}`);
+      }
+    }
+  }
+  return changes;
+}
+
+export const isAdminRole = (role: string | undefined) => ADMIN_ROLES.includes(role || '');
+
+// Gives staff saved without permissions a set based on their role (the first user and admins get
+// everything) and persists it. Returns the staff record unchanged when permissions already exist.
+export async function ensurePermissions(staff: any): Promise<any> {
+  if (staff.permissions && Object.keys(staff.permissions).length > 0) {
+    return staff;
+  }
+
+  const staffIds = await repos.staff.listIds();
+  const isFirstUser = staffIds.length === 1 && staffIds[0] === staff.id;
+  const fullAccess = isFirstUser || isAdminRole(staff.role);
+
+  console.log(`Auto-fixing missing permissions for ${staff.email}: ${fullAccess ? 'full' : 'basic'} access`);
+  const fixed = { ...staff, permissions: fullAccess ? getFullPermissions() : getLegacyStaffPermissions() };
+  await repos.staff.save(fixed);
+  return fixed;
+}
+
+export function hasPermission(caller: Caller, module: PermissionModule, action: PermissionAction): boolean {
+  const flag = caller.permissions?.[module]?.[action];
+  // Permission sets saved before approvals existed have no `approve` flag; admins review until one is set
+  if (action === 'approve' && flag === undefined) {
+    return caller.isAdmin;
+  }
+  return flag === true;
+}
+
+// Whether a module's lists include other staff members' records. Permission sets saved before the
+// flag existed don't carry it, so they keep the old role-based behaviour until an admin sets it.
+export function canViewAll(caller: Caller, module: ViewAllModule): boolean {
+  const flag = caller.permissions?.[module]?.viewAll;
+  return typeof flag === 'boolean' ? flag : caller.isAdmin;
+}
+
+// Admins may act on any record; everyone else only on records they submitted
+export function canActOnRecord(caller: Caller, record: { submittedBy?: string }): boolean {
+  return caller.isAdmin || record.submittedBy === caller.id;
+}
+
+// ==================== RESPONSES ====================
+
+export function authError(c: Context, status: 401 | 403 | 429, code: AuthErrorCode, message: string, extra: Record<string, unknown> = {}) {
+  return c.json({ error: code === 'ACCOUNT_DELETED' || code === 'ACCOUNT_DEACTIVATED' ? code : message, code, message, ...extra }, status);
+}
+
+export function forbidden(c: Context, message: string, required?: string) {
+  return authError(c, 403, 'FORBIDDEN', message, required ? { required } : {});
+}
+
+// ==================== GUARDS ====================
+
+// `clientIp` reads the caller's address from the request headers; sessions record it
+export function createAuthGuards(verifyUser: VerifyUser, clientIp: (req: Context['req']) => string) {
+  // Resolves and caches the caller; returns a response when the request must stop here
+  async function resolveCaller(c: Context<AuthEnv>): Promise<Response | null> {
+    if (c.get('caller')) {
+      return null;
+    }
+
+    const { user, error, sessionId } = await verifyUser(c.req.header('Authorization'));
+    if (error || !user) {
+      return authError(c, 401, 'UNAUTHORIZED', error || 'Unauthorized');
+    }
+
+    const staffRecord = await repos.staff.get(user.id);
+    if (!staffRecord) {
+      return authError(c, 403, 'ACCOUNT_DELETED', 'Your account has been deleted by the administrator. Please contact support for assistance.');
+    }
+    // Archiving also bans the Auth user; this catches tokens issued before that and offline LOCAL_AUTH tokens
+    if (staffRecord.isArchived) {
+      return authError(c, 403, 'ACCOUNT_DEACTIVATED', 'Your account has been archived by the administrator. Please contact support to restore your account.');
+    }
+    if (staffRecord.status === 'inactive') {
+      return authError(c, 403, 'ACCOUNT_DEACTIVATED', 'Your account is temporarily deactivated by the administrator. Please contact support to reactivate your account.');
+    }
+    const session = sessionId
+      ? await touchSession(user.id, sessionId, { ip: clientIp(c.req), userAgent: c.req.header('User-Agent') || '' })
+      : null;
+    if (session?.revokedAt) {
+      return authError(c, 401, 'SESSION_REVOKED', 'This session was signed out. Please log in again.');
+    }
+
+    // A lock after failed logins also holds sessions signed in while it lasts (a direct Supabase sign-in skips
+    // /login); sessions from before it keep working
+    const locked = accountLockedFor(staffRecord);
+    if (locked > 0 && !sessionPredatesLock(session, staffRecord)) {
+      c.header('Retry-After', String(locked));
+      return authError(c, 429, 'ACCOUNT_LOCKED', `Too many failed logins. Your account is locked for ${Math.ceil(locked / 60)} minute(s), or until an admin unlocks it.`, { retryAfter: locked });
+    }
+
+    const staff = await ensurePermissions(staffRecord);
+    c.set('caller', {
+      id: user.id,
+      email: user.email,
+      staff,
+      permissions: staff.permissions,
+      isAdmin: isAdminRole(staff.role),
+      isSuperAdmin: staff.role === 'Super Admin',
+      sessionId,
+      secondFactorPending: await pendingSecondFactor(staff, sessionId),
+      passwordChangePending: await pendingPasswordChange(staff),
+    });
+    return null;
+  }
+
+  // Resolves the caller and also requires the session to have passed two-factor authentication if it applies,
+  // and the member to have changed their password if they must (unless `allowPasswordChange`)
+  async function resolveVerifiedCaller(c: Context<AuthEnv>, options: { allowPasswordChange?: boolean } = {}): Promise<Response | null> {
+    const denied = await resolveCaller(c);
+    if (denied) return denied;
+
+    const pending = c.get('caller').secondFactorPending;
+    if (pending === 'verify') {
+      return authError(c, 403, 'TWO_FACTOR_REQUIRED', 'Enter the code from your authenticator app to continue.');
+    }
+    if (pending === 'enroll') {
+      return authError(c, 403, 'TWO_FACTOR_ENROLLMENT_REQUIRED', 'Your role requires two-factor authentication. Set it up to continue.');
+    }
+
+    const passwordChange = c.get('caller').passwordChangePending;
+    if (passwordChange && !options.allowPasswordChange) {
+      return authError(c, 403, 'PASSWORD_CHANGE_REQUIRED', passwordChange === 'expired'
+        ? 'Your password has expired. Choose a new one to continue.'
+        : 'You need to choose a new password before you continue.', { reason: passwordChange });
+    }
+    return null;
+  }
+
+  // For handlers that decide inline whether a check applies
+  async function checkPermission(c: Context<AuthEnv>, module: PermissionModule, action: PermissionAction, message?: string) {
+    const denied = await resolveVerifiedCaller(c);
+    if (denied) return denied;
+    if (!hasPermission(c.get('caller'), module, action)) {
+      return forbidden(c, message || `No permission to ${action} ${module}`, `${module}.${action}`);
+    }
+    return null;
+  }
+
+  const authenticate: MiddlewareHandler<AuthEnv> = async (c, next) => {
+    const denied = await resolveVerifiedCaller(c);
+    if (denied) return denied;
+    await next();
+  };
+
+  // Password login only: for the two-factor endpoints a session uses before it is verified
+  const authenticateFirstFactor: MiddlewareHandler<AuthEnv> = async (c, next) => {
+    const denied = await resolveCaller(c);
+    if (denied) return denied;
+    await next();
+  };
+
+  // For changing the password, which members who must change it can still do
+  const authenticatePasswordChange: MiddlewareHandler<AuthEnv> = async (c, next) => {
+    const denied = await resolveVerifiedCaller(c, { allowPasswordChange: true });
+    if (denied) return denied;
+    await next();
+  };
+
+  const requirePermission = (module: PermissionModule, action: PermissionAction, message?: string): MiddlewareHandler<AuthEnv> =>
+    async (c, next) => {
+      const denied = await checkPermission(c, module, action, message);
+      if (denied) return denied;
+      await next();
+    };
+
+  const requireRole = (roles: string[], message?: string): MiddlewareHandler<AuthEnv> =>
+    async (c, next) => {
+      const denied = await resolveVerifiedCaller(c);
+      if (denied) return denied;
+      if (!roles.includes(c.get('caller').staff.role)) {
+        return forbidden(c, message || `Only ${roles.join(' or ')} can do this`, `role:${roles.join('|')}`);
+      }
+      await next();
+    };
+
+  return { authenticate, authenticateFirstFactor, authenticatePasswordChange, requirePermission, requireRole, checkPermission };
+}
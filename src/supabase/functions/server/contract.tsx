@@ -0,0 +1,1280 @@
+// API contract shared by the React client (src/utils/api.ts) and this server: the record types that
+// travel over the wire and the schemas request bodies are validated against. The server rejects unknown
+// or malformed fields with `{ error, code: 'VALIDATION_FAILED', fields: { 'path.to.field': message } }`
+// and the forms run the same schemas before submitting. Keep this file free of imports so both Vite
+// and Deno can load it.
+
+// ==================== RECORD TYPES ====================
+
+export interface ModulePermission {
+  view: boolean;
+  add: boolean;
+  edit: boolean;
+  delete: boolean;
+  activity?: boolean;
+  viewAll?: boolean;
+  // Deposits only: review entries other staff submitted
+  approve?: boolean;
+}
+
+export interface UserPermissions {
+  dashboard: ModulePermission;
+  deposits: ModulePermission;
+  bankDeposits: ModulePermission;
+  staffManagement: ModulePermission;
+  activityLogs?: Partial<ModulePermission> & { view: boolean };
+}
+
+export type StaffStatus = 'active' | 'inactive';
+
+export interface Staff {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  permissions: UserPermissions;
+  status: StaffStatus;
+  avatar?: string;
+  createdAt: string;
+  lastLogin?: string;
+  isArchived?: boolean;
+  archivedAt?: string;
+  twoFactorEnabled?: boolean;
+  twoFactorEnabledAt?: string;
+  // Set by an admin (or for accounts that still use an admin-chosen password); cleared by changing it
+  mustChangePassword?: boolean;
+  passwordChangedAt?: string;
+  // Set after too many failed logins; logins are refused until then or until an admin unlocks the account
+  loginLockedUntil?: string;
+  // When the lock started; sessions signed in before it keep working
+  loginLockedAt?: string;
+}
+
+export interface ClientIncentive {
+  id: string;
+  name: string;
+  amount: number;
+}
+
+export const EXPENSE_TYPES = ['Promotion', 'Salary', 'Miscellaneous', 'IB Commission', 'Travel Expense'] as const;
+export type ExpenseType = typeof EXPENSE_TYPES[number];
+
+export interface ExpenseItem {
+  id: string;
+  type: ExpenseType;
+  amount: number;
+  description?: string;
+}
+
+// Currency of each amount of a deposit entry: the three deposit/withdraw pairs, the client incentives and the
+// company expenses
+export interface DepositCurrencies {
+  local: string;
+  usdt: string;
+  cash: string;
+  incentives: string;
+  expenses: string;
+}
+
+export interface DepositInput {
+  date: string;
+  localDeposit: number;
+  usdtDeposit: number;
+  cashDeposit: number;
+  localWithdraw: number;
+  usdtWithdraw: number;
+  cashWithdraw: number;
+  clientIncentives: ClientIncentive[];
+  expenses: ExpenseItem[];
+  // Missing on entries saved before currencies were tracked; those amounts are LEGACY_CURRENCY
+  currencies?: DepositCurrencies;
+}
+
+// draft -> submitted -> approved | rejected; a rejected entry goes back to draft when its submitter edits it.
+// Submitted entries can't be edited while they are reviewed. A reviewer's edit of an approved entry sends it
+// back to submitted, for someone other than the submitter and that reviewer to approve.
+// Only approved entries count toward the dashboard by default.
+export const DEPOSIT_STATUSES = ['draft', 'submitted', 'approved', 'rejected'] as const;
+export type DepositStatus = typeof DEPOSIT_STATUSES[number];
+
+export interface DepositEntry extends DepositInput {
+  id: string;
+  submittedBy: string;
+  submittedByName: string;
+  createdAt?: string;
+  updatedAt?: string;
+  // Missing on entries created before the approval workflow; those count as approved
+  status?: DepositStatus;
+  reviewedBy?: string;
+  reviewedByName?: string;
+  reviewedAt?: string;
+  reviewComment?: string;
+  // The reviewer whose edit sent an approved entry back for review
+  editedBy?: string;
+  editedByName?: string;
+}
+
+export const depositStatus = (deposit: { status?: DepositStatus }): DepositStatus => deposit.status || 'approved';
+
+// Amounts saved before currencies were tracked were always shown in dollars
+export const LEGACY_CURRENCY = 'USD';
+
+export const depositCurrencies = (deposit: { currencies?: DepositCurrencies }): DepositCurrencies => deposit.currencies || {
+  local: LEGACY_CURRENCY,
+  usdt: LEGACY_CURRENCY,
+  cash: LEGACY_CURRENCY,
+  incentives: LEGACY_CURRENCY,
+  expenses: LEGACY_CURRENCY,
+};
+
+export interface DepositCreateInput extends DepositInput {
+  // Keep the entry as a draft instead of sending it for review
+  draft?: boolean;
+}
+
+export type DepositReviewDecision = 'approve' | 'reject';
+
+export interface DepositReviewInput {
+  decision: DepositReviewDecision;
+  // Required when rejecting
+  comment?: string;
+}
+
+export interface BankTransactionInput {
+  date: string;
+  bankId: string;
+  deposit: number;
+  withdraw: number;
+  pnl?: number;
+  amount?: number; // Mirrors `deposit` for older readers
+}
+
+export interface BankTransaction extends BankTransactionInput {
+  id: string;
+  // Running balance of the bank after this transaction, kept up to date by the server's ledger
+  remaining: number;
+  remainingBalance?: number; // Mirrors `remaining` for older readers
+  submittedBy: string;
+  submittedByName: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface BankInput {
+  bankName: string;
+  openingBalance?: number;
+  // Defaults to the configured bank currency; can't change once the bank has transactions
+  currency?: string;
+}
+
+export interface Bank {
+  id: string;
+  name: string;
+  // Balance before the first transaction; the ledger starts from it
+  openingBalance?: number;
+  // Currency of the bank's transactions and balances; LEGACY_CURRENCY when missing
+  currency?: string;
+  transactionCount?: number; // Returned by GET /banks
+  createdAt?: string;
+  createdBy?: string;
+  createdByName?: string;
+}
+
+export const bankCurrency = (bank: { currency?: string } | null | undefined): string => bank?.currency || LEGACY_CURRENCY;
+
+export interface StaffUpdateInput {
+  name?: string;
+  email?: string;
+  role?: string;
+  status?: StaffStatus;
+  permissions?: UserPermissions;
+  avatar?: string;
+  mustChangePassword?: boolean;
+}
+
+// Staff may only change their own name; email and role changes go through an admin
+export interface ProfileUpdateInput {
+  name: string;
+}
+
+// Body of POST /roles, PUT /roles/:id and POST /roles/:id/preview (which only reads `permissions`)
+export interface RoleInput {
+  roleName: string;
+  permissions?: UserPermissions;
+  // PUT only: give every holder of the role the new permission template
+  propagate?: boolean;
+}
+
+export type ActivityType =
+  | 'login'
+  | 'logout'
+  | 'signup'
+  | 'add_staff'
+  | 'edit_staff'
+  | 'delete_staff'
+  | 'archive_staff'
+  | 'restore_staff'
+  | 'purge_staff'
+  | 'invite_staff'
+  | 'resend_invite'
+  | 'revoke_invite'
+  | 'accept_invite'
+  | 'add_role'
+  | 'edit_role'
+  | 'delete_role'
+  | 'add_bank'
+  | 'edit_bank'
+  | 'delete_bank'
+  | 'add_deposit'
+  | 'edit_deposit'
+  | 'delete_deposit'
+  | 'submit_deposit'
+  | 'approve_deposit'
+  | 'reject_deposit'
+  | 'add_bank_deposit'
+  | 'edit_bank_deposit'
+  | 'delete_bank_deposit'
+  | 'add_bank_transaction'
+  | 'edit_bank_transaction'
+  | 'delete_bank_transaction'
+  | 'change_password'
+  | 'account_locked'
+  | 'unlock_account'
+  | 'suspicious_login'
+  | 'update_password_policy'
+  | 'update_profile'
+  | 'password_reset'
+  | 'delete_activity'
+  | 'bulk_delete_activities'
+  | 'resend_email'
+  | 'update_email_template'
+  | 'enable_2fa'
+  | 'disable_2fa'
+  | 'reset_2fa'
+  | 'update_2fa_policy'
+  | 'revoke_session'
+  | 'revoke_all_sessions'
+  | 'archive_activities'
+  | 'update_activity_retention'
+  | 'export_data'
+  | 'import_data'
+  | 'rollback_import'
+  | 'update_currency_settings'
+  | 'update_exchange_rates';
+
+export interface ActivityLog {
+  id: string;
+  action: ActivityType;
+  description: string;
+  userId: string;
+  userName: string;
+  timestamp: string;
+  details?: string;
+  ipAddress?: string;
+}
+
+export interface ChainedActivityLog extends ActivityLog {
+  // Position in the log, starting at 1 with no gaps
+  seq: number;
+  // `hash` of the entry before (64 zeros for the first)
+  prevHash: string;
+  // SHA-256 over the entry's fields and prevHash
+  hash: string;
+}
+
+export type ActivityChainIssueType = 'missing' | 'modified' | 'broken_link' | 'duplicate' | 'unchained' | 'head_mismatch';
+
+export interface ActivityChainIssue {
+  type: ActivityChainIssueType;
+  seq?: number;
+  id?: string;
+  message: string;
+}
+
+export interface ActivityChainVerification {
+  valid: boolean;
+  // Entries checked, archived ones included
+  checked: number;
+  archived: number;
+  lastSeq: number;
+  issues: ActivityChainIssue[];
+  verifiedAt: string;
+}
+
+export interface ActivityArchiveSummary {
+  id: string;
+  fromSeq: number;
+  toSeq: number;
+  count: number;
+  // Timestamps of the first and last archived entry
+  from: string;
+  to: string;
+  lastHash: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+export interface ActivityArchive extends ActivityArchiveSummary {
+  entries: ChainedActivityLog[];
+}
+
+export interface ActivityRetention {
+  // Entries older than this are moved into archives
+  days: number;
+}
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const IMPORT_TYPES = ['deposits', 'bankDeposits'] as const;
+export type ImportType = typeof IMPORT_TYPES[number];
+
+export const IMPORT_DATE_FORMATS = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'] as const;
+export type ImportDateFormat = typeof IMPORT_DATE_FORMATS[number];
+
+// One spreadsheet row of a deposit import: the cells mapped to each field, as text. A row carries at most
+// one client incentive and one expense.
+export interface DepositImportRow {
+  date?: string;
+  localDeposit?: string;
+  usdtDeposit?: string;
+  cashDeposit?: string;
+  localWithdraw?: string;
+  usdtWithdraw?: string;
+  cashWithdraw?: string;
+  incentiveClient?: string;
+  incentiveAmount?: string;
+  expenseType?: string;
+  expenseAmount?: string;
+  expenseDescription?: string;
+}
+
+export interface BankTransactionImportRow {
+  date?: string;
+  // Bank name, matched against the existing banks ignoring case and spacing
+  bank?: string;
+  deposit?: string;
+  withdraw?: string;
+  pnl?: string;
+}
+
+// A bank name from the file assigned to an existing bank by hand
+export interface BankAlias {
+  name: string;
+  bankId: string;
+}
+
+export interface ImportRequest<Row> {
+  rows: Row[];
+  // Staff member the entries are recorded for
+  submittedBy: string;
+  dateFormat: ImportDateFormat;
+  // Validate and report only; nothing is written
+  dryRun: boolean;
+  bankAliases?: BankAlias[];
+}
+
+export interface ImportRowError {
+  // 1-based position among the data rows (the header row not counted)
+  row: number;
+  // Import field, e.g. `usdtDeposit` or `bank`; `row` for problems with the row as a whole
+  field: string;
+  message: string;
+}
+
+export interface ImportBatch {
+  id: string;
+  type: ImportType;
+  count: number;
+  recordIds: string[];
+  submittedBy: string;
+  submittedByName: string;
+  importedBy: string;
+  importedByName: string;
+  createdAt: string;
+  rolledBackAt?: string;
+  rolledBackByName?: string;
+}
+
+export interface ImportReport {
+  total: number;
+  valid: number;
+  errors: ImportRowError[];
+  // Bank names that match no bank and have no alias
+  unmatchedBanks: string[];
+  // The written batch, when the import was not a dry run
+  batch?: ImportBatch;
+}
+
+export type OutboxEmailStatus = 'pending' | 'sent' | 'failed';
+
+export interface DeliveryAttempt {
+  at: string;
+  // null when no email provider was configured
+  provider: string | null;
+  ok: boolean;
+  error?: string;
+}
+
+// Outbox record as listed to admins; the message body is never returned
+export interface OutboxEmail {
+  id: string;
+  // Key of the template the message was rendered from, or 'test' for a template test send
+  kind: string;
+  to: string;
+  subject: string;
+  status: OutboxEmailStatus;
+  attempts: number;
+  provider?: string | null;
+  lastError?: string;
+  nextAttemptAt?: string;
+  // Mail that is useless after this time (e.g. an OTP) is not retried past it
+  expiresAt?: string;
+  createdAt: string;
+  sentAt?: string;
+  deliveryLog: DeliveryAttempt[];
+  // The body is dropped once the message is sent, expires or has failed for a while; it can't be resent then
+  bodyRemoved?: boolean;
+}
+
+export interface EmailTemplateVariable {
+  name: string;
+  description?: string;
+  // Used for previews and test sends
+  sample: string;
+}
+
+export interface EmailTemplateInput {
+  name: string;
+  description?: string;
+  subject: string;
+  html: string;
+  text: string;
+  variables: EmailTemplateVariable[];
+}
+
+export interface NewEmailTemplateInput extends EmailTemplateInput {
+  // Template key, e.g. `deposit-approved`
+  id: string;
+}
+
+export interface EmailTemplate extends NewEmailTemplateInput {
+  // Shipped with the server; deleting an edited copy restores the default
+  builtIn: boolean;
+  // An edited copy is stored
+  customized: boolean;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTemplatePreview extends RenderedEmail {
+  // Placeholders without a declared variable or global value
+  missing: string[];
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // The member's role is in the required-roles policy
+  required: boolean;
+  // The current session passed the second step
+  verified: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  // Base32, for manual entry in the authenticator app
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of otpauthUrl
+  qrCode: string;
+}
+
+export interface TwoFactorCodeInput {
+  // Authenticator code, or a recovery code where accepted
+  code: string;
+}
+
+export interface TwoFactorPolicy {
+  roles: string[];
+}
+
+export interface FailedLoginAttempt {
+  email: string;
+  ipAddress: string;
+  userAgent: string;
+  // Supabase Auth's message, or why the server refused before checking the password
+  reason: string;
+  at: string;
+}
+
+// Address an account has signed in from; a login from an address not on the list raises an alert
+export interface KnownLoginIp {
+  ipAddress: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface LoginActivity {
+  // Newest first, since the last successful login or unlock
+  failedAttempts: FailedLoginAttempt[];
+  knownIps: KnownLoginIp[];
+  lockedUntil?: string;
+}
+
+// Supabase Auth session issued by POST /login, for supabase.auth.setSession()
+export interface LoginSession {
+  access_token: string;
+  refresh_token: string;
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  // Previous passwords that can't be used again; 0 turns the check off
+  historyCount: number;
+  // Days after which a password has to be changed; 0 means passwords don't expire
+  maxAgeDays: number;
+}
+
+// Why a member has to change their password before they can use the panel
+export type PasswordChangeReason = 'required' | 'expired';
+
+export interface PasswordRuleCheck {
+  label: string;
+  met: boolean;
+}
+
+// The policy's character rules applied to a password, for the checklist under password fields and for the
+// server's own check. Reuse is only known to the server.
+export function checkPasswordRules(password: string, policy: PasswordPolicy): PasswordRuleCheck[] {
+  const rules: PasswordRuleCheck[] = [
+    { label: `At least ${policy.minLength} characters`, met: password.length >= policy.minLength },
+  ];
+  if (policy.requireUppercase) rules.push({ label: 'An uppercase letter', met: /[A-Z]/.test(password) });
+  if (policy.requireLowercase) rules.push({ label: 'A lowercase letter', met: /[a-z]/.test(password) });
+  if (policy.requireNumber) rules.push({ label: 'A number', met: /[0-9]/.test(password) });
+  if (policy.requireSymbol) rules.push({ label: 'A symbol', met: /[^A-Za-z0-9]/.test(password) });
+  return rules;
+}
+
+export type AuditEntityType = 'deposit' | 'bankDeposit' | 'staff';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface FieldChange {
+  // Dotted path, e.g. `localDeposit`, `permissions.deposits.edit` or `expenses[1].amount`
+  field: string;
+  // null when the field (or list item) did not exist on that side
+  before: unknown;
+  after: unknown;
+}
+
+// One create, update or delete of a record with the fields it changed
+export interface AuditEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  changes: FieldChange[];
+  userId: string;
+  userName: string;
+  ipAddress: string;
+  timestamp: string;
+}
+
+// A signed-in device, as listed on the profile page
+export interface StaffSession {
+  // Supabase auth session id
+  id: string;
+  // e.g. "Chrome on Windows"
+  device: string;
+  userAgent: string;
+  // Last seen from
+  ip: string;
+  createdAt: string;
+  lastSeenAt: string;
+  // The session making the request
+  current?: boolean;
+}
+
+// A pending staff invitation, as listed in staff management. The token itself is only ever in the email
+export interface StaffInvitation {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  permissions?: UserPermissions;
+  invitedBy: string;
+  invitedByName: string;
+  createdAt: string;
+  expiresAt: string;
+  lastSentAt: string;
+  // Times the invitation email was sent, the first one included
+  sendCount: number;
+}
+
+// What the accept page shows about the invitation behind a token
+export interface InvitationPreview {
+  email: string;
+  name: string;
+  role: string;
+  invitedByName: string;
+  expiresAt: string;
+}
+
+export interface LedgerEntry extends BankTransaction {
+  // deposit - withdraw + pnl
+  change: number;
+  balance: number;
+}
+
+export interface LedgerQuery {
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface BankLedger {
+  bank: Bank;
+  // Balance carried into the requested range: the bank's opening balance plus every earlier transaction
+  openingBalance: number;
+  closingBalance: number;
+  entries: LedgerEntry[];
+}
+
+export interface CurrencySettings {
+  // Currency the dashboard converts totals to
+  reportingCurrency: string;
+  // Currencies offered in the forms and the rate table
+  currencies: string[];
+  // Preselected in the deposit form and for new banks
+  defaults: DepositCurrencies & { bank: string };
+}
+
+// Rates are quoted in RATE_QUOTE_CURRENCY: a rate of 1.08 for EUR means one euro is worth 1.08 US dollars
+export const RATE_QUOTE_CURRENCY = 'USD';
+
+export interface ExchangeRate {
+  currency: string;
+  rate: number;
+}
+
+export interface ExchangeRateInput {
+  rates: ExchangeRate[];
+}
+
+// The rates of one date. An amount is converted with the rates of its own date, or the latest earlier date
+// that has its currency.
+export interface ExchangeRateTable extends ExchangeRateInput {
+  date: string;
+  updatedAt: string;
+  updatedByName: string;
+}
+
+export interface ExchangeRateQuery {
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+// One spreadsheet row of a rate import, as text
+export interface ExchangeRateImportRow {
+  date?: string;
+  currency?: string;
+  rate?: string;
+}
+
+export interface ExchangeRateImportRequest {
+  rows: ExchangeRateImportRow[];
+  dateFormat: ImportDateFormat;
+  dryRun: boolean;
+}
+
+export interface ExchangeRateImportReport {
+  total: number;
+  valid: number;
+  errors: ImportRowError[];
+  // Dates that get new or changed rates
+  dates: string[];
+}
+
+export const METRICS_INTERVALS = ['day', 'week', 'month'] as const;
+export type MetricsInterval = typeof METRICS_INTERVALS[number];
+
+export const DASHBOARD_DATE_FILTERS = ['all', 'today', 'week', 'month'] as const;
+export type DashboardDateFilter = typeof DASHBOARD_DATE_FILTERS[number];
+
+export interface DashboardMetricsQuery {
+  dateFilter?: DashboardDateFilter;
+  dateFrom?: string;
+  dateTo?: string;
+  // Bucket size of the series; picked from the length of the range when omitted
+  interval?: MetricsInterval;
+  // 'true' also counts deposit entries awaiting review; drafts and rejected entries never count
+  includeUnapproved?: 'true' | 'false';
+}
+
+export interface DashboardMetrics {
+  totalDeposits: number;
+  totalWithdrawals: number;
+  totalBalance: number;
+  totalCompanyExpenses: number;
+  balanceExcludingExpenses: number;
+  totalClientIncentives: number;
+  netProfit: number;
+}
+
+export interface MetricsSeriesPoint {
+  // First day of the bucket (`YYYY-MM-DD`); weeks start on Monday
+  period: string;
+  deposits: number;
+  withdrawals: number;
+  expenses: number;
+  incentives: number;
+  netProfit: number;
+}
+
+export interface DashboardMetricsResponse {
+  success: boolean;
+  metrics: DashboardMetrics;
+  // pendingDepositsCount: entries in range awaiting review, whether or not they are included
+  counts: { depositsCount: number; withdrawalsCount: number; pendingDepositsCount: number };
+  series: { interval: MetricsInterval; points: MetricsSeriesPoint[] };
+  dateRange: { dateFilter: DashboardDateFilter; dateFrom: string; dateTo: string };
+  includeUnapproved: boolean;
+  currency: ReportingCurrencyInfo;
+}
+
+// Totals are in reportingCurrency. Amounts in a currency without any rate are left out and the currency is
+// listed in missingRates.
+export interface ReportingCurrencyInfo {
+  reportingCurrency: string;
+  missingRates: string[];
+}
+
+// `summary` of GET /deposits and /deposits/approvals: totals over every matching entry, not just the returned
+// page, in the reporting currency given by the response's `currency` (a ReportingCurrencyInfo)
+export interface DepositSummary {
+  totalDeposits: number;
+  totalWithdraws: number;
+  totalClientIncentives: number;
+  totalCompanyExpenses: number;
+}
+
+// `summary` of GET /bank-deposits, likewise in the reporting currency
+export interface BankDepositSummary {
+  totalDeposits: number;
+  totalWithdrawals: number;
+  totalPnl: number;
+  totalRemaining: number;
+  // Balance after each bank's latest matching transaction, in the bank's own currency
+  latestRemainingByBank: Record<string, number>;
+}
+
+// ==================== VALIDATION ====================
+
+// Messages keyed by field path, e.g. `expenses.0.amount`
+export type FieldErrors = Record<string, string>;
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: FieldErrors };
+
+export interface Schema<T> {
+  optional?: boolean;
+  // Returns the cleaned value, or undefined after recording errors under `path`
+  check(value: unknown, path: string, errors: FieldErrors): T | undefined;
+}
+
+export type ObjectSchema<T> = Schema<T> & { shape: { [K in keyof T]-?: Schema<T[K]> } };
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return { ...schema, optional: true };
+}
+
+export function string(options: { min?: number; max?: number; pattern?: RegExp; message?: string; oneOf?: readonly string[] } = {}): Schema<string> {
+  return {
+    check(value, path, errors) {
+      if (typeof value !== 'string') {
+        errors[path] = 'Must be text';
+        return undefined;
+      }
+      const trimmed = value.trim();
+      if (options.min !== undefined && trimmed.length < options.min) {
+        errors[path] = options.min === 1 ? 'Required' : `Must be at least ${options.min} characters`;
+      } else if (options.max !== undefined && trimmed.length > options.max) {
+        errors[path] = `Must be at most ${options.max} characters`;
+      } else if (options.pattern && !options.pattern.test(trimmed)) {
+        errors[path] = options.message || 'Invalid format';
+      } else if (options.oneOf && !options.oneOf.includes(trimmed)) {
+        errors[path] = `Must be one of: ${options.oneOf.join(', ')}`;
+      } else {
+        return trimmed;
+      }
+      return undefined;
+    },
+  };
+}
+
+export function number(options: { min?: number; max?: number } = {}): Schema<number> {
+  return {
+    check(value, path, errors) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors[path] = 'Must be a number';
+      } else if (options.min !== undefined && value < options.min) {
+        errors[path] = options.min === 0 ? 'Cannot be negative' : `Must be at least ${options.min}`;
+      } else if (options.max !== undefined && value > options.max) {
+        errors[path] = `Must be at most ${options.max}`;
+      } else {
+        return value;
+      }
+      return undefined;
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    check(value, path, errors) {
+      if (typeof value !== 'boolean') {
+        errors[path] = 'Must be true or false';
+        return undefined;
+      }
+      return value;
+    },
+  };
+}
+
+// Calendar date as entries store it (`YYYY-MM-DD`)
+export function isoDate(): Schema<string> {
+  const format = string({ pattern: /^\d{4}-\d{2}-\d{2}$/, message: 'Use the YYYY-MM-DD format' });
+  return {
+    check(value, path, errors) {
+      const date = format.check(value, path, errors);
+      if (date === undefined) return undefined;
+      const parsed = new Date(`${date}T00:00:00Z`);
+      if (Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) {
+        errors[path] = 'Not a valid date';
+        return undefined;
+      }
+      return date;
+    },
+  };
+}
+
+export function email(): Schema<string> {
+  return string({ max: 254, pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/, message: 'Not a valid email address' });
+}
+
+export function array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+  return {
+    check(value, path, errors) {
+      if (!Array.isArray(value)) {
+        errors[path] = 'Must be a list';
+        return undefined;
+      }
+      if (options.min !== undefined && value.length < options.min) {
+        errors[path] = `Must contain at least ${options.min} item${options.min === 1 ? '' : 's'}`;
+        return undefined;
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        errors[path] = `Must contain at most ${options.max} items`;
+        return undefined;
+      }
+      const before = Object.keys(errors).length;
+      const items = value.map((entry, i) => item.check(entry, `${path}.${i}`, errors));
+      return Object.keys(errors).length === before ? (items as T[]) : undefined;
+    },
+  };
+}
+
+// Rejects fields the shape doesn't declare; with `partial` every field may be omitted (for updates)
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }, options: { partial?: boolean } = {}): ObjectSchema<T> {
+  return {
+    shape,
+    check(value, path, errors) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors[path || 'body'] = 'Must be an object';
+        return undefined;
+      }
+      const input = value as Record<string, unknown>;
+      const before = Object.keys(errors).length;
+      const result: Record<string, unknown> = {};
+      const fieldPath = (key: string) => (path ? `${path}.${key}` : key);
+
+      for (const key of Object.keys(input)) {
+        if (!(key in shape)) {
+          errors[fieldPath(key)] = 'Unknown field';
+        }
+      }
+      for (const [key, schema] of Object.entries(shape) as [string, Schema<unknown>][]) {
+        if (input[key] === undefined || input[key] === null) {
+          if (!schema.optional && !options.partial) {
+            errors[fieldPath(key)] = 'Required';
+          }
+          continue;
+        }
+        result[key] = schema.check(input[key], fieldPath(key), errors);
+      }
+      return Object.keys(errors).length === before ? (result as T) : undefined;
+    },
+  };
+}
+
+// One line for toasts and logs, e.g. "expenses.0.amount: Cannot be negative (and 2 more)"
+export function summarizeFieldErrors(errors: FieldErrors): string {
+  const entries = Object.entries(errors);
+  if (entries.length === 0) return '';
+  const [path, message] = entries[0];
+  return `${path}: ${message}${entries.length > 1 ? ` (and ${entries.length - 1} more)` : ''}`;
+}
+
+export function validate<T>(schema: ObjectSchema<T>, input: unknown, options: { partial?: boolean } = {}): ValidationResult<T> {
+  const errors: FieldErrors = {};
+  const target = options.partial ? object<T>(schema.shape, { partial: true }) : schema;
+  const value = target.check(input, '', errors);
+  return value === undefined ? { ok: false, errors } : { ok: true, value };
+}
+
+// ==================== SCHEMAS ====================
+
+const amount = () => number({ min: 0 });
+const recordId = () => string({ min: 1, max: 100 });
+const currencyCode = () => string({ pattern: /^[A-Z][A-Z0-9]{2,5}$/, message: 'Use a code of 3 to 6 capital letters or digits, e.g. USD' });
+
+const modulePermissionSchema = object<ModulePermission>({
+  view: boolean(),
+  add: boolean(),
+  edit: boolean(),
+  delete: boolean(),
+  activity: optional(boolean()),
+  viewAll: optional(boolean()),
+  approve: optional(boolean()),
+});
+
+export const permissionsSchema = object<UserPermissions>({
+  dashboard: modulePermissionSchema,
+  deposits: modulePermissionSchema,
+  bankDeposits: modulePermissionSchema,
+  staffManagement: modulePermissionSchema,
+  activityLogs: optional(object<Partial<ModulePermission> & { view: boolean }>({
+    view: boolean(),
+    add: optional(boolean()),
+    edit: optional(boolean()),
+    delete: optional(boolean()),
+    activity: optional(boolean()),
+    viewAll: optional(boolean()),
+    approve: optional(boolean()),
+  })),
+});
+
+export interface SignupInput {
+  email: string;
+  password: string;
+  name: string;
+  role: string;
+  permissions?: UserPermissions;
+}
+
+export const signupSchema = object<SignupInput>({
+  email: email(),
+  password: string({ min: 6, max: 128 }),
+  name: string({ min: 1, max: 100 }),
+  role: string({ min: 1, max: 100 }),
+  permissions: optional(permissionsSchema),
+});
+
+export interface SendOtpInput {
+  email: string;
+}
+
+export interface VerifyOtpInput {
+  email: string;
+  otp: string;
+}
+
+export interface VerifyOtpResponse {
+  success: boolean;
+  // Single-use; spent by /forgot-password/reset-password
+  resetToken: string;
+  expiresAt: string;
+}
+
+export interface ResetPasswordInput {
+  resetToken: string;
+  newPassword: string;
+}
+
+export const sendOtpSchema = object<SendOtpInput>({
+  email: email(),
+});
+
+export const verifyOtpSchema = object<VerifyOtpInput>({
+  email: email(),
+  otp: string({ pattern: /^\d{6}$/, message: 'Enter the 6-digit code' }),
+});
+
+export const resetPasswordSchema = object<ResetPasswordInput>({
+  resetToken: string({ min: 1, max: 200 }),
+  newPassword: string({ min: 6, max: 128 }),
+});
+
+export interface LoginInput {
+  email: string;
+  password: string;
+}
+
+export const loginSchema = object<LoginInput>({
+  email: email(),
+  password: string({ min: 1, max: 128 }),
+});
+
+export interface ChangePasswordInput {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export const changePasswordSchema = object<ChangePasswordInput>({
+  currentPassword: string({ min: 1, max: 128 }),
+  newPassword: string({ min: 6, max: 128 }),
+});
+
+export interface InviteStaffInput {
+  email: string;
+  name: string;
+  role: string;
+  permissions?: UserPermissions;
+}
+
+export interface InvitationLookupInput {
+  token: string;
+}
+
+export interface AcceptInvitationInput extends InvitationLookupInput {
+  password: string;
+}
+
+export const inviteStaffSchema = object<InviteStaffInput>({
+  email: email(),
+  name: string({ min: 1, max: 100 }),
+  role: string({ min: 1, max: 100 }),
+  permissions: optional(permissionsSchema),
+});
+
+export const invitationLookupSchema = object<InvitationLookupInput>({
+  token: string({ min: 1, max: 200 }),
+});
+
+export const acceptInvitationSchema = object<AcceptInvitationInput>({
+  token: string({ min: 1, max: 200 }),
+  password: string({ min: 6, max: 128 }),
+});
+
+export const twoFactorCodeSchema = object<TwoFactorCodeInput>({
+  code: string({ pattern: /^(\d{6}|[A-Za-z2-7]{5}-?[A-Za-z2-7]{5})$/, message: 'Enter the 6-digit code or a recovery code' }),
+});
+
+export const twoFactorPolicySchema = object<TwoFactorPolicy>({
+  roles: array(string({ min: 1, max: 100 }), { max: 100 }),
+});
+
+export const passwordPolicySchema = object<PasswordPolicy>({
+  minLength: number({ min: 6, max: 128 }),
+  requireUppercase: boolean(),
+  requireLowercase: boolean(),
+  requireNumber: boolean(),
+  requireSymbol: boolean(),
+  historyCount: number({ min: 0, max: 12 }),
+  maxAgeDays: number({ min: 0, max: 365 }),
+});
+
+const depositCurrenciesFields = {
+  local: currencyCode(),
+  usdt: currencyCode(),
+  cash: currencyCode(),
+  incentives: currencyCode(),
+  expenses: currencyCode(),
+};
+
+export const depositInputSchema = object<DepositInput>({
+  date: isoDate(),
+  localDeposit: amount(),
+  usdtDeposit: amount(),
+  cashDeposit: amount(),
+  localWithdraw: amount(),
+  usdtWithdraw: amount(),
+  cashWithdraw: amount(),
+  clientIncentives: array(object<ClientIncentive>({
+    id: recordId(),
+    name: string({ min: 1, max: 200 }),
+    amount: amount(),
+  }), { max: 100 }),
+  expenses: array(object<ExpenseItem>({
+    id: recordId(),
+    type: string({ oneOf: EXPENSE_TYPES }) as Schema<ExpenseType>,
+    amount: amount(),
+    description: optional(string({ max: 500 })),
+  }), { max: 100 }),
+  currencies: optional(object<DepositCurrencies>(depositCurrenciesFields)),
+});
+
+export const depositCreateSchema = object<DepositCreateInput>({
+  ...depositInputSchema.shape,
+  draft: optional(boolean()),
+});
+
+export const depositReviewSchema = object<DepositReviewInput>({
+  decision: string({ oneOf: ['approve', 'reject'] }) as Schema<DepositReviewDecision>,
+  comment: optional(string({ max: 1000 })),
+});
+
+export const bankTransactionInputSchema = object<BankTransactionInput>({
+  date: isoDate(),
+  bankId: recordId(),
+  deposit: amount(),
+  withdraw: amount(),
+  pnl: optional(number()),
+  amount: optional(amount()),
+});
+
+export const bankInputSchema = object<BankInput>({
+  bankName: string({ min: 1, max: 100 }),
+  openingBalance: optional(number()),
+  currency: optional(currencyCode()),
+});
+
+export const ledgerQuerySchema = object<LedgerQuery>({
+  dateFrom: optional(isoDate()),
+  dateTo: optional(isoDate()),
+});
+
+export const staffUpdateSchema = object<StaffUpdateInput>({
+  name: optional(string({ min: 1, max: 100 })),
+  email: optional(email()),
+  role: optional(string({ min: 1, max: 100 })),
+  status: optional(string({ oneOf: ['active', 'inactive'] }) as Schema<StaffStatus>),
+  permissions: optional(permissionsSchema),
+  avatar: optional(string({ max: 2048 })),
+  mustChangePassword: optional(boolean()),
+});
+
+export const profileUpdateSchema = object<ProfileUpdateInput>({
+  name: string({ min: 1, max: 100 }),
+});
+
+export const roleInputSchema = object<RoleInput>({
+  roleName: string({ min: 1, max: 100 }),
+  permissions: optional(permissionsSchema),
+  propagate: optional(boolean()),
+});
+
+export const dashboardMetricsQuerySchema = object<DashboardMetricsQuery>({
+  dateFilter: optional(string({ oneOf: DASHBOARD_DATE_FILTERS }) as Schema<DashboardDateFilter>),
+  dateFrom: optional(isoDate()),
+  dateTo: optional(isoDate()),
+  interval: optional(string({ oneOf: METRICS_INTERVALS }) as Schema<MetricsInterval>),
+  includeUnapproved: optional(string({ oneOf: ['true', 'false'] }) as Schema<'true' | 'false'>),
+});
+
+const emailTemplateFields = {
+  name: string({ min: 1, max: 100 }),
+  description: optional(string({ max: 300 })),
+  subject: string({ min: 1, max: 200 }),
+  html: string({ min: 1, max: 200000 }),
+  text: string({ min: 1, max: 50000 }),
+  variables: array(object<EmailTemplateVariable>({
+    name: string({ pattern: /^[A-Za-z]\w{0,49}$/, message: 'Letters, digits and _ only, starting with a letter' }),
+    description: optional(string({ max: 200 })),
+    sample: string({ max: 500 }),
+  }), { max: 50 }),
+};
+
+export const emailTemplateInputSchema = object<EmailTemplateInput>(emailTemplateFields);
+
+export const newEmailTemplateSchema = object<NewEmailTemplateInput>({
+  id: string({ pattern: /^[a-z][a-z0-9-]{1,49}$/, message: 'Lowercase letters, digits and dashes, starting with a letter' }),
+  ...emailTemplateFields,
+});
+
+const importCell = () => optional(string({ max: 500 }));
+
+const importRequestFields = {
+  submittedBy: recordId(),
+  dateFormat: string({ oneOf: IMPORT_DATE_FORMATS }) as Schema<ImportDateFormat>,
+  dryRun: boolean(),
+  bankAliases: optional(array(object<BankAlias>({
+    name: string({ min: 1, max: 500 }),
+    bankId: recordId(),
+  }), { max: 500 })),
+};
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export const depositImportSchema = object<ImportRequest<DepositImportRow>>({
+  rows: array(object<DepositImportRow>({
+    date: importCell(),
+    localDeposit: importCell(),
+    usdtDeposit: importCell(),
+    cashDeposit: importCell(),
+    localWithdraw: importCell(),
+    usdtWithdraw: importCell(),
+    cashWithdraw: importCell(),
+    incentiveClient: importCell(),
+    incentiveAmount: importCell(),
+    expenseType: importCell(),
+    expenseAmount: importCell(),
+    expenseDescription: importCell(),
+  }), { min: 1, max: MAX_IMPORT_ROWS }),
+  ...importRequestFields,
+});
+
+export const bankTransactionImportSchema = object<ImportRequest<BankTransactionImportRow>>({
+  rows: array(object<BankTransactionImportRow>({
+    date: importCell(),
+    bank: importCell(),
+    deposit: importCell(),
+    withdraw: importCell(),
+    pnl: importCell(),
+  }), { min: 1, max: MAX_IMPORT_ROWS }),
+  ...importRequestFields,
+});
+
+export const currencySettingsSchema = object<CurrencySettings>({
+  reportingCurrency: currencyCode(),
+  currencies: array(currencyCode(), { min: 1, max: 50 }),
+  defaults: object<CurrencySettings['defaults']>({
+    ...depositCurrenciesFields,
+    bank: currencyCode(),
+  }),
+});
+
+export const exchangeRateInputSchema = object<ExchangeRateInput>({
+  rates: array(object<ExchangeRate>({
+    currency: currencyCode(),
+    rate: number({ min: 0.000001, max: 1000000000 }),
+  }), { min: 1, max: 50 }),
+});
+
+export const exchangeRateQuerySchema = object<ExchangeRateQuery>({
+  dateFrom: optional(isoDate()),
+  dateTo: optional(isoDate()),
+});
+
+export const exchangeRateImportSchema = object<ExchangeRateImportRequest>({
+  rows: array(object<ExchangeRateImportRow>({
+    date: importCell(),
+    currency: importCell(),
+    rate: importCell(),
+  }), { min: 1, max: MAX_IMPORT_ROWS }),
+  dateFormat: string({ oneOf: IMPORT_DATE_FORMATS }) as Schema<ImportDateFormat>,
+  dryRun: boolean(),
+});
+
+export const activityRetentionSchema = object<ActivityRetention>({
+  days: number({ min: 30, max: 3650 }),
+});
@@ -0,0 +1,236 @@
+// Currencies and exchange rates
+// Every amount has a currency: deposit entries name one per amount (`currencies`, see depositCurrencies) and
+// bank transactions are in the currency of their bank. Totals are converted to the reporting currency with an
+// admin-maintained table of rates per date, quoted in RATE_QUOTE_CURRENCY. An amount uses the rate of its own
+// date or the latest earlier one; amounts dated before a currency's first rate use that first rate.
+//   settings:currency       - CurrencySettings
+//   exchange-rates:{date}   - ExchangeRateTable
+
+import * as kv from './storage.tsx';
+import { parseImportDate, parseImportAmount } from './import.tsx';
+import {
+  LEGACY_CURRENCY,
+  RATE_QUOTE_CURRENCY,
+  type CurrencySettings,
+  type ExchangeRate,
+  type ExchangeRateImportReport,
+  type ExchangeRateImportRow,
+  type ExchangeRateQuery,
+  type ExchangeRateTable,
+  type FieldErrors,
+  type ImportDateFormat,
+  type ImportRowError,
+} from './contract.tsx';
+
+const SETTINGS_KEY = 'settings:currency';
+const RATES_PREFIX = 'exchange-rates:';
+const ratesKey = (date: string) => `${RATES_PREFIX}${date}`;
+
+const CURRENCY_CODE = /^[A-Z][A-Z0-9]{2,5}$/;
+
+// What the panel showed before currencies were tracked: everything in dollars, like depositCurrencies for older
+// entries. USDT is offered but no amount defaults to it, since there is no USDT rate until an admin adds one.
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  reportingCurrency: LEGACY_CURRENCY,
+  currencies: [LEGACY_CURRENCY, 'USDT'],
+  defaults: {
+    local: LEGACY_CURRENCY,
+    usdt: LEGACY_CURRENCY,
+    cash: LEGACY_CURRENCY,
+    incentives: LEGACY_CURRENCY,
+    expenses: LEGACY_CURRENCY,
+    bank: LEGACY_CURRENCY,
+  },
+};
+
+// ==================== SETTINGS ====================
+
+export async function getCurrencySettings(): Promise<CurrencySettings> {
+  const saved = await kv.get(SETTINGS_KEY);
+  return saved ? { ...DEFAULT_CURRENCY_SETTINGS, ...saved } : DEFAULT_CURRENCY_SETTINGS;
+}
+
+export async function setCurrencySettings(settings: CurrencySettings): Promise<CurrencySettings> {
+  const saved = { ...settings, currencies: [...new Set(settings.currencies)] };
+  await kv.set(SETTINGS_KEY, saved);
+  return saved;
+}
+
+/**
+ * Field errors for a reporting currency or default that isn't in the currency list, or null
+ */
+export function currencySettingsProblems(settings: CurrencySettings): FieldErrors | null {
+  const errors: FieldErrors = {};
+  const offered = (code: string) => settings.currencies.includes(code);
+
+  if (!offered(settings.reportingCurrency)) {
+    errors.reportingCurrency = 'Add it to the currency list first';
+  }
+  for (const [key, code] of Object.entries(settings.defaults)) {
+    if (!offered(code)) errors[`defaults.${key}`] = 'Add it to the currency list first';
+  }
+  return Object.keys(errors).length > 0 ? errors : null;
+}
+
+// ==================== RATE TABLES ====================
+
+/**
+ * Rate tables within the range, newest first
+ */
+export async function listRateTables({ dateFrom, dateTo }: ExchangeRateQuery = {}): Promise<ExchangeRateTable[]> {
+  const tables: ExchangeRateTable[] = await kv.getByPrefix(RATES_PREFIX);
+  return tables
+    .filter((table) => (!dateFrom || table.date >= dateFrom) && (!dateTo || table.date <= dateTo))
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+export async function getRateTable(date: string): Promise<ExchangeRateTable | null> {
+  return kv.get(ratesKey(date));
+}
+
+/**
+ * Replaces the rates of a date
+ */
+export async function saveRateTable(date: string, rates: ExchangeRate[], actorName: string): Promise<ExchangeRateTable> {
+  const table: ExchangeRateTable = {
+    date,
+    rates: [...rates].sort((a, b) => a.currency.localeCompare(b.currency)),
+    updatedAt: new Date().toISOString(),
+    updatedByName: actorName,
+  };
+  await kv.set(ratesKey(date), table);
+  return table;
+}
+
+export async function deleteRateTable(date: string): Promise<boolean> {
+  if (!(await getRateTable(date))) return false;
+  await kv.del(ratesKey(date));
+  return true;
+}
+
+/**
+ * Field errors for rates of the quote currency (always 1) or a currency listed twice, or null
+ */
+export function ratesProblems(rates: ExchangeRate[]): FieldErrors | null {
+  const errors: FieldErrors = {};
+  const seen = new Set<string>();
+  rates.forEach((rate, i) => {
+    if (rate.currency === RATE_QUOTE_CURRENCY) {
+      errors[`rates.${i}.currency`] = `Rates are quoted in ${RATE_QUOTE_CURRENCY}; its own rate is always 1`;
+    } else if (seen.has(rate.currency)) {
+      errors[`rates.${i}.currency`] = 'Listed twice';
+    }
+    seen.add(rate.currency);
+  });
+  return Object.keys(errors).length > 0 ? errors : null;
+}
+
+// ==================== CONVERSION ====================
+
+export interface CurrencyConverter {
+  // `amount` in `currency` on `date`, in the reporting currency; 0 when a rate is missing
+  convert(amount: number, currency: string, date: string): number;
+  // Currencies that had an amount but no rate at all, sorted
+  missingRates(): string[];
+}
+
+export function createConverter(tables: ExchangeRateTable[], reportingCurrency: string): CurrencyConverter {
+  // Per currency, its rates oldest first
+  const history = new Map<string, { date: string; rate: number }[]>();
+  for (const table of [...tables].sort((a, b) => a.date.localeCompare(b.date))) {
+    for (const { currency, rate } of table.rates) {
+      if (!history.has(currency)) history.set(currency, []);
+      history.get(currency)!.push({ date: table.date, rate });
+    }
+  }
+  const missing = new Set<string>();
+
+  const rateOn = (currency: string, date: string): number | undefined => {
+    if (currency === RATE_QUOTE_CURRENCY) return 1;
+    const rates = history.get(currency);
+    if (!rates) return undefined;
+
+    let found = rates[0].rate;
+    for (const entry of rates) {
+      if (entry.date > date) break;
+      found = entry.rate;
+    }
+    return found;
+  };
+
+  return {
+    convert(amount, currency, date) {
+      if (!amount || currency === reportingCurrency) return amount || 0;
+
+      const from = rateOn(currency, date);
+      const to = rateOn(reportingCurrency, date);
+      if (from === undefined) missing.add(currency);
+      if (to === undefined) missing.add(reportingCurrency);
+      if (from === undefined || to === undefined) return 0;
+      return (amount * from) / to;
+    },
+    missingRates: () => [...missing].sort(),
+  };
+}
+
+// ==================== IMPORT ====================
+
+/**
+ * Converts and validates the rows of a rate file. `tables` (rates per date) is only complete without errors.
+ */
+export function validateRateImport(rows: ExchangeRateImportRow[], dateFormat: ImportDateFormat) {
+  const errors: ImportRowError[] = [];
+  const tables = new Map<string, ExchangeRate[]>();
+  const seen = new Set<string>();
+  let valid = 0;
+
+  rows.forEach((row, index) => {
+    const rowErrors: FieldErrors = {};
+    const date = row.date?.trim() ? parseImportDate(row.date, dateFormat) : null;
+    if (!date) rowErrors.date = row.date?.trim() ? `Not a ${dateFormat} date` : 'Required';
+
+    const currency = (row.currency || '').trim().toUpperCase();
+    if (!CURRENCY_CODE.test(currency)) {
+      rowErrors.currency = currency ? 'Not a currency code' : 'Required';
+    } else if (currency === RATE_QUOTE_CURRENCY) {
+      rowErrors.currency = `Rates are quoted in ${RATE_QUOTE_CURRENCY}; its own rate is always 1`;
+    }
+
+    const rate = row.rate?.trim() ? parseImportAmount(row.rate) : undefined;
+    if (rate === undefined || !(rate > 0)) rowErrors.rate = row.rate?.trim() ? 'Must be a positive number' : 'Required';
+
+    if (date && !rowErrors.currency) {
+      const key = `${date}:${currency}`;
+      if (seen.has(key)) rowErrors.row = `${currency} on ${date} appears more than once`;
+      seen.add(key);
+    }
+
+    const entries = Object.entries(rowErrors);
+    if (entries.length > 0) {
+      errors.push(...entries.map(([field, message]) => ({ row: index + 1, field, message })));
+      return;
+    }
+    valid++;
+    if (!tables.has(date!)) tables.set(date!, []);
+    tables.get(date!)!.push({ currency, rate: rate! });
+  });
+
+  const report: ExchangeRateImportReport = {
+    total: rows.length,
+    valid,
+    errors,
+    dates: [...tables.keys()].sort(),
+  };
+  return { report, tables };
+}
+
+/**
+ * Merges imported rates into the tables of their dates; other currencies of those dates keep their rates
+ */
+export async function commitRateImport(tables: Map<string, ExchangeRate[]>, actorName: string): Promise<void> {
+  for (const [date, imported] of tables) {
+    const existing = (await getRateTable(date))?.rates || [];
+    const importedCurrencies = new Set(imported.map((rate) => rate.currency));
+    await saveRateTable(date, [...existing.filter((rate) => !importedCurrencies.has(rate.currency)), ...imported], actorName);
+  }
+}
@@ -1,15 +1,33 @@
 // Email Service Helper
 // Supports multiple email providers: SMTP, Resend, SendGrid
+// plus two offline transports selected with EMAIL_TRANSPORT:
+//   EMAIL_TRANSPORT=log   - prints the message to the console instead of sending it
+//   EMAIL_TRANSPORT=file  - writes each message to EMAIL_FILE_DIR (default ./mail-out) as .html + .txt + .json
+// Callers queue mail through outbox.tsx; deliverEmail() is the single delivery attempt it retries.
 
-interface EmailOptions {
+export interface EmailOptions {
   to: string;
   subject: string;
   html: string;
+  // Plain-text alternative for clients that don't render HTML
+  text?: string;
   from?: string;
 }
 
+export type EmailProvider = 'smtp' | 'resend' | 'sendgrid' | 'log' | 'file';
+
+export interface DeliveryResult {
+  ok: boolean;
+  // Provider that sent the message, or the last one tried; null when none is configured
+  provider: EmailProvider | null;
+  messageId?: string;
+  error?: string;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
 // Send email using SMTP (Nodemailer)
-export async function sendEmailViaSMTP(options: EmailOptions): Promise<boolean> {
+export async function sendEmailViaSMTP(options: EmailOptions): Promise<DeliveryResult> {
   const EMAIL_HOST = Deno.env.get('EMAIL_HOST');
   const EMAIL_PORT = Deno.env.get('EMAIL_PORT');
   const EMAIL_USER = Deno.env.get('EMAIL_USER');
@@ -17,7 +35,7 @@ export async function sendEmailViaSMTP(options: EmailOptions): Promise<boolean>
   
   if (!EMAIL_HOST || !EMAIL_PORT || !EMAIL_USER || !EMAIL_PASSWORD) {
     console.log('SMTP credentials not configured - skipping SMTP email send');
-    return false;
+    return { ok: false, provider: 'smtp', error: 'SMTP credentials not configured' };
   }
 
   try {
@@ -48,24 +66,25 @@ export async function sendEmailViaSMTP(options: EmailOptions): Promise<boolean>
       to: options.to,
       subject: options.subject,
       html: options.html,
+      text: options.text,
     });
 
     console.log(`✅ Email sent successfully via SMTP to ${options.to}`);
     console.log(`Message ID: ${info.messageId}`);
-    return true;
+    return { ok: true, provider: 'smtp', messageId: info.messageId };
   } catch (error) {
     console.error('SMTP email sending error:', error);
-    return false;
+    return { ok: false, provider: 'smtp', error: errorMessage(error) };
   }
 }
 
 // Send email using Resend API (Recommended - Simple & Reliable)
-export async function sendEmailViaResend(options: EmailOptions): Promise<boolean> {
+export async function sendEmailViaResend(options: EmailOptions): Promise<DeliveryResult> {
   const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY');
   
   if (!RESEND_API_KEY) {
     console.log('RESEND_API_KEY not configured - skipping email send');
-    return false;
+    return { ok: false, provider: 'resend', error: 'RESEND_API_KEY not configured' };
   }
 
   try {
@@ -80,30 +99,32 @@ export async function sendEmailViaResend(options: EmailOptions): Promise<boolean
         to: options.to,
         subject: options.subject,
         html: options.html,
+        text: options.text,
       }),
     });
 
     if (!response.ok) {
-      const error = await response.json();
+      const error = await response.json().catch(() => ({}));
       console.error('Resend API error:', error);
-      return false;
+      return { ok: false, provider: 'resend', error: `HTTP ${response.status}: ${error.message || error.name || 'Resend API error'}` };
     }
 
+    const data = await response.json().catch(() => ({}));
     console.log(`Email sent successfully to ${options.to} via Resend`);
-    return true;
+    return { ok: true, provider: 'resend', messageId: data.id };
   } catch (error) {
     console.error('Email sending error:', error);
-    return false;
+    return { ok: false, provider: 'resend', error: errorMessage(error) };
   }
 }
 
 // Send email using SendGrid API
-export async function sendEmailViaSendGrid(options: EmailOptions): Promise<boolean> {
+export async function sendEmailViaSendGrid(options: EmailOptions): Promise<DeliveryResult> {
   const SENDGRID_API_KEY = Deno.env.get('SENDGRID_API_KEY');
   
   if (!SENDGRID_API_KEY) {
     console.log('SENDGRID_API_KEY not configured - skipping email send');
-    return false;
+    return { ok: false, provider: 'sendgrid', error: 'SENDGRID_API_KEY not configured' };
   }
 
   try {
@@ -121,407 +142,90 @@ export async function sendEmailViaSendGrid(options: EmailOptions): Promise<boole
           email: options.from || 'admin@yourdomain.com', // Must be verified sender
         },
         subject: options.subject,
-        content: [{
-          type: 'text/html',
-          value: options.html,
-        }],
+        // SendGrid requires text/plain to come before text/html
+        content: [
+          ...(options.text ? [{ type: 'text/plain', value: options.text }] : []),
+          { type: 'text/html', value: options.html },
+        ],
       }),
     });
 
     if (!response.ok) {
       const error = await response.text();
       console.error('SendGrid API error:', error);
-      return false;
+      return { ok: false, provider: 'sendgrid', error: `HTTP ${response.status}: ${error.slice(0, 200)}` };
     }
 
     console.log(`Email sent successfully to ${options.to} via SendGrid`);
-    return true;
+    return { ok: true, provider: 'sendgrid', messageId: response.headers.get('x-message-id') || undefined };
   } catch (error) {
     console.error('Email sending error:', error);
-    return false;
+    return { ok: false, provider: 'sendgrid', error: errorMessage(error) };
   }
 }
 
-// Welcome email template - Exact FlipTrade Group design
-export function getWelcomeEmailHTML(name: string, email: string, temporaryPassword: string, loginUrl: string = 'https://admin.fliptradegroup.com'): string {
-  return `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-<meta charset="UTF-8">
-<meta name="viewport" content="width=device-width, initial-scale=1.0">
-<title>Welcome to Fliptrade Group</title>
-<style>
-  body {
-    margin: 0;
-    background-color: #f1f3f6;
-    font-family: 'Segoe UI', Arial, sans-serif;
-  }
-
-  .email-wrapper {
-    width: 100%;
-    padding: 40px 0;
-    background-color: #f1f3f6;
-  }
-
-  .email-container {
-    max-width: 620px;
-    margin: 0 auto;
-    background-color: #fff;
-    border-radius: 12px;
-    border: 1px solid #dcdcdc;
-    overflow: hidden;
-    box-shadow: 0 4px 12px rgba(0,0,0,0.08);
-  }
-
-  .header {
-    background-color: #0b0f1a;
-    text-align: center;
-    padding: 35px 20px;
-  }
-
-  .header img {
-    width: 200px;
-    height: auto;
-    background-color: #0b0f1a;
-  }
-
-  .content {
-    padding: 35px 45px;
-    color: #333;
-  }
-
-  .content h1 {
-    font-size: 24px;
-    margin-bottom: 10px;
-    color: #0b0f1a;
-  }
-
-  .content p {
-    font-size: 15px;
-    line-height: 1.6;
-    color: #555;
-  }
-
-  .login-details {
-    background-color: #fafafa;
-    border: 1px solid #e4e4e4;
-    border-radius: 8px;
-    padding: 20px;
-    margin: 25px 0;
-  }
-
-  .login-details p {
-    font-size: 15px;
-    margin: 8px 0;
-  }
-
-  .login-details strong {
-    color: #000;
-  }
-
-  .btn {
-    display: inline-block;
-    background-color: #007bff;
-    color: #ffffff !important;
-    text-decoration: none;
-    padding: 14px 30px;
-    border-radius: 8px;
-    font-weight: 600;
-    font-size: 15px;
-    margin-top: 10px;
-  }
-
-  .footer {
-    text-align: center;
-    background-color: #fafafa;
-    border-top: 1px solid #e6e6e6;
-    padding: 25px;
-    font-size: 13px;
-    color: #777;
-  }
-
-  .footer a {
-    color: #007bff;
-    text-decoration: none;
-  }
-
-  /* Optional: Dark mode support */
-  @media (prefers-color-scheme: dark) {
-    body {
-      background-color: #0b0f1a;
-    }
-    .email-container {
-      background-color: #1a1d26;
-      border: 1px solid #333;
-    }
-    .content, .footer {
-      color: #ddd;
-    }
-    .content h1 {
-      color: #fff;
-    }
-    .login-details {
-      background-color: #222630;
-      border-color: #444;
-    }
-    .footer {
-      background-color: #11141c;
-      border-color: #222;
-    }
-    .header img {
-      background-color: #0b0f1a;
-    }
-  }
-</style>
-</head>
-<body>
-
-<div class="email-wrapper">
-  <div class="email-container">
-    
-    <!-- Header -->
-    <div class="header">
-      <img src="https://www.fliptradegroup.com/_next/image?url=%2F_next%2Fstatic%2Fmedia%2FLogo.b7c8d1a7.webp&w=3840&q=75" alt="Fliptrade Logo">
-    </div>
-
-    <!-- Content -->
-    <div class="content">
-      <h1>Welcome to Fliptrade Group!</h1>
-      <p>Hi <strong>${name}</strong>,</p>
-      <p>Your staff account has been successfully created. You can now log in to the Fliptrade Admin Panel to start managing your tasks, track activities, and collaborate with your team.</p>
-
-      <div class="login-details">
-        <p><strong>Email:</strong> ${email}</p>
-        <p><strong>Temporary Password:</strong> ${temporaryPassword}</p>
-      </div>
-
-      <a href="${loginUrl}" class="btn">Log In to Dashboard</a>
-
-      <p style="margin-top:25px;">For security reasons, please change your password immediately after your first login.</p>
-
-      <p>We're excited to have you on board!<br>– The Fliptrade Group Team</p>
-    </div>
-
-    <!-- Footer -->
-    <div class="footer">
-      <p>Need help? Contact us at <a href="mailto:support@fliptradegroup.com">support@fliptradegroup.com</a> or call +41 2650 06818</p>
-      <p>© 2025 Fliptrade Group. All rights reserved.</p>
-    </div>
-
-  </div>
-</div>
-
-</body>
-</html>
-  `.trim();
+// Offline stand-in: prints the message instead of sending it
+export async function sendEmailViaLog(options: EmailOptions): Promise<DeliveryResult> {
+  console.log('='.repeat(60));
+  console.log(`📧 EMAIL (log transport) to ${options.to}: ${options.subject}`);
+  console.log(options.text || options.html.replace(/<style[\s\S]*?<\/style>/gi, '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim());
+  console.log('='.repeat(60));
+  return { ok: true, provider: 'log', messageId: `log-${Date.now()}` };
 }
 
-// OTP email template - Exact FlipTrade Group design with dynamic OTP
-export function getOTPEmailHTML(name: string, otp: string): string {
-  return `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-<meta charset="UTF-8">
-<meta name="viewport" content="width=device-width, initial-scale=1.0">
-<title>Password Reset - Fliptrade Group</title>
-<style>
-  body {
-    margin: 0;
-    background-color: #f1f3f6;
-    font-family: 'Segoe UI', Arial, sans-serif;
-  }
-
-  .email-wrapper {
-    width: 100%;
-    padding: 40px 0;
-    background-color: #f1f3f6;
-  }
+// Offline stand-in: writes the message to EMAIL_FILE_DIR so it can be opened in a browser
+export async function sendEmailViaFile(options: EmailOptions): Promise<DeliveryResult> {
+  const dir = Deno.env.get('EMAIL_FILE_DIR') || './mail-out';
+  const messageId = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
-  .email-container {
-    max-width: 620px;
-    margin: 0 auto;
-    background-color: #fff;
-    border-radius: 12px;
-    border: 1px solid #dcdcdc;
-    overflow: hidden;
-    box-shadow: 0 4px 12px rgba(0,0,0,0.08);
-  }
-
-  .header {
-    background-color: #0b0f1a;
-    text-align: center;
-    padding: 35px 20px;
-  }
-
-  .header img {
-    width: 200px;
-    height: auto;
-    background-color: #0b0f1a;
-  }
-
-  .content {
-    padding: 35px 45px;
-    color: #333;
-  }
-
-  .content h1 {
-    font-size: 24px;
-    margin-bottom: 10px;
-    color: #0b0f1a;
-  }
-
-  .content p {
-    font-size: 15px;
-    line-height: 1.6;
-    color: #555;
-  }
-
-  .login-details {
-    background-color: #fafafa;
-    border: 1px solid #e4e4e4;
-    border-radius: 8px;
-    padding: 20px;
-    margin: 25px 0;
-    text-align: center;
-  }
-
-  .login-details p {
-    font-size: 15px;
-    margin: 8px 0;
-  }
-
-  .login-details strong {
-    color: #000;
-  }
-
-  .otp-code {
-    font-size: 36px;
-    font-weight: 700;
-    color: #007bff;
-    letter-spacing: 8px;
-    font-family: 'Monaco', 'Courier New', monospace;
-    margin: 15px 0;
-  }
-
-  .btn {
-    display: inline-block;
-    background-color: #007bff;
-    color: #ffffff !important;
-    text-decoration: none;
-    padding: 14px 30px;
-    border-radius: 8px;
-    font-weight: 600;
-    font-size: 15px;
-    margin-top: 10px;
-  }
-
-  .footer {
-    text-align: center;
-    background-color: #fafafa;
-    border-top: 1px solid #e6e6e6;
-    padding: 25px;
-    font-size: 13px;
-    color: #777;
-  }
-
-  .footer a {
-    color: #007bff;
-    text-decoration: none;
-  }
-
-  /* Optional: Dark mode support */
-  @media (prefers-color-scheme: dark) {
-    body {
-      background-color: #0b0f1a;
-    }
-    .email-container {
-      background-color: #1a1d26;
-      border: 1px solid #333;
-    }
-    .content, .footer {
-      color: #ddd;
-    }
-    .content h1 {
-      color: #fff;
-    }
-    .login-details {
-      background-color: #222630;
-      border-color: #444;
-    }
-    .footer {
-      background-color: #11141c;
-      border-color: #222;
-    }
-    .header img {
-      background-color: #0b0f1a;
-    }
+  try {
+    await Deno.mkdir(dir, { recursive: true });
+    await Deno.writeTextFile(`${dir}/${messageId}.html`, options.html);
+    if (options.text) await Deno.writeTextFile(`${dir}/${messageId}.txt`, options.text);
+    await Deno.writeTextFile(`${dir}/${messageId}.json`, JSON.stringify({ to: options.to, from: options.from, subject: options.subject }, null, 2));
+    console.log(`Email to ${options.to} written to ${dir}/${messageId}.html`);
+    return { ok: true, provider: 'file', messageId };
+  } catch (error) {
+    console.error('File email transport error:', error);
+    return { ok: false, provider: 'file', error: errorMessage(error) };
   }
-</style>
-</head>
-<body>
-
-<div class="email-wrapper">
-  <div class="email-container">
-    
-    <!-- Header -->
-    <div class="header">
-      <img src="https://www.fliptradegroup.com/_next/image?url=%2F_next%2Fstatic%2Fmedia%2FLogo.b7c8d1a7.webp&w=3840&q=75" alt="Fliptrade Logo">
-    </div>
-
-    <!-- Content -->
-    <div class="content">
-      <h1>Password Reset Request</h1>
-      <p>Hi <strong>${name || 'User'}</strong>,</p>
-      <p>We received a request to reset your password for your Fliptrade Admin Panel account. Use the verification code below to complete the password reset process.</p>
-
-      <div class="login-details">
-        <p><strong>Your Verification Code:</strong></p>
-        <div class="otp-code">${otp}</div>
-        <p style="color: #888; font-size: 13px; margin-top: 10px;">Valid for 5 minutes</p>
-      </div>
-
-      <p style="margin-top:25px;">For security reasons, please do not share this code with anyone. If you didn't request this password reset, please ignore this email or contact support immediately.</p>
-
-      <p>We're here to help if you need assistance!<br>– The Fliptrade Group Team</p>
-    </div>
-
-    <!-- Footer -->
-    <div class="footer">
-      <p>Need help? Contact us at <a href="mailto:support@fliptradegroup.com">support@fliptradegroup.com</a> or call +41 2650 06818</p>
-      <p>© 2025 Fliptrade Group. All rights reserved.</p>
-    </div>
+}
 
-  </div>
-</div>
+// One delivery attempt - EMAIL_TRANSPORT if set, otherwise the configured providers in order
+export async function deliverEmail(options: EmailOptions): Promise<DeliveryResult> {
+  const transport = Deno.env.get('EMAIL_TRANSPORT')?.toLowerCase();
+  if (transport === 'log') return sendEmailViaLog(options);
+  if (transport === 'file') return sendEmailViaFile(options);
 
-</body>
-</html>
-  `.trim();
-}
+  const errors: string[] = [];
+  let last: DeliveryResult = { ok: false, provider: null, error: 'No email service configured' };
 
-// Main email sending function - tries configured providers in order
-export async function sendEmail(options: EmailOptions): Promise<boolean> {
   // Try SMTP first (if configured)
   if (Deno.env.get('EMAIL_HOST') && Deno.env.get('EMAIL_USER')) {
-    const result = await sendEmailViaSMTP(options);
-    if (result) return true;
+    last = await sendEmailViaSMTP(options);
+    if (last.ok) return last;
+    errors.push(`smtp: ${last.error}`);
     console.log('SMTP failed, trying other providers...');
   }
   
   // Try Resend
   if (Deno.env.get('RESEND_API_KEY')) {
-    const result = await sendEmailViaResend(options);
-    if (result) return true;
+    last = await sendEmailViaResend(options);
+    if (last.ok) return last;
+    errors.push(`resend: ${last.error}`);
     console.log('Resend failed, trying other providers...');
   }
   
   // Fallback to SendGrid
   if (Deno.env.get('SENDGRID_API_KEY')) {
-    return await sendEmailViaSendGrid(options);
+    last = await sendEmailViaSendGrid(options);
+    if (last.ok) return last;
+    errors.push(`sendgrid: ${last.error}`);
   }
   
-  console.log('No email service configured. Set EMAIL_HOST/EMAIL_USER (SMTP), RESEND_API_KEY, or SENDGRID_API_KEY environment variable.');
-  return false;
+  if (errors.length === 0) {
+    console.log('No email service configured. Set EMAIL_HOST/EMAIL_USER (SMTP), RESEND_API_KEY, SENDGRID_API_KEY or EMAIL_TRANSPORT=log|file.');
+    return last;
+  }
+  return { ...last, error: errors.join('; ') };
 }
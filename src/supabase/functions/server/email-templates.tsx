@@ -0,0 +1,731 @@
+// Email templates
+// Subject, HTML and plain-text bodies with `{{variable}}` placeholders. Admins edit them from the Email Templates
+// screen; an edited copy is stored as an `emailTemplate:{key}` record and deleting it restores the built-in
+// default below. Templates with new keys can be added from the same screen and sent with queueTemplateEmail().
+//
+// Besides its declared variables every template can use {{appUrl}} (APP_URL, the admin panel's address) and
+// {{year}}. Values are HTML-escaped in the HTML body; unknown placeholders render empty.
+
+import { repos } from './repositories.tsx';
+import type { EmailTemplate, EmailTemplateInput, RenderedEmail } from './contract.tsx';
+
+const DEFAULT_APP_URL = 'https://admin.fliptradegroup.com';
+const PLACEHOLDER = /\{\{\s*([A-Za-z]\w*)\s*\}\}/g;
+
+export type TemplateData = Record<string, string | number | undefined>;
+
+export interface RenderResult extends RenderedEmail {
+  // Placeholders with no value in the data or the global variables
+  missing: string[];
+}
+
+export function globalVariables(): Record<string, string> {
+  return {
+    appUrl: Deno.env.get('APP_URL') || DEFAULT_APP_URL,
+    year: String(new Date().getUTCFullYear()),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function renderTemplate(template: EmailTemplateInput, data: TemplateData): RenderResult {
+  const values: TemplateData = { ...globalVariables(), ...data };
+  const missing = new Set<string>();
+  const fill = (source: string, escape: boolean) => source.replace(PLACEHOLDER, (_match, name: string) => {
+    const value = values[name];
+    if (value === undefined || value === null) {
+      missing.add(name);
+      return '';
+    }
+    return escape ? escapeHtml(String(value)) : String(value);
+  });
+
+  return {
+    subject: fill(template.subject, false),
+    html: fill(template.html, true),
+    text: fill(template.text, false),
+    missing: [...missing],
+  };
+}
+
+// Sample values of the declared variables, used for previews and test sends
+export function sampleData(template: EmailTemplateInput): TemplateData {
+  return Object.fromEntries(template.variables.map((variable) => [variable.name, variable.sample]));
+}
+
+const BUILT_IN_TEMPLATES: Record<string, EmailTemplateInput> = {
+  invite: {
+    name: 'Staff Invitation',
+    description: 'Sent to staff invited by an admin, with the link to set their password',
+    subject: "You're invited to the Fliptrade Group Admin Panel 🎉",
+    variables: [
+      { name: 'name', description: 'Invited staff member name', sample: 'Jane Doe' },
+      { name: 'email', description: 'Login email', sample: 'jane@example.com' },
+      { name: 'role', description: 'Role they are invited as', sample: 'Accountant' },
+      { name: 'invitedByName', description: 'Admin who sent the invitation', sample: 'John Smith' },
+      { name: 'inviteUrl', description: 'Link to accept the invitation', sample: 'https://admin.fliptradegroup.com/?invite=abc123' },
+      { name: 'expiresInDays', description: 'Days until the link expires', sample: '7' },
+    ],
+    html: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Your Fliptrade Group Invitation</title>
+<style>
+  body {
+    margin: 0;
+    background-color: #f1f3f6;
+    font-family: 'Segoe UI', Arial, sans-serif;
+  }
+
+  .email-wrapper {
+    width: 100%;
+    padding: 40px 0;
+    background-color: #f1f3f6;
+  }
+
+  .email-container {
+    max-width: 620px;
+    margin: 0 auto;
+    background-color: #fff;
+    border-radius: 12px;
+    border: 1px solid #dcdcdc;
+    overflow: hidden;
+    box-shadow: 0 4px 12px rgba(0,0,0,0.08);
+  }
+
+  .header {
+    background-color: #0b0f1a;
+    text-align: center;
+    padding: 35px 20px;
+  }
+
+  .header img {
+    width: 200px;
+    height: auto;
+    background-color: #0b0f1a;
+  }
+
+  .content {
+    padding: 35px 45px;
+    color: #333;
+  }
+
+  .content h1 {
+    font-size: 24px;
+    margin-bottom: 10px;
+    color: #0b0f1a;
+  }
+
+  .content p {
+    font-size: 15px;
+    line-height: 1.6;
+    color: #555;
+  }
+
+  .login-details {
+    background-color: #fafafa;
+    border: 1px solid #e4e4e4;
+    border-radius: 8px;
+    padding: 20px;
+    margin: 25px 0;
+  }
+
+  .login-details p {
+    font-size: 15px;
+    margin: 8px 0;
+  }
+
+  .login-details strong {
+    color: #000;
+  }
+
+  .btn {
+    display: inline-block;
+    background-color: #007bff;
+    color: #ffffff !important;
+    text-decoration: none;
+    padding: 14px 30px;
+    border-radius: 8px;
+    font-weight: 600;
+    font-size: 15px;
+    margin-top: 10px;
+  }
+
+  .footer {
+    text-align: center;
+    background-color: #fafafa;
+    border-top: 1px solid #e6e6e6;
+    padding: 25px;
+    font-size: 13px;
+    color: #777;
+  }
+
+  .footer a {
+    color: #007bff;
+    text-decoration: none;
+  }
+
+  /* Optional: Dark mode support */
+  @media (prefers-color-scheme: dark) {
+    body {
+      background-color: #0b0f1a;
+    }
+    .email-container {
+      background-color: #1a1d26;
+      border: 1px solid #333;
+    }
+    .content, .footer {
+      color: #ddd;
+    }
+    .content h1 {
+      color: #fff;
+    }
+    .login-details {
+      background-color: #222630;
+      border-color: #444;
+    }
+    .footer {
+      background-color: #11141c;
+      border-color: #222;
+    }
+    .header img {
+      background-color: #0b0f1a;
+    }
+  }
+</style>
+</head>
+<body>
+
+<div class="email-wrapper">
+  <div class="email-container">
+    
+    <!-- Header -->
+    <div class="header">
+      <img src="https://www.fliptradegroup.com/_next/image?url=%2F_next%2Fstatic%2Fmedia%2FLogo.b7c8d1a7.webp&w=3840&q=75" alt="Fliptrade Logo">
+    </div>
+
+    <!-- Content -->
+    <div class="content">
+      <h1>You're invited to Fliptrade Group!</h1>
+      <p>Hi <strong>{{name}}</strong>,</p>
+      <p>{{invitedByName}} has invited you to join the Fliptrade Admin Panel. Accept the invitation to choose your password and start managing your tasks, track activities, and collaborate with your team.</p>
+
+      <div class="login-details">
+        <p><strong>Email:</strong> {{email}}</p>
+        <p><strong>Role:</strong> {{role}}</p>
+      </div>
+
+      <a href="{{inviteUrl}}" class="btn">Accept Invitation</a>
+
+      <p style="margin-top:25px;">This link can be used once and expires in {{expiresInDays}} days. If you weren't expecting this invitation, you can ignore this email.</p>
+
+      <p>We're excited to have you on board!<br>– The Fliptrade Group Team</p>
+    </div>
+
+    <!-- Footer -->
+    <div class="footer">
+      <p>Need help? Contact us at <a href="mailto:support@fliptradegroup.com">support@fliptradegroup.com</a> or call +41 2650 06818</p>
+      <p>© {{year}} Fliptrade Group. All rights reserved.</p>
+    </div>
+
+  </div>
+</div>
+
+</body>
+</html>
+`.trim(),
+    text: `
+You're invited to Fliptrade Group!
+
+Hi {{name}},
+
+{{invitedByName}} has invited you to join the Fliptrade Admin Panel.
+
+Email: {{email}}
+Role: {{role}}
+
+Accept the invitation and choose your password: {{inviteUrl}}
+
+This link can be used once and expires in {{expiresInDays}} days. If you weren't expecting this invitation, you can ignore this email.
+
+– The Fliptrade Group Team
+Need help? Contact support@fliptradegroup.com or call +41 2650 06818
+`.trim(),
+  },
+  otp: {
+    name: 'Password Reset Code',
+    description: 'One-time code for the forgot password flow',
+    subject: 'Password Reset Code - Fliptrade Group 🔐',
+    variables: [
+      { name: 'name', description: 'Staff member name', sample: 'Jane Doe' },
+      { name: 'otp', description: 'Verification code', sample: '123456' },
+      { name: 'expiresInMinutes', description: 'Minutes until the code expires', sample: '5' },
+    ],
+    html: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Password Reset - Fliptrade Group</title>
+<style>
+  body {
+    margin: 0;
+    background-color: #f1f3f6;
+    font-family: 'Segoe UI', Arial, sans-serif;
+  }
+
+  .email-wrapper {
+    width: 100%;
+    padding: 40px 0;
+    background-color: #f1f3f6;
+  }
+
+  .email-container {
+    max-width: 620px;
+    margin: 0 auto;
+    background-color: #fff;
+    border-radius: 12px;
+    border: 1px solid #dcdcdc;
+    overflow: hidden;
+    box-shadow: 0 4px 12px rgba(0,0,0,0.08);
+  }
+
+  .header {
+    background-color: #0b0f1a;
+    text-align: center;
+    padding: 35px 20px;
+  }
+
+  .header img {
+    width: 200px;
+    height: auto;
+    background-color: #0b0f1a;
+  }
+
+  .content {
+    padding: 35px 45px;
+    color: #333;
+  }
+
+  .content h1 {
+    font-size: 24px;
+    margin-bottom: 10px;
+    color: #0b0f1a;
+  }
+
+  .content p {
+    font-size: 15px;
+    line-height: 1.6;
+    color: #555;
+  }
+
+  .login-details {
+    background-color: #fafafa;
+    border: 1px solid #e4e4e4;
+    border-radius: 8px;
+    padding: 20px;
+    margin: 25px 0;
+    text-align: center;
+  }
+
+  .login-details p {
+    font-size: 15px;
+    margin: 8px 0;
+  }
+
+  .login-details strong {
+    color: #000;
+  }
+
+  .otp-code {
+    font-size: 36px;
+    font-weight: 700;
+    color: #007bff;
+    letter-spacing: 8px;
+    font-family: 'Monaco', 'Courier New', monospace;
+    margin: 15px 0;
+  }
+
+  .btn {
+    display: inline-block;
+    background-color: #007bff;
+    color: #ffffff !important;
+    text-decoration: none;
+    padding: 14px 30px;
+    border-radius: 8px;
+    font-weight: 600;
+    font-size: 15px;
+    margin-top: 10px;
+  }
+
+  .footer {
+    text-align: center;
+    background-color: #fafafa;
+    border-top: 1px solid #e6e6e6;
+    padding: 25px;
+    font-size: 13px;
+    color: #777;
+  }
+
+  .footer a {
+    color: #007bff;
+    text-decoration: none;
+  }
+
+  /* Optional: Dark mode support */
+  @media (prefers-color-scheme: dark) {
+    body {
+      background-color: #0b0f1a;
+    }
+    .email-container {
+      background-color: #1a1d26;
+      border: 1px solid #333;
+    }
+    .content, .footer {
+      color: #ddd;
+    }
+    .content h1 {
+      color: #fff;
+    }
+    .login-details {
+      background-color: #222630;
+      border-color: #444;
+    }
+    .footer {
+      background-color: #11141c;
+      border-color: #222;
+    }
+    .header img {
+      background-color: #0b0f1a;
+    }
+  }
+</style>
+</head>
+<body>
+
+<div class="email-wrapper">
+  <div class="email-container">
+    
+    <!-- Header -->
+    <div class="header">
+      <img src="https://www.fliptradegroup.com/_next/image?url=%2F_next%2Fstatic%2Fmedia%2FLogo.b7c8d1a7.webp&w=3840&q=75" alt="Fliptrade Logo">
+    </div>
+
+    <!-- Content -->
+    <div class="content">
+      <h1>Password Reset Request</h1>
+      <p>Hi <strong>{{name}}</strong>,</p>
+      <p>We received a request to reset your password for your Fliptrade Admin Panel account. Use the verification code below to complete the password reset process.</p>
+
+      <div class="login-details">
+        <p><strong>Your Verification Code:</strong></p>
+        <div class="otp-code">{{otp}}</div>
+        <p style="color: #888; font-size: 13px; margin-top: 10px;">Valid for {{expiresInMinutes}} minutes</p>
+      </div>
+
+      <p style="margin-top:25px;">For security reasons, please do not share this code with anyone. If you didn't request this password reset, please ignore this email or contact support immediately.</p>
+
+      <p>We're here to help if you need assistance!<br>– The Fliptrade Group Team</p>
+    </div>
+
+    <!-- Footer -->
+    <div class="footer">
+      <p>Need help? Contact us at <a href="mailto:support@fliptradegroup.com">support@fliptradegroup.com</a> or call +41 2650 06818</p>
+      <p>© {{year}} Fliptrade Group. All rights reserved.</p>
+    </div>
+
+  </div>
+</div>
+
+</body>
+</html>
+`.trim(),
+    text: `
+Password Reset Request
+
+Hi {{name}},
+
+We received a request to reset your password for your Fliptrade Admin Panel account.
+
+Your verification code: {{otp}}
+Valid for {{expiresInMinutes}} minutes.
+
+Do not share this code with anyone. If you didn't request this password reset, please ignore this email or contact support.
+
+– The Fliptrade Group Team
+Need help? Contact support@fliptradegroup.com or call +41 2650 06818
+`.trim(),
+  },
+  'new-login': {
+    name: 'New Sign-In Alert',
+    description: 'Sent to the account owner and admins when an account signs in from an IP address not seen before',
+    subject: 'New sign-in to {{accountName}}\'s account - Fliptrade Group 🔔',
+    variables: [
+      { name: 'name', description: 'Recipient name', sample: 'John Smith' },
+      { name: 'accountName', description: 'Name of the account that signed in', sample: 'Jane Doe' },
+      { name: 'accountEmail', description: 'Email of the account that signed in', sample: 'jane@example.com' },
+      { name: 'ipAddress', description: 'IP address of the sign-in', sample: '203.0.113.7' },
+      { name: 'userAgent', description: 'Browser or device of the sign-in', sample: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)' },
+      { name: 'signedInAt', description: 'Time of the sign-in (UTC)', sample: '2025-01-15 09:30 UTC' },
+    ],
+    html: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>New Sign-In - Fliptrade Group</title>
+<style>
+  body {
+    margin: 0;
+    background-color: #f1f3f6;
+    font-family: 'Segoe UI', Arial, sans-serif;
+  }
+
+  .email-wrapper {
+    width: 100%;
+    padding: 40px 0;
+    background-color: #f1f3f6;
+  }
+
+  .email-container {
+    max-width: 620px;
+    margin: 0 auto;
+    background-color: #fff;
+    border-radius: 12px;
+    border: 1px solid #dcdcdc;
+    overflow: hidden;
+    box-shadow: 0 4px 12px rgba(0,0,0,0.08);
+  }
+
+  .header {
+    background-color: #0b0f1a;
+    text-align: center;
+    padding: 35px 20px;
+  }
+
+  .header img {
+    width: 200px;
+    height: auto;
+    background-color: #0b0f1a;
+  }
+
+  .content {
+    padding: 35px 45px;
+    color: #333;
+  }
+
+  .content h1 {
+    font-size: 24px;
+    margin-bottom: 10px;
+    color: #0b0f1a;
+  }
+
+  .content p {
+    font-size: 15px;
+    line-height: 1.6;
+    color: #555;
+  }
+
+  .login-details {
+    background-color: #fafafa;
+    border: 1px solid #e4e4e4;
+    border-radius: 8px;
+    padding: 20px;
+    margin: 25px 0;
+    text-align: center;
+  }
+
+  .login-details p {
+    font-size: 15px;
+    margin: 8px 0;
+  }
+
+  .login-details strong {
+    color: #000;
+  }
+
+  .otp-code {
+    font-size: 36px;
+    font-weight: 700;
+    color: #007bff;
+    letter-spacing: 8px;
+    font-family: 'Monaco', 'Courier New', monospace;
+    margin: 15px 0;
+  }
+
+  .btn {
+    display: inline-block;
+    background-color: #007bff;
+    color: #ffffff !important;
+    text-decoration: none;
+    padding: 14px 30px;
+    border-radius: 8px;
+    font-weight: 600;
+    font-size: 15px;
+    margin-top: 10px;
+  }
+
+  .footer {
+    text-align: center;
+    background-color: #fafafa;
+    border-top: 1px solid #e6e6e6;
+    padding: 25px;
+    font-size: 13px;
+    color: #777;
+  }
+
+  .footer a {
+    color: #007bff;
+    text-decoration: none;
+  }
+
+  /* Optional: Dark mode support */
+  @media (prefers-color-scheme: dark) {
+    body {
+      background-color: #0b0f1a;
+    }
+    .email-container {
+      background-color: #1a1d26;
+      border: 1px solid #333;
+    }
+    .content, .footer {
+      color: #ddd;
+    }
+    .content h1 {
+      color: #fff;
+    }
+    .login-details {
+      background-color: #222630;
+      border-color: #444;
+    }
+    .footer {
+      background-color: #11141c;
+      border-color: #222;
+    }
+    .header img {
+      background-color: #0b0f1a;
+    }
+  }
+</style>
+</head>
+<body>
+
+<div class="email-wrapper">
+  <div class="email-container">
+    
+    <!-- Header -->
+    <div class="header">
+      <img src="https://www.fliptradegroup.com/_next/image?url=%2F_next%2Fstatic%2Fmedia%2FLogo.b7c8d1a7.webp&w=3840&q=75" alt="Fliptrade Logo">
+    </div>
+
+    <!-- Content -->
+    <div class="content">
+      <h1>New Sign-In Detected</h1>
+      <p>Hi <strong>{{name}}</strong>,</p>
+      <p>The Fliptrade Admin Panel account of <strong>{{accountName}}</strong> was just signed in to from an IP address it has not used before.</p>
+
+      <div class="login-details">
+        <p><strong>Account:</strong> {{accountEmail}}</p>
+        <p><strong>IP Address:</strong> {{ipAddress}}</p>
+        <p><strong>Device:</strong> {{userAgent}}</p>
+        <p><strong>Time:</strong> {{signedInAt}}</p>
+      </div>
+
+      <p style="margin-top:25px;">If this was expected, no action is needed. Otherwise change the password right away and sign out the account's other sessions, or contact an administrator.</p>
+
+      <p>Stay safe!<br>– The Fliptrade Group Team</p>
+    </div>
+
+    <!-- Footer -->
+    <div class="footer">
+      <p>Need help? Contact us at <a href="mailto:support@fliptradegroup.com">support@fliptradegroup.com</a> or call +41 2650 06818</p>
+      <p>© {{year}} Fliptrade Group. All rights reserved.</p>
+    </div>
+
+  </div>
+</div>
+
+</body>
+</html>
+`.trim(),
+    text: `
+New Sign-In Detected
+
+Hi {{name}},
+
+The Fliptrade Admin Panel account of {{accountName}} was just signed in to from an IP address it has not used before.
+
+Account: {{accountEmail}}
+IP address: {{ipAddress}}
+Device: {{userAgent}}
+Time: {{signedInAt}}
+
+If this was expected, no action is needed. Otherwise change the password right away and sign out the account's other sessions, or contact an administrator.
+
+– The Fliptrade Group Team
+Need help? Contact support@fliptradegroup.com or call +41 2650 06818
+`.trim(),
+  },
+};
+
+export function isBuiltInTemplate(key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_TEMPLATES, key);
+}
+
+function toEmailTemplate(key: string, stored: any): EmailTemplate | null {
+  const source = stored || BUILT_IN_TEMPLATES[key];
+  if (!source) return null;
+  return {
+    name: source.name,
+    description: source.description,
+    subject: source.subject,
+    html: source.html,
+    text: source.text,
+    variables: source.variables || [],
+    id: key,
+    builtIn: isBuiltInTemplate(key),
+    customized: !!stored,
+    updatedAt: stored?.updatedAt,
+    updatedBy: stored?.updatedBy,
+  };
+}
+
+export async function getTemplate(key: string): Promise<EmailTemplate | null> {
+  return toEmailTemplate(key, await repos.emailTemplates.get(key));
+}
+
+// Built-in templates (edited or not) followed by custom ones, by name
+export async function listTemplates(): Promise<EmailTemplate[]> {
+  const stored = new Map((await repos.emailTemplates.list()).map((template: any) => [template.id, template]));
+  const keys = new Set([...Object.keys(BUILT_IN_TEMPLATES), ...stored.keys()]);
+  return [...keys]
+    .map((key) => toEmailTemplate(key, stored.get(key))!)
+    .sort((a, b) => Number(b.builtIn) - Number(a.builtIn) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Renders the current version of a template. Throws if no template has this key.
+ */
+export async function renderEmail(key: string, data: TemplateData): Promise<RenderResult> {
+  const template = await getTemplate(key);
+  if (!template) {
+    throw new Error(`Email template not found: ${key}`);
+  }
+  const result = renderTemplate(template, data);
+  if (result.missing.length > 0) {
+    console.log(`Email template ${key} rendered without: ${result.missing.join(', ')}`);
+  }
+  return result;
+}
@@ -0,0 +1,157 @@
+// Exports
+// Spreadsheet downloads of the deposits, bank transactions, staff and activity lists. Rows are built from
+// column definitions and written as CSV or XLSX; the routes in index.tsx apply the list filters and the
+// caller's visibility before handing the records over.
+
+import { bankCurrency, depositCurrencies, depositStatus, type ExportFormat } from './contract.tsx';
+
+export interface ExportColumn<T = any> {
+  header: string;
+  value: (record: T) => string | number | null | undefined;
+}
+
+export interface ExportFile {
+  body: Uint8Array;
+  contentType: string;
+  filename: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const sum = (items: any[] | undefined, pick: (item: any) => number) =>
+  (items || []).reduce((total, item) => total + (Number(pick(item)) || 0), 0);
+
+// ==================== COLUMNS ====================
+
+/**
+ * One row per deposit entry. Incentives and expenses are itemised into numbered column groups, as many as the
+ * longest entry in the export needs, followed by their totals.
+ */
+export function depositColumns(deposits: any[]): ExportColumn[] {
+  const incentiveCount = deposits.reduce((max, d) => Math.max(max, d.clientIncentives?.length || 0), 0);
+  const expenseCount = deposits.reduce((max, d) => Math.max(max, d.expenses?.length || 0), 0);
+  const totalDeposits = (d: any) => (d.localDeposit || 0) + (d.usdtDeposit || 0) + (d.cashDeposit || 0);
+  const totalWithdraws = (d: any) => (d.localWithdraw || 0) + (d.usdtWithdraw || 0) + (d.cashWithdraw || 0);
+  const totalIncentives = (d: any) => sum(d.clientIncentives, (ci) => ci.amount);
+  const totalExpenses = (d: any) => sum(d.expenses, (exp) => exp.amount);
+
+  return [
+    { header: 'Date', value: (d) => d.date },
+    { header: 'Submitted By', value: (d) => d.submittedByName },
+    { header: 'Status', value: (d) => depositStatus(d) },
+    { header: 'Local Deposit', value: (d) => d.localDeposit || 0 },
+    { header: 'USDT Deposit', value: (d) => d.usdtDeposit || 0 },
+    { header: 'Cash Deposit', value: (d) => d.cashDeposit || 0 },
+    { header: 'Local Withdraw', value: (d) => d.localWithdraw || 0 },
+    { header: 'USDT Withdraw', value: (d) => d.usdtWithdraw || 0 },
+    { header: 'Cash Withdraw', value: (d) => d.cashWithdraw || 0 },
+    { header: 'Local Currency', value: (d) => depositCurrencies(d).local },
+    { header: 'USDT Currency', value: (d) => depositCurrencies(d).usdt },
+    { header: 'Cash Currency', value: (d) => depositCurrencies(d).cash },
+    { header: 'Total Deposits', value: totalDeposits },
+    { header: 'Total Withdraws', value: totalWithdraws },
+    ...Array.from({ length: incentiveCount }, (_, i): ExportColumn[] => [
+      { header: `Incentive ${i + 1} Client`, value: (d) => d.clientIncentives?.[i]?.name },
+      { header: `Incentive ${i + 1} Amount`, value: (d) => d.clientIncentives?.[i]?.amount },
+    ]).flat(),
+    { header: 'Total Incentives', value: totalIncentives },
+    { header: 'Incentive Currency', value: (d) => depositCurrencies(d).incentives },
+    ...Array.from({ length: expenseCount }, (_, i): ExportColumn[] => [
+      { header: `Expense ${i + 1} Type`, value: (d) => d.expenses?.[i]?.type },
+      { header: `Expense ${i + 1} Amount`, value: (d) => d.expenses?.[i]?.amount },
+      { header: `Expense ${i + 1} Description`, value: (d) => d.expenses?.[i]?.description },
+    ]).flat(),
+    { header: 'Total Expenses', value: totalExpenses },
+    { header: 'Expense Currency', value: (d) => depositCurrencies(d).expenses },
+    // Same as the Today's Balance column of the deposits table
+    { header: 'Balance', value: (d) => totalDeposits(d) - totalWithdraws(d) - totalIncentives(d) - totalExpenses(d) },
+    { header: 'Created At', value: (d) => d.createdAt },
+  ];
+}
+
+export function bankTransactionColumns(banks: Map<string, { name: string; currency?: string }>): ExportColumn[] {
+  return [
+    { header: 'Date', value: (t) => t.date },
+    { header: 'Bank', value: (t) => banks.get(t.bankId)?.name || 'Unknown Bank' },
+    { header: 'Currency', value: (t) => bankCurrency(banks.get(t.bankId)) },
+    { header: 'Deposit', value: (t) => t.deposit || 0 },
+    { header: 'Withdraw', value: (t) => t.withdraw || 0 },
+    { header: 'P&L', value: (t) => t.pnl || 0 },
+    { header: 'Remaining', value: (t) => t.remaining ?? t.remainingBalance ?? 0 },
+    { header: 'Submitted By', value: (t) => t.submittedByName },
+    { header: 'Created At', value: (t) => t.createdAt },
+  ];
+}
+
+export const staffColumns: ExportColumn[] = [
+  { header: 'Name', value: (s) => s.name },
+  { header: 'Email', value: (s) => s.email },
+  { header: 'Role', value: (s) => s.role },
+  { header: 'Status', value: (s) => s.status },
+  { header: 'Two-Factor', value: (s) => (s.twoFactorEnabled ? 'Enabled' : 'Off') },
+  { header: 'Last Login', value: (s) => s.lastLogin },
+  { header: 'Created At', value: (s) => s.createdAt },
+];
+
+export const activityColumns: ExportColumn[] = [
+  { header: 'Timestamp', value: (a) => a.timestamp },
+  { header: 'Type', value: (a) => a.action },
+  { header: 'Activity', value: (a) => a.description },
+  { header: 'Details', value: (a) => a.details },
+  { header: 'User', value: (a) => a.userName },
+  { header: 'IP Address', value: (a) => a.ipAddress },
+];
+
+// ==================== WRITERS ====================
+
+// Text starting with these is run as a formula by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(columns: ExportColumn[], records: any[]): string {
+  const lines = [
+    columns.map((column) => csvCell(column.header)).join(','),
+    ...records.map((record) => columns.map((column) => csvCell(column.value(record))).join(',')),
+  ];
+  // The byte order mark makes Excel read the file as UTF-8
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+export async function toXlsx(sheetName: string, columns: ExportColumn[], records: any[]): Promise<Uint8Array> {
+  const XLSX = await import('npm:xlsx@0.18.5');
+  const rows = [
+    columns.map((column) => column.header),
+    ...records.map((record) => columns.map((column) => column.value(record) ?? null)),
+  ];
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = columns.map((column) => ({ wch: Math.max(10, column.header.length + 2) }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName);
+  return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+}
+
+/**
+ * Builds the download, named e.g. `deposits-2024-05-01.xlsx`
+ */
+export async function buildExport(name: string, format: ExportFormat, columns: ExportColumn[], records: any[]): Promise<ExportFile> {
+  const body = format === 'xlsx'
+    ? await toXlsx(name.charAt(0).toUpperCase() + name.slice(1).replace(/-/g, ' '), columns, records)
+    : new TextEncoder().encode(toCsv(columns, records));
+
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    filename: `${name}-${new Date().toISOString().split('T')[0]}.${format}`,
+  };
+}
@@ -0,0 +1,329 @@
+// Imports
+// Bulk import of historical deposits and bank transactions from spreadsheets. The client maps the file's
+// columns to fields and sends the cells as text; each row is converted and then validated with the same
+// contract schema as the forms. A dry run only reports. A real import writes every row or none, all tagged
+// with one batch so the import can be rolled back. Imported deposit entries are historical and count as
+// approved by the admin who imported them. Batches are stored as:
+//   importBatch:{id} - ImportBatch, with the ids of the records it wrote
+
+import * as kv from './storage.tsx';
+import { repos } from './repositories.tsx';
+import { rebalanceBank } from './ledger.tsx';
+import { recordAudit } from './audit.tsx';
+import {
+  validate,
+  depositInputSchema,
+  bankTransactionInputSchema,
+  EXPENSE_TYPES,
+  type BankAlias,
+  type BankTransactionImportRow,
+  type BankTransactionInput,
+  type DepositImportRow,
+  type DepositInput,
+  type FieldErrors,
+  type ImportBatch,
+  type ImportDateFormat,
+  type ImportReport,
+  type ImportRowError,
+  type ImportType,
+  type ObjectSchema,
+} from './contract.tsx';
+
+// Records written or removed at a time
+const WRITE_CHUNK_SIZE = 50;
+
+type Actor = { id: string; name: string; ipAddress?: string };
+
+const batchKey = (id: string) => `importBatch:${id}`;
+
+// ==================== CONVERSION ====================
+
+const isBlank = (value: string | undefined) => !value || value.trim() === '';
+
+export const normalizeBankName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * `YYYY-MM-DD` for a date cell in the chosen format, or null if it isn't a real date. Spreadsheets often
+ * append a time (`2024-03-01 00:00:00`), which is ignored.
+ */
+export function parseImportDate(value: string, format: ImportDateFormat): string | null {
+  const text = value.trim().split(/[ T]/)[0];
+  const parts = text.split(/[-/.]/).map((part) => parseInt(part, 10));
+  if (parts.length !== 3 || parts.some(isNaN)) return null;
+
+  const [year, month, day] =
+    format === 'YYYY-MM-DD' ? parts
+    : format === 'DD/MM/YYYY' ? [parts[2], parts[1], parts[0]]
+    : [parts[2], parts[0], parts[1]];
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (year < 1900 || date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Number in a cell, allowing currency symbols, thousands separators and accounting negatives (`(1,200)`).
+ * Empty cells are 0; undefined means the cell isn't a number.
+ */
+export function parseImportAmount(value: string | undefined): number | undefined {
+  if (isBlank(value)) return 0;
+
+  let text = value!.trim().replace(/[$€£₹\s,]/g, '');
+  const negative = /^\(.*\)$/.test(text);
+  if (negative) text = text.slice(1, -1);
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return undefined;
+
+  const amount = Number(text);
+  return negative ? -amount : amount;
+}
+
+// Converts the numeric cells, recording an error for each one that isn't a number
+function amounts<Row>(row: Row, fields: (keyof Row & string)[], errors: FieldErrors) {
+  const result: Record<string, number> = {};
+  for (const field of fields) {
+    const amount = parseImportAmount(row[field] as string | undefined);
+    if (amount === undefined) {
+      errors[field] = 'Not a number';
+    } else {
+      result[field] = amount;
+    }
+  }
+  return result;
+}
+
+const DEPOSIT_FIELD_NAMES: Record<string, string> = {
+  'clientIncentives.0.name': 'incentiveClient',
+  'clientIncentives.0.amount': 'incentiveAmount',
+  'expenses.0.type': 'expenseType',
+  'expenses.0.amount': 'expenseAmount',
+  'expenses.0.description': 'expenseDescription',
+};
+
+const DEPOSIT_AMOUNT_FIELDS = ['localDeposit', 'usdtDeposit', 'cashDeposit', 'localWithdraw', 'usdtWithdraw', 'cashWithdraw', 'incentiveAmount', 'expenseAmount'] as const;
+
+function convertDepositRow(row: DepositImportRow, index: number, dateFormat: ImportDateFormat) {
+  const errors: FieldErrors = {};
+  const date = isBlank(row.date) ? undefined : parseImportDate(row.date!, dateFormat);
+  if (date === null) errors.date = `Not a ${dateFormat} date`;
+
+  const values = amounts(row, [...DEPOSIT_AMOUNT_FIELDS], errors);
+  const expenseTypeText = isBlank(row.expenseType) ? '' : row.expenseType!.trim();
+  const expenseType = EXPENSE_TYPES.find((type) => type.toLowerCase() === expenseTypeText.toLowerCase());
+  if (expenseTypeText && !expenseType) {
+    errors.expenseType = `Must be one of: ${EXPENSE_TYPES.join(', ')}`;
+  } else if (!expenseType && values.expenseAmount) {
+    errors.expenseType = 'Required';
+  }
+
+  const input: DepositInput = {
+    date: date || '',
+    localDeposit: values.localDeposit,
+    usdtDeposit: values.usdtDeposit,
+    cashDeposit: values.cashDeposit,
+    localWithdraw: values.localWithdraw,
+    usdtWithdraw: values.usdtWithdraw,
+    cashWithdraw: values.cashWithdraw,
+    clientIncentives: isBlank(row.incentiveClient) && !values.incentiveAmount
+      ? []
+      : [{ id: `import_${index}_incentive`, name: row.incentiveClient || '', amount: values.incentiveAmount }],
+    expenses: expenseType
+      ? [{ id: `import_${index}_expense`, type: expenseType, amount: values.expenseAmount, description: row.expenseDescription || undefined }]
+      : [],
+  };
+
+  return checkInput(depositInputSchema, input, errors, index, DEPOSIT_FIELD_NAMES);
+}
+
+function convertBankTransactionRow(
+  row: BankTransactionImportRow,
+  index: number,
+  dateFormat: ImportDateFormat,
+  bankIds: Map<string, string>,
+  unmatchedBanks: Set<string>,
+) {
+  const errors: FieldErrors = {};
+  const date = isBlank(row.date) ? undefined : parseImportDate(row.date!, dateFormat);
+  if (date === null) errors.date = `Not a ${dateFormat} date`;
+
+  const bankId = isBlank(row.bank) ? '' : bankIds.get(normalizeBankName(row.bank!));
+  if (bankId === undefined) {
+    errors.bank = `No bank named "${row.bank!.trim()}"`;
+    unmatchedBanks.add(row.bank!.trim());
+  }
+
+  const values = amounts(row, ['deposit', 'withdraw', 'pnl'], errors);
+  const input: BankTransactionInput = {
+    date: date || '',
+    bankId: bankId || '',
+    deposit: values.deposit,
+    withdraw: values.withdraw,
+    pnl: values.pnl,
+  };
+
+  return checkInput(bankTransactionInputSchema, input, errors, index, { bankId: 'bank' });
+}
+
+// Schema check of a converted row. Schema errors are keyed by input path and reported under the import field
+// the user mapped; a cell that already failed to convert keeps its own message.
+function checkInput<T>(schema: ObjectSchema<T>, input: T, conversionErrors: FieldErrors, index: number, fieldNames: Record<string, string>) {
+  const result = validate(schema, input);
+  const errors: FieldErrors = { ...conversionErrors };
+  if (!result.ok) {
+    for (const [path, message] of Object.entries(result.errors)) {
+      errors[fieldNames[path] || path] ??= message;
+    }
+  }
+
+  const rowErrors: ImportRowError[] = Object.entries(errors).map(([field, message]) => ({ row: index + 1, field, message }));
+  return { input: result.ok && rowErrors.length === 0 ? result.value : null, errors: rowErrors };
+}
+
+// ==================== IMPORT ====================
+
+interface ImportOptions<Row> {
+  rows: Row[];
+  dateFormat: ImportDateFormat;
+  bankAliases?: BankAlias[];
+}
+
+/**
+ * Converts and validates every row. `inputs` is only complete when there are no errors.
+ */
+export async function validateImport(type: ImportType, { rows, dateFormat, bankAliases = [] }: ImportOptions<any>) {
+  const errors: ImportRowError[] = [];
+  const inputs: any[] = [];
+  const unmatchedBanks = new Set<string>();
+
+  const bankIds = new Map<string, string>();
+  if (type === 'bankDeposits') {
+    const banks = await repos.banks.list();
+    for (const bank of banks) bankIds.set(normalizeBankName(bank.name), bank.id);
+    for (const alias of bankAliases) {
+      if (banks.some((bank: any) => bank.id === alias.bankId)) {
+        bankIds.set(normalizeBankName(alias.name), alias.bankId);
+      }
+    }
+  }
+
+  rows.forEach((row, index) => {
+    if (Object.values(row).every((value) => isBlank(value as string | undefined))) {
+      errors.push({ row: index + 1, field: 'row', message: 'Row is empty' });
+      return;
+    }
+
+    const converted = type === 'deposits'
+      ? convertDepositRow(row, index, dateFormat)
+      : convertBankTransactionRow(row, index, dateFormat, bankIds, unmatchedBanks);
+    errors.push(...converted.errors);
+    if (converted.input) inputs.push(converted.input);
+  });
+
+  const report: ImportReport = {
+    total: rows.length,
+    valid: inputs.length,
+    errors,
+    unmatchedBanks: [...unmatchedBanks].sort(),
+  };
+  return { report, inputs };
+}
+
+async function inChunks<T>(items: T[], task: (item: T) => Promise<unknown>) {
+  for (let start = 0; start < items.length; start += WRITE_CHUNK_SIZE) {
+    await Promise.all(items.slice(start, start + WRITE_CHUNK_SIZE).map(task));
+  }
+}
+
+/**
+ * Writes validated inputs as one batch, recorded for `submitter`. Bank balances are recomputed afterwards.
+ */
+export async function commitImport(
+  type: ImportType,
+  inputs: any[],
+  submitter: { id: string; name: string },
+  actor: Actor,
+): Promise<ImportBatch> {
+  const now = Date.now();
+  const batch: ImportBatch = {
+    id: `${now}_${Math.random().toString(36).slice(2, 11)}`,
+    type,
+    count: inputs.length,
+    recordIds: [],
+    submittedBy: submitter.id,
+    submittedByName: submitter.name,
+    importedBy: actor.id,
+    importedByName: actor.name,
+    createdAt: new Date(now).toISOString(),
+  };
+
+  const records = inputs.map((input, index) => ({
+    ...input,
+    id: `${now}_${submitter.id}_${index}`,
+    submittedBy: submitter.id,
+    submittedByName: submitter.name,
+    createdAt: batch.createdAt,
+    importBatchId: batch.id,
+    ...(type === 'deposits'
+      ? { status: 'approved' as const, reviewedBy: actor.id, reviewedByName: actor.name, reviewedAt: batch.createdAt }
+      : {}),
+  }));
+  batch.recordIds = records.map((record) => record.id);
+
+  // The batch is saved first, so a failed import can still be rolled back
+  await kv.set(batchKey(batch.id), batch);
+
+  const repository = type === 'deposits' ? repos.deposits : repos.bankDeposits;
+  const entityType = type === 'deposits' ? 'deposit' : 'bankDeposit';
+  await inChunks(records, async (record) => {
+    await repository.save(record);
+    await recordAudit(entityType, record.id, 'create', null, record, actor);
+  });
+
+  if (type === 'bankDeposits') {
+    for (const bankId of new Set(records.map((record) => record.bankId))) {
+      await rebalanceBank(bankId);
+    }
+  }
+
+  return batch;
+}
+
+/**
+ * Deletes the records of a batch that still exist and marks the batch rolled back
+ */
+export async function rollbackImport(batch: ImportBatch, actor: Actor): Promise<ImportBatch> {
+  const repository = batch.type === 'deposits' ? repos.deposits : repos.bankDeposits;
+  const entityType = batch.type === 'deposits' ? 'deposit' : 'bankDeposit';
+  const affectedBanks = new Set<string>();
+
+  await inChunks(batch.recordIds, async (id) => {
+    const record = await repository.get(id);
+    if (!record) return;
+    await repository.remove(id);
+    await recordAudit(entityType, id, 'delete', record, null, actor);
+    if (record.bankId) affectedBanks.add(record.bankId);
+  });
+
+  for (const bankId of affectedBanks) {
+    await rebalanceBank(bankId);
+  }
+
+  const rolledBack = { ...batch, rolledBackAt: new Date().toISOString(), rolledBackByName: actor.name };
+  await kv.set(batchKey(batch.id), rolledBack);
+  return rolledBack;
+}
+
+export async function getImportBatch(id: string): Promise<ImportBatch | null> {
+  return kv.get(batchKey(id));
+}
+
+/**
+ * Import batches, newest first, without their record ids
+ */
+export async function listImportBatches(): Promise<Omit<ImportBatch, 'recordIds'>[]> {
+  const batches: ImportBatch[] = await kv.getByPrefix('importBatch:');
+  return batches
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(({ recordIds: _recordIds, ...batch }) => batch);
+}
@@ -1,30 +1,220 @@
-import { Hono } from 'npm:hono';
+import { Hono, type Context } from 'npm:hono';
 import { cors } from 'npm:hono/cors';
 import { logger } from 'npm:hono/logger';
 import { createClient } from 'jsr:@supabase/supabase-js@2';
-import * as kv from './kv_store.tsx';
-import { sendEmail, getWelcomeEmailHTML, getOTPEmailHTML } from './email-service.tsx';
-
-const app = new Hono();
+import { isLocalStorageBackend } from './storage.tsx';
+import {
+  repos,
+  assertDataStoreConfigured,
+  pageWindow,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  type RecordQuery,
+  type QueryableRepository,
+  type BankDepositDayTotals,
+} from './repositories.tsx';
+import { queueEmail, queueTemplateEmail, processOutbox, resendEmail, toOutboxEmail } from './outbox.tsx';
+import { getTemplate, listTemplates, isBuiltInTemplate, renderTemplate, sampleData } from './email-templates.tsx';
+import {
+  OTP_TTL_MINUTES,
+  normalizeEmail,
+  isOtpDebugEchoEnabled,
+  lockoutRemaining,
+  checkSendLimits,
+  issueOtp,
+  verifyOtp,
+  peekResetToken,
+  consumeResetToken,
+} from './password-reset.tsx';
+import { getPasswordPolicy, setPasswordPolicy, passwordProblem, recordPasswordChange } from './password-policy.tsx';
+import {
+  MAX_ACCOUNT_FAILURES,
+  LOCK_MINUTES,
+  ipBlockedFor,
+  accountLockedFor,
+  lockExpiry,
+  recordFailedLogin,
+  listFailedLogins,
+  clearFailedLogins,
+  getKnownIps,
+  rememberLoginIp,
+  pruneIpFailures,
+} from './login-attempts.tsx';
+import {
+  createAuthGuards,
+  canActOnRecord,
+  canViewAll,
+  hasPermission,
+  forbidden,
+  authError,
+  getFullPermissions,
+  getEmptyPermissions,
+  normalizePermissions,
+  permissionChanges,
+  type AuthEnv,
+} from './auth.tsx';
+import {
+  validate,
+  summarizeFieldErrors,
+  signupSchema,
+  loginSchema,
+  inviteStaffSchema,
+  invitationLookupSchema,
+  acceptInvitationSchema,
+  depositInputSchema,
+  depositCreateSchema,
+  depositReviewSchema,
+  depositStatus,
+  DEPOSIT_STATUSES,
+  bankTransactionInputSchema,
+  bankInputSchema,
+  staffUpdateSchema,
+  profileUpdateSchema,
+  roleInputSchema,
+  activityRetentionSchema,
+  EXPORT_FORMATS,
+  depositImportSchema,
+  bankTransactionImportSchema,
+  dashboardMetricsQuerySchema,
+  ledgerQuerySchema,
+  emailTemplateInputSchema,
+  newEmailTemplateSchema,
+  sendOtpSchema,
+  verifyOtpSchema,
+  resetPasswordSchema,
+  changePasswordSchema,
+  passwordPolicySchema,
+  twoFactorCodeSchema,
+  twoFactorPolicySchema,
+  currencySettingsSchema,
+  exchangeRateInputSchema,
+  exchangeRateQuerySchema,
+  exchangeRateImportSchema,
+  isoDate,
+  bankCurrency,
+  type AuditEntry,
+  type ActivityType,
+  type LoginActivity,
+  type LoginSession,
+  type DepositCurrencies,
+  type DepositStatus,
+  type ExportFormat,
+  type FieldErrors,
+  type ImportType,
+  type ObjectSchema,
+} from './contract.tsx';
+import {
+  getRequiredRoles,
+  setRequiredRoles,
+  renameRequiredRole,
+  secondFactorStatus,
+  startEnrollment,
+  enableTwoFactor,
+  verifySecondFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+} from './two-factor.tsx';
+import { listSessions, revokeSession, revokeAllSessions } from './sessions.tsx';
+import {
+  INVITE_TTL_DAYS,
+  createInvitation,
+  renewInvitation,
+  getInvitation,
+  listInvitations,
+  findInvitationByEmail,
+  findInvitationByToken,
+  deleteInvitation,
+  invitationUrl,
+} from './invitations.tsx';
+import { recordAudit, getAuditHistory } from './audit.tsx';
+import {
+  appendActivity,
+  verifyActivityChain,
+  getRetention,
+  setRetention,
+  archiveExpiredActivities,
+  listArchives,
+  getArchive,
+} from './activity-log.tsx';
+import {
+  buildExport,
+  depositColumns,
+  bankTransactionColumns,
+  staffColumns,
+  activityColumns,
+  type ExportColumn,
+} from './export.tsx';
+import { validateImport, commitImport, rollbackImport, getImportBatch, listImportBatches } from './import.tsx';
+import { consumeRateLimit, resetRateLimit } from './rate-limit.tsx';
+import { rebalanceBank, getBankLedger } from './ledger.tsx';
+import {
+  presetBounds,
+  defaultInterval,
+  summarizeMetrics,
+  buildMetricsSeries,
+  summarizeDepositDays,
+  summarizeBankDepositDays,
+} from './metrics.tsx';
+import {
+  getCurrencySettings,
+  setCurrencySettings,
+  currencySettingsProblems,
+  listRateTables,
+  getRateTable,
+  saveRateTable,
+  deleteRateTable,
+  ratesProblems,
+  createConverter,
+  validateRateImport,
+  commitRateImport,
+} from './currency.tsx';
+
+const app = new Hono<AuthEnv>();
 
 // CORS middleware
 app.use('*', cors({
   origin: '*',
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowHeaders: ['Content-Type', 'Authorization'],
+  // Read by the client for the file name of exports
+  exposeHeaders: ['Content-Disposition'],
 }));
 
 // Logger middleware
 app.use('*', logger(console.log));
 
 // Create Supabase client with service role key (for admin operations)
+// Local storage backends fall back to placeholder credentials so the app can boot offline
 const supabase = createClient(
-  Deno.env.get('SUPABASE_URL')!,
-  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  Deno.env.get('SUPABASE_URL') || (isLocalStorageBackend() ? 'http://localhost:54321' : ''),
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || (isLocalStorageBackend() ? 'local-service-role-key' : ''),
+);
+
+// Password sign-in for POST /login and the current-password check of POST /change-password, on a client of its
+// own so the user's session never replaces the service role on the shared client
+const createSignInClient = () => createClient(
+  Deno.env.get('SUPABASE_URL') || '',
+  Deno.env.get('SUPABASE_ANON_KEY') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '',
+  { auth: { persistSession: false, autoRefreshToken: false } },
 );
 
+// Offline auth: with a local storage backend and LOCAL_AUTH=true, a bearer token of the form
+// "local:<staffId>" authenticates as that staff record without calling Supabase Auth
+const isLocalAuthEnabled = () => isLocalStorageBackend() && Deno.env.get('LOCAL_AUTH') === 'true';
+
+// Session id claim of a Supabase access token (already verified by getUser), used to track two-factor
+// verification per login session
+function tokenSessionId(token: string): string | undefined {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload)).session_id || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 // Helper function to verify user authentication
-async function verifyUser(authHeader: string | null) {
+async function verifyUser(authHeader?: string | null) {
   if (!authHeader) {
     return { error: 'No authorization header', user: null };
   }
@@ -34,6 +224,14 @@ async function verifyUser(authHeader: string | null) {
     return { error: 'Invalid authorization format', user: null };
   }
 
+  if (isLocalAuthEnabled() && token.startsWith('local:')) {
+    const staffData = await repos.staff.get(token.slice('local:'.length));
+    if (!staffData) {
+      return { error: 'Invalid token', user: null };
+    }
+    return { user: { id: staffData.id, email: staffData.email } as any, error: null, sessionId: token };
+  }
+
   try {
     // Use service role key client to verify the user token
     const { data: { user }, error } = await supabase.auth.getUser(token);
@@ -43,63 +241,39 @@ async function verifyUser(authHeader: string | null) {
       return { error: error?.message || 'Invalid token', user: null };
     }
     
-    return { user, error: null };
+    return { user, error: null, sessionId: tokenSessionId(token) };
   } catch (err) {
     console.log('Token verification exception:', err);
     return { error: 'Token verification failed', user: null };
   }
 }
 
+const { authenticate, authenticateFirstFactor, authenticatePasswordChange, requirePermission, requireRole } = createAuthGuards(verifyUser, getClientIP);
+
 // ==================== AUTH ROUTES ====================
 
-// Sign up route
+// Sign up route: only creates the first account (a Super Admin with full permissions). Everyone after that is
+// added by invitation, so no admin ever chooses or sees another member's password
 app.post('/make-server-63060bc2/signup', async (c) => {
   try {
-    const { email, password, name, role, permissions } = await c.req.json();
+    const body = await readBody(c, signupSchema);
+    if (body.invalid) return body.invalid;
+    const { email, password, name, role } = body.value;
 
-    if (!email || !password || !name || !role) {
-      return c.json({ error: 'Email, password, name, and role are required' }, 400);
+    const staffList = await repos.staff.listIds();
+    if (staffList.length > 0) {
+      return c.json({ error: 'Sign up is closed. Ask an admin to send you an invitation.', code: 'SIGNUP_CLOSED' }, 403);
     }
 
-    // Check if this is being called by an authenticated admin (for adding staff)
-    // or if it's the first user signup (no auth required)
-    const authHeader = c.req.header('Authorization');
-    const staffList = (await kv.get('staff:list')) || [];
-    const isFirstUser = staffList.length === 0;
-
-    // If not the first user, verify permissions
-    if (!isFirstUser) {
-      const { user, error: authError } = await verifyUser(authHeader);
-      
-      if (authError || !user) {
-        console.log('Add staff auth failed:', { authError, hasAuthHeader: !!authHeader });
-        return c.json({ error: authError || 'Unauthorized - Authentication required to add staff' }, 401);
-      }
-
-      const currentStaffData = await kv.get(`staff:${user.id}`);
-      
-      if (!currentStaffData) {
-        console.log('Staff data not found for user:', user.id);
-        return c.json({ error: 'Staff record not found' }, 404);
-      }
-      
-      if (!currentStaffData.permissions?.staffManagement?.add) {
-        console.log('No permission to add staff:', { 
-          userId: user.id,
-          hasStaffManagementPermissions: !!currentStaffData.permissions?.staffManagement,
-          canAdd: currentStaffData.permissions?.staffManagement?.add
-        });
-        return c.json({ error: 'No permission to add staff members' }, 403);
-      }
-    }
+    const policy = await getPasswordPolicy();
+    const problem = await passwordProblem(password, policy);
+    if (problem) return weakPassword(c, 'password', problem);
 
     // Create user in Supabase Auth
-    // Note: email_confirm is now false since SMTP is configured
-    // User will receive welcome email with login credentials
     const { data, error } = await supabase.auth.admin.createUser({
       email,
       password,
-      email_confirm: true, // Set to true to auto-confirm, user will still receive welcome email
+      email_confirm: true,
       user_metadata: { name, role },
     });
 
@@ -110,90 +284,26 @@ app.post('/make-server-63060bc2/signup', async (c) => {
 
     // Store staff data in KV store
     const staffId = data.user.id;
-    
-    // First user gets full permissions automatically, all others require manual assignment
-    let userPermissions;
-    if (isFirstUser) {
-      userPermissions = getFullPermissions();
-      console.log('First user signup - granting full permissions');
-    } else {
-      userPermissions = permissions || getEmptyPermissions();
-    }
+    console.log('First user signup - granting full permissions');
     
     const staffData = {
       id: staffId,
       name,
       email,
       role,
-      permissions: userPermissions,
+      permissions: getFullPermissions(),
       status: 'active',
       createdAt: new Date().toISOString(),
+      ...(await recordPasswordChange(staffId, password, policy)),
     };
 
-    await kv.set(`staff:${staffId}`, staffData);
-    
-    // Add to staff list
-    const updatedStaffList = (await kv.get('staff:list')) || [];
-    updatedStaffList.push(staffId);
-    await kv.set('staff:list', updatedStaffList);
-
-    // Log activity - use current user's info if authenticated, otherwise the new user
-    if (!isFirstUser && authHeader) {
-      const { user } = await verifyUser(authHeader);
-      if (user) {
-        const currentStaffData = await kv.get(`staff:${user.id}`);
-        await addActivity(user.id, currentStaffData.name, 'add_staff', `Added new staff member: ${name}`, `Role: ${role}, Email: ${email}`, getClientIP(c.req));
-      }
-    } else {
-      await addActivity(staffId, name, 'signup', `New user signed up: ${name}`, `Role: ${role}, Email: ${email}`, getClientIP(c.req));
-    }
-
-    // Send welcome email with credentials (only for staff added by admin, not first user)
-    if (!isFirstUser) {
-      try {
-        // Store welcome email data in KV for reference
-        await kv.set(`welcome:${staffId}`, {
-          email,
-          name,
-          role,
-          temporaryPassword: password,
-          createdAt: new Date().toISOString(),
-        });
-
-        // Try to send welcome email via configured email service
-        const emailSent = await sendEmail({
-          to: email,
-          subject: `Welcome to Fliptrade Group - Your Account is Ready! 🎉`,
-          html: getWelcomeEmailHTML(name, email, password, 'https://admin.fliptradegroup.com'),
-        });
-
-        if (emailSent) {
-          console.log(`✅ Welcome email sent successfully to ${email}`);
-        } else {
-          // Email not sent - log credentials for manual sharing
-          console.log('='.repeat(60));
-          console.log('⚠️  EMAIL NOT SENT - SHARE CREDENTIALS MANUALLY');
-          console.log('='.repeat(60));
-          console.log(`Name: ${name}`);
-          console.log(`Email: ${email}`);
-          console.log(`Role: ${role}`);
-          console.log(`Temporary Password: ${password}`);
-          console.log('='.repeat(60));
-          console.log('NOTE: Set RESEND_API_KEY or SENDGRID_API_KEY to enable automatic emails.');
-          console.log('='.repeat(60));
-        }
-        
-      } catch (emailError) {
-        console.log('Welcome email error (non-critical):', emailError);
-        // Continue even if email fails - staff is already created
-      }
-    }
+    await repos.staff.save(staffData);
+    await recordAudit('staff', staffId, 'create', null, staffData, { id: staffId, name, ipAddress: getClientIP(c.req) });
+    await addActivity(staffId, name, 'signup', `New user signed up: ${name}`, `Role: ${role}, Email: ${email}`, getClientIP(c.req));
 
     return c.json({ 
       success: true, 
       user: { id: staffId, email, name, role },
-      // Return credentials in response for admin to share
-      credentials: !isFirstUser ? { email, temporaryPassword: password } : undefined
     });
   } catch (error) {
     console.log(`Signup server error: ${error}`);
@@ -201,110 +311,162 @@ app.post('/make-server-63060bc2/signup', async (c) => {
   }
 });
 
-// Login route (handled by Supabase client on frontend)
-// No server route needed - frontend will use supabase.auth.signInWithPassword
+// Password login. Runs on the server so failed attempts can be counted (see login-attempts.tsx); the client
+// continues with the returned session. Wrong passwords answer the same whether or not the email has an account.
+app.post('/make-server-63060bc2/login', async (c) => {
+  const body = await readBody(c, loginSchema);
+  if (body.invalid) return body.invalid;
+  const { email, password } = body.value;
+  const ip = getClientIP(c.req);
+  const userAgent = c.req.header('User-Agent') || '';
 
-// Get current user data
-app.get('/make-server-63060bc2/user', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
+  if (isLocalAuthEnabled()) {
+    return c.json({ error: 'Password login is not available with LOCAL_AUTH; use a local:<staffId> token' }, 501);
   }
 
-  let staffData = await kv.get(`staff:${user.id}`);
-  
-  if (!staffData) {
-    return c.json({ error: 'ACCOUNT_DELETED', message: 'Your account has been deleted by the administrator. Please contact support for assistance.' }, 403);
-  }
+  try {
+    const ipWait = await ipBlockedFor(ip);
+    if (ipWait > 0) {
+      return tooManyRequests(c, `Too many failed logins from your network. Try again in ${Math.ceil(ipWait / 60)} minute(s).`, ipWait, 'LOGIN_RATE_LIMITED');
+    }
+
+    const staffData = await findStaffByEmail(email);
+    const locked = accountLockedFor(staffData);
+    if (locked > 0) {
+      return accountLocked(c, locked);
+    }
+
+    const { data, error } = await createSignInClient().auth.signInWithPassword({ email, password });
+
+    if (error || !data.session) {
+      const message = error?.message || 'Login failed';
+      // Banned (archived) and unconfirmed accounts are not password guesses
+      if (!isWrongPassword(error)) {
+        return c.json({ error: message }, 400);
+      }
+
+      if (await recordPasswordFailure(staffData, { email, ipAddress: ip, userAgent, reason: message })) {
+        return accountLocked(c, LOCK_MINUTES * 60);
+      }
+      return c.json({ error: 'Invalid email or password', code: 'INVALID_CREDENTIALS' }, 401);
+    }
+
+    if (staffData) {
+      await clearFailedLogins(email);
+      if (staffData.loginLockedUntil) {
+        const { loginLockedUntil, loginLockedAt, ...unlocked } = staffData;
+        await repos.staff.save(unlocked);
+      }
+
+      await addActivity(staffData.id, staffData.name, 'login', 'Signed in', userAgent, ip);
+      if (ip !== 'Unknown' && (await rememberLoginIp(staffData.id, ip)).isNew) {
+        await alertNewLoginIp(staffData, ip, userAgent);
+      }
+    }
 
-  // Check if user is deactivated
-  if (staffData.status === 'inactive') {
-    return c.json({ error: 'ACCOUNT_DEACTIVATED', message: 'Your account is temporarily deactivated by the administrator. Please contact support to reactivate your account.' }, 403);
+    const session: LoginSession = { access_token: data.session.access_token, refresh_token: data.session.refresh_token };
+    return c.json({ success: true, session });
+  } catch (error) {
+    console.log('Login server error:', error);
+    return c.json({ error: 'Login failed' }, 500);
   }
+});
 
-  // AUTO-FIX: Ensure permissions exist (fix for users created before permissions system)
-  if (!staffData.permissions || Object.keys(staffData.permissions).length === 0) {
-    console.log(`Auto-fixing missing permissions for user: ${staffData.email}`);
-    
-    // Check if this is the first/only user
-    const staffList = (await kv.get('staff:list')) || [];
-    const isFirstUser = staffList.length === 1 && staffList[0] === user.id;
-    
-    if (isFirstUser || staffData.role === 'Super Admin') {
-      // First user or Super Admin gets full permissions
-      staffData.permissions = getFullPermissions();
-      console.log(`Granted full permissions to ${staffData.role}: ${staffData.email}`);
-    } else if (staffData.role === 'Admin') {
-      // Admin gets full permissions
-      staffData.permissions = getFullPermissions();
-      console.log(`Granted full permissions to Admin: ${staffData.email}`);
-    } else {
-      // Regular staff gets basic permissions
-      staffData.permissions = {
-        dashboard: { view: true, viewAll: false },
-        deposits: { view: true, add: true, edit: true, delete: false, viewAll: false },
-        bankDeposits: { view: true, add: true, edit: true, delete: false, viewAll: false },
-        staffManagement: { view: false, add: false, edit: false, delete: false, archive: false, restore: false, viewAll: false },
-        activityLogs: { view: true, viewAll: false },
-        settings: { view: true, edit: false }
-      };
-      console.log(`Granted basic permissions to Staff: ${staffData.email}`);
+const isWrongPassword = (error: any) =>
+  error?.code === 'invalid_credentials' || /invalid login credentials/i.test(error?.message || '');
+
+// Counts a wrong password against the account and locks it once it reaches MAX_ACCOUNT_FAILURES. Returns true
+// if this failure locked the account.
+async function recordPasswordFailure(staffData: any, attempt: { email: string; ipAddress: string; userAgent: string; reason: string }) {
+  const failures = await recordFailedLogin(attempt, !!staffData);
+  if (!staffData || failures < MAX_ACCOUNT_FAILURES) return false;
+
+  await repos.staff.save({ ...staffData, loginLockedUntil: lockExpiry(), loginLockedAt: new Date().toISOString() });
+  await addActivity(staffData.id, staffData.name, 'account_locked', `Account locked after ${failures} failed logins`, `Locked for ${LOCK_MINUTES} minutes, last attempt from ${attempt.ipAddress}`, attempt.ipAddress);
+  return true;
+}
+
+function accountLocked(c: any, retryAfterSeconds: number) {
+  return tooManyRequests(c, `Too many failed logins. Your account is locked for ${Math.ceil(retryAfterSeconds / 60)} minute(s), or until an admin unlocks it.`, retryAfterSeconds, 'ACCOUNT_LOCKED');
+}
+
+// Tells the member and every active admin about a login from an address the account hasn't used before.
+// Sending is best effort: the login itself has already succeeded.
+async function alertNewLoginIp(staffData: any, ip: string, userAgent: string) {
+  await addActivity(staffData.id, staffData.name, 'suspicious_login', 'Signed in from a new IP address', `IP: ${ip}, ${userAgent || 'unknown device'}`, ip);
+
+  const admins = (await repos.staff.list()).filter((member: any) =>
+    ['Super Admin', 'Admin'].includes(member.role) && member.status !== 'inactive' && !member.isArchived && member.id !== staffData.id);
+  const signedInAt = `${new Date().toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+  for (const recipient of [staffData, ...admins]) {
+    try {
+      await queueTemplateEmail('new-login', recipient.email, {
+        name: recipient.name || 'User',
+        accountName: staffData.name,
+        accountEmail: staffData.email,
+        ipAddress: ip,
+        userAgent: userAgent || 'Unknown device',
+        signedInAt,
+      });
+    } catch (error) {
+      console.log(`New login alert to ${recipient.email} failed:`, error);
     }
-    
-    // Save updated permissions
-    await kv.set(`staff:${user.id}`, staffData);
   }
+}
+
+// Get current user data
+app.get('/make-server-63060bc2/user', authenticate, async (c) => {
+  const staffData = c.get('caller').staff;
 
   // Update lastLogin timestamp
   const currentTime = new Date().toISOString();
   staffData.lastLogin = currentTime;
 
   // Save updated staff data with lastLogin
-  await kv.set(`staff:${user.id}`, staffData);
+  await repos.staff.save(staffData);
 
   return c.json({ user: staffData });
 });
 
-// Change password route
-app.post('/make-server-63060bc2/change-password', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
-  }
+// Change password route; also the only route open to members who must change their password
+app.post('/make-server-63060bc2/change-password', authenticatePasswordChange, async (c) => {
+  const { id: userId, staff: staffData, passwordChangePending } = c.get('caller');
+  const body = await readBody(c, changePasswordSchema);
+  if (body.invalid) return body.invalid;
+  const { currentPassword, newPassword } = body.value;
 
   try {
-    const { currentPassword, newPassword } = await c.req.json();
-
-    if (!currentPassword || !newPassword) {
-      return c.json({ error: 'Current password and new password are required' }, 400);
-    }
-
-    if (newPassword.length < 6) {
-      return c.json({ error: 'New password must be at least 6 characters long' }, 400);
-    }
-
-    // Get staff data
-    const staffData = await kv.get(`staff:${user.id}`);
-    if (!staffData) {
-      return c.json({ error: 'User not found' }, 404);
+    if (newPassword === currentPassword) {
+      return weakPassword(c, 'newPassword', 'Choose a password different from your current one');
     }
+    const policy = await getPasswordPolicy();
+    const problem = await passwordProblem(newPassword, policy, userId);
+    if (problem) return weakPassword(c, 'newPassword', problem);
 
-    // Verify current password by trying to sign in
-    const { data: signInData, error: signInError } = await supabase.auth.signInWithPassword({
+    // Verify current password by trying to sign in, on a client of its own like POST /login; wrong guesses count
+    // towards the same lock
+    const { data: signInData, error: signInError } = await createSignInClient().auth.signInWithPassword({
       email: staffData.email,
       password: currentPassword,
     });
 
     if (signInError || !signInData.user) {
-      console.log('Current password verification failed:', signInError?.message);
-      return c.json({ error: 'Current password is incorrect' }, 400);
+      const message = signInError?.message || 'Current password is incorrect';
+      console.log('Current password verification failed:', message);
+      if (!isWrongPassword(signInError)) {
+        return c.json({ error: message }, 400);
+      }
+      const ip = getClientIP(c.req);
+      if (await recordPasswordFailure(staffData, { email: staffData.email, ipAddress: ip, userAgent: c.req.header('User-Agent') || '', reason: `Change password: ${message}` })) {
+        return accountLocked(c, LOCK_MINUTES * 60);
+      }
+      return c.json({ error: 'Current password is incorrect', fields: { currentPassword: 'Incorrect password' } }, 400);
     }
 
     // Update password using admin API
-    const { data: updateData, error: updateError } = await supabase.auth.admin.updateUserById(
-      user.id,
+    const { error: updateError } = await supabase.auth.admin.updateUserById(
+      userId,
       { password: newPassword }
     );
 
@@ -313,8 +475,13 @@ app.post('/make-server-63060bc2/change-password', async (c) => {
       return c.json({ error: 'Failed to update password: ' + updateError.message }, 500);
     }
 
+    await repos.staff.save({ ...staffData, ...(await recordPasswordChange(userId, newPassword, policy)) });
+
     // Log activity
-    await addActivity(user.id, staffData.name, 'change_password', 'Changed password', 'Password updated successfully', getClientIP(c.req));
+    const details = passwordChangePending === 'expired' ? 'Replaced expired password'
+      : passwordChangePending === 'required' ? 'Replaced password that had to be changed'
+      : 'Password updated successfully';
+    await addActivity(userId, staffData.name, 'change_password', 'Changed password', details, getClientIP(c.req));
 
     return c.json({ success: true, message: 'Password changed successfully' });
   } catch (error) {
@@ -325,148 +492,113 @@ app.post('/make-server-63060bc2/change-password', async (c) => {
 
 // ==================== FORGOT PASSWORD WITH OTP ====================
 
-// Helper function to generate 6-digit OTP
-function generateOTP(): string {
-  return Math.floor(100000 + Math.random() * 900000).toString();
-}
+// The same answer whether or not the email has an account, so the endpoint can't be used to find staff emails
+const OTP_SENT_MESSAGE = 'If an account exists for this email, a verification code has been sent.';
+
+const findStaffByEmail = async (email: string) =>
+  (await repos.staff.list()).find((staffData: any) => normalizeEmail(staffData.email || '') === normalizeEmail(email));
 
 // Send OTP for password reset
 app.post('/make-server-63060bc2/forgot-password/send-otp', async (c) => {
-  try {
-    const { email } = await c.req.json();
+  const body = await readBody(c, sendOtpSchema);
+  if (body.invalid) return body.invalid;
+  const { email } = body.value;
 
-    if (!email) {
-      return c.json({ error: 'Email is required' }, 400);
+  try {
+    const locked = await lockoutRemaining(email);
+    if (locked > 0) {
+      return tooManyRequests(c, `Too many incorrect codes. Try again in ${Math.ceil(locked / 60)} minute(s).`, locked, 'OTP_LOCKED');
     }
 
-    // Check if user exists in staff list
-    const staffList = (await kv.get('staff:list')) || [];
-    let userExists = false;
-    let userName = '';
-
-    for (const staffId of staffList) {
-      const staffData = await kv.get(`staff:${staffId}`);
-      if (staffData && staffData.email === email) {
-        userExists = true;
-        userName = staffData.name;
-        break;
-      }
+    const limits = await checkSendLimits(email, getClientIP(c.req));
+    if (!limits.allowed) {
+      return tooManyRequests(c, `Too many code requests. Try again in ${Math.ceil(limits.retryAfterSeconds / 60)} minute(s).`, limits.retryAfterSeconds);
     }
 
-    if (!userExists) {
-      return c.json({ error: 'No account found with this email address' }, 404);
+    const staffData = await findStaffByEmail(email);
+    if (!staffData) {
+      console.log(`Password reset requested for unknown email: ${email}`);
+      return c.json({ success: true, message: OTP_SENT_MESSAGE });
     }
 
-    // Generate OTP
-    const otp = generateOTP();
-    const expiresAt = new Date(Date.now() + 5 * 60 * 1000).toISOString(); // 5 minutes expiry
-
-    // Store OTP in KV store
-    await kv.set(`otp:${email}`, {
-      otp,
-      email,
-      expiresAt,
-      attempts: 0,
-      createdAt: new Date().toISOString(),
-    });
+    const { otp, expiresAt } = await issueOtp(email);
 
-    // Send OTP via Supabase Auth (using password reset email as workaround)
-    // Note: This will send a password reset link, but we'll show OTP in the email
-    // For production, you should use a proper email service like SendGrid or Resend
-    
-    console.log(`OTP generated for ${email}: ${otp} (expires at ${expiresAt})`);
-    console.log(`Welcome ${userName}! Your OTP for password reset is: ${otp}`);
-
-    // Send OTP email via configured email service
-    const emailSent = await sendEmail({
-      to: email,
-      subject: `Password Reset Code - Fliptrade Group 🔐`,
-      html: getOTPEmailHTML(userName, otp),
-    });
+    // Queue the OTP email; retries stop once the code has expired
+    const otpEmail = await queueTemplateEmail('otp', staffData.email, { name: staffData.name || 'User', otp, expiresInMinutes: OTP_TTL_MINUTES }, { expiresAt });
+    console.log(`Password reset code for ${email}: ${otpEmail.status === 'sent' ? 'sent' : 'queued for retry'}`);
 
-    if (emailSent) {
-      console.log(`✅ OTP email sent successfully to ${email}`);
-      return c.json({ 
-        success: true, 
-        message: 'OTP sent to your email address. Please check your inbox.'
-      });
-    } else {
-      // Email not sent - return OTP in response for development
-      console.log(`⚠️  Email service not configured - returning OTP in response`);
-      return c.json({ 
-        success: true, 
-        message: 'OTP generated (email service not configured)',
-        // Include OTP in response if email fails (development only)
-        debug_otp: otp 
-      });
+    if (isOtpDebugEchoEnabled()) {
+      return c.json({ success: true, message: OTP_SENT_MESSAGE, debug_otp: otp });
     }
+    return c.json({ success: true, message: OTP_SENT_MESSAGE });
   } catch (error) {
     console.log('Send OTP error:', error);
     return c.json({ error: 'Failed to send OTP' }, 500);
   }
 });
 
-// Verify OTP and reset password
+// Verify OTP; a correct code is exchanged for a single-use reset token
 app.post('/make-server-63060bc2/forgot-password/verify-otp', async (c) => {
-  try {
-    const { email, otp, newPassword } = await c.req.json();
-
-    if (!email || !otp || !newPassword) {
-      return c.json({ error: 'Email, OTP, and new password are required' }, 400);
-    }
-
-    if (newPassword.length < 6) {
-      return c.json({ error: 'Password must be at least 6 characters long' }, 400);
-    }
-
-    // Get stored OTP
-    const otpData = await kv.get(`otp:${email}`);
+  const body = await readBody(c, verifyOtpSchema);
+  if (body.invalid) return body.invalid;
+  const { email, otp } = body.value;
 
-    if (!otpData) {
-      return c.json({ error: 'OTP not found or expired. Please request a new OTP.' }, 400);
-    }
+  try {
+    const result = await verifyOtp(email, otp, getClientIP(c.req));
 
-    // Check if OTP expired
-    if (new Date() > new Date(otpData.expiresAt)) {
-      await kv.del(`otp:${email}`);
-      return c.json({ error: 'OTP has expired. Please request a new OTP.' }, 400);
+    if (result.ok) {
+      return c.json({ success: true, resetToken: result.resetToken, expiresAt: result.expiresAt });
     }
 
-    // Check attempts limit
-    if (otpData.attempts >= 3) {
-      await kv.del(`otp:${email}`);
-      return c.json({ error: 'Too many incorrect attempts. Please request a new OTP.' }, 400);
+    switch (result.reason) {
+      case 'missing':
+        return c.json({ error: 'OTP not found or expired. Please request a new OTP.', code: 'OTP_EXPIRED' }, 400);
+      case 'expired':
+        return c.json({ error: 'OTP has expired. Please request a new OTP.', code: 'OTP_EXPIRED' }, 400);
+      case 'invalid':
+        return c.json({
+          error: 'Invalid OTP. Please try again.',
+          code: 'OTP_INVALID',
+          remainingAttempts: result.remainingAttempts,
+        }, 400);
+      case 'locked':
+        return tooManyRequests(c, `Too many incorrect codes. Try again in ${Math.ceil(result.retryAfterSeconds / 60)} minute(s).`, result.retryAfterSeconds, 'OTP_LOCKED');
+      default:
+        return tooManyRequests(c, 'Too many attempts. Please try again later.', result.retryAfterSeconds);
     }
+  } catch (error) {
+    console.log('Verify OTP error:', error);
+    return c.json({ error: 'Failed to verify OTP' }, 500);
+  }
+});
 
-    // Verify OTP
-    if (otpData.otp !== otp) {
-      otpData.attempts += 1;
-      await kv.set(`otp:${email}`, otpData);
-      return c.json({ 
-        error: 'Invalid OTP. Please try again.',
-        remainingAttempts: 3 - otpData.attempts 
-      }, 400);
-    }
+// Set a new password with the token from verify-otp
+app.post('/make-server-63060bc2/forgot-password/reset-password', async (c) => {
+  const body = await readBody(c, resetPasswordSchema);
+  if (body.invalid) return body.invalid;
+  const { resetToken, newPassword } = body.value;
 
-    // Find user in staff list
-    const staffList = (await kv.get('staff:list')) || [];
-    let userId = null;
+  try {
+    const invalidToken = () =>
+      c.json({ error: 'This reset link has expired or was already used. Please request a new code.', code: 'RESET_TOKEN_INVALID' }, 400);
 
-    for (const staffId of staffList) {
-      const staffData = await kv.get(`staff:${staffId}`);
-      if (staffData && staffData.email === email) {
-        userId = staffId;
-        break;
-      }
-    }
+    // The token is only spent once the new password is saved, so a rejected password or a failed update can be
+    // retried with the same token
+    const email = await peekResetToken(resetToken);
+    if (!email) return invalidToken();
 
-    if (!userId) {
+    const staffData = await findStaffByEmail(email);
+    if (!staffData) {
       return c.json({ error: 'User not found' }, 404);
     }
 
+    const policy = await getPasswordPolicy();
+    const problem = await passwordProblem(newPassword, policy, staffData.id);
+    if (problem) return weakPassword(c, 'newPassword', problem);
+
     // Update password in Supabase Auth
     const { error: updateError } = await supabase.auth.admin.updateUserById(
-      userId,
+      staffData.id,
       { password: newPassword }
     );
 
@@ -475,55 +607,43 @@ app.post('/make-server-63060bc2/forgot-password/verify-otp', async (c) => {
       return c.json({ error: 'Failed to reset password' }, 500);
     }
 
-    // Delete OTP after successful reset
-    await kv.del(`otp:${email}`);
+    await consumeResetToken(resetToken);
 
-    // Log activity
-    const staffData = await kv.get(`staff:${userId}`);
-    await addActivity(userId, staffData.name, 'password_reset', 'Password reset via OTP', `Email: ${email}`, getClientIP(c.req));
+    await repos.staff.save({ ...staffData, ...(await recordPasswordChange(staffData.id, newPassword, policy)) });
+
+    await addActivity(staffData.id, staffData.name, 'password_reset', 'Password reset via OTP', `Email: ${staffData.email}`, getClientIP(c.req));
 
     return c.json({ 
       success: true, 
       message: 'Password reset successfully! Please login with your new password.' 
     });
   } catch (error) {
-    console.log('Verify OTP error:', error);
-    return c.json({ error: 'Failed to verify OTP' }, 500);
+    console.log('Reset password error:', error);
+    return c.json({ error: 'Failed to reset password' }, 500);
   }
 });
 
 // Update own profile (name only - email changes must be done by admin)
-app.put('/make-server-63060bc2/profile', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
-  }
+app.put('/make-server-63060bc2/profile', authenticate, async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
 
   try {
-    const { name } = await c.req.json();
-
-    if (!name || name.trim().length === 0) {
-      return c.json({ error: 'Name is required' }, 400);
-    }
-
-    // Get staff data
-    const staffData = await kv.get(`staff:${user.id}`);
-    if (!staffData) {
-      return c.json({ error: 'User not found' }, 404);
-    }
+    const body = await readBody(c, profileUpdateSchema);
+    if (body.invalid) return body.invalid;
+    const { name } = body.value;
 
     // Update staff data
     const updatedStaffData = {
       ...staffData,
-      name: name.trim(),
+      name,
       updatedAt: new Date().toISOString(),
     };
 
-    await kv.set(`staff:${user.id}`, updatedStaffData);
+    await repos.staff.save(updatedStaffData);
+    await recordAudit('staff', userId, 'update', staffData, updatedStaffData, auditActor(c));
 
     // Log activity
-    await addActivity(user.id, name, 'update_profile', 'Updated own profile', `Changed name to: ${name}`, getClientIP(c.req));
+    await addActivity(userId, name, 'update_profile', 'Updated own profile', `Changed name to: ${name}`, getClientIP(c.req));
 
     return c.json({ success: true, user: updatedStaffData });
   } catch (error) {
@@ -532,1272 +652,2316 @@ app.put('/make-server-63060bc2/profile', async (c) => {
   }
 });
 
-// ==================== DEPOSITS ROUTES ====================
+// ==================== PASSWORD POLICY ====================
 
-// Get all deposits with optional search, filters, and pagination
-app.get('/make-server-63060bc2/deposits', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
+// Public: the signup, invitation and reset forms show the rules before anyone is signed in
+app.get('/make-server-63060bc2/password-policy', async (c) => {
+  try {
+    return c.json({ success: true, policy: await getPasswordPolicy() });
+  } catch (error) {
+    console.log('Get password policy error:', error);
+    return c.json({ error: 'Failed to load password policy' }, 500);
   }
+});
 
-  let staffData = await kv.get(`staff:${user.id}`);
-  
-  if (!staffData) {
-    return c.json({ error: 'User not found' }, 404);
-  }
+// Stricter rules apply to the next password each member sets; a shorter maximum age can expire current ones
+app.put('/make-server-63060bc2/password-policy', requireRole(['Super Admin', 'Admin'], 'Only admins can change the password policy'), async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+  const body = await readBody(c, passwordPolicySchema);
+  if (body.invalid) return body.invalid;
 
-  // AUTO-FIX: Ensure permissions exist
-  if (!staffData.permissions || Object.keys(staffData.permissions).length === 0) {
-    const staffList = (await kv.get('staff:list')) || [];
-    const isFirstUser = staffList.length === 1 && staffList[0] === user.id;
-    
-    if (isFirstUser || staffData.role === 'Super Admin' || staffData.role === 'Admin') {
-      staffData.permissions = getFullPermissions();
-    } else {
-      staffData.permissions = {
-        dashboard: { view: true, viewAll: false },
-        deposits: { view: true, add: true, edit: true, delete: false, viewAll: false },
-        bankDeposits: { view: true, add: true, edit: true, delete: false, viewAll: false },
-        staffManagement: { view: false, add: false, edit: false, delete: false, archive: false, restore: false, viewAll: false },
-        activityLogs: { view: true, viewAll: false },
-        settings: { view: true, edit: false }
-      };
-    }
-    await kv.set(`staff:${user.id}`, staffData);
-  }
-
-  // Get query parameters
-  const searchTerm = c.req.query('search')?.toLowerCase() || '';
-  const page = parseInt(c.req.query('page') || '1');
-  const limit = parseInt(c.req.query('limit') || '1000');
-  const dateFrom = c.req.query('dateFrom') || '';
-  const dateTo = c.req.query('dateTo') || '';
-  const submittedBy = c.req.query('submittedBy') || '';
+  try {
+    const before = await getPasswordPolicy();
+    const policy = await setPasswordPolicy(body.value);
 
-  const depositIds = (await kv.get('deposits:list')) || [];
-  let deposits = await kv.mget(depositIds.map((id: string) => `deposit:${id}`));
-  deposits = deposits.filter(Boolean);
+    const details = (Object.keys(policy) as (keyof typeof policy)[])
+      .filter((key) => before[key] !== policy[key])
+      .map((key) => `${key}: ${before[key]} → ${policy[key]}`)
+      .join(', ');
+    await addActivity(userId, staffData.name, 'update_password_policy', 'Updated password policy', details || 'No changes', getClientIP(c.req));
 
-  // Filter based on role - Staff users only see their own deposits
-  if (staffData.role !== 'Admin' && staffData.role !== 'Super Admin') {
-    deposits = deposits.filter((d: any) => d.submittedBy === user.id);
+    return c.json({ success: true, policy });
+  } catch (error) {
+    console.log('Update password policy error:', error);
+    return c.json({ error: 'Failed to update password policy' }, 500);
   }
+});
 
-  // Apply filters
-  let filteredDeposits = deposits;
+// ==================== TWO-FACTOR AUTHENTICATION ====================
+// Sessions that signed in with a password but still owe a code use the first-factor routes below; every other
+// route answers them with TWO_FACTOR_REQUIRED or TWO_FACTOR_ENROLLMENT_REQUIRED (see auth.tsx).
 
-  // Search filter (search in date, submitter name, or amounts)
-  if (searchTerm) {
-    filteredDeposits = filteredDeposits.filter((deposit: any) => {
-      return (
-        deposit.date?.toLowerCase().includes(searchTerm) ||
-        deposit.submittedByName?.toLowerCase().includes(searchTerm) ||
-        deposit.localDeposit?.toString().includes(searchTerm) ||
-        deposit.usdtDeposit?.toString().includes(searchTerm) ||
-        deposit.cashDeposit?.toString().includes(searchTerm)
-      );
-    });
-  }
+// Wrong codes per member before verification pauses; a correct code clears the count
+const TWO_FACTOR_VERIFY_LIMIT = { limit: 10, windowMs: 15 * 60 * 1000 };
 
-  // Date range filter
-  if (dateFrom) {
-    filteredDeposits = filteredDeposits.filter((deposit: any) => deposit.date >= dateFrom);
-  }
-  if (dateTo) {
-    filteredDeposits = filteredDeposits.filter((deposit: any) => deposit.date <= dateTo);
-  }
+const requireTwoFactorAdmin = requireRole(['Super Admin', 'Admin'], 'Only admins can manage two-factor authentication');
 
-  // Submitted by filter (for admins)
-  if (submittedBy && (staffData.role === 'Admin' || staffData.role === 'Super Admin')) {
-    filteredDeposits = filteredDeposits.filter((deposit: any) => deposit.submittedBy === submittedBy);
+// Counts a code attempt for the caller; returns a response when they have to wait
+async function checkTwoFactorAttempts(c: any, staffId: string) {
+  const limit = await consumeRateLimit('2fa-verify', staffId, TWO_FACTOR_VERIFY_LIMIT);
+  if (!limit.allowed) {
+    return tooManyRequests(c, `Too many incorrect codes. Try again in ${Math.ceil(limit.retryAfterSeconds / 60)} minute(s).`, limit.retryAfterSeconds);
   }
+  return null;
+}
 
-  // Sort by date (newest first)
-  filteredDeposits.sort((a: any, b: any) => {
-    const dateA = new Date(a.date || 0).getTime();
-    const dateB = new Date(b.date || 0).getTime();
-    return dateB - dateA;
-  });
+const invalidTwoFactorCode = (c: any) => c.json({ error: 'Invalid code. Please try again.', code: 'TWO_FACTOR_INVALID' }, 400);
 
-  // Calculate pagination
-  const totalCount = filteredDeposits.length;
-  const totalPages = Math.ceil(totalCount / limit);
-  const startIndex = (page - 1) * limit;
-  const endIndex = startIndex + limit;
+// Two-factor state of the caller and the current session
+app.get('/make-server-63060bc2/2fa/status', authenticateFirstFactor, async (c) => {
+  const { staff, sessionId } = c.get('caller');
+  return c.json({ success: true, status: await secondFactorStatus(staff, sessionId) });
+});
 
-  // Apply pagination
-  const paginatedDeposits = limit < 1000 ? filteredDeposits.slice(startIndex, endIndex) : filteredDeposits;
+// Start enrollment: a new secret and its QR code. 2FA stays off until /2fa/enable confirms a code.
+app.post('/make-server-63060bc2/2fa/enroll', authenticateFirstFactor, async (c) => {
+  const { staff } = c.get('caller');
 
-  return c.json({ 
-    deposits: paginatedDeposits,
-    pagination: {
-      page,
-      limit,
-      totalCount,
-      totalPages,
-      hasNextPage: page < totalPages,
-      hasPreviousPage: page > 1,
-    }
-  });
-});
+  if (staff.twoFactorEnabled) {
+    return c.json({ error: 'Two-factor authentication is already enabled' }, 400);
+  }
 
-// Create deposit
-app.post('/make-server-63060bc2/deposits', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
+  try {
+    return c.json({ success: true, enrollment: await startEnrollment(staff) });
+  } catch (error) {
+    console.log('2FA enroll error:', error);
+    return c.json({ error: 'Failed to start two-factor setup' }, 500);
   }
+});
 
-  const staffData = await kv.get(`staff:${user.id}`);
-  
-  if (!staffData || !staffData.permissions?.deposits?.add) {
-    return c.json({ error: 'No permission to add deposits' }, 403);
+// Confirm enrollment with a code from the authenticator app; returns the recovery codes once
+app.post('/make-server-63060bc2/2fa/enable', authenticateFirstFactor, async (c) => {
+  const { id: userId, staff, sessionId } = c.get('caller');
+  const body = await readBody(c, twoFactorCodeSchema);
+  if (body.invalid) return body.invalid;
+
+  if (staff.twoFactorEnabled) {
+    return c.json({ error: 'Two-factor authentication is already enabled' }, 400);
   }
 
   try {
-    const depositData = await c.req.json();
-    const depositId = `${Date.now()}_${user.id}`;
-    
-    const deposit = {
-      ...depositData,
-      id: depositId,
-      submittedBy: user.id,
-      submittedByName: staffData.name,
-      createdAt: new Date().toISOString(),
-    };
+    const limited = await checkTwoFactorAttempts(c, userId);
+    if (limited) return limited;
 
-    await kv.set(`deposit:${depositId}`, deposit);
-    
-    // Add to deposits list
-    const depositsList = (await kv.get('deposits:list')) || [];
-    depositsList.push(depositId);
-    await kv.set('deposits:list', depositsList);
+    const recoveryCodes = await enableTwoFactor(staff, body.value.code, sessionId);
+    if (!recoveryCodes) {
+      return invalidTwoFactorCode(c);
+    }
+    await resetRateLimit('2fa-verify', userId);
 
-    // Log activity
-    await addActivity(user.id, staffData.name, 'add_deposit', 'Added new deposit entry', `Date: ${deposit.date}`, getClientIP(c.req));
+    await addActivity(userId, staff.name, 'enable_2fa', 'Enabled two-factor authentication', '', getClientIP(c.req));
 
-    return c.json({ success: true, deposit });
+    return c.json({ success: true, recoveryCodes });
   } catch (error) {
-    console.log(`Create deposit error: ${error}`);
-    return c.json({ error: 'Failed to create deposit' }, 500);
+    console.log('2FA enable error:', error);
+    return c.json({ error: 'Failed to enable two-factor authentication' }, 500);
   }
 });
 
-// Update deposit
-app.put('/make-server-63060bc2/deposits/:id', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
-  }
-
-  const staffData = await kv.get(`staff:${user.id}`);
-  const depositId = c.req.param('id');
-  const existingDeposit = await kv.get(`deposit:${depositId}`);
-
-  if (!existingDeposit) {
-    return c.json({ error: 'Deposit not found' }, 404);
-  }
+// Second login step: an authenticator code or a recovery code marks the session verified
+app.post('/make-server-63060bc2/2fa/verify', authenticateFirstFactor, async (c) => {
+  const { id: userId, staff, sessionId } = c.get('caller');
+  const body = await readBody(c, twoFactorCodeSchema);
+  if (body.invalid) return body.invalid;
 
-  // Check permissions
-  const isAdmin = staffData.role === 'Admin' || staffData.role === 'Super Admin';
-  const isOwner = existingDeposit.submittedBy === user.id;
-  
-  if (!staffData.permissions?.deposits?.edit || (!isAdmin && !isOwner)) {
-    return c.json({ error: 'No permission to edit this deposit' }, 403);
+  if (!staff.twoFactorEnabled) {
+    return c.json({ error: 'Two-factor authentication is not enabled' }, 400);
   }
 
   try {
-    const updateData = await c.req.json();
-    const updatedDeposit = {
-      ...existingDeposit,
-      ...updateData,
-      id: depositId,
-      submittedBy: existingDeposit.submittedBy,
-      submittedByName: existingDeposit.submittedByName,
-      updatedAt: new Date().toISOString(),
-    };
+    const limited = await checkTwoFactorAttempts(c, userId);
+    if (limited) return limited;
 
-    await kv.set(`deposit:${depositId}`, updatedDeposit);
+    const result = await verifySecondFactor(staff, body.value.code, sessionId);
+    if (!result.ok) {
+      return invalidTwoFactorCode(c);
+    }
+    await resetRateLimit('2fa-verify', userId);
 
-    // Log activity
-    await addActivity(user.id, staffData.name, 'edit_deposit', 'Updated deposit entry', `Date: ${updatedDeposit.date}`, getClientIP(c.req));
+    if (result.usedRecoveryCode) {
+      await addActivity(userId, staff.name, 'login', 'Signed in with a recovery code', `${result.recoveryCodesRemaining} recovery code(s) left`, getClientIP(c.req));
+    }
 
-    return c.json({ success: true, deposit: updatedDeposit });
+    return c.json({ success: true, usedRecoveryCode: result.usedRecoveryCode, recoveryCodesRemaining: result.recoveryCodesRemaining });
   } catch (error) {
-    console.log(`Update deposit error: ${error}`);
-    return c.json({ error: 'Failed to update deposit' }, 500);
+    console.log('2FA verify error:', error);
+    return c.json({ error: 'Failed to verify code' }, 500);
   }
 });
 
-// Delete deposit
-app.delete('/make-server-63060bc2/deposits/:id', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
-  }
-
-  const staffData = await kv.get(`staff:${user.id}`);
-  const depositId = c.req.param('id');
-  const existingDeposit = await kv.get(`deposit:${depositId}`);
+// Turn 2FA off (needs a current code); not allowed while the member's role requires it
+app.post('/make-server-63060bc2/2fa/disable', authenticate, async (c) => {
+  const { id: userId, staff } = c.get('caller');
+  const body = await readBody(c, twoFactorCodeSchema);
+  if (body.invalid) return body.invalid;
 
-  if (!existingDeposit) {
-    return c.json({ error: 'Deposit not found' }, 404);
-  }
+  try {
+    if ((await getRequiredRoles()).includes(staff.role)) {
+      return c.json({ error: `Two-factor authentication is required for the ${staff.role} role` }, 400);
+    }
 
-  // Check permissions
-  const isAdmin = staffData.role === 'Admin' || staffData.role === 'Super Admin';
-  const isOwner = existingDeposit.submittedBy === user.id;
-  
-  if (!staffData.permissions?.deposits?.delete || (!isAdmin && !isOwner)) {
-    return c.json({ error: 'No permission to delete this deposit' }, 403);
-  }
+    const limited = await checkTwoFactorAttempts(c, userId);
+    if (limited) return limited;
 
-  try {
-    await kv.del(`deposit:${depositId}`);
-    
-    // Remove from deposits list
-    const depositsList = (await kv.get('deposits:list')) || [];
-    const updatedList = depositsList.filter((id: string) => id !== depositId);
-    await kv.set('deposits:list', updatedList);
+    const result = await verifySecondFactor(staff, body.value.code);
+    if (!result.ok) {
+      return invalidTwoFactorCode(c);
+    }
+    await resetRateLimit('2fa-verify', userId);
 
-    // Log activity
-    await addActivity(user.id, staffData.name, 'delete_deposit', 'Deleted deposit entry', `Date: ${existingDeposit.date}`, getClientIP(c.req));
+    await disableTwoFactor(staff);
+    await addActivity(userId, staff.name, 'disable_2fa', 'Disabled two-factor authentication', '', getClientIP(c.req));
 
     return c.json({ success: true });
   } catch (error) {
-    console.log(`Delete deposit error: ${error}`);
-    return c.json({ error: 'Failed to delete deposit' }, 500);
+    console.log('2FA disable error:', error);
+    return c.json({ error: 'Failed to disable two-factor authentication' }, 500);
   }
 });
 
-// ==================== BANK DEPOSITS ROUTES ====================
+// Replace the recovery codes (needs a current code); the old ones stop working
+app.post('/make-server-63060bc2/2fa/recovery-codes', authenticate, async (c) => {
+  const { id: userId, staff } = c.get('caller');
+  const body = await readBody(c, twoFactorCodeSchema);
+  if (body.invalid) return body.invalid;
 
-// Get all bank deposits with optional search, filters, and pagination
-app.get('/make-server-63060bc2/bank-deposits', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
-  }
+  try {
+    const limited = await checkTwoFactorAttempts(c, userId);
+    if (limited) return limited;
 
-  let staffData = await kv.get(`staff:${user.id}`);
-  
-  if (!staffData) {
-    return c.json({ error: 'User not found' }, 404);
+    const result = await verifySecondFactor(staff, body.value.code);
+    if (!result.ok) {
+      return invalidTwoFactorCode(c);
+    }
+    await resetRateLimit('2fa-verify', userId);
+
+    return c.json({ success: true, recoveryCodes: await regenerateRecoveryCodes(userId) });
+  } catch (error) {
+    console.log('2FA recovery codes error:', error);
+    return c.json({ error: 'Failed to create recovery codes' }, 500);
   }
+});
 
-  // AUTO-FIX: Ensure permissions exist
-  if (!staffData.permissions || Object.keys(staffData.permissions).length === 0) {
-    const staffList = (await kv.get('staff:list')) || [];
-    const isFirstUser = staffList.length === 1 && staffList[0] === user.id;
-    
-    if (isFirstUser || staffData.role === 'Super Admin' || staffData.role === 'Admin') {
-      staffData.permissions = getFullPermissions();
-    } else {
-      staffData.permissions = {
-        dashboard: { view: true, viewAll: false },
-        deposits: { view: true, add: true, edit: true, delete: false, viewAll: false },
-        bankDeposits: { view: true, add: true, edit: true, delete: false, viewAll: false },
-        staffManagement: { view: false, add: false, edit: false, delete: false, archive: false, restore: false, viewAll: false },
-        activityLogs: { view: true, viewAll: false },
-        settings: { view: true, edit: false }
-      };
-    }
-    await kv.set(`staff:${user.id}`, staffData);
-  }
-
-  // Get query parameters
-  const searchTerm = c.req.query('search')?.toLowerCase() || '';
-  const page = parseInt(c.req.query('page') || '1');
-  const limit = parseInt(c.req.query('limit') || '1000');
-  const dateFrom = c.req.query('dateFrom') || '';
-  const dateTo = c.req.query('dateTo') || '';
-  const submittedBy = c.req.query('submittedBy') || '';
-  const accountType = c.req.query('accountType') || '';
+// Roles whose members must use 2FA
+app.get('/make-server-63060bc2/2fa/required-roles', requireTwoFactorAdmin, async (c) => {
+  return c.json({ success: true, roles: await getRequiredRoles() });
+});
 
-  const bankDepositIds = (await kv.get('bankDeposits:list')) || [];
-  let bankDeposits = await kv.mget(bankDepositIds.map((id: string) => `bankDeposit:${id}`));
-  bankDeposits = bankDeposits.filter(Boolean);
+app.put('/make-server-63060bc2/2fa/required-roles', requireTwoFactorAdmin, async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+  const body = await readBody(c, twoFactorPolicySchema);
+  if (body.invalid) return body.invalid;
 
-  // Filter based on role - Staff users only see their own deposits
-  if (staffData.role !== 'Admin' && staffData.role !== 'Super Admin') {
-    bankDeposits = bankDeposits.filter((d: any) => d.submittedBy === user.id);
-  }
+  try {
+    const before = await getRequiredRoles();
+    const roles = await setRequiredRoles(body.value.roles);
 
-  // Apply filters
-  let filteredBankDeposits = bankDeposits;
+    const added = roles.filter((role) => !before.includes(role));
+    const removed = before.filter((role) => !roles.includes(role));
+    const details = [added.length ? `Required: ${added.join(', ')}` : '', removed.length ? `No longer required: ${removed.join(', ')}` : '']
+      .filter(Boolean)
+      .join('; ');
+    await addActivity(userId, staffData.name, 'update_2fa_policy', 'Updated two-factor authentication policy', details, getClientIP(c.req));
 
-  // Search filter (search in date, submitter name, bank name, account type, or amounts)
-  if (searchTerm) {
-    filteredBankDeposits = filteredBankDeposits.filter((deposit: any) => {
-      return (
-        deposit.date?.toLowerCase().includes(searchTerm) ||
-        deposit.submittedByName?.toLowerCase().includes(searchTerm) ||
-        deposit.bankName?.toLowerCase().includes(searchTerm) ||
-        deposit.accountType?.toLowerCase().includes(searchTerm) ||
-        deposit.depositAmount?.toString().includes(searchTerm) ||
-        deposit.withdrawalAmount?.toString().includes(searchTerm)
-      );
-    });
+    return c.json({ success: true, roles });
+  } catch (error) {
+    console.log('Update 2FA policy error:', error);
+    return c.json({ error: 'Failed to update two-factor policy' }, 500);
   }
+});
 
-  // Date range filter
-  if (dateFrom) {
-    filteredBankDeposits = filteredBankDeposits.filter((deposit: any) => deposit.date >= dateFrom);
-  }
-  if (dateTo) {
-    filteredBankDeposits = filteredBankDeposits.filter((deposit: any) => deposit.date <= dateTo);
-  }
+// Turn off 2FA for a member who lost their authenticator and recovery codes; they enroll again on next login
+// if their role requires it
+app.post('/make-server-63060bc2/staff/:id/2fa/reset', requireTwoFactorAdmin, async (c) => {
+  const { id: userId, staff: staffData, isSuperAdmin } = c.get('caller');
 
-  // Submitted by filter (for admins)
-  if (submittedBy && (staffData.role === 'Admin' || staffData.role === 'Super Admin')) {
-    filteredBankDeposits = filteredBankDeposits.filter((deposit: any) => deposit.submittedBy === submittedBy);
+  try {
+    const member = await repos.staff.get(c.req.param('id'));
+    if (!member) {
+      return c.json({ error: 'Staff member not found' }, 404);
+    }
+    if (member.role === 'Super Admin' && !isSuperAdmin) {
+      return forbidden(c, 'Only Super Admin can reset two-factor authentication for a Super Admin');
+    }
+    if (!member.twoFactorEnabled) {
+      return c.json({ error: 'Two-factor authentication is not enabled for this member' }, 400);
+    }
+
+    await disableTwoFactor(member);
+    await resetRateLimit('2fa-verify', member.id);
+    await addActivity(userId, staffData.name, 'reset_2fa', `Reset two-factor authentication for ${member.name}`, `Email: ${member.email}`, getClientIP(c.req));
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Reset 2FA error:', error);
+    return c.json({ error: 'Failed to reset two-factor authentication' }, 500);
   }
+});
+
+// ==================== SESSIONS ====================
 
-  // Account type filter
-  if (accountType && accountType !== 'all') {
-    filteredBankDeposits = filteredBankDeposits.filter((deposit: any) => deposit.accountType === accountType);
+// Revoking a session in sessions.tsx only makes the auth guard refuse it; this also ends the member's Supabase
+// refresh tokens so no new access tokens are issued. GoTrue's logout identifies the user by an access token: the
+// caller's own (scope `others` keeps the current session) or, for another member, a short-lived one signed with
+// SUPABASE_JWT_SECRET. Without that secret, other members' refresh tokens stay valid until they expire.
+async function signOutAuthSessions(staffId: string, options: { accessToken?: string; scope?: 'global' | 'others' } = {}) {
+  if (isLocalAuthEnabled()) return;
+  const accessToken = options.accessToken || await signAccessToken(staffId);
+  if (!accessToken) {
+    console.log(`SUPABASE_JWT_SECRET is not set; refresh tokens of ${staffId} were not revoked`);
+    return;
   }
+  const { error } = await supabase.auth.admin.signOut(accessToken, options.scope || 'global');
+  if (error) {
+    throw new Error(`Failed to sign out auth sessions: ${error.message}`);
+  }
+}
 
-  // Sort by date (newest first)
-  filteredBankDeposits.sort((a: any, b: any) => {
-    const dateA = new Date(a.date || 0).getTime();
-    const dateB = new Date(b.date || 0).getTime();
-    return dateB - dateA;
-  });
+async function signAccessToken(staffId: string): Promise<string | null> {
+  const secret = Deno.env.get('SUPABASE_JWT_SECRET');
+  if (!secret) return null;
+  const encode = (bytes: Uint8Array) =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  const encodeJson = (value: unknown) => encode(new TextEncoder().encode(JSON.stringify(value)));
+  const now = Math.floor(Date.now() / 1000);
+  const unsigned = `${encodeJson({ alg: 'HS256', typ: 'JWT' })}.${encodeJson({ sub: staffId, role: 'authenticated', aud: 'authenticated', iat: now, exp: now + 60 })}`;
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(unsigned));
+  return `${unsigned}.${encode(new Uint8Array(signature))}`;
+}
 
-  // Calculate pagination
-  const totalCount = filteredBankDeposits.length;
-  const totalPages = Math.ceil(totalCount / limit);
-  const startIndex = (page - 1) * limit;
-  const endIndex = startIndex + limit;
+// The caller's signed-in devices
+app.get('/make-server-63060bc2/sessions', authenticate, async (c) => {
+  const { id: userId, sessionId } = c.get('caller');
 
-  // Apply pagination
-  const paginatedBankDeposits = limit < 1000 ? filteredBankDeposits.slice(startIndex, endIndex) : filteredBankDeposits;
+  try {
+    const sessions = (await listSessions(userId)).map((session) => ({ ...session, current: session.id === sessionId }));
+    return c.json({ success: true, sessions });
+  } catch (error) {
+    console.log('List sessions error:', error);
+    return c.json({ error: 'Failed to load sessions' }, 500);
+  }
+});
 
-  return c.json({ 
-    bankDeposits: paginatedBankDeposits,
-    pagination: {
-      page,
-      limit,
-      totalCount,
-      totalPages,
-      hasNextPage: page < totalPages,
-      hasPreviousPage: page > 1,
+// Sign out all of the caller's other sessions
+app.delete('/make-server-63060bc2/sessions', authenticate, async (c) => {
+  const { id: userId, staff: staffData, sessionId } = c.get('caller');
+
+  try {
+    const count = await revokeAllSessions(userId, userId, sessionId);
+    const accessToken = (c.req.header('Authorization') || '').replace(/^Bearer\s+/i, '');
+    await signOutAuthSessions(userId, { accessToken, scope: 'others' });
+    if (count > 0) {
+      await addActivity(userId, staffData.name, 'revoke_all_sessions', 'Signed out all other sessions', `${count} session(s)`, getClientIP(c.req));
     }
-  });
+    return c.json({ success: true, count });
+  } catch (error) {
+    console.log('Revoke sessions error:', error);
+    return c.json({ error: 'Failed to sign out sessions' }, 500);
+  }
 });
 
-// Create bank deposit
-app.post('/make-server-63060bc2/bank-deposits', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
+// Sign out one of the caller's sessions; `current` is the session making the request (used on logout)
+app.delete('/make-server-63060bc2/sessions/:id', authenticate, async (c) => {
+  const { id: userId, staff: staffData, sessionId } = c.get('caller');
+  const targetId = c.req.param('id') === 'current' ? sessionId : c.req.param('id');
+
+  try {
+    if (!targetId || !(await revokeSession(userId, targetId, userId))) {
+      return c.json({ error: 'Session not found' }, 404);
+    }
+    if (targetId !== sessionId) {
+      await addActivity(userId, staffData.name, 'revoke_session', 'Signed out a session', '', getClientIP(c.req));
+    }
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Revoke session error:', error);
+    return c.json({ error: 'Failed to sign out session' }, 500);
   }
+});
 
-  const staffData = await kv.get(`staff:${user.id}`);
-  
-  if (!staffData || !staffData.permissions?.bankDeposits?.add) {
-    return c.json({ error: 'No permission to add bank deposits' }, 403);
+// Sign a member out everywhere, e.g. right after deactivating them
+app.post('/make-server-63060bc2/staff/:id/sessions/revoke', requirePermission('staffManagement', 'edit', 'No permission to edit staff'), async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+  const staffId = c.req.param('id');
+
+  if (staffId === userId) {
+    return c.json({ error: 'Use your profile to sign out your own sessions' }, 400);
+  }
+
+  try {
+    const member = await repos.staff.get(staffId);
+    if (!member) {
+      return c.json({ error: 'Staff member not found' }, 404);
+    }
+
+    const count = await revokeAllSessions(staffId, userId);
+    await signOutAuthSessions(staffId);
+    await addActivity(userId, staffData.name, 'revoke_all_sessions', `Signed out all sessions of ${member.name}`, `${count} session(s)`, getClientIP(c.req));
+
+    return c.json({ success: true, count });
+  } catch (error) {
+    console.log('Revoke staff sessions error:', error);
+    return c.json({ error: 'Failed to sign out sessions' }, 500);
+  }
+});
+
+// ==================== LOGIN PROTECTION ====================
+
+// Recent failed logins, known addresses and lock state of a member
+app.get('/make-server-63060bc2/staff/:id/login-activity', requirePermission('staffManagement', 'view', 'No permission to view staff'), async (c) => {
+  try {
+    const member = await repos.staff.get(c.req.param('id'));
+    if (!member) {
+      return c.json({ error: 'Staff member not found' }, 404);
+    }
+
+    const activity: LoginActivity = {
+      failedAttempts: await listFailedLogins(member.email),
+      knownIps: await getKnownIps(member.id),
+      ...(accountLockedFor(member) > 0 ? { lockedUntil: member.loginLockedUntil } : {}),
+    };
+    return c.json(activity);
+  } catch (error) {
+    console.log('Get login activity error:', error);
+    return c.json({ error: 'Failed to fetch login activity' }, 500);
+  }
+});
+
+// Lift a lock from repeated failed logins before it runs out; the failure count starts over
+app.post('/make-server-63060bc2/staff/:id/unlock', requirePermission('staffManagement', 'edit', 'No permission to edit staff'), async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+  const staffId = c.req.param('id');
+
+  try {
+    const member = await repos.staff.get(staffId);
+    if (!member) {
+      return c.json({ error: 'Staff member not found' }, 404);
+    }
+    if (accountLockedFor(member) === 0) {
+      return c.json({ error: 'Account is not locked' }, 409);
+    }
+
+    const { loginLockedUntil, loginLockedAt, ...unlocked } = member;
+    const updatedStaff = { ...unlocked, updatedAt: new Date().toISOString() };
+    await repos.staff.save(updatedStaff);
+    await recordAudit('staff', staffId, 'update', member, updatedStaff, auditActor(c));
+    await clearFailedLogins(member.email);
+
+    await addActivity(userId, staffData.name, 'unlock_account', `Unlocked login for ${member.name}`, `Was locked until ${loginLockedUntil}`, getClientIP(c.req));
+
+    return c.json({ success: true, staff: updatedStaff });
+  } catch (error) {
+    console.log('Unlock account error:', error);
+    return c.json({ error: 'Failed to unlock account' }, 500);
+  }
+});
+
+// ==================== DEPOSITS ROUTES ====================
+
+// Get all deposits with optional search, filters, and pagination
+app.get('/make-server-63060bc2/deposits', requirePermission('deposits', 'view'), async (c) => {
+  const caller = c.get('caller');
+
+  const { query, page, limit } = readRecordQuery(c);
+
+  // Without viewAll staff only see their own deposits; with it they may narrow to one submitter
+  if (!canViewAll(caller, 'deposits')) {
+    query.submittedBy = caller.id;
+  }
+
+  try {
+    const { items, totalCount } = await repos.deposits.query(query);
+    const { reportingCurrency, converter } = await reportingConverter();
+    const summary = summarizeDepositDays(await repos.deposits.dailyTotals(query), converter.convert);
+    return c.json({
+      deposits: items,
+      summary,
+      currency: { reportingCurrency, missingRates: converter.missingRates() },
+      pagination: paginationInfo(page, limit, totalCount),
+    });
+  } catch (error) {
+    console.log('Error querying deposits:', error);
+    return c.json({ error: 'Failed to fetch deposits' }, 500);
   }
+});
+
+// Create deposit
+app.post('/make-server-63060bc2/deposits', requirePermission('deposits', 'add', 'No permission to add deposits'), async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
 
   try {
-    const bankDepositData = await c.req.json();
-    const bankDepositId = `${Date.now()}_${user.id}`;
+    const body = await readBody(c, depositCreateSchema);
+    if (body.invalid) return body.invalid;
+    const { draft, ...depositData } = body.value;
+    const depositId = `${Date.now()}_${userId}`;
     
-    const bankDeposit = {
-      ...bankDepositData,
-      id: bankDepositId,
-      submittedBy: user.id,
+    const deposit = {
+      ...depositData,
+      currencies: depositData.currencies || await defaultEntryCurrencies(),
+      id: depositId,
+      submittedBy: userId,
       submittedByName: staffData.name,
+      status: (draft ? 'draft' : 'submitted') as DepositStatus,
       createdAt: new Date().toISOString(),
     };
 
-    await kv.set(`bankDeposit:${bankDepositId}`, bankDeposit);
-    
-    // Add to bank deposits list
-    const bankDepositsList = (await kv.get('bankDeposits:list')) || [];
-    bankDepositsList.push(bankDepositId);
-    await kv.set('bankDeposits:list', bankDepositsList);
+    await repos.deposits.save(deposit);
+    await recordAudit('deposit', depositId, 'create', null, deposit, auditActor(c));
 
     // Log activity
-    await addActivity(user.id, staffData.name, 'add_bank_deposit', 'Added new bank deposit', `Amount: $${bankDeposit.amount}`, getClientIP(c.req));
+    await addActivity(userId, staffData.name, 'add_deposit', draft ? 'Saved deposit entry as draft' : 'Added new deposit entry', `Date: ${deposit.date}`, getClientIP(c.req));
 
-    return c.json({ success: true, bankDeposit });
+    return c.json({ success: true, deposit });
   } catch (error) {
-    console.log(`Create bank deposit error: ${error}`);
-    return c.json({ error: 'Failed to create bank deposit' }, 500);
+    console.log(`Create deposit error: ${error}`);
+    return c.json({ error: 'Failed to create deposit' }, 500);
   }
 });
 
-// Update bank deposit
-app.put('/make-server-63060bc2/bank-deposits/:id', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
-  }
-
-  const staffData = await kv.get(`staff:${user.id}`);
-  const bankDepositId = c.req.param('id');
-  const existingBankDeposit = await kv.get(`bankDeposit:${bankDepositId}`);
+// Update deposit
+app.put('/make-server-63060bc2/deposits/:id', requirePermission('deposits', 'edit'), async (c) => {
+  const caller = c.get('caller');
+  const { id: userId, staff: staffData } = caller;
+  const depositId = c.req.param('id');
+  const existingDeposit = await repos.deposits.get(depositId);
 
-  if (!existingBankDeposit) {
-    return c.json({ error: 'Bank deposit not found' }, 404);
+  if (!existingDeposit) {
+    return c.json({ error: 'Deposit not found' }, 404);
   }
 
-  // Check permissions
-  const isAdmin = staffData.role === 'Admin' || staffData.role === 'Super Admin';
-  const isOwner = existingBankDeposit.submittedBy === user.id;
-  
-  if (!staffData.permissions?.bankDeposits?.edit || (!isAdmin && !isOwner)) {
-    return c.json({ error: 'No permission to edit this bank deposit' }, 403);
+  if (!canActOnRecord(caller, existingDeposit)) {
+    return forbidden(c, 'No permission to edit this deposit');
+  }
+  if (isLockedDeposit(caller, existingDeposit)) {
+    return depositLocked(c);
+  }
+  // The reviewer approves the numbers they saw
+  if (depositStatus(existingDeposit) === 'submitted') {
+    return c.json({ error: 'Entries under review are locked. Ask a reviewer to reject it to make changes.', code: 'DEPOSIT_IN_REVIEW' }, 409);
   }
 
   try {
-    const updateData = await c.req.json();
-    const updatedBankDeposit = {
-      ...existingBankDeposit,
+    const body = await readBody(c, depositInputSchema, { partial: true });
+    if (body.invalid) return body.invalid;
+    const updateData = body.value;
+    const status = depositStatus(existingDeposit);
+    const { reviewedBy: _reviewedBy, reviewedByName: _reviewedByName, reviewedAt: _reviewedAt, reviewComment: _reviewComment, ...unreviewed } = existingDeposit;
+    const updatedDeposit = {
+      // A reviewer's change to an approved entry has to be approved again, by someone else
+      ...(status === 'approved'
+        ? { ...unreviewed, status: 'submitted' as DepositStatus, editedBy: userId, editedByName: staffData.name }
+        : existingDeposit),
       ...updateData,
-      id: bankDepositId,
-      submittedBy: existingBankDeposit.submittedBy,
-      submittedByName: existingBankDeposit.submittedByName,
+      id: depositId,
+      submittedBy: existingDeposit.submittedBy,
+      submittedByName: existingDeposit.submittedByName,
+      // A rejected entry goes back to draft once it is changed, to be submitted again
+      ...(status === 'rejected' ? { status: 'draft' as DepositStatus } : {}),
       updatedAt: new Date().toISOString(),
     };
 
-    await kv.set(`bankDeposit:${bankDepositId}`, updatedBankDeposit);
+    await repos.deposits.save(updatedDeposit);
+    await recordAudit('deposit', depositId, 'update', existingDeposit, updatedDeposit, auditActor(c));
 
     // Log activity
-    await addActivity(user.id, staffData.name, 'edit_bank_deposit', 'Updated bank deposit', `Amount: $${updatedBankDeposit.amount}`, getClientIP(c.req));
+    await addActivity(userId, staffData.name, 'edit_deposit', status === 'approved' ? 'Updated approved deposit entry and sent it back for review' : 'Updated deposit entry', `Date: ${updatedDeposit.date}`, getClientIP(c.req));
 
-    return c.json({ success: true, bankDeposit: updatedBankDeposit });
+    return c.json({ success: true, deposit: updatedDeposit });
   } catch (error) {
-    console.log(`Update bank deposit error: ${error}`);
-    return c.json({ error: 'Failed to update bank deposit' }, 500);
+    console.log(`Update deposit error: ${error}`);
+    return c.json({ error: 'Failed to update deposit' }, 500);
   }
 });
 
-// Delete bank deposit
-app.delete('/make-server-63060bc2/bank-deposits/:id', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
-  }
-
-  const staffData = await kv.get(`staff:${user.id}`);
-  const bankDepositId = c.req.param('id');
-  const existingBankDeposit = await kv.get(`bankDeposit:${bankDepositId}`);
+// Delete deposit
+app.delete('/make-server-63060bc2/deposits/:id', requirePermission('deposits', 'delete'), async (c) => {
+  const caller = c.get('caller');
+  const { id: userId, staff: staffData } = caller;
+  const depositId = c.req.param('id');
+  const existingDeposit = await repos.deposits.get(depositId);
 
-  if (!existingBankDeposit) {
-    return c.json({ error: 'Bank deposit not found' }, 404);
+  if (!existingDeposit) {
+    return c.json({ error: 'Deposit not found' }, 404);
   }
 
-  // Check permissions
-  const isAdmin = staffData.role === 'Admin' || staffData.role === 'Super Admin';
-  const isOwner = existingBankDeposit.submittedBy === user.id;
-  
-  if (!staffData.permissions?.bankDeposits?.delete || (!isAdmin && !isOwner)) {
-    return c.json({ error: 'No permission to delete this bank deposit' }, 403);
+  if (!canActOnRecord(caller, existingDeposit)) {
+    return forbidden(c, 'No permission to delete this deposit');
+  }
+  if (isLockedDeposit(caller, existingDeposit)) {
+    return depositLocked(c);
   }
 
   try {
-    await kv.del(`bankDeposit:${bankDepositId}`);
-    
-    // Remove from bank deposits list
-    const bankDepositsList = (await kv.get('bankDeposits:list')) || [];
-    const updatedList = bankDepositsList.filter((id: string) => id !== bankDepositId);
-    await kv.set('bankDeposits:list', updatedList);
+    await repos.deposits.remove(depositId);
+    await recordAudit('deposit', depositId, 'delete', existingDeposit, null, auditActor(c));
 
     // Log activity
-    await addActivity(user.id, staffData.name, 'delete_bank_deposit', 'Deleted bank deposit', `Amount: $${existingBankDeposit.amount}`, getClientIP(c.req));
+    await addActivity(userId, staffData.name, 'delete_deposit', 'Deleted deposit entry', `Date: ${existingDeposit.date}`, getClientIP(c.req));
 
     return c.json({ success: true });
   } catch (error) {
-    console.log(`Delete bank deposit error: ${error}`);
-    return c.json({ error: 'Failed to delete bank deposit' }, 500);
+    console.log(`Delete deposit error: ${error}`);
+    return c.json({ error: 'Failed to delete deposit' }, 500);
   }
 });
 
-// ==================== STAFF ROUTES ====================
-
-// Get all staff with optional search and pagination
-app.get('/make-server-63060bc2/staff', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
-  }
+// Sends a draft (or a rejected entry after changes) for review
+app.post('/make-server-63060bc2/deposits/:id/submit', requirePermission('deposits', 'add'), async (c) => {
+  const caller = c.get('caller');
+  const depositId = c.req.param('id');
+  const existingDeposit = await repos.deposits.get(depositId);
 
-  let staffData = await kv.get(`staff:${user.id}`);
-  
-  if (!staffData) {
-    return c.json({ error: 'Staff not found' }, 404);
+  if (!existingDeposit) {
+    return c.json({ error: 'Deposit not found' }, 404);
   }
-
-  // AUTO-FIX: Ensure permissions exist
-  if (!staffData.permissions || Object.keys(staffData.permissions).length === 0) {
-    console.log(`Auto-fixing missing permissions for user in staff endpoint: ${staffData.email}`);
-    
-    const staffList = (await kv.get('staff:list')) || [];
-    const isFirstUser = staffList.length === 1 && staffList[0] === user.id;
-    
-    if (isFirstUser || staffData.role === 'Super Admin' || staffData.role === 'Admin') {
-      staffData.permissions = getFullPermissions();
-    } else {
-      staffData.permissions = {
-        dashboard: { view: true, viewAll: false },
-        deposits: { view: true, add: true, edit: true, delete: false, viewAll: false },
-        bankDeposits: { view: true, add: true, edit: true, delete: false, viewAll: false },
-        staffManagement: { view: false, add: false, edit: false, delete: false, archive: false, restore: false, viewAll: false },
-        activityLogs: { view: true, viewAll: false },
-        settings: { view: true, edit: false }
-      };
-    }
-    await kv.set(`staff:${user.id}`, staffData);
+  if (!canActOnRecord(caller, existingDeposit)) {
+    return forbidden(c, 'No permission to submit this deposit');
   }
-  
-  if (!staffData.permissions?.staffManagement?.view) {
-    return c.json({ error: 'No permission to view staff' }, 403);
+  if (!['draft', 'rejected'].includes(depositStatus(existingDeposit))) {
+    return c.json({ error: 'Only draft or rejected entries can be submitted' }, 409);
   }
 
-  // Get query parameters for search and pagination
-  const searchTerm = c.req.query('search')?.toLowerCase() || '';
-  const page = parseInt(c.req.query('page') || '1');
-  const limit = parseInt(c.req.query('limit') || '1000'); // Default: return all if no limit
-  const role = c.req.query('role') || '';
-  const status = c.req.query('status') || '';
-  const archived = c.req.query('archived') || '';
+  try {
+    const {
+      reviewedBy: _reviewedBy, reviewedByName: _reviewedByName, reviewedAt: _reviewedAt, reviewComment: _reviewComment,
+      editedBy: _editedBy, editedByName: _editedByName, ...unreviewed
+    } = existingDeposit;
+    const submittedDeposit = {
+      ...unreviewed,
+      status: 'submitted' as DepositStatus,
+      updatedAt: new Date().toISOString(),
+    };
 
-  const staffIds = (await kv.get('staff:list')) || [];
-  let staff = await kv.mget(staffIds.map((id: string) => `staff:${id}`));
-  staff = staff.filter(Boolean);
+    await repos.deposits.save(submittedDeposit);
+    await recordAudit('deposit', depositId, 'update', existingDeposit, submittedDeposit, auditActor(c));
+    await addActivity(caller.id, caller.staff.name, 'submit_deposit', 'Submitted deposit entry for review', `Date: ${submittedDeposit.date}`, getClientIP(c.req));
 
-  // Apply filters
-  let filteredStaff = staff;
+    return c.json({ success: true, deposit: submittedDeposit });
+  } catch (error) {
+    console.log(`Submit deposit error: ${error}`);
+    return c.json({ error: 'Failed to submit deposit' }, 500);
+  }
+});
 
-  // Search filter
-  if (searchTerm) {
-    filteredStaff = filteredStaff.filter((member: any) => {
-      return (
-        member.name?.toLowerCase().includes(searchTerm) ||
-        member.email?.toLowerCase().includes(searchTerm) ||
-        member.role?.toLowerCase().includes(searchTerm)
-      );
+// Approval queue: everyone's submitted entries, oldest first unless sorted otherwise
+app.get('/make-server-63060bc2/deposits/approvals', requirePermission('deposits', 'approve', 'No permission to review deposits'), async (c) => {
+  const { query, page, limit } = readRecordQuery(c);
+
+  try {
+    const queueQuery: RecordQuery = { ...query, status: 'submitted', sort: query.sort || 'date-asc' };
+    const { items, totalCount } = await repos.deposits.query(queueQuery);
+    const { reportingCurrency, converter } = await reportingConverter();
+    const summary = summarizeDepositDays(await repos.deposits.dailyTotals(queueQuery), converter.convert);
+    return c.json({
+      deposits: items,
+      summary,
+      currency: { reportingCurrency, missingRates: converter.missingRates() },
+      pagination: paginationInfo(page, limit, totalCount),
     });
+  } catch (error) {
+    console.log('Error querying deposit approvals:', error);
+    return c.json({ error: 'Failed to fetch approvals' }, 500);
   }
+});
 
-  // Role filter
-  if (role && role !== 'all') {
-    filteredStaff = filteredStaff.filter((member: any) => member.role === role);
-  }
+// Approve or reject a submitted entry; nobody reviews their own entries
+app.post('/make-server-63060bc2/deposits/:id/review', requirePermission('deposits', 'approve', 'No permission to review deposits'), async (c) => {
+  const caller = c.get('caller');
+  const depositId = c.req.param('id');
+  const existingDeposit = await repos.deposits.get(depositId);
 
-  // Status filter
-  if (status && status !== 'all') {
-    filteredStaff = filteredStaff.filter((member: any) => member.status === status);
+  if (!existingDeposit) {
+    return c.json({ error: 'Deposit not found' }, 404);
+  }
+  if (existingDeposit.submittedBy === caller.id) {
+    return forbidden(c, 'You cannot review your own entries');
+  }
+  if (existingDeposit.editedBy === caller.id) {
+    return forbidden(c, 'You cannot review your own changes to an entry');
+  }
+  if (depositStatus(existingDeposit) !== 'submitted') {
+    return c.json({ error: 'Only submitted entries can be reviewed' }, 409);
   }
 
-  // Archived filter
-  if (archived === 'true') {
-    filteredStaff = filteredStaff.filter((member: any) => member.isArchived === true);
-  } else if (archived === 'false') {
-    filteredStaff = filteredStaff.filter((member: any) => member.isArchived !== true);
+  const body = await readBody(c, depositReviewSchema);
+  if (body.invalid) return body.invalid;
+  const { decision, comment } = body.value;
+  if (decision === 'reject' && !comment) {
+    return c.json({ error: 'comment: Required when rejecting', code: 'VALIDATION_FAILED', fields: { comment: 'Required when rejecting' } }, 400);
   }
 
-  // Sort by createdAt (newest first)
-  filteredStaff.sort((a: any, b: any) => {
-    const dateA = new Date(a.createdAt || 0).getTime();
-    const dateB = new Date(b.createdAt || 0).getTime();
-    return dateB - dateA;
-  });
+  try {
+    const reviewedDeposit = {
+      ...existingDeposit,
+      status: (decision === 'approve' ? 'approved' : 'rejected') as DepositStatus,
+      reviewedBy: caller.id,
+      reviewedByName: caller.staff.name,
+      reviewedAt: new Date().toISOString(),
+      reviewComment: comment || undefined,
+    };
 
-  // Calculate pagination
-  const totalCount = filteredStaff.length;
-  const totalPages = Math.ceil(totalCount / limit);
-  const startIndex = (page - 1) * limit;
-  const endIndex = startIndex + limit;
+    await repos.deposits.save(reviewedDeposit);
+    await recordAudit('deposit', depositId, 'update', existingDeposit, reviewedDeposit, auditActor(c));
+    await addActivity(
+      caller.id,
+      caller.staff.name,
+      decision === 'approve' ? 'approve_deposit' : 'reject_deposit',
+      `${decision === 'approve' ? 'Approved' : 'Rejected'} deposit entry of ${existingDeposit.submittedByName}`,
+      `Date: ${existingDeposit.date}${comment ? `, Comment: ${comment}` : ''}`,
+      getClientIP(c.req),
+    );
 
-  // Apply pagination
-  const paginatedStaff = limit < 1000 ? filteredStaff.slice(startIndex, endIndex) : filteredStaff;
+    return c.json({ success: true, deposit: reviewedDeposit });
+  } catch (error) {
+    console.log(`Review deposit error: ${error}`);
+    return c.json({ error: 'Failed to review deposit' }, 500);
+  }
+});
 
-  return c.json({ 
-    staff: paginatedStaff,
-    pagination: {
-      page,
-      limit,
-      totalCount,
-      totalPages,
-      hasNextPage: page < totalPages,
-      hasPreviousPage: page > 1,
+// Field-level change history of a deposit, also after it was deleted
+app.get('/make-server-63060bc2/deposits/:id/history', requirePermission('deposits', 'view'), async (c) => {
+  const caller = c.get('caller');
+  const depositId = c.req.param('id');
+
+  try {
+    const history = await getAuditHistory('deposit', depositId);
+    const deposit = await repos.deposits.get(depositId);
+    if (!deposit && history.length === 0) {
+      return c.json({ error: 'Deposit not found' }, 404);
+    }
+    if (!canViewAll(caller, 'deposits') && submitterOf(deposit, history) !== caller.id) {
+      return forbidden(c, 'No permission to view this deposit');
     }
-  });
-});
 
-// Update staff
-app.put('/make-server-63060bc2/staff/:id', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
+    return c.json({ success: true, history });
+  } catch (error) {
+    console.log(`Deposit history error: ${error}`);
+    return c.json({ error: 'Failed to load history' }, 500);
   }
+});
 
-  const currentStaffData = await kv.get(`staff:${user.id}`);
-  
-  if (!currentStaffData || !currentStaffData.permissions?.staffManagement?.edit) {
-    return c.json({ error: 'No permission to edit staff' }, 403);
+// ==================== BANK DEPOSITS ROUTES ====================
+
+// Get all bank deposits with optional search, filters, and pagination
+app.get('/make-server-63060bc2/bank-deposits', requirePermission('bankDeposits', 'view'), async (c) => {
+  const caller = c.get('caller');
+
+  const { query, page, limit } = readRecordQuery(c);
+
+  // Without viewAll staff only see their own transactions; with it they may narrow to one submitter
+  if (!canViewAll(caller, 'bankDeposits')) {
+    query.submittedBy = caller.id;
   }
 
-  const staffId = c.req.param('id');
+  try {
+    const { items, totalCount } = await repos.bankDeposits.query(query);
+    const { reportingCurrency, converter } = await reportingConverter();
+    const days = await withBankCurrencies(await repos.bankDeposits.dailyTotals(query));
+    return c.json({
+      bankDeposits: items,
+      summary: summarizeBankDepositDays(days, converter.convert),
+      currency: { reportingCurrency, missingRates: converter.missingRates() },
+      pagination: paginationInfo(page, limit, totalCount),
+    });
+  } catch (error) {
+    console.log('Error querying bank deposits:', error);
+    return c.json({ error: 'Failed to fetch bank deposits' }, 500);
+  }
+});
+
+// Create bank deposit
+app.post('/make-server-63060bc2/bank-deposits', requirePermission('bankDeposits', 'add', 'No permission to add bank deposits'), async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+
+  try {
+    const body = await readBody(c, bankTransactionInputSchema);
+    if (body.invalid) return body.invalid;
+    const bankDepositData = body.value;
+    if (!await repos.banks.get(bankDepositData.bankId)) {
+      return c.json({ error: 'Bank not found' }, 400);
+    }
+    const bankDepositId = `${Date.now()}_${userId}`;
+    
+    await repos.bankDeposits.save({
+      ...bankDepositData,
+      id: bankDepositId,
+      submittedBy: userId,
+      submittedByName: staffData.name,
+      createdAt: new Date().toISOString(),
+    });
+
+    // The ledger fills in this row's balance and moves every later one
+    await rebalanceBank(bankDepositData.bankId);
+    const bankDeposit = await repos.bankDeposits.get(bankDepositId);
+    await recordAudit('bankDeposit', bankDepositId, 'create', null, bankDeposit, auditActor(c));
+
+    // Log activity
+    await addActivity(userId, staffData.name, 'add_bank_deposit', 'Added new bank deposit', await bankAmountDetail(bankDeposit), getClientIP(c.req));
+
+    return c.json({ success: true, bankDeposit });
+  } catch (error) {
+    console.log(`Create bank deposit error: ${error}`);
+    return c.json({ error: 'Failed to create bank deposit' }, 500);
+  }
+});
+
+// Update bank deposit
+app.put('/make-server-63060bc2/bank-deposits/:id', requirePermission('bankDeposits', 'edit'), async (c) => {
+  const caller = c.get('caller');
+  const { id: userId, staff: staffData } = caller;
+  const bankDepositId = c.req.param('id');
+  const existingBankDeposit = await repos.bankDeposits.get(bankDepositId);
+
+  if (!existingBankDeposit) {
+    return c.json({ error: 'Bank deposit not found' }, 404);
+  }
+
+  if (!canActOnRecord(caller, existingBankDeposit)) {
+    return forbidden(c, 'No permission to edit this bank deposit');
+  }
+
+  try {
+    const body = await readBody(c, bankTransactionInputSchema, { partial: true });
+    if (body.invalid) return body.invalid;
+    const updateData = body.value;
+    if (updateData.bankId && updateData.bankId !== existingBankDeposit.bankId && !await repos.banks.get(updateData.bankId)) {
+      return c.json({ error: 'Bank not found' }, 400);
+    }
+
+    await repos.bankDeposits.save({
+      ...existingBankDeposit,
+      ...updateData,
+      id: bankDepositId,
+      submittedBy: existingBankDeposit.submittedBy,
+      submittedByName: existingBankDeposit.submittedByName,
+      updatedAt: new Date().toISOString(),
+    });
+
+    // Rebalance the bank it now belongs to and, when it moved, the bank it left
+    await rebalanceBank(updateData.bankId || existingBankDeposit.bankId);
+    if (updateData.bankId && updateData.bankId !== existingBankDeposit.bankId) {
+      await rebalanceBank(existingBankDeposit.bankId);
+    }
+    const updatedBankDeposit = await repos.bankDeposits.get(bankDepositId);
+    await recordAudit('bankDeposit', bankDepositId, 'update', existingBankDeposit, updatedBankDeposit, auditActor(c));
+
+    // Log activity
+    await addActivity(userId, staffData.name, 'edit_bank_deposit', 'Updated bank deposit', await bankAmountDetail(updatedBankDeposit), getClientIP(c.req));
+
+    return c.json({ success: true, bankDeposit: updatedBankDeposit });
+  } catch (error) {
+    console.log(`Update bank deposit error: ${error}`);
+    return c.json({ error: 'Failed to update bank deposit' }, 500);
+  }
+});
+
+// Delete bank deposit
+app.delete('/make-server-63060bc2/bank-deposits/:id', requirePermission('bankDeposits', 'delete'), async (c) => {
+  const caller = c.get('caller');
+  const { id: userId, staff: staffData } = caller;
+  const bankDepositId = c.req.param('id');
+  const existingBankDeposit = await repos.bankDeposits.get(bankDepositId);
+
+  if (!existingBankDeposit) {
+    return c.json({ error: 'Bank deposit not found' }, 404);
+  }
+
+  if (!canActOnRecord(caller, existingBankDeposit)) {
+    return forbidden(c, 'No permission to delete this bank deposit');
+  }
+
+  try {
+    await repos.bankDeposits.remove(bankDepositId);
+    await rebalanceBank(existingBankDeposit.bankId);
+    await recordAudit('bankDeposit', bankDepositId, 'delete', existingBankDeposit, null, auditActor(c));
+
+    // Log activity
+    await addActivity(userId, staffData.name, 'delete_bank_deposit', 'Deleted bank deposit', await bankAmountDetail(existingBankDeposit), getClientIP(c.req));
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log(`Delete bank deposit error: ${error}`);
+    return c.json({ error: 'Failed to delete bank deposit' }, 500);
+  }
+});
+
+// Field-level change history of a bank transaction, also after it was deleted
+app.get('/make-server-63060bc2/bank-deposits/:id/history', requirePermission('bankDeposits', 'view'), async (c) => {
+  const caller = c.get('caller');
+  const bankDepositId = c.req.param('id');
+
+  try {
+    const history = await getAuditHistory('bankDeposit', bankDepositId);
+    const bankDeposit = await repos.bankDeposits.get(bankDepositId);
+    if (!bankDeposit && history.length === 0) {
+      return c.json({ error: 'Bank deposit not found' }, 404);
+    }
+    if (!canViewAll(caller, 'bankDeposits') && submitterOf(bankDeposit, history) !== caller.id) {
+      return forbidden(c, 'No permission to view this bank deposit');
+    }
+
+    return c.json({ success: true, history });
+  } catch (error) {
+    console.log(`Bank deposit history error: ${error}`);
+    return c.json({ error: 'Failed to load history' }, 500);
+  }
+});
+
+// ==================== STAFF ROUTES ====================
+
+// Get all staff with optional search and pagination
+app.get('/make-server-63060bc2/staff', requirePermission('staffManagement', 'view', 'No permission to view staff'), async (c) => {
+  // Get query parameters for pagination
+  const page = parseInt(c.req.query('page') || '1');
+  const limit = parseInt(c.req.query('limit') || '1000'); // Default: return all if no limit
+
+  const filteredStaff = filterStaff(await repos.staff.list(), c);
+
+  // Calculate pagination
+  const totalCount = filteredStaff.length;
+  const totalPages = Math.ceil(totalCount / limit);
+  const startIndex = (page - 1) * limit;
+  const endIndex = startIndex + limit;
+
+  // Apply pagination
+  const paginatedStaff = limit < 1000 ? filteredStaff.slice(startIndex, endIndex) : filteredStaff;
+
+  return c.json({ 
+    staff: paginatedStaff,
+    pagination: {
+      page,
+      limit,
+      totalCount,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+    }
+  });
+});
+
+// Update staff
+app.put('/make-server-63060bc2/staff/:id', requirePermission('staffManagement', 'edit', 'No permission to edit staff'), async (c) => {
+  const caller = c.get('caller');
+  const { id: userId, staff: currentStaffData } = caller;
+
+  const staffId = c.req.param('id');
   
   // Prevent users from editing their own permissions or role to avoid privilege escalation
-  if (staffId === user.id) {
+  if (staffId === userId) {
     return c.json({ error: 'Cannot edit your own account. Ask another admin for assistance.' }, 400);
   }
 
-  const existingStaff = await kv.get(`staff:${staffId}`);
-
-  if (!existingStaff) {
-    return c.json({ error: 'Staff member not found' }, 404);
-  }
+  const existingStaff = await repos.staff.get(staffId);
+
+  if (!existingStaff) {
+    return c.json({ error: 'Staff member not found' }, 404);
+  }
+
+  try {
+    const body = await readBody(c, staffUpdateSchema);
+    if (body.invalid) return body.invalid;
+    const updateData = body.value;
+
+    // Additional security: Only Admin can change email addresses
+    if (updateData.email && updateData.email !== existingStaff.email) {
+      if (!caller.isAdmin) {
+        return forbidden(c, 'Only Admin can change email addresses');
+      }
+    }
+    
+    const updatedStaff = {
+      ...existingStaff,
+      ...updateData,
+      id: staffId,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await repos.staff.save(updatedStaff);
+    await recordAudit('staff', staffId, 'update', existingStaff, updatedStaff, auditActor(c));
+
+    // Deactivation also ends the member's sessions, so reactivating them means a fresh login
+    const deactivated = existingStaff.status !== 'inactive' && updatedStaff.status === 'inactive';
+    const signedOut = deactivated ? await revokeAllSessions(staffId, userId) : 0;
+    if (deactivated) {
+      await signOutAuthSessions(staffId);
+    }
+
+    const passwordFlagged = updatedStaff.mustChangePassword === true && existingStaff.mustChangePassword !== true;
+
+    // Log activity
+    await addActivity(userId, currentStaffData.name, 'edit_staff', `Updated staff member: ${updatedStaff.name}`, `Role: ${updatedStaff.role}${deactivated ? `, deactivated and signed out of ${signedOut} session(s)` : ''}${passwordFlagged ? ', must change password' : ''}`, getClientIP(c.req));
+
+    return c.json({ success: true, staff: updatedStaff });
+  } catch (error) {
+    console.log(`Update staff error: ${error}`);
+    return c.json({ error: 'Failed to update staff' }, 500);
+  }
+});
+
+// Archived members keep their record, permissions and history but cannot sign in: their Supabase Auth user is
+// banned until restored. The offline LOCAL_AUTH mode has no Auth users, so there is nothing to ban
+const ARCHIVED_BAN_DURATION = '876000h';
+
+async function setStaffLogin(staffId: string, enabled: boolean) {
+  if (isLocalAuthEnabled()) return;
+  const { error } = await supabase.auth.admin.updateUserById(staffId, { ban_duration: enabled ? 'none' : ARCHIVED_BAN_DURATION });
+  if (error) {
+    throw new Error(`Failed to ${enabled ? 'enable' : 'disable'} login: ${error.message}`);
+  }
+}
+
+// Archive staff: disables their login and signs them out everywhere. DELETE /staff/:id is kept as an alias
+// for older clients and archives as well; removing a member for good is POST /staff/:id/purge
+const archiveStaff = async (c: Context<AuthEnv>) => {
+  const caller = c.get('caller');
+  const { id: userId, staff: currentStaffData } = caller;
+
+  const staffId = c.req.param('id');
+  
+  // Cannot archive yourself
+  if (staffId === userId) {
+    return c.json({ error: 'Cannot archive your own account' }, 400);
+  }
+
+  const existingStaff = await repos.staff.get(staffId);
+
+  if (!existingStaff) {
+    return c.json({ error: 'Staff member not found' }, 404);
+  }
+  if (existingStaff.isArchived) {
+    return c.json({ error: 'Staff member is already archived' }, 409);
+  }
+
+  try {
+    await setStaffLogin(staffId, false);
+
+    const archivedStaff = {
+      ...existingStaff,
+      isArchived: true,
+      archivedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    await repos.staff.save(archivedStaff);
+    await recordAudit('staff', staffId, 'update', existingStaff, archivedStaff, auditActor(c));
+    const signedOut = await revokeAllSessions(staffId, userId);
+    await signOutAuthSessions(staffId);
+
+    // Log activity
+    await addActivity(userId, currentStaffData.name, 'archive_staff', `Archived staff member: ${existingStaff.name}`, `Role: ${existingStaff.role}, signed out of ${signedOut} session(s)`, getClientIP(c.req));
+
+    return c.json({ success: true, staff: archivedStaff });
+  } catch (error) {
+    console.log(`Archive staff error: ${error}`);
+    return c.json({ error: 'Failed to archive staff' }, 500);
+  }
+};
+
+app.post('/make-server-63060bc2/staff/:id/archive', requirePermission('staffManagement', 'delete', 'No permission to archive staff'), archiveStaff);
+app.delete('/make-server-63060bc2/staff/:id', requirePermission('staffManagement', 'delete', 'No permission to archive staff'), archiveStaff);
+
+// Restore an archived staff member: login comes back with the role and permissions they had when archived
+app.post('/make-server-63060bc2/staff/:id/restore', requirePermission('staffManagement', 'delete', 'No permission to restore staff'), async (c) => {
+  const caller = c.get('caller');
+  const { id: userId, staff: currentStaffData } = caller;
+
+  const staffId = c.req.param('id');
+  const existingStaff = await repos.staff.get(staffId);
+
+  if (!existingStaff) {
+    return c.json({ error: 'Staff member not found' }, 404);
+  }
+  if (!existingStaff.isArchived) {
+    return c.json({ error: 'Staff member is not archived' }, 409);
+  }
+
+  try {
+    await setStaffLogin(staffId, true);
+
+    const { archivedAt: _archivedAt, ...rest } = existingStaff;
+    const restoredStaff = {
+      ...rest,
+      isArchived: false,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await repos.staff.save(restoredStaff);
+    await recordAudit('staff', staffId, 'update', existingStaff, restoredStaff, auditActor(c));
+
+    // Log activity
+    await addActivity(userId, currentStaffData.name, 'restore_staff', `Restored staff member: ${existingStaff.name}`, `Role: ${existingStaff.role}`, getClientIP(c.req));
+
+    return c.json({ success: true, staff: restoredStaff });
+  } catch (error) {
+    console.log(`Restore staff error: ${error}`);
+    return c.json({ error: 'Failed to restore staff' }, 500);
+  }
+});
+
+// Permanently delete an archived staff member and their Supabase Auth user. Their deposits, transactions and
+// activity keep the name they were recorded with
+app.post('/make-server-63060bc2/staff/:id/purge', requirePermission('staffManagement', 'delete', 'No permission to delete staff'), async (c) => {
+  const caller = c.get('caller');
+  const { id: userId, staff: currentStaffData } = caller;
+
+  const staffId = c.req.param('id');
+  const existingStaff = await repos.staff.get(staffId);
+
+  if (!existingStaff) {
+    return c.json({ error: 'Staff member not found' }, 404);
+  }
+  if (!existingStaff.isArchived) {
+    return c.json({ error: 'Archive the staff member before deleting them permanently' }, 409);
+  }
+
+  try {
+    if (!isLocalAuthEnabled()) {
+      const { error } = await supabase.auth.admin.deleteUser(staffId);
+      // An Auth user that is already gone must not block removing the staff record
+      if (error && error.status !== 404) {
+        throw new Error(`Failed to delete login: ${error.message}`);
+      }
+    }
+
+    await repos.staff.remove(staffId);
+    await recordAudit('staff', staffId, 'delete', existingStaff, null, auditActor(c));
+
+    // Log activity
+    await addActivity(userId, currentStaffData.name, 'purge_staff', `Permanently deleted staff member: ${existingStaff.name}`, `Role: ${existingStaff.role}, Email: ${existingStaff.email}`, getClientIP(c.req));
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log(`Purge staff error: ${error}`);
+    return c.json({ error: 'Failed to delete staff' }, 500);
+  }
+});
+
+// Field-level change history of a staff record (profile, role, permissions, status)
+app.get('/make-server-63060bc2/staff/:id/history', requirePermission('staffManagement', 'view', 'No permission to view staff'), async (c) => {
+  const staffId = c.req.param('id');
+
+  try {
+    const history = await getAuditHistory('staff', staffId);
+    if (history.length === 0 && !await repos.staff.get(staffId)) {
+      return c.json({ error: 'Staff member not found' }, 404);
+    }
+
+    return c.json({ success: true, history });
+  } catch (error) {
+    console.log(`Staff history error: ${error}`);
+    return c.json({ error: 'Failed to load history' }, 500);
+  }
+});
+
+// ==================== INVITATION ROUTES ====================
+// New staff are invited by email and choose their own password on the accept page (see invitations.tsx)
+
+// Token lookups per IP; the accept page makes one per visit, so this only slows down guessing
+const INVITE_LOOKUP_LIMIT = { limit: 30, windowMs: 60 * 60 * 1000 };
+
+async function checkInviteLookups(c: any) {
+  const limit = await consumeRateLimit('invite-lookup-ip', getClientIP(c.req), INVITE_LOOKUP_LIMIT);
+  if (!limit.allowed) {
+    return tooManyRequests(c, `Too many attempts. Try again in ${Math.ceil(limit.retryAfterSeconds / 60)} minute(s).`, limit.retryAfterSeconds);
+  }
+  return null;
+}
+
+const invalidInvitation = (c: any) =>
+  c.json({ error: 'This invitation link has expired or is no longer valid. Ask an admin to send a new one.', code: 'INVITE_INVALID' }, 400);
+
+// Queues the invitation email; like the OTP mail it is not retried past the link's expiry
+async function sendInvitationEmail(invitation: any, token: string) {
+  const email = await queueTemplateEmail('invite', invitation.email, {
+    name: invitation.name,
+    email: invitation.email,
+    role: invitation.role,
+    invitedByName: invitation.invitedByName,
+    inviteUrl: invitationUrl(token),
+    expiresInDays: INVITE_TTL_DAYS,
+  }, { expiresAt: invitation.expiresAt });
+  console.log(`Invitation email for ${invitation.email}: ${email.status === 'sent' ? 'sent' : 'queued for retry'}`);
+}
+
+// Pending invitations
+app.get('/make-server-63060bc2/invitations', requirePermission('staffManagement', 'view', 'No permission to view staff'), async (c) => {
+  try {
+    return c.json({ success: true, invitations: await listInvitations() });
+  } catch (error) {
+    console.log(`List invitations error: ${error}`);
+    return c.json({ error: 'Failed to load invitations' }, 500);
+  }
+});
+
+// Invite a new staff member
+app.post('/make-server-63060bc2/invitations', requirePermission('staffManagement', 'add', 'No permission to add staff members'), async (c) => {
+  const caller = c.get('caller');
+  const body = await readBody(c, inviteStaffSchema);
+  if (body.invalid) return body.invalid;
+  const input = body.value;
+
+  try {
+    if (await findStaffByEmail(input.email)) {
+      return c.json({ error: 'A staff member with this email already exists', fields: { email: 'Already a staff member' } }, 409);
+    }
+    if (await findInvitationByEmail(input.email)) {
+      return c.json({ error: 'This email already has a pending invitation. Resend it instead.', fields: { email: 'Already invited' } }, 409);
+    }
+
+    const { invitation, token } = await createInvitation(input, { id: caller.id, name: caller.staff.name });
+    await sendInvitationEmail(invitation, token);
+
+    await addActivity(caller.id, caller.staff.name, 'invite_staff', `Invited staff member: ${invitation.name}`, `Role: ${invitation.role}, Email: ${invitation.email}`, getClientIP(c.req));
+
+    return c.json({ success: true, invitation });
+  } catch (error) {
+    console.log(`Invite staff error: ${error}`);
+    return c.json({ error: 'Failed to send invitation' }, 500);
+  }
+});
+
+// Send the invitation again with a new link; the old link stops working
+app.post('/make-server-63060bc2/invitations/:id/resend', requirePermission('staffManagement', 'add', 'No permission to add staff members'), async (c) => {
+  const caller = c.get('caller');
+
+  try {
+    const renewed = await renewInvitation(c.req.param('id'));
+    if (!renewed) {
+      return c.json({ error: 'Invitation not found' }, 404);
+    }
+
+    await sendInvitationEmail(renewed.invitation, renewed.token);
+    await addActivity(caller.id, caller.staff.name, 'resend_invite', `Resent invitation to: ${renewed.invitation.name}`, `Email: ${renewed.invitation.email}, sent ${renewed.invitation.sendCount} time(s)`, getClientIP(c.req));
+
+    return c.json({ success: true, invitation: renewed.invitation });
+  } catch (error) {
+    console.log(`Resend invitation error: ${error}`);
+    return c.json({ error: 'Failed to resend invitation' }, 500);
+  }
+});
+
+// Revoke a pending invitation
+app.delete('/make-server-63060bc2/invitations/:id', requirePermission('staffManagement', 'add', 'No permission to add staff members'), async (c) => {
+  const caller = c.get('caller');
+
+  try {
+    const invitation = await getInvitation(c.req.param('id'));
+    if (!invitation) {
+      return c.json({ error: 'Invitation not found' }, 404);
+    }
+
+    await deleteInvitation(invitation.id);
+    await addActivity(caller.id, caller.staff.name, 'revoke_invite', `Revoked invitation to: ${invitation.name}`, `Email: ${invitation.email}`, getClientIP(c.req));
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log(`Revoke invitation error: ${error}`);
+    return c.json({ error: 'Failed to revoke invitation' }, 500);
+  }
+});
+
+// Accept page: who the invitation is for. Public; the token is the credential
+app.post('/make-server-63060bc2/invitations/lookup', async (c) => {
+  const limited = await checkInviteLookups(c);
+  if (limited) return limited;
+
+  const body = await readBody(c, invitationLookupSchema);
+  if (body.invalid) return body.invalid;
+
+  try {
+    const invitation = await findInvitationByToken(body.value.token);
+    if (!invitation) return invalidInvitation(c);
+
+    const { email, name, role, invitedByName, expiresAt } = invitation;
+    return c.json({ success: true, invitation: { email, name, role, invitedByName, expiresAt } });
+  } catch (error) {
+    console.log(`Invitation lookup error: ${error}`);
+    return c.json({ error: 'Failed to load invitation' }, 500);
+  }
+});
+
+// Accept an invitation: creates the login with the invitee's own password and the staff record
+app.post('/make-server-63060bc2/invitations/accept', async (c) => {
+  const limited = await checkInviteLookups(c);
+  if (limited) return limited;
+
+  const body = await readBody(c, acceptInvitationSchema);
+  if (body.invalid) return body.invalid;
+  const { token, password } = body.value;
+
+  try {
+    const invitation = await findInvitationByToken(token);
+    if (!invitation) return invalidInvitation(c);
+
+    const policy = await getPasswordPolicy();
+    const problem = await passwordProblem(password, policy);
+    if (problem) return weakPassword(c, 'password', problem);
+
+    const { data, error } = await supabase.auth.admin.createUser({
+      email: invitation.email,
+      password,
+      email_confirm: true,
+      user_metadata: { name: invitation.name, role: invitation.role },
+    });
+
+    if (error) {
+      console.log(`Accept invitation error for ${invitation.email}: ${error.message}`);
+      return c.json({ error: error.message }, 400);
+    }
+
+    const staffId = data.user.id;
+    const staffData = {
+      id: staffId,
+      name: invitation.name,
+      email: invitation.email,
+      role: invitation.role,
+      permissions: invitation.permissions || await getDefaultPermissions(invitation.role),
+      status: 'active',
+      createdAt: new Date().toISOString(),
+      ...(await recordPasswordChange(staffId, password, policy)),
+    };
+
+    await repos.staff.save(staffData);
+    await deleteInvitation(invitation.id);
+    await recordAudit('staff', staffId, 'create', null, staffData, { id: invitation.invitedBy, name: invitation.invitedByName, ipAddress: getClientIP(c.req) });
+    await addActivity(staffId, staffData.name, 'accept_invite', `Accepted invitation: ${staffData.name}`, `Role: ${staffData.role}, invited by ${invitation.invitedByName}`, getClientIP(c.req));
+
+    return c.json({ success: true, email: staffData.email });
+  } catch (error) {
+    console.log(`Accept invitation error: ${error}`);
+    return c.json({ error: 'Failed to accept invitation' }, 500);
+  }
+});
+
+// ==================== ACTIVITIES ROUTES ====================
+
+// Get all activities
+app.get('/make-server-63060bc2/activities', authenticate, async (c) => {
+  const caller = c.get('caller');
+
+  const activities = await repos.activities.list();
+
+  // Without viewAll staff only see their own activity
+  let filteredActivities = activities;
+  
+  if (!canViewAll(caller, 'activityLogs')) {
+    filteredActivities = filteredActivities.filter((a: any) => a.userId === caller.id);
+  }
+
+  // Sort by timestamp descending
+  filteredActivities.sort((a: any, b: any) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+  return c.json({ activities: filteredActivities });
+});
+
+// The log is append-only: there is no delete. Old entries are archived per the retention policy, and the
+// routes below are Super Admin only.
+const requireLogAdmin = requireRole(['Super Admin'], 'Only Super Admin can manage the activity log');
+
+// Check the hash chain for edited, removed or reordered entries
+app.get('/make-server-63060bc2/activities/verify', requireLogAdmin, async (c) => {
+  try {
+    return c.json({ success: true, verification: await verifyActivityChain() });
+  } catch (error) {
+    console.log(`Verify activity log error: ${error}`);
+    return c.json({ error: 'Failed to verify activity log' }, 500);
+  }
+});
+
+app.get('/make-server-63060bc2/activities/retention', requireLogAdmin, async (c) => {
+  return c.json({ success: true, retention: await getRetention() });
+});
+
+app.put('/make-server-63060bc2/activities/retention', requireLogAdmin, async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+  const body = await readBody(c, activityRetentionSchema);
+  if (body.invalid) return body.invalid;
+
+  try {
+    const before = await getRetention();
+    const retention = await setRetention(body.value.days);
+    await addActivity(userId, staffData.name, 'update_activity_retention', 'Updated activity log retention', `${before.days} days → ${retention.days} days`, getClientIP(c.req));
+
+    return c.json({ success: true, retention });
+  } catch (error) {
+    console.log(`Update activity retention error: ${error}`);
+    return c.json({ error: 'Failed to update retention' }, 500);
+  }
+});
+
+app.get('/make-server-63060bc2/activities/archives', requireLogAdmin, async (c) => {
+  return c.json({ success: true, archives: await listArchives() });
+});
+
+// One archive with its entries, for download
+app.get('/make-server-63060bc2/activities/archives/:id', requireLogAdmin, async (c) => {
+  const archive = await getArchive(c.req.param('id'));
+  if (!archive) {
+    return c.json({ error: 'Archive not found' }, 404);
+  }
+  return c.json({ success: true, archive });
+});
+
+// Archive entries past the retention period now instead of waiting for the scheduled worker
+app.post('/make-server-63060bc2/activities/archive', requireLogAdmin, async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+
+  try {
+    const archives = await archiveExpiredActivities(staffData.name);
+    const count = archives.reduce((sum, archive) => sum + archive.count, 0);
+    if (count > 0) {
+      await addActivity(userId, staffData.name, 'archive_activities', `Archived ${count} activity log entries`, archives.map((archive) => `#${archive.fromSeq}–#${archive.toSeq}`).join(', '), getClientIP(c.req));
+    }
+
+    return c.json({ success: true, archives, archivedCount: count });
+  } catch (error) {
+    console.log(`Archive activities error: ${error}`);
+    return c.json({ error: 'Failed to archive activity log' }, 500);
+  }
+});
+
+// Scheduled worker: archives entries past the retention period and prunes expired failed-login records by
+// address. Called by a cron job with the ACTIVITY_WORKER_SECRET header.
+app.post('/make-server-63060bc2/activities/archive/process', async (c) => {
+  const secret = Deno.env.get('ACTIVITY_WORKER_SECRET');
+  if (!secret || c.req.header('x-worker-secret') !== secret) {
+    return authError(c, 401, 'UNAUTHORIZED', 'A valid worker secret is required');
+  }
+
+  try {
+    const archives = await archiveExpiredActivities('System');
+    const count = archives.reduce((sum, archive) => sum + archive.count, 0);
+    if (count > 0) {
+      console.log(`Archived ${count} activity log entries`);
+    }
+    const prunedIpFailures = await pruneIpFailures();
+    return c.json({ success: true, archives, archivedCount: count, prunedIpFailures });
+  } catch (error) {
+    console.log(`Archive activities error: ${error}`);
+    return c.json({ error: 'Failed to archive activity log' }, 500);
+  }
+});
+
+// ==================== ROLES API ====================
+
+// Get all roles
+app.get('/make-server-63060bc2/roles', requirePermission('staffManagement', 'view', 'No permission to view roles'), async (c) => {
+  try {
+    const roles = await repos.roles.list();
+    return c.json({ success: true, roles });
+  } catch (error) {
+    console.log(`Get roles error: ${error}`);
+    return c.json({ error: 'Failed to fetch roles' }, 500);
+  }
+});
+
+// Add new role
+app.post('/make-server-63060bc2/roles', requirePermission('staffManagement', 'add', 'No permission to add roles'), async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+
+  try {
+    const body = await readBody(c, roleInputSchema);
+    if (body.invalid) return body.invalid;
+    const { roleName, permissions } = body.value;
+
+    // Check if role already exists
+    const rolesList = await repos.roles.list();
+    const existingRole = rolesList.find((r: any) => r.name.toLowerCase() === roleName.toLowerCase());
+    
+    if (existingRole) {
+      return c.json({ error: 'Role with this name already exists' }, 400);
+    }
+
+    const roleId = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const newRole = {
+      id: roleId,
+      name: roleName,
+      permissions: normalizePermissions(permissions),
+      createdAt: new Date().toISOString(),
+      createdBy: userId,
+      createdByName: staffData.name,
+    };
+
+    await repos.roles.save(newRole);
+
+    // Log activity
+    await addActivity(userId, staffData.name, 'add_role', `Created new role: ${roleName}`, '', getClientIP(c.req));
+
+    return c.json({ success: true, role: newRole });
+  } catch (error) {
+    console.log(`Add role error: ${error}`);
+    return c.json({ error: 'Failed to add role' }, 500);
+  }
+});
+
+// Update role
+app.put('/make-server-63060bc2/roles/:id', requirePermission('staffManagement', 'edit', 'No permission to edit roles'), async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+
+  try {
+    const roleId = c.req.param('id');
+    const body = await readBody(c, roleInputSchema);
+    if (body.invalid) return body.invalid;
+    const { roleName, permissions, propagate } = body.value;
+
+    const rolesList = await repos.roles.list();
+    const roleIndex = rolesList.findIndex((r: any) => r.id === roleId);
+    
+    if (roleIndex === -1) {
+      return c.json({ error: 'Role not found' }, 404);
+    }
+
+    // Check if new name conflicts with existing roles
+    const existingRole = rolesList.find((r: any) => 
+      r.id !== roleId && r.name.toLowerCase() === roleName.trim().toLowerCase()
+    );
+    
+    if (existingRole) {
+      return c.json({ error: 'Role with this name already exists' }, 400);
+    }
+
+    const oldName = rolesList[roleIndex].name;
+
+    // Update role
+    rolesList[roleIndex] = {
+      ...rolesList[roleIndex],
+      name: roleName.trim(),
+      ...(permissions ? { permissions: normalizePermissions(permissions) } : {}),
+      updatedAt: new Date().toISOString(),
+      updatedBy: userId,
+      updatedByName: staffData.name,
+    };
+
+    await repos.roles.save(rolesList[roleIndex]);
+
+    // Update all staff members who have this role; with `propagate` they also take the template
+    // (except the caller, who can't change their own permissions)
+    const template = rolesList[roleIndex].permissions;
+    const staffList = await repos.staff.list();
+    let propagatedCount = 0;
+    for (const staff of staffList) {
+      if (staff.role !== oldName) continue;
+      const before = { ...staff };
+      staff.role = roleName.trim();
+      if (propagate && template && staff.id !== userId) {
+        staff.permissions = normalizePermissions(template);
+        propagatedCount++;
+      }
+      await repos.staff.save(staff);
+      await recordAudit('staff', staff.id, 'update', before, staff, auditActor(c));
+    }
+    await renameRequiredRole(oldName, roleName.trim());
+
+    // Log activity
+    await addActivity(userId, staffData.name, 'edit_role', `Updated role: ${oldName} → ${roleName}`, propagate ? `Permissions applied to ${propagatedCount} staff` : '', getClientIP(c.req));
+
+    return c.json({ success: true, role: rolesList[roleIndex], propagatedCount });
+  } catch (error) {
+    console.log(`Update role error: ${error}`);
+    return c.json({ error: 'Failed to update role' }, 500);
+  }
+});
+
+// Preview which members of a role a template change would touch, and how
+app.post('/make-server-63060bc2/roles/:id/preview', requirePermission('staffManagement', 'edit', 'No permission to edit roles'), async (c) => {
+  const { id: userId } = c.get('caller');
+
+  try {
+    const role = await repos.roles.get(c.req.param('id'));
+
+    if (!role) {
+      return c.json({ error: 'Role not found' }, 404);
+    }
+
+    const body = await readBody(c, roleInputSchema, { partial: true });
+    if (body.invalid) return body.invalid;
+    const { permissions } = body.value;
+    const template = normalizePermissions(permissions || role.permissions);
+    const members = (await repos.staff.list())
+      .filter((staff: any) => staff.role === role.name)
+      .map((staff: any) => ({
+        id: staff.id,
+        name: staff.name,
+        email: staff.email,
+        status: staff.status,
+        skipped: staff.id === userId,
+        changes: permissionChanges(staff.permissions, template),
+      }));
+
+    return c.json({ success: true, members });
+  } catch (error) {
+    console.log(`Preview role error: ${error}`);
+    return c.json({ error: 'Failed to preview role changes' }, 500);
+  }
+});
+
+// Delete role
+app.delete('/make-server-63060bc2/roles/:id', requirePermission('staffManagement', 'delete', 'No permission to delete roles'), async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+
+  try {
+    const roleId = c.req.param('id');
+    const role = await repos.roles.get(roleId);
+    
+    if (!role) {
+      return c.json({ error: 'Role not found' }, 404);
+    }
+
+    const roleName = role.name;
+
+    // Check if any staff members are using this role
+    const staffList = await repos.staff.list();
+    const hasAssignedStaff = staffList.some((staff: any) => staff.role === roleName);
+
+    if (hasAssignedStaff) {
+      return c.json({ error: 'Cannot delete role that is assigned to staff members' }, 400);
+    }
+
+    await repos.roles.remove(roleId);
+    await renameRequiredRole(roleName, null);
+
+    // Log activity
+    await addActivity(userId, staffData.name, 'delete_role', `Deleted role: ${roleName}`, '', getClientIP(c.req));
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log(`Delete role error: ${error}`);
+    return c.json({ error: 'Failed to delete role' }, 500);
+  }
+});
+
+// Refresh all users' permissions (utility endpoint for migrations)
+app.post('/make-server-63060bc2/refresh-permissions', requireRole(['Super Admin'], 'Only Super Admin can refresh permissions'), async (c) => {
+  const { id: userId, staff: currentStaffData } = c.get('caller');
+
+  try {
+    const staffList = await repos.staff.list();
+    let updatedCount = 0;
+
+    for (const staffData of staffList) {
+      const before = { ...staffData };
+      const updatedPermissions = await getDefaultPermissions(staffData.role);
+      staffData.permissions = updatedPermissions;
+      await repos.staff.save(staffData);
+      await recordAudit('staff', staffData.id, 'update', before, staffData, auditActor(c));
+      updatedCount++;
+    }
+
+    // Log activity
+    await addActivity(userId, currentStaffData.name, 'edit_staff', `Refreshed permissions for all users`, `Updated ${updatedCount} users`, getClientIP(c.req));
+
+    return c.json({ success: true, message: `Updated permissions for ${updatedCount} users` });
+  } catch (error) {
+    console.log(`Refresh permissions error: ${error}`);
+    return c.json({ error: 'Failed to refresh permissions' }, 500);
+  }
+});
+
+// ==================== BANKS API ====================
+
+// Get all banks
+app.get('/make-server-63060bc2/banks', requirePermission('bankDeposits', 'view', 'No permission to view banks'), async (c) => {
+  try {
+    const banks = await repos.banks.list();
+
+    // Transaction counts let the client decide which banks can be deleted without loading every transaction
+    const counts = await Promise.all(
+      banks.map((bank: any) => repos.bankDeposits.query({ bankId: bank.id, limit: 1 }))
+    );
+    return c.json({
+      success: true,
+      banks: banks.map((bank: any, i: number) => ({ ...bank, transactionCount: counts[i].totalCount })),
+    });
+  } catch (error) {
+    console.log(`Get banks error: ${error}`);
+    return c.json({ error: 'Failed to fetch banks' }, 500);
+  }
+});
+
+// Add new bank
+app.post('/make-server-63060bc2/banks', requirePermission('bankDeposits', 'add', 'No permission to add banks'), async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
 
   try {
-    const updateData = await c.req.json();
+    const body = await readBody(c, bankInputSchema);
+    if (body.invalid) return body.invalid;
+    const { bankName, openingBalance, currency } = body.value;
+
+    // Check if bank already exists
+    const banksList = await repos.banks.list();
+    const existingBank = banksList.find((b: any) => b.name.toLowerCase() === bankName.trim().toLowerCase());
     
-    // Additional security: Only Admin can change email addresses
-    if (updateData.email && updateData.email !== existingStaff.email) {
-      if (currentStaffData.role !== 'Admin' && currentStaffData.role !== 'Super Admin') {
-        return c.json({ error: 'Only Admin can change email addresses' }, 403);
-      }
+    if (existingBank) {
+      return c.json({ error: 'Bank with this name already exists' }, 400);
     }
-    
-    const updatedStaff = {
-      ...existingStaff,
-      ...updateData,
-      id: staffId,
-      updatedAt: new Date().toISOString(),
+
+    const bankId = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const newBank = {
+      id: bankId,
+      name: bankName.trim(),
+      openingBalance: openingBalance || 0,
+      currency: currency || (await getCurrencySettings()).defaults.bank,
+      createdAt: new Date().toISOString(),
+      createdBy: userId,
+      createdByName: staffData.name,
     };
 
-    await kv.set(`staff:${staffId}`, updatedStaff);
+    // Add bank to list
+    await repos.banks.save(newBank);
 
     // Log activity
-    await addActivity(user.id, currentStaffData.name, 'edit_staff', `Updated staff member: ${updatedStaff.name}`, `Role: ${updatedStaff.role}`, getClientIP(c.req));
+    await addActivity(userId, staffData.name, 'add_bank', `Created new bank: ${bankName}`, '', getClientIP(c.req));
 
-    return c.json({ success: true, staff: updatedStaff });
+    return c.json({ success: true, bank: newBank });
   } catch (error) {
-    console.log(`Update staff error: ${error}`);
-    return c.json({ error: 'Failed to update staff' }, 500);
+    console.log(`Add bank error: ${error}`);
+    return c.json({ error: 'Failed to add bank' }, 500);
   }
 });
 
-// Delete staff
-app.delete('/make-server-63060bc2/staff/:id', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
-  }
+// Update bank
+app.put('/make-server-63060bc2/banks/:id', requirePermission('bankDeposits', 'edit', 'No permission to edit banks'), async (c) => {
+  const { id: userId, staff: staffData, isAdmin } = c.get('caller');
 
-  const currentStaffData = await kv.get(`staff:${user.id}`);
-  
-  if (!currentStaffData || !currentStaffData.permissions?.staffManagement?.delete) {
-    return c.json({ error: 'No permission to delete staff' }, 403);
+  // Only admins can edit banks
+  if (!isAdmin) {
+    return forbidden(c, 'No permission to edit banks');
   }
 
-  const staffId = c.req.param('id');
-  
-  // Cannot delete yourself
-  if (staffId === user.id) {
-    return c.json({ error: 'Cannot delete your own account' }, 400);
-  }
+  try {
+    const bankId = c.req.param('id');
+    const body = await readBody(c, bankInputSchema);
+    if (body.invalid) return body.invalid;
+    const { bankName, openingBalance, currency } = body.value;
 
-  const existingStaff = await kv.get(`staff:${staffId}`);
+    const banksList = await repos.banks.list();
+    const bankIndex = banksList.findIndex((b: any) => b.id === bankId);
+    
+    if (bankIndex === -1) {
+      return c.json({ error: 'Bank not found' }, 404);
+    }
 
-  if (!existingStaff) {
-    return c.json({ error: 'Staff member not found' }, 404);
-  }
+    // Changing the currency would reinterpret every recorded amount
+    if (currency && currency !== bankCurrency(banksList[bankIndex])) {
+      const { totalCount } = await repos.bankDeposits.query({ bankId, limit: 1 });
+      if (totalCount > 0) {
+        return c.json({ error: 'The currency of a bank with transactions cannot be changed', code: 'VALIDATION_FAILED', fields: { currency: 'The bank already has transactions' } }, 400);
+      }
+    }
 
-  try {
-    await kv.del(`staff:${staffId}`);
+    // Check if new name conflicts with existing banks
+    const existingBank = banksList.find((b: any) => 
+      b.id !== bankId && b.name.toLowerCase() === bankName.trim().toLowerCase()
+    );
     
-    // Remove from staff list
-    const staffList = (await kv.get('staff:list')) || [];
-    const updatedList = staffList.filter((id: string) => id !== staffId);
-    await kv.set('staff:list', updatedList);
+    if (existingBank) {
+      return c.json({ error: 'Bank with this name already exists' }, 400);
+    }
+
+    const oldName = banksList[bankIndex].name;
+
+    // Update bank
+    banksList[bankIndex] = {
+      ...banksList[bankIndex],
+      name: bankName.trim(),
+      ...(openingBalance !== undefined && { openingBalance }),
+      ...(currency && { currency }),
+      updatedAt: new Date().toISOString(),
+      updatedBy: userId,
+      updatedByName: staffData.name,
+    };
+
+    await repos.banks.save(banksList[bankIndex]);
+
+    // Saving a bank also repairs balances stored before the server kept the ledger
+    await rebalanceBank(bankId);
 
     // Log activity
-    await addActivity(user.id, currentStaffData.name, 'delete_staff', `Deleted staff member: ${existingStaff.name}`, `Role: ${existingStaff.role}`, getClientIP(c.req));
+    await addActivity(userId, staffData.name, 'edit_bank', `Updated bank: ${oldName} → ${bankName}`, '', getClientIP(c.req));
 
-    return c.json({ success: true });
+    return c.json({ success: true, bank: banksList[bankIndex] });
   } catch (error) {
-    console.log(`Delete staff error: ${error}`);
-    return c.json({ error: 'Failed to delete staff' }, 500);
+    console.log(`Update bank error: ${error}`);
+    return c.json({ error: 'Failed to update bank' }, 500);
   }
 });
 
-// ==================== ACTIVITIES ROUTES ====================
+// Running balance ledger of one bank
+app.get('/make-server-63060bc2/banks/:id/ledger', requirePermission('bankDeposits', 'view', 'No permission to view banks'), async (c) => {
+  const caller = c.get('caller');
 
-// Get all activities
-app.get('/make-server-63060bc2/activities', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
+  // Balances depend on every transaction of the bank, so the ledger is limited to callers who can see them all
+  if (!canViewAll(caller, 'bankDeposits')) {
+    return forbidden(c, 'No permission to view the bank ledger');
   }
 
-  const staffData = await kv.get(`staff:${user.id}`);
-  
-  if (!staffData) {
-    return c.json({ error: 'User not found' }, 404);
+  const params = validate(ledgerQuerySchema, c.req.query());
+  if (!params.ok) {
+    return c.json({ error: summarizeFieldErrors(params.errors), code: 'VALIDATION_FAILED', fields: params.errors }, 400);
   }
 
-  const activityIds = (await kv.get('activities:list')) || [];
-  const activities = await kv.mget(activityIds.map((id: string) => `activity:${id}`));
+  try {
+    const bank = await repos.banks.get(c.req.param('id'));
+    if (!bank) {
+      return c.json({ error: 'Bank not found' }, 404);
+    }
 
-  // Filter based on role
-  let filteredActivities = activities.filter(Boolean);
-  
-  if (staffData.role !== 'Admin' && staffData.role !== 'Super Admin') {
-    filteredActivities = filteredActivities.filter((a: any) => a.userId === user.id);
+    const ledger = await getBankLedger(bank, params.value);
+    return c.json({ success: true, ...ledger });
+  } catch (error) {
+    console.log(`Get bank ledger error: ${error}`);
+    return c.json({ error: 'Failed to fetch bank ledger' }, 500);
   }
-
-  // Sort by timestamp descending
-  filteredActivities.sort((a: any, b: any) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-
-  return c.json({ activities: filteredActivities });
 });
 
-// Delete activity log
-app.delete('/make-server-63060bc2/activities/:id', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
-  }
+// Delete bank
+app.delete('/make-server-63060bc2/banks/:id', requirePermission('bankDeposits', 'delete', 'No permission to delete banks'), async (c) => {
+  const { id: userId, staff: staffData, isAdmin } = c.get('caller');
 
-  const staffData = await kv.get(`staff:${user.id}`);
-  
-  // Only Super Admin can delete activity logs
-  if (!staffData || staffData.role !== 'Super Admin') {
-    return c.json({ error: 'Only Super Admin can delete activity logs' }, 403);
+  // Only admins can delete banks
+  if (!isAdmin) {
+    return forbidden(c, 'No permission to delete banks');
   }
 
   try {
-    const activityId = c.req.param('id');
+    const bankId = c.req.param('id');
+    const banksList = await repos.banks.list();
     
-    // Delete activity
-    await kv.del(`activity:${activityId}`);
+    const bankIndex = banksList.findIndex((b: any) => b.id === bankId);
     
-    // Remove from activities list
-    const activityIds = (await kv.get('activities:list')) || [];
-    const updatedList = activityIds.filter((id: string) => id !== activityId);
-    await kv.set('activities:list', updatedList);
-
-    // Log this deletion activity
-    await addActivity(user.id, staffData.name, 'delete_activity', `Deleted activity log`, `Activity ID: ${activityId}`, getClientIP(c.req));
-
-    return c.json({ success: true });
-  } catch (error) {
-    console.log(`Delete activity error: ${error}`);
-    return c.json({ error: 'Failed to delete activity' }, 500);
-  }
-});
-
-// Bulk delete activities (for cleanup)
-app.post('/make-server-63060bc2/activities/bulk-delete', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
-  }
+    if (bankIndex === -1) {
+      return c.json({ error: 'Bank not found' }, 404);
+    }
 
-  const staffData = await kv.get(`staff:${user.id}`);
-  
-  // Only Super Admin can bulk delete
-  if (!staffData || staffData.role !== 'Super Admin') {
-    return c.json({ error: 'Only Super Admin can bulk delete activities' }, 403);
-  }
+    const bankName = banksList[bankIndex].name;
 
-  try {
-    const { activityIds } = await c.req.json();
+    // Check if any bank transactions are using this bank
+    const { totalCount } = await repos.bankDeposits.query({ bankId, limit: 1 });
 
-    if (!activityIds || !Array.isArray(activityIds) || activityIds.length === 0) {
-      return c.json({ error: 'Activity IDs array is required' }, 400);
+    if (totalCount > 0) {
+      return c.json({ error: 'Cannot delete bank that has transactions' }, 400);
     }
 
-    // Delete activities
-    await kv.mdel(activityIds.map((id: string) => `activity:${id}`));
-    
-    // Update activities list
-    const allActivityIds = (await kv.get('activities:list')) || [];
-    const updatedList = allActivityIds.filter((id: string) => !activityIds.includes(id));
-    await kv.set('activities:list', updatedList);
+    // Remove bank from list
+    await repos.banks.remove(bankId);
 
-    // Log this action
-    await addActivity(user.id, staffData.name, 'bulk_delete_activities', `Bulk deleted ${activityIds.length} activity logs`, '', getClientIP(c.req));
+    // Log activity
+    await addActivity(userId, staffData.name, 'delete_bank', `Deleted bank: ${bankName}`, '', getClientIP(c.req));
 
-    return c.json({ success: true, deletedCount: activityIds.length });
+    return c.json({ success: true });
   } catch (error) {
-    console.log(`Bulk delete activities error: ${error}`);
-    return c.json({ error: 'Failed to bulk delete activities' }, 500);
+    console.log(`Delete bank error: ${error}`);
+    return c.json({ error: 'Failed to delete bank' }, 500);
   }
 });
 
-// ==================== ROLES API ====================
-
-// Get all roles
-app.get('/make-server-63060bc2/roles', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
-  }
+// ==================== EMAIL OUTBOX ====================
 
-  const staffData = await kv.get(`staff:${user.id}`);
-  
-  if (!staffData || !staffData.permissions?.staffManagement?.view) {
-    return c.json({ error: 'No permission to view roles' }, 403);
-  }
+// Outbox records, newest first, optionally filtered by status
+app.get('/make-server-63060bc2/email-outbox', requireRole(['Super Admin', 'Admin'], 'Only admins can view the email outbox'), async (c) => {
+  const status = c.req.query('status') || '';
 
   try {
-    const roles = (await kv.get('roles:list')) || [];
-    return c.json({ success: true, roles });
+    const emails = (await repos.emails.list())
+      .sort((a: any, b: any) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+    const counts = { pending: 0, sent: 0, failed: 0 };
+    emails.forEach((email: any) => {
+      counts[email.status as keyof typeof counts]++;
+    });
+
+    return c.json({
+      success: true,
+      emails: emails.filter((email: any) => !status || email.status === status).map(toOutboxEmail),
+      counts,
+    });
   } catch (error) {
-    console.log(`Get roles error: ${error}`);
-    return c.json({ error: 'Failed to fetch roles' }, 500);
+    console.log('Get email outbox error:', error);
+    return c.json({ error: 'Failed to fetch email outbox' }, 500);
   }
 });
 
-// Add new role
-app.post('/make-server-63060bc2/roles', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
-  }
-
-  const staffData = await kv.get(`staff:${user.id}`);
-  
-  if (!staffData || !staffData.permissions?.staffManagement?.add) {
-    return c.json({ error: 'No permission to add roles' }, 403);
-  }
+// Resend a failed email
+app.post('/make-server-63060bc2/email-outbox/:id/resend', requireRole(['Super Admin', 'Admin'], 'Only admins can resend emails'), async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
 
   try {
-    const { roleName } = await c.req.json();
-
-    if (!roleName) {
-      return c.json({ error: 'Role name is required' }, 400);
+    const email = await repos.emails.get(c.req.param('id'));
+    if (!email) {
+      return c.json({ error: 'Email not found' }, 404);
     }
-
-    // Check if role already exists
-    const rolesList = (await kv.get('roles:list')) || [];
-    const existingRole = rolesList.find((r: any) => r.name.toLowerCase() === roleName.toLowerCase());
-    
-    if (existingRole) {
-      return c.json({ error: 'Role with this name already exists' }, 400);
+    if (email.status !== 'failed') {
+      return c.json({ error: 'Only failed emails can be resent' }, 400);
+    }
+    if (email.expiresAt && email.expiresAt <= new Date().toISOString()) {
+      return c.json({ error: 'This email has expired and can no longer be sent' }, 400);
+    }
+    if (!email.html) {
+      return c.json({ error: 'This email is no longer kept and can no longer be sent' }, 400);
     }
 
-    const roleId = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const newRole = {
-      id: roleId,
-      name: roleName,
-      createdAt: new Date().toISOString(),
-      createdBy: user.id,
-      createdByName: staffData.name,
-    };
-
-    // Add role to list
-    rolesList.push(newRole);
-    await kv.set('roles:list', rolesList);
+    const result = await resendEmail(email);
 
-    // Log activity
-    await addActivity(user.id, staffData.name, 'add_role', `Created new role: ${roleName}`, '', getClientIP(c.req));
+    await addActivity(userId, staffData.name, 'resend_email', `Resent email to ${email.to}`, `Subject: ${email.subject}, Result: ${result.status}`, getClientIP(c.req));
 
-    return c.json({ success: true, role: newRole });
+    return c.json({ success: true, email: result });
   } catch (error) {
-    console.log(`Add role error: ${error}`);
-    return c.json({ error: 'Failed to add role' }, 500);
+    console.log('Resend email error:', error);
+    return c.json({ error: 'Failed to resend email' }, 500);
   }
 });
 
-// Update role
-app.put('/make-server-63060bc2/roles/:id', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
+// Scheduled worker: sends due retries. Called by a cron job with the EMAIL_WORKER_SECRET header.
+app.post('/make-server-63060bc2/email-outbox/process', async (c) => {
+  const secret = Deno.env.get('EMAIL_WORKER_SECRET');
+  if (!secret || c.req.header('x-worker-secret') !== secret) {
+    return authError(c, 401, 'UNAUTHORIZED', 'A valid worker secret is required');
   }
 
-  const staffData = await kv.get(`staff:${user.id}`);
-  
-  if (!staffData || !staffData.permissions?.staffManagement?.edit) {
-    return c.json({ error: 'No permission to edit roles' }, 403);
+  try {
+    const report = await processOutbox();
+    return c.json({ success: true, ...report });
+  } catch (error) {
+    console.log('Process email outbox error:', error);
+    return c.json({ error: 'Failed to process email outbox' }, 500);
   }
+});
 
-  try {
-    const roleId = c.req.param('id');
-    const { roleName } = await c.req.json();
+// ==================== EMAIL TEMPLATES ====================
 
-    if (!roleName || !roleName.trim()) {
-      return c.json({ error: 'Role name is required' }, 400);
-    }
+const requireTemplateAdmin = requireRole(['Super Admin', 'Admin'], 'Only admins can manage email templates');
 
-    const rolesList = (await kv.get('roles:list')) || [];
-    const roleIndex = rolesList.findIndex((r: any) => r.id === roleId);
-    
-    if (roleIndex === -1) {
-      return c.json({ error: 'Role not found' }, 404);
-    }
+app.get('/make-server-63060bc2/email-templates', requireTemplateAdmin, async (c) => {
+  try {
+    return c.json({ success: true, templates: await listTemplates() });
+  } catch (error) {
+    console.log('Get email templates error:', error);
+    return c.json({ error: 'Failed to fetch email templates' }, 500);
+  }
+});
 
-    // Check if new name conflicts with existing roles
-    const existingRole = rolesList.find((r: any) => 
-      r.id !== roleId && r.name.toLowerCase() === roleName.trim().toLowerCase()
-    );
-    
-    if (existingRole) {
-      return c.json({ error: 'Role with this name already exists' }, 400);
-    }
+// Render unsaved template contents with the variables' sample values
+app.post('/make-server-63060bc2/email-templates/preview', requireTemplateAdmin, async (c) => {
+  const body = await readBody(c, emailTemplateInputSchema);
+  if (body.invalid) return body.invalid;
 
-    const oldName = rolesList[roleIndex].name;
+  return c.json({ success: true, preview: renderTemplate(body.value, sampleData(body.value)) });
+});
 
-    // Update role
-    rolesList[roleIndex] = {
-      ...rolesList[roleIndex],
-      name: roleName.trim(),
-      updatedAt: new Date().toISOString(),
-      updatedBy: user.id,
-      updatedByName: staffData.name,
-    };
+// Send unsaved template contents, filled with sample values, to the caller
+app.post('/make-server-63060bc2/email-templates/test', requireTemplateAdmin, async (c) => {
+  const { staff: staffData } = c.get('caller');
+  const body = await readBody(c, emailTemplateInputSchema);
+  if (body.invalid) return body.invalid;
+
+  try {
+    const { subject, html, text } = renderTemplate(body.value, sampleData(body.value));
+    const email = await queueEmail({ to: staffData.email, subject: `[Test] ${subject}`, html, text }, { kind: 'test' });
+    return c.json({ success: true, email });
+  } catch (error) {
+    console.log('Send test email error:', error);
+    return c.json({ error: 'Failed to send test email' }, 500);
+  }
+});
 
-    await kv.set('roles:list', rolesList);
+// Add a template for a new notification type
+app.post('/make-server-63060bc2/email-templates', requireTemplateAdmin, async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+  const body = await readBody(c, newEmailTemplateSchema);
+  if (body.invalid) return body.invalid;
 
-    // Update all staff members who have this role
-    const staffList = (await kv.get('staff:list')) || [];
-    for (const staffId of staffList) {
-      const staff = await kv.get(`staff:${staffId}`);
-      if (staff && staff.role === oldName) {
-        staff.role = roleName.trim();
-        await kv.set(`staff:${staffId}`, staff);
-      }
+  try {
+    if (await getTemplate(body.value.id)) {
+      return c.json({ error: 'A template with this key already exists', code: 'VALIDATION_FAILED', fields: { id: 'Already in use' } }, 409);
     }
 
-    // Log activity
-    await addActivity(user.id, staffData.name, 'edit_role', `Updated role: ${oldName} → ${roleName}`, '', getClientIP(c.req));
+    await repos.emailTemplates.save({ ...body.value, updatedAt: new Date().toISOString(), updatedBy: staffData.name });
+    await addActivity(userId, staffData.name, 'update_email_template', `Added email template: ${body.value.name}`, `Key: ${body.value.id}`, getClientIP(c.req));
 
-    return c.json({ success: true, role: rolesList[roleIndex] });
+    return c.json({ success: true, template: await getTemplate(body.value.id) });
   } catch (error) {
-    console.log(`Update role error: ${error}`);
-    return c.json({ error: 'Failed to update role' }, 500);
+    console.log('Create email template error:', error);
+    return c.json({ error: 'Failed to create email template' }, 500);
   }
 });
 
-// Delete role
-app.delete('/make-server-63060bc2/roles/:id', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
-  }
-
-  const staffData = await kv.get(`staff:${user.id}`);
-  
-  if (!staffData || !staffData.permissions?.staffManagement?.delete) {
-    return c.json({ error: 'No permission to delete roles' }, 403);
-  }
+app.put('/make-server-63060bc2/email-templates/:id', requireTemplateAdmin, async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+  const id = c.req.param('id');
+  const body = await readBody(c, emailTemplateInputSchema);
+  if (body.invalid) return body.invalid;
 
   try {
-    const roleId = c.req.param('id');
-    const rolesList = (await kv.get('roles:list')) || [];
-    
-    const roleIndex = rolesList.findIndex((r: any) => r.id === roleId);
-    
-    if (roleIndex === -1) {
-      return c.json({ error: 'Role not found' }, 404);
+    if (!(await getTemplate(id))) {
+      return c.json({ error: 'Email template not found' }, 404);
     }
 
-    const roleName = rolesList[roleIndex].name;
+    await repos.emailTemplates.save({ ...body.value, id, updatedAt: new Date().toISOString(), updatedBy: staffData.name });
+    await addActivity(userId, staffData.name, 'update_email_template', `Updated email template: ${body.value.name}`, `Key: ${id}`, getClientIP(c.req));
 
-    // Check if any staff members are using this role
-    const staffList = (await kv.get('staff:list')) || [];
-    let hasAssignedStaff = false;
-    
-    for (const staffId of staffList) {
-      const staff = await kv.get(`staff:${staffId}`);
-      if (staff && staff.role === roleName) {
-        hasAssignedStaff = true;
-        break;
-      }
-    }
+    return c.json({ success: true, template: await getTemplate(id) });
+  } catch (error) {
+    console.log('Update email template error:', error);
+    return c.json({ error: 'Failed to update email template' }, 500);
+  }
+});
 
-    if (hasAssignedStaff) {
-      return c.json({ error: 'Cannot delete role that is assigned to staff members' }, 400);
-    }
+// Deletes a custom template, or restores a built-in one to its default
+app.delete('/make-server-63060bc2/email-templates/:id', requireTemplateAdmin, async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+  const id = c.req.param('id');
 
-    // Remove role from list
-    rolesList.splice(roleIndex, 1);
-    await kv.set('roles:list', rolesList);
+  try {
+    const template = await getTemplate(id);
+    if (!template) {
+      return c.json({ error: 'Email template not found' }, 404);
+    }
 
-    // Log activity
-    await addActivity(user.id, staffData.name, 'delete_role', `Deleted role: ${roleName}`, '', getClientIP(c.req));
+    await repos.emailTemplates.remove(id);
+    const description = template.builtIn ? `Restored default email template: ${template.name}` : `Deleted email template: ${template.name}`;
+    await addActivity(userId, staffData.name, 'update_email_template', description, `Key: ${id}`, getClientIP(c.req));
 
-    return c.json({ success: true });
+    return c.json({ success: true, template: isBuiltInTemplate(id) ? await getTemplate(id) : null });
   } catch (error) {
-    console.log(`Delete role error: ${error}`);
-    return c.json({ error: 'Failed to delete role' }, 500);
+    console.log('Delete email template error:', error);
+    return c.json({ error: 'Failed to delete email template' }, 500);
   }
 });
 
-// Refresh all users' permissions (utility endpoint for migrations)
-app.post('/make-server-63060bc2/refresh-permissions', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
-  }
-
-  const currentStaffData = await kv.get(`staff:${user.id}`);
-  
-  // Only Super Admin can refresh all permissions
-  if (!currentStaffData || currentStaffData.role !== 'Super Admin') {
-    return c.json({ error: 'Only Super Admin can refresh permissions' }, 403);
-  }
+// ==================== EXPORTS ====================
 
-  try {
-    const staffList = (await kv.get('staff:list')) || [];
-    let updatedCount = 0;
+// CSV or XLSX downloads of the list pages. Each takes the same filters as its list route and applies the same
+// visibility, but returns every matching record instead of one page.
 
-    for (const staffId of staffList) {
-      const staffData = await kv.get(`staff:${staffId}`);
-      if (staffData) {
-        const updatedPermissions = getDefaultPermissions(staffData.role);
-        staffData.permissions = updatedPermissions;
-        await kv.set(`staff:${staffId}`, staffData);
-        updatedCount++;
-      }
-    }
+app.get('/make-server-63060bc2/deposits/export', requirePermission('deposits', 'view'), async (c) => {
+  const caller = c.get('caller');
+  const format = readExportFormat(c);
+  if (!format) return invalidExportFormat(c);
 
-    // Log activity
-    await addActivity(user.id, currentStaffData.name, 'edit_staff', `Refreshed permissions for all users`, `Updated ${updatedCount} users`, getClientIP(c.req));
+  const { query } = readRecordQuery(c);
+  if (!canViewAll(caller, 'deposits')) {
+    query.submittedBy = caller.id;
+  }
 
-    return c.json({ success: true, message: `Updated permissions for ${updatedCount} users` });
+  try {
+    const deposits = await queryAll(repos.deposits, query);
+    return await sendExport(c, format, 'deposits', depositColumns(deposits), deposits, 'deposit entries');
   } catch (error) {
-    console.log(`Refresh permissions error: ${error}`);
-    return c.json({ error: 'Failed to refresh permissions' }, 500);
+    console.log(`Export deposits error: ${error}`);
+    return c.json({ error: 'Failed to export deposits' }, 500);
   }
 });
 
-// ==================== BANKS API ====================
+app.get('/make-server-63060bc2/bank-deposits/export', requirePermission('bankDeposits', 'view'), async (c) => {
+  const caller = c.get('caller');
+  const format = readExportFormat(c);
+  if (!format) return invalidExportFormat(c);
 
-// Get all banks
-app.get('/make-server-63060bc2/banks', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
+  const { query } = readRecordQuery(c);
+  if (!canViewAll(caller, 'bankDeposits')) {
+    query.submittedBy = caller.id;
   }
 
-  const staffData = await kv.get(`staff:${user.id}`);
-  
-  if (!staffData || !staffData.permissions?.bankDeposits?.view) {
-    return c.json({ error: 'No permission to view banks' }, 403);
+  try {
+    const [transactions, banks] = await Promise.all([queryAll(repos.bankDeposits, query), repos.banks.list()]);
+    const banksById = new Map(banks.map((bank: any) => [bank.id, bank]));
+    return await sendExport(c, format, 'bank-transactions', bankTransactionColumns(banksById), transactions, 'bank transactions');
+  } catch (error) {
+    console.log(`Export bank deposits error: ${error}`);
+    return c.json({ error: 'Failed to export bank transactions' }, 500);
   }
+});
+
+app.get('/make-server-63060bc2/staff/export', requirePermission('staffManagement', 'view', 'No permission to view staff'), async (c) => {
+  const format = readExportFormat(c);
+  if (!format) return invalidExportFormat(c);
 
   try {
-    const banks = (await kv.get('banks:list')) || [];
-    return c.json({ success: true, banks });
+    const staff = filterStaff(await repos.staff.list(), c);
+    return await sendExport(c, format, 'staff', staffColumns, staff, 'staff members');
   } catch (error) {
-    console.log(`Get banks error: ${error}`);
-    return c.json({ error: 'Failed to fetch banks' }, 500);
+    console.log(`Export staff error: ${error}`);
+    return c.json({ error: 'Failed to export staff' }, 500);
   }
 });
 
-// Add new bank
-app.post('/make-server-63060bc2/banks', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
+// Filters: `search` (description, details, user), `action`, `userId`
+app.get('/make-server-63060bc2/activities/export', authenticate, async (c) => {
+  const caller = c.get('caller');
+  const format = readExportFormat(c);
+  if (!format) return invalidExportFormat(c);
+
+  const search = c.req.query('search')?.toLowerCase() || '';
+  const action = c.req.query('action') || '';
+  const userId = canViewAll(caller, 'activityLogs') ? c.req.query('userId') || '' : caller.id;
+
+  try {
+    const activities = (await repos.activities.list())
+      .filter((a: any) =>
+        (!userId || a.userId === userId) &&
+        (!action || a.action === action) &&
+        (!search || [a.description, a.details, a.userName].some((text) => text?.toLowerCase().includes(search))))
+      .sort((a: any, b: any) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    return await sendExport(c, format, 'activity-log', activityColumns, activities, 'activity log entries');
+  } catch (error) {
+    console.log(`Export activities error: ${error}`);
+    return c.json({ error: 'Failed to export activity log' }, 500);
   }
+});
 
-  const staffData = await kv.get(`staff:${user.id}`);
-  
-  if (!staffData || !staffData.permissions?.bankDeposits?.add) {
-    return c.json({ error: 'No permission to add banks' }, 403);
+function readExportFormat(c: any): ExportFormat | null {
+  const format = c.req.query('format') || 'csv';
+  return (EXPORT_FORMATS as readonly string[]).includes(format) ? (format as ExportFormat) : null;
+}
+
+function invalidExportFormat(c: any) {
+  const message = `Format must be one of: ${EXPORT_FORMATS.join(', ')}`;
+  return c.json({ error: message, code: 'VALIDATION_FAILED', fields: { format: message } }, 400);
+}
+
+// Every record matching `query`, fetched a page at a time
+async function queryAll(repository: QueryableRepository, query: RecordQuery) {
+  const items: any[] = [];
+  for (let page = 1; ; page++) {
+    const result = await repository.query({ ...query, page, limit: MAX_PAGE_SIZE });
+    items.push(...result.items);
+    if (result.items.length < MAX_PAGE_SIZE || items.length >= result.totalCount) return items;
   }
+}
 
-  try {
-    const { bankName } = await c.req.json();
+// Exports are logged, since they take data out of the panel
+async function sendExport(c: any, format: ExportFormat, name: string, columns: ExportColumn[], records: any[], description: string) {
+  const { id: userId, staff: staffData } = c.get('caller');
+  const file = await buildExport(name, format, columns, records);
+  await addActivity(userId, staffData.name, 'export_data', `Exported ${records.length} ${description}`, `Format: ${format.toUpperCase()}`, getClientIP(c.req));
+
+  return new Response(file.body, {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.filename}"`,
+    },
+  });
+}
 
-    if (!bankName || !bankName.trim()) {
-      return c.json({ error: 'Bank name is required' }, 400);
-    }
+// ==================== IMPORTS ====================
 
-    // Check if bank already exists
-    const banksList = (await kv.get('banks:list')) || [];
-    const existingBank = banksList.find((b: any) => b.name.toLowerCase() === bankName.trim().toLowerCase());
-    
-    if (existingBank) {
-      return c.json({ error: 'Bank with this name already exists' }, 400);
-    }
+// Admin-only bulk import of historical entries from spreadsheets (see import.tsx). With `dryRun` the route
+// returns the validation report; otherwise the rows are written only if every one of them is valid.
+const requireImportAdmin = requireRole(['Super Admin', 'Admin'], 'Only admins can import data');
 
-    const bankId = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const newBank = {
-      id: bankId,
-      name: bankName.trim(),
-      createdAt: new Date().toISOString(),
-      createdBy: user.id,
-      createdByName: staffData.name,
-    };
+const IMPORT_LABELS: Record<ImportType, string> = {
+  deposits: 'deposit entries',
+  bankDeposits: 'bank transactions',
+};
 
-    // Add bank to list
-    banksList.push(newBank);
-    await kv.set('banks:list', banksList);
+async function handleImport(c: any, type: ImportType, schema: typeof depositImportSchema | typeof bankTransactionImportSchema) {
+  const { id: userId, staff: staffData } = c.get('caller');
+  const body = await readBody<any>(c, schema);
+  if (body.invalid) return body.invalid;
+  const { rows, submittedBy, dateFormat, dryRun, bankAliases } = body.value;
 
-    // Log activity
-    await addActivity(user.id, staffData.name, 'add_bank', `Created new bank: ${bankName}`, '', getClientIP(c.req));
+  const submitter = await repos.staff.get(submittedBy);
+  if (!submitter || submitter.isArchived) {
+    return c.json({ error: 'Staff member not found', code: 'VALIDATION_FAILED', fields: { submittedBy: 'Staff member not found' } }, 400);
+  }
 
-    return c.json({ success: true, bank: newBank });
+  try {
+    let { report, inputs } = await validateImport(type, { rows, dateFormat, bankAliases });
+    if (type === 'deposits') {
+      const currencies = await defaultEntryCurrencies();
+      inputs = inputs.map((input) => ({ ...input, currencies }));
+    }
+    if (dryRun) {
+      return c.json({ success: true, report });
+    }
+    if (report.errors.length > 0) {
+      return c.json({ error: `${report.errors.length} problems found; nothing was imported`, code: 'IMPORT_INVALID', report }, 400);
+    }
+
+    const batch = await commitImport(type, inputs, { id: submitter.id, name: submitter.name }, auditActor(c));
+    await addActivity(userId, staffData.name, 'import_data', `Imported ${batch.count} ${IMPORT_LABELS[type]}`, `For ${submitter.name}, batch ${batch.id}`, getClientIP(c.req));
+
+    return c.json({ success: true, report: { ...report, batch } });
   } catch (error) {
-    console.log(`Add bank error: ${error}`);
-    return c.json({ error: 'Failed to add bank' }, 500);
+    console.log(`Import ${type} error: ${error}`);
+    return c.json({ error: 'Failed to import' }, 500);
   }
+}
+
+app.post('/make-server-63060bc2/imports/deposits', requireImportAdmin, (c) => handleImport(c, 'deposits', depositImportSchema));
+
+app.post('/make-server-63060bc2/imports/bank-deposits', requireImportAdmin, (c) => handleImport(c, 'bankDeposits', bankTransactionImportSchema));
+
+app.get('/make-server-63060bc2/imports', requireImportAdmin, async (c) => {
+  return c.json({ success: true, batches: await listImportBatches() });
 });
 
-// Update bank
-app.put('/make-server-63060bc2/banks/:id', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
+// Deletes the entries an import wrote; entries already deleted by hand are skipped
+app.post('/make-server-63060bc2/imports/:id/rollback', requireImportAdmin, async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+  const batch = await getImportBatch(c.req.param('id'));
+  if (!batch) {
+    return c.json({ error: 'Import not found' }, 404);
   }
-
-  const staffData = await kv.get(`staff:${user.id}`);
-  
-  // Only admins can edit banks
-  const isAdmin = staffData.role === 'Admin' || staffData.role === 'Super Admin';
-  
-  if (!staffData || !staffData.permissions?.bankDeposits?.edit || !isAdmin) {
-    return c.json({ error: 'No permission to edit banks' }, 403);
+  if (batch.rolledBackAt) {
+    return c.json({ error: 'This import was already rolled back' }, 409);
   }
 
   try {
-    const bankId = c.req.param('id');
-    const { bankName } = await c.req.json();
+    const rolledBack = await rollbackImport(batch, auditActor(c));
+    const { recordIds: _recordIds, ...summary } = rolledBack;
+    await addActivity(userId, staffData.name, 'rollback_import', `Rolled back import of ${batch.count} ${IMPORT_LABELS[batch.type]}`, `Batch ${batch.id}, imported by ${batch.importedByName}`, getClientIP(c.req));
 
-    if (!bankName || !bankName.trim()) {
-      return c.json({ error: 'Bank name is required' }, 400);
-    }
+    return c.json({ success: true, batch: summary });
+  } catch (error) {
+    console.log(`Rollback import error: ${error}`);
+    return c.json({ error: 'Failed to roll back import' }, 500);
+  }
+});
 
-    const banksList = (await kv.get('banks:list')) || [];
-    const bankIndex = banksList.findIndex((b: any) => b.id === bankId);
-    
-    if (bankIndex === -1) {
-      return c.json({ error: 'Bank not found' }, 404);
-    }
+// ==================== HELPER FUNCTIONS ====================
 
-    // Check if new name conflicts with existing banks
-    const existingBank = banksList.find((b: any) => 
-      b.id !== bankId && b.name.toLowerCase() === bankName.trim().toLowerCase()
-    );
-    
-    if (existingBank) {
-      return c.json({ error: 'Bank with this name already exists' }, 400);
-    }
+// Staff matching the list filters (`search`, `role`, `status`, `archived`), newest first
+function filterStaff(staff: any[], c: any) {
+  const searchTerm = c.req.query('search')?.toLowerCase() || '';
+  const role = c.req.query('role') || '';
+  const status = c.req.query('status') || '';
+  const archived = c.req.query('archived') || '';
 
-    const oldName = banksList[bankIndex].name;
+  let filteredStaff = staff;
 
-    // Update bank
-    banksList[bankIndex] = {
-      ...banksList[bankIndex],
-      name: bankName.trim(),
-      updatedAt: new Date().toISOString(),
-      updatedBy: user.id,
-      updatedByName: staffData.name,
-    };
+  // Search filter
+  if (searchTerm) {
+    filteredStaff = filteredStaff.filter((member: any) => {
+      return (
+        member.name?.toLowerCase().includes(searchTerm) ||
+        member.email?.toLowerCase().includes(searchTerm) ||
+        member.role?.toLowerCase().includes(searchTerm)
+      );
+    });
+  }
 
-    await kv.set('banks:list', banksList);
+  // Role filter
+  if (role && role !== 'all') {
+    filteredStaff = filteredStaff.filter((member: any) => member.role === role);
+  }
 
-    // Log activity
-    await addActivity(user.id, staffData.name, 'edit_bank', `Updated bank: ${oldName} → ${bankName}`, '', getClientIP(c.req));
+  // Status filter
+  if (status && status !== 'all') {
+    filteredStaff = filteredStaff.filter((member: any) => member.status === status);
+  }
 
-    return c.json({ success: true, bank: banksList[bankIndex] });
-  } catch (error) {
-    console.log(`Update bank error: ${error}`);
-    return c.json({ error: 'Failed to update bank' }, 500);
+  // Archived filter
+  if (archived === 'true') {
+    filteredStaff = filteredStaff.filter((member: any) => member.isArchived === true);
+  } else if (archived === 'false') {
+    filteredStaff = filteredStaff.filter((member: any) => member.isArchived !== true);
   }
-});
 
-// Delete bank
-app.delete('/make-server-63060bc2/banks/:id', async (c) => {
-  const { user, error } = await verifyUser(c.req.header('Authorization'));
-  
-  if (error || !user) {
-    return c.json({ error: error || 'Unauthorized' }, 401);
+  // Sort by createdAt (newest first)
+  filteredStaff.sort((a: any, b: any) => {
+    const dateA = new Date(a.createdAt || 0).getTime();
+    const dateB = new Date(b.createdAt || 0).getTime();
+    return dateB - dateA;
+  });
+
+  return filteredStaff;
+}
+
+// Parses a JSON body against a contract schema. On failure `invalid` is the 400 response to return, with
+// messages per field path so forms can show them inline.
+async function readBody<T>(c: any, schema: ObjectSchema<T>, options: { partial?: boolean } = {}): Promise<{ value: T; invalid?: undefined } | { value?: undefined; invalid: Response }> {
+  let input: unknown;
+  try {
+    input = await c.req.json();
+  } catch {
+    return { invalid: c.json({ error: 'Request body must be valid JSON', code: 'VALIDATION_FAILED', fields: {} }, 400) };
   }
 
-  const staffData = await kv.get(`staff:${user.id}`);
-  
-  // Only admins can delete banks
-  const isAdmin = staffData.role === 'Admin' || staffData.role === 'Super Admin';
-  
-  if (!staffData || !staffData.permissions?.bankDeposits?.delete || !isAdmin) {
-    return c.json({ error: 'No permission to delete banks' }, 403);
+  const result = validate(schema, input, options);
+  if (!result.ok) {
+    return { invalid: c.json({ error: summarizeFieldErrors(result.errors), code: 'VALIDATION_FAILED', fields: result.errors }, 400) };
   }
+  return { value: result.value };
+}
 
-  try {
-    const bankId = c.req.param('id');
-    const banksList = (await kv.get('banks:list')) || [];
-    
-    const bankIndex = banksList.findIndex((b: any) => b.id === bankId);
-    
-    if (bankIndex === -1) {
-      return c.json({ error: 'Bank not found' }, 404);
-    }
+// 400 for a password the policy rejects, with the reason on the password field
+function weakPassword(c: any, field: string, message: string) {
+  return c.json({ error: message, code: 'PASSWORD_POLICY', fields: { [field]: message } }, 400);
+}
 
-    const bankName = banksList[bankIndex].name;
+// 429 with the wait in both the Retry-After header and the body
+function tooManyRequests(c: any, message: string, retryAfterSeconds: number, code = 'RATE_LIMITED') {
+  c.header('Retry-After', String(retryAfterSeconds));
+  return c.json({ error: message, code, retryAfter: retryAfterSeconds }, 429);
+}
 
-    // Check if any bank transactions are using this bank
-    const bankDepositsList = (await kv.get('bankDeposits:list')) || [];
-    let hasTransactions = false;
-    
-    for (const depositId of bankDepositsList) {
-      const deposit = await kv.get(`bankDeposit:${depositId}`);
-      if (deposit && deposit.bankId === bankId) {
-        hasTransactions = true;
-        break;
-      }
-    }
+// Approved deposit entries are locked: only a reviewer other than the submitter may still change them
+function isLockedDeposit(caller: any, deposit: any) {
+  return depositStatus(deposit) === 'approved'
+    && (deposit.submittedBy === caller.id || !hasPermission(caller, 'deposits', 'approve'));
+}
 
-    if (hasTransactions) {
-      return c.json({ error: 'Cannot delete bank that has transactions' }, 400);
-    }
+function depositLocked(c: any) {
+  return c.json({ error: 'Approved entries are locked. Ask a reviewer to make the change.', code: 'DEPOSIT_LOCKED' }, 409);
+}
 
-    // Remove bank from list
-    banksList.splice(bankIndex, 1);
-    await kv.set('banks:list', banksList);
+// Converter into the reporting currency for list summaries and dashboard metrics
+async function reportingConverter() {
+  const { reportingCurrency } = await getCurrencySettings();
+  return { reportingCurrency, converter: createConverter(await listRateTables(), reportingCurrency) };
+}
 
-    // Log activity
-    await addActivity(user.id, staffData.name, 'delete_bank', `Deleted bank: ${bankName}`, '', getClientIP(c.req));
+// Bank transaction day totals tagged with the currency of their bank
+async function withBankCurrencies(days: BankDepositDayTotals[]) {
+  const currencyOfBank = new Map((await repos.banks.list()).map((bank: any) => [bank.id, bankCurrency(bank)]));
+  return days.map((day) => ({ ...day, currency: currencyOfBank.get(day.bankId) || bankCurrency(null) }));
+}
 
-    return c.json({ success: true });
-  } catch (error) {
-    console.log(`Delete bank error: ${error}`);
-    return c.json({ error: 'Failed to delete bank' }, 500);
-  }
-});
+// Activity detail for a bank transaction, with the currency of its bank (e.g. "Amount: 500 EUR")
+async function bankAmountDetail(transaction: any) {
+  return `Amount: ${transaction.amount} ${bankCurrency(await repos.banks.get(transaction.bankId))}`;
+}
 
-// ==================== HELPER FUNCTIONS ====================
+// Read list filters, sort and page from the query string
+function readRecordQuery(c: any) {
+  const query: RecordQuery = {
+    search: c.req.query('search') || undefined,
+    dateFrom: c.req.query('dateFrom') || undefined,
+    dateTo: c.req.query('dateTo') || undefined,
+    submittedBy: c.req.query('submittedBy') || undefined,
+    bankId: c.req.query('bankId') || undefined,
+    expenseType: c.req.query('expenseType') || undefined,
+    status: DEPOSIT_STATUSES.find((status) => status === c.req.query('status')),
+    sort: c.req.query('sort') || undefined,
+    page: parseInt(c.req.query('page') || '1'),
+    limit: parseInt(c.req.query('limit') || String(DEFAULT_PAGE_SIZE)),
+  };
+  const { page, limit } = pageWindow(query);
+  return { query: { ...query, page, limit }, page, limit };
+}
 
+function paginationInfo(page: number, limit: number, totalCount: number) {
+  const totalPages = Math.ceil(totalCount / limit);
+  return {
+    page,
+    limit,
+    totalCount,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPreviousPage: page > 1,
+  };
+}
+
+// Proxies append the address they received the request from to X-Forwarded-For, so only the entries added by
+// proxies in front of this server can be trusted; anything left of them was sent by the client.
+// TRUSTED_PROXY_HOPS (default 1) is how many such proxies there are.
 function getClientIP(req: any): string {
-  // Try to get IP from various headers
   const forwardedFor = req.header('x-forwarded-for');
   if (forwardedFor) {
-    return forwardedFor.split(',')[0].trim();
+    const hops = Math.max(1, Number(Deno.env.get('TRUSTED_PROXY_HOPS')) || 1);
+    const entries = forwardedFor.split(',').map((entry: string) => entry.trim()).filter(Boolean);
+    return entries[Math.max(0, entries.length - hops)] || 'Unknown';
   }
   
   const realIP = req.header('x-real-ip');
@@ -1813,80 +2977,46 @@ function getClientIP(req: any): string {
   return 'Unknown';
 }
 
-// Full permissions - given to first user automatically
-function getFullPermissions() {
-  return {
-    dashboard: { view: true, add: true, edit: true, delete: true, activity: true },
-    deposits: { view: true, add: true, edit: true, delete: true, activity: true },
-    bankDeposits: { view: true, add: true, edit: true, delete: true, activity: true },
-    staffManagement: { view: true, add: true, edit: true, delete: true, activity: true },
-  };
+// Submitter of a deposit or bank transaction; for a deleted one, taken from its audit history
+function submitterOf(record: any, history: AuditEntry[]): string | undefined {
+  if (record) return record.submittedBy;
+  const change = history.flatMap((entry) => entry.changes).find((item) => item.field === 'submittedBy');
+  return (change?.after ?? change?.before) as string | undefined;
 }
 
-// Empty permissions - all other users must be manually assigned permissions
-function getEmptyPermissions() {
-  return {
-    dashboard: { view: false, add: false, edit: false, delete: false, activity: false },
-    deposits: { view: false, add: false, edit: false, delete: false, activity: false },
-    bankDeposits: { view: false, add: false, edit: false, delete: false, activity: false },
-    staffManagement: { view: false, add: false, edit: false, delete: false, activity: false },
-  };
+// Who an audit entry is attributed to: the authenticated caller
+function auditActor(c: any) {
+  const { id, staff } = c.get('caller');
+  return { id, name: staff.name, ipAddress: getClientIP(c.req) };
 }
 
-// For backward compatibility (used in refresh permissions)
-function getDefaultPermissions(role: string) {
-  // All permissions must be manually assigned - no role-based defaults
-  return getEmptyPermissions();
+// Permissions a member of `role` starts with: the role's template, or nothing for roles without one
+async function getDefaultPermissions(role: string) {
+  const roleRecord = (await repos.roles.list()).find((r: any) => r.name === role);
+  return roleRecord?.permissions ? normalizePermissions(roleRecord.permissions) : getEmptyPermissions();
 }
 
 async function addActivity(userId: string, userName: string, action: string, description: string, details?: string, ipAddress?: string) {
-  const activityId = `${Date.now()}_${userId}_${Math.random().toString(36).substr(2, 9)}`;
-  
-  const activity = {
-    id: activityId,
+  await appendActivity({
     userId,
     userName,
-    action,
+    action: action as ActivityType,
     description,
     details: details || '',
     ipAddress: ipAddress || 'Unknown',
-    timestamp: new Date().toISOString(),
-  };
-
-  await kv.set(`activity:${activityId}`, activity);
-  
-  // Add to activities list (keep last 1000)
-  const activitiesList = (await kv.get('activities:list')) || [];
-  activitiesList.unshift(activityId);
-  if (activitiesList.length > 1000) {
-    const removed = activitiesList.slice(1000);
-    await kv.mdel(removed.map((id: string) => `activity:${id}`));
-    activitiesList.splice(1000);
-  }
-  await kv.set('activities:list', activitiesList);
+  });
 }
 
 // ==================== UTILITY ROUTES (Admin/Debug) ====================
 
 // Fix first user permissions (if they got created without proper permissions)
-app.post('/make-server-63060bc2/fix-admin-permissions', async (c) => {
+app.post('/make-server-63060bc2/fix-admin-permissions', authenticate, async (c) => {
   try {
-    const { user, error: authError } = await verifyUser(c.req.header('Authorization'));
-    
-    if (authError || !user) {
-      return c.json({ error: 'Unauthorized' }, 401);
-    }
-
-    // Get current staff data
-    const currentStaffData = await kv.get(`staff:${user.id}`);
-    
-    if (!currentStaffData) {
-      return c.json({ error: 'Staff data not found' }, 404);
-    }
+    const { id: userId, staff: currentStaffData } = c.get('caller');
 
     // Check if user is the first user
-    const staffList = (await kv.get('staff:list')) || [];
-    const isFirstUser = staffList.length === 1 && staffList[0] === user.id;
+    const staffList = await repos.staff.listIds();
+    const isFirstUser = staffList.length === 1 && staffList[0] === userId;
 
     if (!isFirstUser) {
       return c.json({ error: 'Only the first user can use this endpoint' }, 403);
@@ -1898,7 +3028,7 @@ app.post('/make-server-63060bc2/fix-admin-permissions', async (c) => {
       permissions: getFullPermissions(),
     };
 
-    await kv.set(`staff:${user.id}`, updatedStaffData);
+    await repos.staff.save(updatedStaffData);
 
     console.log(`Fixed permissions for first user: ${currentStaffData.email}`);
 
@@ -1914,22 +3044,17 @@ app.post('/make-server-63060bc2/fix-admin-permissions', async (c) => {
 });
 
 // Get current user's full data (for debugging)
-app.get('/make-server-63060bc2/debug/me', async (c) => {
+app.get('/make-server-63060bc2/debug/me', authenticate, async (c) => {
   try {
-    const { user, error: authError } = await verifyUser(c.req.header('Authorization'));
-    
-    if (authError || !user) {
-      return c.json({ error: 'Unauthorized' }, 401);
-    }
-
-    const staffData = await kv.get(`staff:${user.id}`);
-    const staffList = await kv.get('staff:list');
+    const { id, email, staff: staffData } = c.get('caller');
+    const user = { id, email };
+    const staffList = await repos.staff.listIds();
 
     return c.json({ 
       user,
       staffData,
       staffList,
-      isFirstUser: staffList && staffList.length === 1 && staffList[0] === user.id
+      isFirstUser: staffList && staffList.length === 1 && staffList[0] === id
     });
   } catch (error: any) {
     console.error('Debug me error:', error);
@@ -1937,158 +3062,181 @@ app.get('/make-server-63060bc2/debug/me', async (c) => {
   }
 });
 
-// ==================== DASHBOARD ROUTES ====================
+// ==================== CURRENCIES ====================
+
+const requireCurrencyAdmin = requireRole(['Super Admin', 'Admin'], 'Only admins can manage currencies and exchange rates');
+
+// Currencies preselected for a new deposit entry
+async function defaultEntryCurrencies(): Promise<DepositCurrencies> {
+  const { bank: _bank, ...currencies } = (await getCurrencySettings()).defaults;
+  return currencies;
+}
+
+function invalidFields(c: any, fields: FieldErrors) {
+  return c.json({ error: summarizeFieldErrors(fields), code: 'VALIDATION_FAILED', fields }, 400);
+}
+
+// Any signed-in member: forms preselect the defaults and amounts are labelled with their currency
+app.get('/make-server-63060bc2/currency-settings', authenticate, async (c) => {
+  return c.json({ success: true, settings: await getCurrencySettings() });
+});
+
+app.put('/make-server-63060bc2/currency-settings', requireCurrencyAdmin, async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+  const body = await readBody(c, currencySettingsSchema);
+  if (body.invalid) return body.invalid;
+
+  const problems = currencySettingsProblems(body.value);
+  if (problems) return invalidFields(c, problems);
 
-// Get dashboard metrics with date filtering (optimized for performance)
-app.get('/make-server-63060bc2/dashboard/metrics', async (c) => {
   try {
-    const { user, error } = await verifyUser(c.req.header('Authorization'));
-    
-    if (error || !user) {
-      return c.json({ error: error || 'Unauthorized' }, 401);
-    }
+    const settings = await setCurrencySettings(body.value);
+    await addActivity(userId, staffData.name, 'update_currency_settings', 'Updated currency settings', `Reporting currency: ${settings.reportingCurrency}, currencies: ${settings.currencies.join(', ')}`, getClientIP(c.req));
+    return c.json({ success: true, settings });
+  } catch (error) {
+    console.log('Update currency settings error:', error);
+    return c.json({ error: 'Failed to update currency settings' }, 500);
+  }
+});
 
-    let staffData = await kv.get(`staff:${user.id}`);
-    
-    if (!staffData) {
-      return c.json({ error: 'Staff not found' }, 404);
-    }
-
-    // AUTO-FIX: Ensure permissions exist
-    if (!staffData.permissions || Object.keys(staffData.permissions).length === 0) {
-      console.log(`Auto-fixing missing permissions for user in dashboard endpoint: ${staffData.email}`);
-      
-      const staffList = (await kv.get('staff:list')) || [];
-      const isFirstUser = staffList.length === 1 && staffList[0] === user.id;
-      
-      if (isFirstUser || staffData.role === 'Super Admin' || staffData.role === 'Admin') {
-        staffData.permissions = getFullPermissions();
-      } else {
-        staffData.permissions = {
-          dashboard: { view: true, viewAll: false },
-          deposits: { view: true, add: true, edit: true, delete: false, viewAll: false },
-          bankDeposits: { view: true, add: true, edit: true, delete: false, viewAll: false },
-          staffManagement: { view: false, add: false, edit: false, delete: false, archive: false, restore: false, viewAll: false },
-          activityLogs: { view: true, viewAll: false },
-          settings: { view: true, edit: false }
-        };
-      }
-      await kv.set(`staff:${user.id}`, staffData);
-    }
-
-    if (!staffData.permissions?.dashboard?.view) {
-      return c.json({ error: 'No permission to view dashboard' }, 403);
-    }
-
-    // Get date filter parameters
-    const dateFilter = c.req.query('dateFilter') || 'all'; // 'all', 'today', 'week', 'month'
-    const dateFrom = c.req.query('dateFrom') || '';
-    const dateTo = c.req.query('dateTo') || '';
-
-    // Helper function to check if date is in range
-    const isDateInRange = (dateStr: string): boolean => {
-      const date = new Date(dateStr);
-      const now = new Date();
-
-      // Custom date range
-      if (dateFrom || dateTo) {
-        const from = dateFrom ? new Date(dateFrom) : null;
-        const to = dateTo ? new Date(dateTo) : null;
-        
-        if (from && to) {
-          return date >= from && date <= to;
-        } else if (from) {
-          return date >= from;
-        } else if (to) {
-          return date <= to;
-        }
-      }
+// Rate tables, newest date first
+app.get('/make-server-63060bc2/exchange-rates', authenticate, async (c) => {
+  const params = validate(exchangeRateQuerySchema, c.req.query());
+  if (!params.ok) return invalidFields(c, params.errors);
 
-      // Predefined filters
-      switch (dateFilter) {
-        case 'today':
-          return date.toDateString() === now.toDateString();
-        case 'week':
-          const weekAgo = new Date(now);
-          weekAgo.setDate(now.getDate() - 7);
-          return date >= weekAgo && date <= now;
-        case 'month':
-          const monthAgo = new Date(now);
-          monthAgo.setMonth(now.getMonth() - 1);
-          return date >= monthAgo && date <= now;
-        case 'all':
-        default:
-          return true;
-      }
-    };
+  try {
+    return c.json({ success: true, tables: await listRateTables(params.value) });
+  } catch (error) {
+    console.log('Get exchange rates error:', error);
+    return c.json({ error: 'Failed to fetch exchange rates' }, 500);
+  }
+});
+
+// Replaces the rates of one date
+app.put('/make-server-63060bc2/exchange-rates/:date', requireCurrencyAdmin, async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+  const errors: FieldErrors = {};
+  const date = isoDate().check(c.req.param('date'), 'date', errors);
+  if (!date) return invalidFields(c, errors);
 
-    // Fetch all deposits
-    const depositsList = (await kv.get('deposits:list')) || [];
-    let deposits = await kv.mget(depositsList.map((id: string) => `deposit:${id}`));
-    deposits = deposits.filter((d: any) => d !== null);
+  const body = await readBody(c, exchangeRateInputSchema);
+  if (body.invalid) return body.invalid;
+  const problems = ratesProblems(body.value.rates);
+  if (problems) return invalidFields(c, problems);
+
+  try {
+    const existed = !!(await getRateTable(date));
+    const table = await saveRateTable(date, body.value.rates, staffData.name);
+    await addActivity(userId, staffData.name, 'update_exchange_rates', `${existed ? 'Updated' : 'Added'} exchange rates for ${date}`, table.rates.map((rate) => `${rate.currency} ${rate.rate}`).join(', '), getClientIP(c.req));
+    return c.json({ success: true, table });
+  } catch (error) {
+    console.log('Save exchange rates error:', error);
+    return c.json({ error: 'Failed to save exchange rates' }, 500);
+  }
+});
 
-    // Fetch all withdrawals (bank deposits)
-    const withdrawalsList = (await kv.get('bankDeposits:list')) || [];
-    let withdrawals = await kv.mget(withdrawalsList.map((id: string) => `bankDeposit:${id}`));
-    withdrawals = withdrawals.filter((w: any) => w !== null);
+app.delete('/make-server-63060bc2/exchange-rates/:date', requireCurrencyAdmin, async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+  const date = c.req.param('date');
 
-    // Role-based filtering (Admin sees all, Staff sees only their own)
-    const isAdmin = staffData.role === 'Admin' || staffData.role === 'Super Admin';
-    if (!isAdmin) {
-      deposits = deposits.filter((d: any) => d.submittedBy === user.id);
-      withdrawals = withdrawals.filter((w: any) => w.submittedBy === user.id);
+  try {
+    if (!(await deleteRateTable(date))) {
+      return c.json({ error: 'No exchange rates for this date' }, 404);
     }
+    await addActivity(userId, staffData.name, 'update_exchange_rates', `Deleted exchange rates for ${date}`, '', getClientIP(c.req));
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Delete exchange rates error:', error);
+    return c.json({ error: 'Failed to delete exchange rates' }, 500);
+  }
+});
 
-    // Apply date filters
-    deposits = deposits.filter((d: any) => isDateInRange(d.date));
-    withdrawals = withdrawals.filter((w: any) => isDateInRange(w.date));
+// Rates from a spreadsheet, one date, currency and rate per row. Like the other imports a dry run only reports,
+// and a real import writes every row or none. Imported rates replace those of the same date and currency.
+app.post('/make-server-63060bc2/exchange-rates/import', requireCurrencyAdmin, async (c) => {
+  const { id: userId, staff: staffData } = c.get('caller');
+  const body = await readBody(c, exchangeRateImportSchema);
+  if (body.invalid) return body.invalid;
+  const { rows, dateFormat, dryRun } = body.value;
 
-    // Calculate metrics (ON BACKEND for performance!)
-    const totalDeposits = deposits.reduce((sum: number, deposit: any) => 
-      sum + (deposit.localDeposit || 0) + (deposit.usdtDeposit || 0) + (deposit.cashDeposit || 0), 0
-    );
+  try {
+    const { report, tables } = validateRateImport(rows, dateFormat);
+    if (dryRun) {
+      return c.json({ success: true, report });
+    }
+    if (report.errors.length > 0) {
+      return c.json({ error: `${report.errors.length} problems found; nothing was imported`, code: 'IMPORT_INVALID', report }, 400);
+    }
 
-    const totalWithdrawals = withdrawals.reduce((sum: number, withdrawal: any) => 
-      sum + (withdrawal.amount || 0), 0
-    );
+    await commitRateImport(tables, staffData.name);
+    await addActivity(userId, staffData.name, 'update_exchange_rates', `Imported ${report.valid} exchange rates`, `${report.dates.length} date(s), ${report.dates[0]} to ${report.dates[report.dates.length - 1]}`, getClientIP(c.req));
 
-    const totalBalance = totalDeposits - totalWithdrawals;
+    return c.json({ success: true, report });
+  } catch (error) {
+    console.log('Import exchange rates error:', error);
+    return c.json({ error: 'Failed to import exchange rates' }, 500);
+  }
+});
 
-    const totalCompanyExpenses = deposits.reduce((sum: number, deposit: any) => {
-      const expenses = deposit.expenses || [];
-      return sum + expenses.reduce((expSum: number, expense: any) => expSum + (expense.amount || 0), 0);
-    }, 0);
+// ==================== DASHBOARD ROUTES ====================
 
-    const balanceExcludingExpenses = totalBalance - totalCompanyExpenses;
+// Get dashboard metrics with date filtering (optimized for performance)
+app.get('/make-server-63060bc2/dashboard/metrics', requirePermission('dashboard', 'view', 'No permission to view dashboard'), async (c) => {
+  const caller = c.get('caller');
 
-    const totalClientIncentives = deposits.reduce((sum: number, deposit: any) => {
-      const incentives = deposit.clientIncentives || [];
-      return sum + incentives.reduce((incSum: number, incentive: any) => incSum + (incentive.amount || 0), 0);
-    }, 0);
+  const params = validate(dashboardMetricsQuerySchema, c.req.query());
+  if (!params.ok) {
+    return c.json({ error: summarizeFieldErrors(params.errors), code: 'VALIDATION_FAILED', fields: params.errors }, 400);
+  }
 
-    const netProfit = balanceExcludingExpenses - totalClientIncentives;
+  // An explicit dateFrom/dateTo range takes precedence over the preset
+  const dateFilter = params.value.dateFilter || 'all';
+  const { dateFrom, dateTo } = params.value.dateFrom || params.value.dateTo
+    ? params.value
+    : presetBounds(dateFilter, new Date().toISOString().slice(0, 10));
+  const interval = params.value.interval || defaultInterval(dateFrom, dateTo);
+  const includeUnapproved = params.value.includeUnapproved === 'true';
 
-    // Return only summary metrics (not full data for performance!)
+  try {
+    // Per-day totals are aggregated by the data store; dashboard viewAll decides between everyone's and the caller's own
+    const query: RecordQuery = {
+      submittedBy: canViewAll(caller, 'dashboard') ? undefined : caller.id,
+      dateFrom,
+      dateTo,
+    };
+    const depositDays = await repos.deposits.dailyTotals(query);
+    const withdrawals = await withBankCurrencies(await repos.bankDeposits.dailyTotals(query));
+    const { reportingCurrency, converter } = await reportingConverter();
+    const toReporting = converter.convert;
+
+    // Approved entries always count, entries awaiting review only on request; drafts and rejected ones never
+    const countOf = (days: { count: number }[]) => days.reduce((total, day) => total + day.count, 0);
+    const pendingDepositsCount = countOf(depositDays.filter((day) => day.status === 'submitted'));
+    const deposits = depositDays.filter((day) =>
+      day.status === 'approved' || (includeUnapproved && day.status === 'submitted'));
+
+    // Return only summary metrics and series (not full data for performance!)
+    const metrics = summarizeMetrics(deposits, withdrawals, toReporting);
+    const points = buildMetricsSeries(deposits, withdrawals, interval, { dateFrom, dateTo }, toReporting);
     return c.json({
       success: true,
-      metrics: {
-        totalDeposits,
-        totalWithdrawals,
-        totalBalance,
-        totalCompanyExpenses,
-        balanceExcludingExpenses,
-        totalClientIncentives,
-        netProfit,
-      },
+      metrics,
       counts: {
-        depositsCount: deposits.length,
-        withdrawalsCount: withdrawals.length,
+        depositsCount: countOf(deposits),
+        withdrawalsCount: countOf(withdrawals),
+        pendingDepositsCount,
+      },
+      series: {
+        interval,
+        points,
       },
       dateRange: {
         dateFilter,
-        dateFrom,
-        dateTo,
-      }
+        dateFrom: dateFrom || '',
+        dateTo: dateTo || '',
+      },
+      includeUnapproved,
+      currency: { reportingCurrency, missingRates: converter.missingRates() },
     });
 
   } catch (error: any) {
@@ -2099,4 +3247,11 @@ app.get('/make-server-63060bc2/dashboard/metrics', async (c) => {
 
 // ==================== START SERVER ====================
 
-Deno.serve(app.fetch);
+await assertDataStoreConfigured();
+
+// Exported so local scripts and tests can drive the app with app.fetch(new Request(...))
+export default app;
+
+if (Deno.env.get('DISABLE_HTTP_SERVER') !== 'true') {
+  Deno.serve(app.fetch);
+}
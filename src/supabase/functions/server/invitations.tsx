@@ -0,0 +1,126 @@
+// Staff invitations
+// Admins add staff by invitation instead of choosing a password for them: the invitee gets an emailed link with
+// a random token and sets their own password on the accept page. Tokens are stored only as HMAC hashes (see
+// password-reset.tsx), expire after INVITE_TTL_DAYS and stop working once accepted, resent or revoked.
+//   invitation:{id}           - StaffInvitation & { tokenHash }
+//   invitation-token:{hash}   - { invitationId }
+
+import * as kv from './storage.tsx';
+import { generateToken, hashSecret, normalizeEmail } from './password-reset.tsx';
+import { globalVariables } from './email-templates.tsx';
+import type { InviteStaffInput, StaffInvitation } from './contract.tsx';
+
+export const INVITE_TTL_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type InvitationRecord = StaffInvitation & { tokenHash: string };
+
+const invitationKey = (id: string) => `invitation:${id}`;
+const tokenKey = (tokenHash: string) => `invitation-token:${tokenHash}`;
+
+// Public view of a record: everything but the token hash
+function toStaffInvitation({ tokenHash, ...invitation }: InvitationRecord): StaffInvitation {
+  return invitation;
+}
+
+/**
+ * Link to the accept page for a token
+ */
+export function invitationUrl(token: string): string {
+  return `${globalVariables().appUrl.replace(/\/+$/, '')}/?invite=${encodeURIComponent(token)}`;
+}
+
+async function issueToken(record: Omit<InvitationRecord, 'tokenHash'>): Promise<{ record: InvitationRecord; token: string }> {
+  const token = generateToken();
+  const tokenHash = await hashSecret(`invite:${token}`);
+  const saved = { ...record, tokenHash };
+
+  await kv.set(invitationKey(record.id), saved);
+  await kv.set(tokenKey(tokenHash), { invitationId: record.id });
+  return { record: saved, token };
+}
+
+/**
+ * Creates an invitation and its first token. The caller emails the link.
+ */
+export async function createInvitation(
+  input: InviteStaffInput,
+  inviter: { id: string; name: string },
+  now = Date.now(),
+): Promise<{ invitation: StaffInvitation; token: string }> {
+  const at = new Date(now).toISOString();
+  const { record, token } = await issueToken({
+    id: `${now}_${Math.random().toString(36).slice(2, 11)}`,
+    email: normalizeEmail(input.email),
+    name: input.name,
+    role: input.role,
+    permissions: input.permissions,
+    invitedBy: inviter.id,
+    invitedByName: inviter.name,
+    createdAt: at,
+    expiresAt: new Date(now + INVITE_TTL_DAYS * DAY_MS).toISOString(),
+    lastSentAt: at,
+    sendCount: 1,
+  });
+  return { invitation: toStaffInvitation(record), token };
+}
+
+/**
+ * Replaces the token of an invitation and restarts its expiry, so the link in earlier emails stops working
+ */
+export async function renewInvitation(id: string, now = Date.now()): Promise<{ invitation: StaffInvitation; token: string } | null> {
+  const existing: InvitationRecord | null = await kv.get(invitationKey(id));
+  if (!existing) return null;
+
+  await kv.del(tokenKey(existing.tokenHash));
+  const { tokenHash, ...rest } = existing;
+  const { record, token } = await issueToken({
+    ...rest,
+    expiresAt: new Date(now + INVITE_TTL_DAYS * DAY_MS).toISOString(),
+    lastSentAt: new Date(now).toISOString(),
+    sendCount: existing.sendCount + 1,
+  });
+  return { invitation: toStaffInvitation(record), token };
+}
+
+export async function getInvitation(id: string): Promise<StaffInvitation | null> {
+  const record: InvitationRecord | null = await kv.get(invitationKey(id));
+  return record ? toStaffInvitation(record) : null;
+}
+
+// Pending invitations, newest first; expired ones stay listed so they can be resent
+export async function listInvitations(): Promise<StaffInvitation[]> {
+  const records: InvitationRecord[] = await kv.getByPrefix('invitation:');
+  return records
+    .map(toStaffInvitation)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function findInvitationByEmail(email: string): Promise<StaffInvitation | null> {
+  const address = normalizeEmail(email);
+  return (await listInvitations()).find((invitation) => invitation.email === address) || null;
+}
+
+/**
+ * The invitation a token belongs to, or null if the token is unknown, replaced or expired
+ */
+export async function findInvitationByToken(token: string, now = Date.now()): Promise<StaffInvitation | null> {
+  const pointer = await kv.get(tokenKey(await hashSecret(`invite:${token}`)));
+  if (!pointer) return null;
+
+  const invitation = await getInvitation(pointer.invitationId);
+  if (!invitation || new Date(invitation.expiresAt).getTime() <= now) return null;
+  return invitation;
+}
+
+/**
+ * Removes an invitation and its token; used both for revoking and once it has been accepted
+ */
+export async function deleteInvitation(id: string): Promise<boolean> {
+  const existing: InvitationRecord | null = await kv.get(invitationKey(id));
+  if (!existing) return false;
+
+  await kv.del(tokenKey(existing.tokenHash));
+  await kv.del(invitationKey(id));
+  return true;
+}
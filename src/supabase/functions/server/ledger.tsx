@@ -0,0 +1,68 @@
+// Bank ledger
+// Running balance per bank: the bank's opening balance plus deposit - withdraw + pnl of each transaction, in
+// date order (then creation time, then id). Every change to a bank's transactions rewrites the stored
+// `remaining` of the rows after it, so a past-dated insert or edit never leaves later balances stale.
+
+import { repos, compareByDate, MAX_PAGE_SIZE } from './repositories.tsx';
+import type { BankLedger, LedgerEntry, LedgerQuery } from './contract.tsx';
+
+export function transactionChange(transaction: any): number {
+  return (transaction.deposit || 0) - (transaction.withdraw || 0) + (transaction.pnl || 0);
+}
+
+// Every transaction of one bank, oldest first
+async function bankTransactions(bankId: string): Promise<any[]> {
+  const transactions: any[] = [];
+  for (let page = 1; ; page++) {
+    const { items, totalCount } = await repos.bankDeposits.query({ bankId, sort: 'date-asc', page, limit: MAX_PAGE_SIZE });
+    transactions.push(...items);
+    if (items.length === 0 || transactions.length >= totalCount) break;
+  }
+  return transactions.sort(compareByDate(true));
+}
+
+/**
+ * Running balances over `transactions`, which must all belong to one bank
+ */
+export function computeLedger(openingBalance: number, transactions: any[]): LedgerEntry[] {
+  let balance = openingBalance;
+  return [...transactions].sort(compareByDate(true)).map((transaction) => {
+    const change = transactionChange(transaction);
+    balance += change;
+    return { ...transaction, change, balance };
+  });
+}
+
+/**
+ * Recomputes the bank's running balances and saves the transactions whose stored balance was stale.
+ * Returns how many were rewritten.
+ */
+export async function rebalanceBank(bankId: string): Promise<number> {
+  const bank = await repos.banks.get(bankId);
+  const entries = computeLedger(bank?.openingBalance || 0, await bankTransactions(bankId));
+
+  let updated = 0;
+  for (const { change, balance, ...transaction } of entries) {
+    if (transaction.remaining === balance && transaction.remainingBalance === balance) continue;
+    await repos.bankDeposits.save({ ...transaction, remaining: balance, remainingBalance: balance });
+    updated++;
+  }
+  return updated;
+}
+
+/**
+ * The bank's ledger, optionally limited to a date range. Balances are always computed over the full history.
+ */
+export async function getBankLedger(bank: any, { dateFrom, dateTo }: LedgerQuery = {}): Promise<BankLedger> {
+  const entries = computeLedger(bank.openingBalance || 0, await bankTransactions(bank.id));
+  const before = dateFrom ? entries.filter((entry) => entry.date < dateFrom) : [];
+  const inRange = entries.filter((entry) => (!dateFrom || entry.date >= dateFrom) && (!dateTo || entry.date <= dateTo));
+
+  const openingBalance = before.length > 0 ? before[before.length - 1].balance : bank.openingBalance || 0;
+  return {
+    bank,
+    openingBalance,
+    closingBalance: inRange.length > 0 ? inRange[inRange.length - 1].balance : openingBalance,
+    entries: inRange,
+  };
+}
@@ -0,0 +1,134 @@
+// Login attempts
+// Password logins go through POST /login so the server sees failures. Failed attempts are kept per account
+// (email, only for emails that have one) and per IP address, the newest MAX_STORED_FAILURES of each; address
+// records that have left the window are pruned by the scheduled activity worker. MAX_ACCOUNT_FAILURES within
+// FAILURE_WINDOW_MINUTES locks the account for LOCK_MINUTES (`loginLockedUntil` on the staff record, which an
+// admin can clear early); MAX_IP_FAILURES from one address within the window refuses that address until the
+// oldest of them leaves the window. Successful logins record the IP; one never seen for the account is reported.
+//   login-failures:account:{email}   - { attempts: FailedLoginAttempt[] }, newest first
+//   login-failures:ip:{ip}           - { attempts: FailedLoginAttempt[] }, newest first
+//   login-ips:{staffId}              - { ips: KnownLoginIp[] }
+
+import * as kv from './storage.tsx';
+import { normalizeEmail } from './password-reset.tsx';
+import type { FailedLoginAttempt, KnownLoginIp } from './contract.tsx';
+
+export const MAX_ACCOUNT_FAILURES = 5;
+export const LOCK_MINUTES = 15;
+const MAX_IP_FAILURES = 20;
+const FAILURE_WINDOW_MINUTES = 15;
+const MAX_STORED_FAILURES = 50;
+const MAX_KNOWN_IPS = 50;
+
+const accountKey = (email: string) => `login-failures:account:${normalizeEmail(email)}`;
+const ipKey = (ip: string) => `login-failures:ip:${ip}`;
+const knownIpsKey = (staffId: string) => `login-ips:${staffId}`;
+
+const windowStart = (now: number) => now - FAILURE_WINDOW_MINUTES * 60 * 1000;
+
+async function loadAttempts(key: string): Promise<FailedLoginAttempt[]> {
+  return (await kv.get(key))?.attempts || [];
+}
+
+async function prepend(key: string, attempt: FailedLoginAttempt): Promise<FailedLoginAttempt[]> {
+  const attempts = [attempt, ...(await loadAttempts(key))].slice(0, MAX_STORED_FAILURES);
+  await kv.set(key, { attempts });
+  return attempts;
+}
+
+const inWindow = (attempts: FailedLoginAttempt[], now: number) =>
+  attempts.filter((attempt) => new Date(attempt.at).getTime() > windowStart(now));
+
+/**
+ * Seconds until the address may try again, or 0
+ */
+export async function ipBlockedFor(ip: string, now = Date.now()): Promise<number> {
+  const recent = inWindow(await loadAttempts(ipKey(ip)), now);
+  if (recent.length < MAX_IP_FAILURES) return 0;
+
+  // The attempt that has to leave the window before the address is under the limit again
+  const oldest = recent[MAX_IP_FAILURES - 1];
+  return Math.max(1, Math.ceil((new Date(oldest.at).getTime() - windowStart(now)) / 1000));
+}
+
+/**
+ * Seconds left on the account's lock, or 0
+ */
+export function accountLockedFor(staff: { loginLockedUntil?: string } | null | undefined, now = Date.now()): number {
+  const until = staff?.loginLockedUntil ? new Date(staff.loginLockedUntil).getTime() : 0;
+  return until > now ? Math.ceil((until - now) / 1000) : 0;
+}
+
+export const lockExpiry = (now = Date.now()) => new Date(now + LOCK_MINUTES * 60 * 1000).toISOString();
+
+/**
+ * Whether a session was signed in before the account's lock started. Those keep working, so guessing a
+ * member's password can only block new logins and not sign the member out.
+ */
+export function sessionPredatesLock(
+  session: { createdAt: string } | null,
+  staff: { loginLockedAt?: string },
+): boolean {
+  return !!session && !!staff.loginLockedAt && session.createdAt < staff.loginLockedAt;
+}
+
+/**
+ * Stores a failed attempt for the address and, if `hasAccount`, for the account; guesses at unknown emails
+ * don't leave a record behind. Returns the account's failures within the window.
+ */
+export async function recordFailedLogin(
+  attempt: Omit<FailedLoginAttempt, 'at'>,
+  hasAccount: boolean,
+  now = Date.now(),
+): Promise<number> {
+  const entry: FailedLoginAttempt = { ...attempt, email: normalizeEmail(attempt.email), at: new Date(now).toISOString() };
+  await prepend(ipKey(attempt.ipAddress), entry);
+  return hasAccount ? inWindow(await prepend(accountKey(attempt.email), entry), now).length : 0;
+}
+
+/**
+ * Deletes the address records with no failure left in the window, which no longer block anything. Returns how
+ * many were deleted.
+ */
+export async function pruneIpFailures(now = Date.now()): Promise<number> {
+  const stale = (await kv.getEntriesByPrefix(ipKey('')))
+    .filter((entry) => inWindow(entry.value?.attempts || [], now).length === 0)
+    .map((entry) => entry.key);
+  if (stale.length > 0) {
+    await kv.mdel(stale);
+  }
+  return stale.length;
+}
+
+export async function listFailedLogins(email: string): Promise<FailedLoginAttempt[]> {
+  return await loadAttempts(accountKey(email));
+}
+
+// After a successful login or an admin unlock the account starts counting from zero
+export async function clearFailedLogins(email: string): Promise<void> {
+  await kv.del(accountKey(email));
+}
+
+export async function getKnownIps(staffId: string): Promise<KnownLoginIp[]> {
+  return (await kv.get(knownIpsKey(staffId)))?.ips || [];
+}
+
+/**
+ * Records a successful login from `ip`. `isNew` is only set when the account already had known addresses, so
+ * the first login after this was introduced doesn't raise an alert.
+ */
+export async function rememberLoginIp(staffId: string, ip: string, now = Date.now()): Promise<{ isNew: boolean }> {
+  const at = new Date(now).toISOString();
+  const ips = await getKnownIps(staffId);
+  const known = ips.find((entry) => entry.ipAddress === ip);
+
+  const updated = known
+    ? ips.map((entry) => (entry === known ? { ...entry, lastSeenAt: at } : entry))
+    : [...ips, { ipAddress: ip, firstSeenAt: at, lastSeenAt: at }];
+
+  // Keep the most recently used addresses
+  updated.sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+  await kv.set(knownIpsKey(staffId), { ips: updated.slice(0, MAX_KNOWN_IPS) });
+
+  return { isNew: !known && ips.length > 0 };
+}
@@ -0,0 +1,239 @@
+// Dashboard metrics
+// Totals and per-period series over the per-day totals of deposits and bank transactions (see dailyTotals in
+// repositories.tsx). Dates are `YYYY-MM-DD` strings and are bucketed by calendar date, so the result does not
+// depend on the server's time zone. Amounts go through a converter into the reporting currency (see currency.tsx);
+// withdrawal days carry the `currency` of their bank.
+
+import { depositCurrencies, LEGACY_CURRENCY } from './contract.tsx';
+import type {
+  BankDepositSummary,
+  DashboardDateFilter,
+  DashboardMetrics,
+  DepositSummary,
+  MetricsInterval,
+  MetricsSeriesPoint,
+} from './contract.tsx';
+import type { BankDepositDayTotals, DepositDayTotals } from './repositories.tsx';
+
+export type WithdrawalDayTotals = BankDepositDayTotals & { currency?: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Gaps are only filled with zero buckets up to this many points; longer spans keep just the periods with data
+const MAX_FILLED_POINTS = 400;
+
+function toDay(date: string): Date {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`);
+}
+
+function fromDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function sum(items: any[] | undefined, pick: (item: any) => number): number {
+  return (items || []).reduce((total: number, item: any) => total + (pick(item) || 0), 0);
+}
+
+// `amount` in `currency` on `date`, in the reporting currency
+export type ToReporting = (amount: number, currency: string, date: string) => number;
+
+const asIs: ToReporting = (amount) => amount;
+
+function depositAmount(day: DepositDayTotals, convert: ToReporting): number {
+  const currencies = depositCurrencies(day);
+  return convert(day.localDeposit, currencies.local, day.date)
+    + convert(day.usdtDeposit, currencies.usdt, day.date)
+    + convert(day.cashDeposit, currencies.cash, day.date);
+}
+
+function expenseAmount(day: DepositDayTotals, convert: ToReporting): number {
+  return convert(day.expenses, depositCurrencies(day).expenses, day.date);
+}
+
+function incentiveAmount(day: DepositDayTotals, convert: ToReporting): number {
+  return convert(day.clientIncentives, depositCurrencies(day).incentives, day.date);
+}
+
+function withdrawalAmount(day: WithdrawalDayTotals, convert: ToReporting): number {
+  return convert(day.amount, day.currency || LEGACY_CURRENCY, day.date);
+}
+
+/**
+ * Inclusive date bounds for a dashboard preset, relative to `today` (`YYYY-MM-DD`)
+ */
+export function presetBounds(dateFilter: DashboardDateFilter, today: string): { dateFrom?: string; dateTo?: string } {
+  const end = toDay(today);
+  switch (dateFilter) {
+    case 'today':
+      return { dateFrom: today, dateTo: today };
+    case 'week':
+      return { dateFrom: fromDay(new Date(end.getTime() - 7 * DAY_MS)), dateTo: today };
+    case 'month': {
+      const start = new Date(end);
+      start.setUTCMonth(start.getUTCMonth() - 1);
+      return { dateFrom: fromDay(start), dateTo: today };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * Series interval for a range: daily up to a month, weekly up to six months, monthly beyond
+ */
+export function defaultInterval(dateFrom: string | undefined, dateTo: string | undefined): MetricsInterval {
+  if (!dateFrom) return 'month';
+  const end = dateTo ? toDay(dateTo) : new Date();
+  const days = (end.getTime() - toDay(dateFrom).getTime()) / DAY_MS;
+  if (days <= 31) return 'day';
+  if (days <= 183) return 'week';
+  return 'month';
+}
+
+/**
+ * First day of the bucket `date` falls into
+ */
+export function periodStart(date: string, interval: MetricsInterval): string {
+  const day = toDay(date);
+  if (interval === 'week') {
+    // getUTCDay() is 0 for Sunday; weeks start on Monday
+    const offset = (day.getUTCDay() + 6) % 7;
+    return fromDay(new Date(day.getTime() - offset * DAY_MS));
+  }
+  if (interval === 'month') {
+    return `${date.slice(0, 7)}-01`;
+  }
+  return fromDay(day);
+}
+
+function nextPeriod(period: string, interval: MetricsInterval): string {
+  const day = toDay(period);
+  if (interval === 'month') {
+    day.setUTCMonth(day.getUTCMonth() + 1);
+    return fromDay(day);
+  }
+  return fromDay(new Date(day.getTime() + (interval === 'week' ? 7 : 1) * DAY_MS));
+}
+
+export function summarizeMetrics(
+  deposits: DepositDayTotals[],
+  withdrawals: WithdrawalDayTotals[],
+  convert: ToReporting = asIs,
+): DashboardMetrics {
+  const totalDeposits = sum(deposits, (deposit) => depositAmount(deposit, convert));
+  const totalWithdrawals = sum(withdrawals, (withdrawal) => withdrawalAmount(withdrawal, convert));
+  const totalBalance = totalDeposits - totalWithdrawals;
+  const totalCompanyExpenses = sum(deposits, (deposit) => expenseAmount(deposit, convert));
+  const balanceExcludingExpenses = totalBalance - totalCompanyExpenses;
+  const totalClientIncentives = sum(deposits, (deposit) => incentiveAmount(deposit, convert));
+  const netProfit = balanceExcludingExpenses - totalClientIncentives;
+
+  return {
+    totalDeposits,
+    totalWithdrawals,
+    totalBalance,
+    totalCompanyExpenses,
+    balanceExcludingExpenses,
+    totalClientIncentives,
+    netProfit,
+  };
+}
+
+/**
+ * Totals for the cards above the deposits table, in the reporting currency
+ */
+export function summarizeDepositDays(days: DepositDayTotals[], convert: ToReporting = asIs): DepositSummary {
+  return {
+    totalDeposits: sum(days, (day) => depositAmount(day, convert)),
+    totalWithdraws: sum(days, (day) => {
+      const currencies = depositCurrencies(day);
+      return convert(day.localWithdraw, currencies.local, day.date)
+        + convert(day.usdtWithdraw, currencies.usdt, day.date)
+        + convert(day.cashWithdraw, currencies.cash, day.date);
+    }),
+    totalClientIncentives: sum(days, (day) => incentiveAmount(day, convert)),
+    totalCompanyExpenses: sum(days, (day) => expenseAmount(day, convert)),
+  };
+}
+
+/**
+ * Totals for the cards above the bank transactions table, in the reporting currency. Each bank's latest
+ * balance stays in the bank's own currency.
+ */
+export function summarizeBankDepositDays(days: WithdrawalDayTotals[], convert: ToReporting = asIs): BankDepositSummary {
+  const inReporting = (day: WithdrawalDayTotals, amount: number) => convert(amount, day.currency || LEGACY_CURRENCY, day.date);
+  const latestRemainingByBank: Record<string, number> = {};
+  const latestDate: Record<string, string> = {};
+  for (const day of days) {
+    if (!(day.bankId in latestDate) || day.date > latestDate[day.bankId]) {
+      latestDate[day.bankId] = day.date;
+      latestRemainingByBank[day.bankId] = day.closingRemaining;
+    }
+  }
+
+  return {
+    totalDeposits: sum(days, (day) => inReporting(day, day.deposit)),
+    totalWithdrawals: sum(days, (day) => inReporting(day, day.withdraw)),
+    totalPnl: sum(days, (day) => inReporting(day, day.pnl)),
+    totalRemaining: sum(days, (day) => inReporting(day, day.remaining)),
+    latestRemainingByBank,
+  };
+}
+
+/**
+ * Per-period totals, oldest first. Net profit follows the summary cards:
+ * deposits - withdrawals - expenses - incentives.
+ */
+export function buildMetricsSeries(
+  deposits: DepositDayTotals[],
+  withdrawals: WithdrawalDayTotals[],
+  interval: MetricsInterval,
+  bounds: { dateFrom?: string; dateTo?: string } = {},
+  convert: ToReporting = asIs,
+): MetricsSeriesPoint[] {
+  const buckets = new Map<string, MetricsSeriesPoint>();
+  const bucket = (date: string) => {
+    const period = periodStart(date, interval);
+    let point = buckets.get(period);
+    if (!point) {
+      point = { period, deposits: 0, withdrawals: 0, expenses: 0, incentives: 0, netProfit: 0 };
+      buckets.set(period, point);
+    }
+    return point;
+  };
+
+  deposits.filter((deposit) => deposit.date).forEach((deposit) => {
+    const point = bucket(deposit.date);
+    point.deposits += depositAmount(deposit, convert);
+    point.expenses += expenseAmount(deposit, convert);
+    point.incentives += incentiveAmount(deposit, convert);
+  });
+  withdrawals.filter((withdrawal) => withdrawal.date).forEach((withdrawal) => {
+    bucket(withdrawal.date).withdrawals += withdrawalAmount(withdrawal, convert);
+  });
+
+  // Zero-filled buckets across the requested range (or the span of the data) keep the chart's time axis even
+  const periods = [...buckets.keys()].sort();
+  const first = bounds.dateFrom ? periodStart(bounds.dateFrom, interval) : periods[0];
+  const last = bounds.dateTo ? periodStart(bounds.dateTo, interval) : periods[periods.length - 1];
+  if (first && last) {
+    const filled: string[] = [];
+    for (let period = first; period <= last && filled.length <= MAX_FILLED_POINTS; period = nextPeriod(period, interval)) {
+      filled.push(period);
+    }
+    if (filled.length <= MAX_FILLED_POINTS) {
+      filled.forEach((period) => {
+        if (!buckets.has(period)) {
+          buckets.set(period, { period, deposits: 0, withdrawals: 0, expenses: 0, incentives: 0, netProfit: 0 });
+        }
+      });
+    }
+  }
+
+  return [...buckets.values()]
+    .sort((a, b) => a.period.localeCompare(b.period))
+    .map((point) => ({
+      ...point,
+      netProfit: point.deposits - point.withdrawals - point.expenses - point.incentives,
+    }));
+}
@@ -0,0 +1,85 @@
+// One-shot migration: copies staff, banks, deposits and bank transactions from the key-value store
+// into the relational tables defined in database/schema.sql, then verifies every KV record landed.
+//
+// Usage (from this directory, with SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY set):
+//   deno run --allow-net --allow-env --allow-read migrate-kv-to-sql.tsx [--dry-run]
+//
+// Safe to re-run: records are upserted by id. Deploy the server with DATA_STORE=relational afterwards.
+
+import { createKvRepositories, createRelationalRepositories, type Repository } from './repositories.tsx';
+
+interface EntityReport {
+  entity: string;
+  kvCount: number;
+  copied: number;
+  failed: { id: string; error: string }[];
+  missing: string[];
+  tableCount: number;
+}
+
+// Copy order matters: bank_deposits references banks
+const ENTITIES = ['staff', 'banks', 'deposits', 'bankDeposits'] as const;
+
+async function migrateEntity(entity: string, source: Repository, target: Repository, dryRun: boolean): Promise<EntityReport> {
+  const records = await source.list();
+  const report: EntityReport = { entity, kvCount: records.length, copied: 0, failed: [], missing: [], tableCount: 0 };
+
+  for (const record of records) {
+    if (dryRun) {
+      report.copied++;
+      continue;
+    }
+    try {
+      await target.save(record);
+      report.copied++;
+    } catch (error: any) {
+      report.failed.push({ id: record.id, error: error.message });
+    }
+  }
+
+  if (!dryRun) {
+    const tableIds = new Set(await target.listIds());
+    report.missing = records.map((record) => record.id).filter((id) => !tableIds.has(id));
+    report.tableCount = tableIds.size;
+  }
+
+  return report;
+}
+
+async function main() {
+  const dryRun = Deno.args.includes('--dry-run');
+  const source = createKvRepositories();
+  const target = createRelationalRepositories();
+
+  console.log(`Migrating KV records to relational tables${dryRun ? ' (dry run - nothing will be written)' : ''}`);
+
+  const reports: EntityReport[] = [];
+  for (const entity of ENTITIES) {
+    const report = await migrateEntity(entity, source[entity], target[entity], dryRun);
+    reports.push(report);
+    console.log(`  ${entity}: ${report.copied}/${report.kvCount} copied`);
+    for (const failure of report.failed) {
+      console.log(`    ✗ ${failure.id}: ${failure.error}`);
+    }
+  }
+
+  console.log('\nVerification');
+  console.table(reports.map((report) => ({
+    entity: report.entity,
+    kv: report.kvCount,
+    copied: report.copied,
+    failed: report.failed.length,
+    missingFromTable: dryRun ? '-' : report.missing.length,
+    tableTotal: dryRun ? '-' : report.tableCount,
+  })));
+
+  const hasProblems = reports.some((report) => report.failed.length > 0 || report.missing.length > 0);
+  if (hasProblems) {
+    console.log('❌ Migration incomplete - fix the failures above and re-run (already copied records are upserted).');
+    Deno.exit(1);
+  }
+
+  console.log(dryRun ? '✅ Dry run complete.' : '✅ All KV records present in relational tables. Set DATA_STORE=relational in the server environment.');
+}
+
+await main();
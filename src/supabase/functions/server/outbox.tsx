@@ -0,0 +1,218 @@
+// Email outbox
+// Outgoing mail is saved as an `outboxEmail:{id}` record before the first delivery attempt, so a message that
+// cannot be sent right away is retried instead of lost. Failed attempts back off (1m, 5m, 15m, 1h, 6h) and the
+// message is marked `failed` after the last one; admins can resend it from the Email Outbox screen. Every
+// attempt is appended to the record's delivery log with its provider and error. Invitation and OTP mail carry
+// credentials, so the bodies are dropped once the message is sent or expires. A failed message keeps its body
+// so it can be resent, until its expiry or for FAILED_BODY_RETENTION_DAYS after its last attempt.
+//
+// Every attempt is made under a lease (`outbox-lease:{id}:{attempts}`, see claimAttempt), so overlapping
+// worker runs never send the same message twice.
+//
+// Due retries are sent by processOutbox(), run on a schedule through POST /email-outbox/process or the
+// process-outbox.tsx command.
+
+import * as kv from './storage.tsx';
+import { repos } from './repositories.tsx';
+import { deliverEmail, type EmailOptions } from './email-service.tsx';
+import { renderEmail, type TemplateData } from './email-templates.tsx';
+import type { OutboxEmail } from './contract.tsx';
+
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60, 360];
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+const MAX_LOGGED_ATTEMPTS = 20;
+const FAILED_BODY_RETENTION_DAYS = 7;
+const LEASE_MS = 5 * 60 * 1000;
+
+type OutboxRecord = OutboxEmail & { html: string; text?: string; from?: string };
+
+export interface QueueOptions {
+  kind: string;
+  expiresAt?: string;
+}
+
+export interface OutboxRunReport {
+  processed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+  // Failed messages whose bodies were dropped
+  cleared: number;
+}
+
+// Public view of a record: everything but the message bodies
+export function toOutboxEmail({ html, text, from, ...email }: OutboxRecord): OutboxEmail {
+  return { ...email, bodyRemoved: !html };
+}
+
+const withoutBody = (record: OutboxRecord): OutboxRecord => ({ ...record, html: '', text: undefined });
+
+async function attemptDelivery(record: OutboxRecord, now = new Date()): Promise<OutboxRecord> {
+  const at = now.toISOString();
+
+  if (record.expiresAt && record.expiresAt <= at) {
+    return await repos.emails.save({
+      ...withoutBody(record),
+      status: 'failed',
+      lastError: 'Expired before it could be delivered',
+      nextAttemptAt: undefined,
+    });
+  }
+
+  const result = await deliverEmail({ to: record.to, subject: record.subject, html: record.html, text: record.text, from: record.from });
+  const attempts = record.attempts + 1;
+  const deliveryLog = [...record.deliveryLog, { at, provider: result.provider, ok: result.ok, error: result.error }]
+    .slice(-MAX_LOGGED_ATTEMPTS);
+
+  if (result.ok) {
+    return await repos.emails.save({
+      ...withoutBody(record),
+      status: 'sent',
+      attempts,
+      provider: result.provider,
+      lastError: undefined,
+      nextAttemptAt: undefined,
+      sentAt: at,
+      deliveryLog,
+    });
+  }
+
+  const exhausted = attempts >= MAX_ATTEMPTS;
+  const delay = RETRY_DELAYS_MINUTES[Math.min(attempts, RETRY_DELAYS_MINUTES.length) - 1];
+  return await repos.emails.save({
+    ...record,
+    status: exhausted ? 'failed' : 'pending',
+    attempts,
+    provider: result.provider,
+    lastError: result.error,
+    nextAttemptAt: exhausted ? undefined : new Date(now.getTime() + delay * 60 * 1000).toISOString(),
+    deliveryLog,
+  });
+}
+
+/**
+ * Takes the lease on the record's next attempt. Returns the keys to delete once the attempt is saved, or null if
+ * another run holds it. A lease left by a run that died is taken over once it expires, by one run only.
+ */
+async function claimAttempt(record: OutboxRecord, now: Date): Promise<string[] | null> {
+  const key = `outbox-lease:${record.id}:${record.attempts}`;
+  const lease = { until: new Date(now.getTime() + LEASE_MS).toISOString() };
+  if (await kv.add(key, lease)) {
+    return [key];
+  }
+
+  const held = await kv.get(key);
+  if (!held || held.until > now.toISOString()) {
+    return null;
+  }
+  const takeoverKey = `${key}:takeover:${held.until}`;
+  if (!(await kv.add(takeoverKey, lease))) {
+    return null;
+  }
+  await kv.set(key, lease);
+  return [key, takeoverKey];
+}
+
+/**
+ * Makes the record's next attempt under its lease. Returns the saved record, or null if another run has the
+ * attempt or already made it.
+ */
+async function deliverClaimed(record: OutboxRecord, now = new Date()): Promise<OutboxRecord | null> {
+  const lease = await claimAttempt(record, now);
+  if (!lease) {
+    return null;
+  }
+
+  try {
+    const current: OutboxRecord | null = await repos.emails.get(record.id);
+    if (!current || current.status !== 'pending' || current.attempts !== record.attempts) {
+      return null;
+    }
+    return await attemptDelivery(current, now);
+  } finally {
+    await kv.mdel(lease);
+  }
+}
+
+// A failed message is resendable until it expires or has had no attempt for FAILED_BODY_RETENTION_DAYS
+function keepsFailedBody(record: OutboxRecord, now: Date): boolean {
+  if (record.expiresAt && record.expiresAt <= now.toISOString()) {
+    return false;
+  }
+  const lastAttemptAt = record.deliveryLog[record.deliveryLog.length - 1]?.at || record.createdAt;
+  return now.getTime() - new Date(lastAttemptAt).getTime() < FAILED_BODY_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Saves the message to the outbox and makes the first delivery attempt right away.
+ * The returned record's status tells the caller whether it went out.
+ */
+export async function queueEmail(options: EmailOptions, { kind, expiresAt }: QueueOptions): Promise<OutboxEmail> {
+  const createdAt = new Date().toISOString();
+  const record: OutboxRecord = {
+    id: `${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    kind,
+    to: options.to,
+    from: options.from,
+    subject: options.subject,
+    html: options.html,
+    text: options.text,
+    status: 'pending',
+    attempts: 0,
+    expiresAt,
+    createdAt,
+    deliveryLog: [],
+  };
+
+  await repos.emails.save(record);
+  return toOutboxEmail((await deliverClaimed(record)) ?? (await repos.emails.get(record.id)) ?? record);
+}
+
+/**
+ * Renders the current version of a template and queues it, with the template key as the message kind
+ */
+export async function queueTemplateEmail(
+  key: string,
+  to: string,
+  data: TemplateData,
+  options: { expiresAt?: string } = {},
+): Promise<OutboxEmail> {
+  const { subject, html, text } = await renderEmail(key, data);
+  return await queueEmail({ to, subject, html, text }, { kind: key, expiresAt: options.expiresAt });
+}
+
+/**
+ * Retries pending messages whose backoff has elapsed, oldest first, and drops the bodies of failed messages
+ * that can no longer be resent
+ */
+export async function processOutbox(limit = 50, now = new Date()): Promise<OutboxRunReport> {
+  const emails = (await repos.emails.list()) as OutboxRecord[];
+  const due = emails
+    .filter((email) => email.status === 'pending' && (!email.nextAttemptAt || email.nextAttemptAt <= now.toISOString()))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .slice(0, limit);
+  const expiredBodies = emails.filter((email) => email.status === 'failed' && email.html && !keepsFailedBody(email, now));
+
+  const report: OutboxRunReport = { processed: 0, sent: 0, retrying: 0, failed: 0, cleared: 0 };
+  for (const email of expiredBodies) {
+    await repos.emails.save(withoutBody(email));
+    report.cleared++;
+  }
+  for (const email of due) {
+    const result = await deliverClaimed(email, now);
+    if (!result) continue;
+    report.processed++;
+    if (result.status === 'sent') report.sent++;
+    else if (result.status === 'failed') report.failed++;
+    else report.retrying++;
+  }
+  return report;
+}
+
+/**
+ * Gives a failed message a fresh set of attempts, starting with one now
+ */
+export async function resendEmail(record: OutboxRecord): Promise<OutboxEmail> {
+  const reset = await repos.emails.save({ ...record, status: 'pending', attempts: 0, nextAttemptAt: undefined });
+  return toOutboxEmail((await deliverClaimed(reset)) ?? (await repos.emails.get(record.id)) ?? reset);
+}
@@ -0,0 +1,129 @@
+// Password policy
+// Rules every new password must meet (first signup, accepting an invitation, change-password and the
+// forgot-password reset), optional expiry and a reuse history. Members flagged `mustChangePassword`, or whose
+// password is older than `maxAgeDays`, can only change their password until they do; see auth.tsx.
+//   settings:passwordPolicy      - PasswordPolicy
+//   password-history:{staffId}   - { hashes }: the last `historyCount` passwords as salted PBKDF2 hashes, newest first
+// Accounts added before invitations still have the admin-chosen password kept in `welcome:{staffId}`. They
+// count as flagged until the password is changed, which also deletes that copy.
+
+import * as kv from './storage.tsx';
+import { checkPasswordRules, type PasswordChangeReason, type PasswordPolicy } from './contract.tsx';
+
+const POLICY_KEY = 'settings:passwordPolicy';
+const PBKDF2_ITERATIONS = 50_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  historyCount: 5,
+  maxAgeDays: 0,
+};
+
+const historyKey = (staffId: string) => `password-history:${staffId}`;
+const welcomeKey = (staffId: string) => `welcome:${staffId}`;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{2}/g) || []).map((pair) => parseInt(pair, 16)));
+
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  const stored = await kv.get(POLICY_KEY);
+  return { ...DEFAULT_PASSWORD_POLICY, ...(stored || {}) };
+}
+
+export async function setPasswordPolicy(policy: PasswordPolicy): Promise<PasswordPolicy> {
+  const saved: PasswordPolicy = {
+    ...policy,
+    minLength: Math.floor(policy.minLength),
+    historyCount: Math.floor(policy.historyCount),
+    maxAgeDays: Math.floor(policy.maxAgeDays),
+  };
+  await kv.set(POLICY_KEY, saved);
+  return saved;
+}
+
+async function pbkdf2(password: string, salt: Uint8Array): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS }, key, 256);
+  return toHex(new Uint8Array(bits));
+}
+
+// `salt:hash`, both hex
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return `${toHex(salt)}:${await pbkdf2(password, salt)}`;
+}
+
+async function matchesHash(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':');
+  return !!salt && !!hash && (await pbkdf2(password, fromHex(salt))) === hash;
+}
+
+/**
+ * Why `password` can't be used, or null if it can: unmet rules of the policy, or (given a staff ID) one of the
+ * member's last `historyCount` passwords
+ */
+export async function passwordProblem(password: string, policy: PasswordPolicy, staffId?: string): Promise<string | null> {
+  const unmet = checkPasswordRules(password, policy).filter((rule) => !rule.met);
+  if (unmet.length > 0) {
+    return `Password needs ${unmet.map((rule) => rule.label.toLowerCase()).join(', ')}`;
+  }
+
+  if (staffId && policy.historyCount > 0) {
+    const history = await kv.get(historyKey(staffId));
+    for (const stored of (history?.hashes || []).slice(0, policy.historyCount)) {
+      if (await matchesHash(password, stored)) {
+        return `Choose a password that isn't one of your last ${policy.historyCount}`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Adds a new password to the member's reuse history and deletes any stored admin-chosen password. Returns the
+ * fields to save on the staff record.
+ */
+export async function recordPasswordChange(
+  staffId: string,
+  password: string,
+  policy: PasswordPolicy,
+  now = Date.now(),
+): Promise<{ mustChangePassword: false; passwordChangedAt: string }> {
+  if (policy.historyCount > 0) {
+    const history = await kv.get(historyKey(staffId));
+    const hashes = [await hashPassword(password), ...(history?.hashes || [])].slice(0, policy.historyCount);
+    await kv.set(historyKey(staffId), { hashes });
+  } else {
+    await kv.del(historyKey(staffId));
+  }
+  await kv.del(welcomeKey(staffId));
+
+  return { mustChangePassword: false, passwordChangedAt: new Date(now).toISOString() };
+}
+
+/**
+ * Whether the member has to change their password before using the panel, and why. Passwords set before
+ * `passwordChangedAt` was recorded age from the account's creation.
+ */
+export async function pendingPasswordChange(staff: any, now = Date.now()): Promise<PasswordChangeReason | null> {
+  if (staff.mustChangePassword === true) {
+    return 'required';
+  }
+  if (staff.mustChangePassword === undefined && !staff.passwordChangedAt && (await kv.get(welcomeKey(staff.id)))) {
+    return 'required';
+  }
+
+  const { maxAgeDays } = await getPasswordPolicy();
+  if (maxAgeDays > 0) {
+    const changedAt = new Date(staff.passwordChangedAt || staff.createdAt).getTime();
+    if (now - changedAt >= maxAgeDays * DAY_MS) {
+      return 'expired';
+    }
+  }
+  return null;
+}
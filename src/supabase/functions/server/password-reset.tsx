@@ -0,0 +1,170 @@
+// Password reset
+// Forgot-password flow: a 6-digit code is emailed, and verifying it returns a single-use reset token that the
+// change-password step spends. Codes and tokens are stored only as HMAC-SHA-256 hashes keyed with
+// OTP_HASH_SECRET (falling back to the service role key), so a copy of the key-value store can't be replayed.
+//   otp:{email}           - { otpHash, expiresAt, attempts, createdAt }
+//   otp-lock:{email}      - { until }, set after MAX_VERIFY_ATTEMPTS wrong codes
+//   reset-token:{hash}    - { email, expiresAt }
+// Sends are rate limited per email and per IP; see rate-limit.tsx.
+
+import * as kv from './storage.tsx';
+import { isLocalStorageBackend } from './storage.tsx';
+import { consumeRateLimit, type RateLimit } from './rate-limit.tsx';
+
+export const OTP_TTL_MINUTES = 5;
+const MAX_VERIFY_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+const RESET_TOKEN_TTL_MINUTES = 15;
+
+const SEND_LIMIT_PER_EMAIL: RateLimit = { limit: 3, windowMs: 15 * 60 * 1000 };
+const SEND_LIMIT_PER_IP: RateLimit = { limit: 10, windowMs: 60 * 60 * 1000 };
+const VERIFY_LIMIT_PER_IP: RateLimit = { limit: 30, windowMs: 60 * 60 * 1000 };
+
+export type VerifyOtpResult =
+  | { ok: true; resetToken: string; expiresAt: string }
+  | { ok: false; reason: 'missing' | 'expired' }
+  | { ok: false; reason: 'invalid'; remainingAttempts: number }
+  | { ok: false; reason: 'locked' | 'rate_limited'; retryAfterSeconds: number };
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Echoing the code in the send-otp response is for offline development only: it needs OTP_DEBUG_ECHO=true
+ * and a local storage backend.
+ */
+export function isOtpDebugEchoEnabled(): boolean {
+  return Deno.env.get('OTP_DEBUG_ECHO') === 'true' && isLocalStorageBackend();
+}
+
+function generateOTP(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return (100000 + (value % 900000)).toString();
+}
+
+// URL-safe random token; also used for invitation links
+export function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Keyed hash under which codes and tokens are stored
+export async function hashSecret(value: string): Promise<string> {
+  const secret = Deno.env.get('OTP_HASH_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || 'local-otp-secret';
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function secondsUntil(iso: string, now: number): number {
+  return Math.max(1, Math.ceil((new Date(iso).getTime() - now) / 1000));
+}
+
+/**
+ * Seconds left on a lockout after too many wrong codes, or 0
+ */
+export async function lockoutRemaining(email: string, now = Date.now()): Promise<number> {
+  const lock = await kv.get(`otp-lock:${normalizeEmail(email)}`);
+  if (!lock || new Date(lock.until).getTime() <= now) return 0;
+  return secondsUntil(lock.until, now);
+}
+
+/**
+ * Counts a send against the per-IP and per-email limits. Returns the wait in seconds when a limit is hit.
+ */
+export async function checkSendLimits(email: string, ip: string): Promise<{ allowed: true } | { allowed: false; retryAfterSeconds: number }> {
+  const byIp = await consumeRateLimit('otp-send-ip', ip, SEND_LIMIT_PER_IP);
+  if (!byIp.allowed) return { allowed: false, retryAfterSeconds: byIp.retryAfterSeconds };
+
+  const byEmail = await consumeRateLimit('otp-send-email', normalizeEmail(email), SEND_LIMIT_PER_EMAIL);
+  if (!byEmail.allowed) return { allowed: false, retryAfterSeconds: byEmail.retryAfterSeconds };
+
+  return { allowed: true };
+}
+
+/**
+ * Creates a new code for `email`, replacing any earlier one. Only its hash is stored.
+ */
+export async function issueOtp(email: string): Promise<{ otp: string; expiresAt: string }> {
+  const otp = generateOTP();
+  const expiresAt = new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000).toISOString();
+
+  await kv.set(`otp:${normalizeEmail(email)}`, {
+    otpHash: await hashSecret(`${normalizeEmail(email)}:${otp}`),
+    expiresAt,
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  });
+
+  return { otp, expiresAt };
+}
+
+/**
+ * Checks a code. A correct one is used up and exchanged for a reset token; the last allowed wrong guess
+ * deletes the code and locks the email for LOCKOUT_MINUTES.
+ */
+export async function verifyOtp(email: string, otp: string, ip: string, now = Date.now()): Promise<VerifyOtpResult> {
+  const address = normalizeEmail(email);
+
+  const byIp = await consumeRateLimit('otp-verify-ip', ip, VERIFY_LIMIT_PER_IP, now);
+  if (!byIp.allowed) return { ok: false, reason: 'rate_limited', retryAfterSeconds: byIp.retryAfterSeconds };
+
+  const locked = await lockoutRemaining(address, now);
+  if (locked > 0) return { ok: false, reason: 'locked', retryAfterSeconds: locked };
+
+  const record = await kv.get(`otp:${address}`);
+  if (!record) return { ok: false, reason: 'missing' };
+
+  if (new Date(record.expiresAt).getTime() <= now) {
+    await kv.del(`otp:${address}`);
+    return { ok: false, reason: 'expired' };
+  }
+
+  if (!timingSafeEqual(record.otpHash, await hashSecret(`${address}:${otp}`))) {
+    const attempts = record.attempts + 1;
+    if (attempts >= MAX_VERIFY_ATTEMPTS) {
+      const until = new Date(now + LOCKOUT_MINUTES * 60 * 1000).toISOString();
+      await kv.del(`otp:${address}`);
+      await kv.set(`otp-lock:${address}`, { until });
+      return { ok: false, reason: 'locked', retryAfterSeconds: LOCKOUT_MINUTES * 60 };
+    }
+    await kv.set(`otp:${address}`, { ...record, attempts });
+    return { ok: false, reason: 'invalid', remainingAttempts: MAX_VERIFY_ATTEMPTS - attempts };
+  }
+
+  await kv.del(`otp:${address}`);
+
+  const resetToken = generateToken();
+  const expiresAt = new Date(now + RESET_TOKEN_TTL_MINUTES * 60 * 1000).toISOString();
+  await kv.set(`reset-token:${await hashSecret(resetToken)}`, { email: address, expiresAt });
+
+  return { ok: true, resetToken, expiresAt };
+}
+
+/**
+ * The email a reset token was issued for, without spending it; null if it is unknown, used or expired
+ */
+export async function peekResetToken(resetToken: string, now = Date.now()): Promise<string | null> {
+  const record = await kv.get(`reset-token:${await hashSecret(resetToken)}`);
+  return record && new Date(record.expiresAt).getTime() > now ? record.email : null;
+}
+
+/**
+ * Spends a reset token. Returns the email it was issued for, or null if it is unknown, used or expired.
+ */
+export async function consumeResetToken(resetToken: string, now = Date.now()): Promise<string | null> {
+  const key = `reset-token:${await hashSecret(resetToken)}`;
+  const record = await kv.get(key);
+  if (!record) return null;
+
+  await kv.del(key);
+  return new Date(record.expiresAt).getTime() > now ? record.email : null;
+}
@@ -0,0 +1,15 @@
+// Outbox worker command: sends the email outbox's due retries once and exits.
+// Schedule it (cron, systemd timer, ...) as an alternative to calling POST /email-outbox/process.
+//
+// Usage (from this directory, with SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY set):
+//   deno run --allow-net --allow-env --allow-read --allow-write process-outbox.tsx [--limit=50]
+//
+// Offline, combine STORAGE_BACKEND=sqlite with EMAIL_TRANSPORT=log or EMAIL_TRANSPORT=file.
+
+import { processOutbox } from './outbox.tsx';
+
+const limitArg = Deno.args.find((arg) => arg.startsWith('--limit='));
+const limit = limitArg ? parseInt(limitArg.slice('--limit='.length)) : 50;
+
+const report = await processOutbox(limit);
+console.log(`Outbox: ${report.processed} processed, ${report.sent} sent, ${report.retrying} retrying, ${report.failed} failed, ${report.cleared} cleared`);
@@ -0,0 +1,41 @@
+// Rate limits
+// Fixed-window counters in the key-value store, one `rate:{name}:{subject}` key per limited subject (an email,
+// an IP address). Meant for abuse limits on unauthenticated endpoints: two requests racing on the same key can
+// both be let through, which is acceptable at these limits.
+
+import * as kv from './storage.tsx';
+
+export interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the current window ends
+  retryAfterSeconds: number;
+}
+
+/**
+ * Counts one request against the limit, unless the limit is already reached
+ */
+export async function consumeRateLimit(name: string, subject: string, { limit, windowMs }: RateLimit, now = Date.now()): Promise<RateLimitResult> {
+  const key = `rate:${name}:${subject}`;
+  const current = await kv.get(key);
+  const inWindow = current && now - current.windowStart < windowMs;
+  const windowStart: number = inWindow ? current.windowStart : now;
+  const count: number = inWindow ? current.count : 0;
+  const retryAfterSeconds = Math.max(1, Math.ceil((windowStart + windowMs - now) / 1000));
+
+  if (count >= limit) {
+    return { allowed: false, remaining: 0, retryAfterSeconds };
+  }
+
+  await kv.set(key, { windowStart, count: count + 1 });
+  return { allowed: true, remaining: limit - count - 1, retryAfterSeconds };
+}
+
+export async function resetRateLimit(name: string, subject: string): Promise<void> {
+  await kv.del(`rate:${name}:${subject}`);
+}
@@ -0,0 +1,102 @@
+// Repair command for the key-value id lists (`deposits:list`, `bankDeposits:list`, `staff:list`, `activities:list`).
+// The server now finds records by scanning their key prefix, so these lists are no longer read by it; this
+// rebuilds them from the `deposit:*`, `bankDeposit:*`, ... keys for older deployments and anything else that
+// still reads them, and reports records a lost update had orphaned. It also moves the inline `banks:list` and
+// `roles:list` arrays to per-record `bank:*` / `role:*` keys.
+//
+// Usage (from this directory, with SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY set):
+//   deno run --allow-net --allow-env --allow-read repair-kv-lists.tsx [--dry-run]
+//
+// Safe to re-run: lists are rebuilt from scratch and inline records never overwrite existing keys.
+
+import * as kv from './storage.tsx';
+import { migrateInlineList } from './repositories.tsx';
+
+interface ListReport {
+  list: string;
+  records: number;
+  listed: number;
+  orphaned: string[];
+  dangling: string[];
+}
+
+// Id order the server used to write: appended for records, newest first for activities
+const ID_LISTS = [
+  { prefix: 'staff', listKey: 'staff:list', newestFirst: false },
+  { prefix: 'deposit', listKey: 'deposits:list', newestFirst: false },
+  { prefix: 'bankDeposit', listKey: 'bankDeposits:list', newestFirst: false },
+  { prefix: 'activity', listKey: 'activities:list', newestFirst: true },
+];
+
+const INLINE_LISTS = [
+  { prefix: 'bank', listKey: 'banks:list' },
+  { prefix: 'role', listKey: 'roles:list' },
+];
+
+async function repairIdList(prefix: string, listKey: string, newestFirst: boolean, dryRun: boolean): Promise<ListReport> {
+  const keyPrefix = `${prefix}:`;
+  const ids = (await kv.getKeysByPrefix(keyPrefix))
+    .filter((key) => key !== listKey)
+    .map((key) => key.slice(keyPrefix.length))
+    .sort();
+  if (newestFirst) {
+    ids.reverse();
+  }
+
+  const existing: string[] = (await kv.get(listKey)) || [];
+  const recordIds = new Set(ids);
+  const listedIds = new Set(existing);
+  const report: ListReport = {
+    list: listKey,
+    records: ids.length,
+    listed: existing.length,
+    orphaned: ids.filter((id) => !listedIds.has(id)),
+    dangling: existing.filter((id) => !recordIds.has(id)),
+  };
+
+  if (!dryRun) {
+    await kv.set(listKey, ids);
+  }
+  return report;
+}
+
+async function main() {
+  const dryRun = Deno.args.includes('--dry-run');
+  console.log(`Rebuilding key-value lists${dryRun ? ' (dry run - nothing will be written)' : ''}`);
+
+  const reports: ListReport[] = [];
+  for (const { prefix, listKey, newestFirst } of ID_LISTS) {
+    const report = await repairIdList(prefix, listKey, newestFirst, dryRun);
+    reports.push(report);
+    for (const id of report.orphaned) {
+      console.log(`  + ${listKey}: ${id} (record missing from list)`);
+    }
+    for (const id of report.dangling) {
+      console.log(`  - ${listKey}: ${id} (listed without a record)`);
+    }
+  }
+
+  console.log('\nId lists');
+  console.table(reports.map((report) => ({
+    list: report.list,
+    records: report.records,
+    previouslyListed: report.listed,
+    orphaned: report.orphaned.length,
+    dangling: report.dangling.length,
+  })));
+
+  console.log('Inline lists');
+  for (const { prefix, listKey } of INLINE_LISTS) {
+    if (dryRun) {
+      const records = await kv.get(listKey);
+      console.log(`  ${listKey}: ${Array.isArray(records) ? `${records.length} records to move to ${prefix}:*` : 'already migrated'}`);
+      continue;
+    }
+    const copied = await migrateInlineList(prefix, listKey);
+    console.log(`  ${listKey}: ${copied} records moved to ${prefix}:*`);
+  }
+
+  console.log(dryRun ? '✅ Dry run complete.' : '✅ Lists rebuilt.');
+}
+
+await main();
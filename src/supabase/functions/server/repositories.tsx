@@ -0,0 +1,712 @@
+// Repositories
+// Record-level access to staff, banks, deposits and bank transactions. Two implementations:
+//   DATA_STORE=relational     - the users / banks / deposits / bank_deposits tables in database/schema.sql; the
+//                               default with the Supabase storage backend. Filters, paging and totals run in SQL.
+//   DATA_STORE=kv             - JSON blobs in the key-value store, one key per record (`deposit:{id}`, ...); the
+//                               default with a local storage backend. Queries load every record and filter in
+//                               memory, so it only suits small or local data sets.
+// Run migrate-kv-to-sql.tsx once before moving a deployment from `kv` to `relational`.
+// Activities, roles, the email outbox and email templates always live in the key-value store.
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import * as kv from './storage.tsx';
+import type { DepositCurrencies } from './contract.tsx';
+
+export type DataStore = 'kv' | 'relational';
+
+export interface Repository<T extends { id: string } = any> {
+  list(): Promise<T[]>;
+  listIds(): Promise<string[]>;
+  get(id: string): Promise<T | null>;
+  // Inserts the record, or replaces it if a record with the same id exists
+  save(record: T): Promise<T>;
+  remove(id: string): Promise<void>;
+  count(): Promise<number>;
+}
+
+// Filters, sort and page for list endpoints. Dates are inclusive `YYYY-MM-DD` strings.
+export interface RecordQuery {
+  submittedBy?: string;
+  bankId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  expenseType?: string;
+  // Deposits only; entries without a status count as approved
+  status?: string;
+  search?: string;
+  // `<field>-<asc|desc>`; deposits: date, amount, submitter; bank deposits: date, deposit, withdraw, remaining, bank
+  sort?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface QueryResult<T = any> {
+  items: T[];
+  totalCount: number;
+}
+
+// Sums over the deposits of one date with the same status and currencies
+export interface DepositDayTotals {
+  date: string;
+  // Entries without a status are reported as approved
+  status: string;
+  currencies?: DepositCurrencies;
+  count: number;
+  localDeposit: number;
+  usdtDeposit: number;
+  cashDeposit: number;
+  localWithdraw: number;
+  usdtWithdraw: number;
+  cashWithdraw: number;
+  clientIncentives: number;
+  expenses: number;
+}
+
+// Sums over the transactions of one bank on one date
+export interface BankDepositDayTotals {
+  date: string;
+  bankId: string;
+  count: number;
+  deposit: number;
+  withdraw: number;
+  pnl: number;
+  remaining: number;
+  amount: number;
+  // Balance after the bank's last transaction of the day
+  closingRemaining: number;
+}
+
+export interface QueryableRepository<T extends { id: string } = any, D = any> extends Repository<T> {
+  query(query: RecordQuery): Promise<QueryResult<T>>;
+  // Per-day totals over every record matching the filters (sort and page are ignored). List summaries and
+  // dashboard metrics are converted into the reporting currency from these (see metrics.tsx)
+  dailyTotals(query: RecordQuery): Promise<D[]>;
+}
+
+export interface Repositories {
+  staff: Repository;
+  banks: Repository;
+  deposits: QueryableRepository<any, DepositDayTotals>;
+  bankDeposits: QueryableRepository<any, BankDepositDayTotals>;
+  activities: Repository;
+  roles: Repository;
+  emails: Repository;
+  emailTemplates: Repository;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+export function pageWindow(query: RecordQuery) {
+  const page = Math.max(1, Math.floor(query.page || 1));
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(query.limit || DEFAULT_PAGE_SIZE)));
+  return { page, limit, offset: (page - 1) * limit };
+}
+
+function parseSort(sort: string | undefined, fields: string[]) {
+  const [field, direction] = (sort || 'date-desc').split('-');
+  return {
+    field: fields.includes(field) ? field : 'date',
+    ascending: direction === 'asc',
+  };
+}
+
+const sumBy = (items: any[], pick: (item: any) => number) =>
+  items.reduce((sum, item) => sum + (Number(pick(item)) || 0), 0);
+
+// Date, then creation time, then id - the same order the tables have always shown
+export function compareByDate(ascending: boolean) {
+  return (a: any, b: any) => {
+    const diff = (a.date || '').localeCompare(b.date || '')
+      || (a.createdAt || '').localeCompare(b.createdAt || '')
+      || (a.id || '').localeCompare(b.id || '');
+    return ascending ? diff : -diff;
+  };
+}
+
+function compareBy(pick: (record: any) => number | string, ascending: boolean) {
+  const byDate = compareByDate(false);
+  return (a: any, b: any) => {
+    const valueA = pick(a);
+    const valueB = pick(b);
+    const diff = typeof valueA === 'string'
+      ? valueA.localeCompare(valueB as string)
+      : (valueA as number) - (valueB as number);
+    return (ascending ? diff : -diff) || byDate(a, b);
+  };
+}
+
+const includesTerm = (value: unknown, term: string) =>
+  value !== undefined && value !== null && String(value).toLowerCase().includes(term);
+
+function paginate<T>(records: T[], query: RecordQuery) {
+  const { limit, offset } = pageWindow(query);
+  return records.slice(offset, offset + limit);
+}
+
+// ==================== KV IMPLEMENTATION ====================
+
+// One key per record (`{prefix}:{id}`). Records are found with a key scan, so concurrent saves never
+// race on a shared id list. `legacyListKey` names the list earlier versions maintained; it shares the
+// prefix for staff (`staff:list`) so it is skipped, and repair-kv-lists.tsx can rebuild it.
+export function createKvRepository(prefix: string, legacyListKey: string): Repository {
+  const keyPrefix = `${prefix}:`;
+  const recordKey = (id: string) => `${keyPrefix}${id}`;
+  const isRecordKey = (key: string) => key !== legacyListKey;
+
+  return {
+    listIds: async () =>
+      (await kv.getKeysByPrefix(keyPrefix)).filter(isRecordKey).map((key) => key.slice(keyPrefix.length)),
+    list: async () =>
+      (await kv.getEntriesByPrefix(keyPrefix)).filter((entry) => isRecordKey(entry.key)).map((entry) => entry.value),
+    get: async (id) => (await kv.get(recordKey(id))) ?? null,
+    save: async (record) => {
+      await kv.set(recordKey(record.id), record);
+      return record;
+    },
+    remove: async (id) => {
+      await kv.del(recordKey(id));
+    },
+    count: async () => (await kv.getKeysByPrefix(keyPrefix)).filter(isRecordKey).length,
+  };
+}
+
+// Banks and roles used to be stored inline as one array under `listKey`, where every write rewrote the
+// whole array. Copies those records to their own keys (without overwriting newer ones) and drops the array.
+export async function migrateInlineList(prefix: string, listKey: string): Promise<number> {
+  const records = await kv.get(listKey);
+  if (!Array.isArray(records)) {
+    return 0;
+  }
+
+  const existingKeys = new Set(await kv.getKeysByPrefix(`${prefix}:`));
+  const toCopy = records.filter((record: any) => record?.id && !existingKeys.has(`${prefix}:${record.id}`));
+  if (toCopy.length > 0) {
+    await kv.mset(toCopy.map((record: any) => `${prefix}:${record.id}`), toCopy);
+  }
+  await kv.del(listKey);
+  return toCopy.length;
+}
+
+// Per-record repository for data that may still be in the old inline array; migrates once per process
+export function createKvInlineListRepository(prefix: string, listKey: string): Repository {
+  const repository = createKvRepository(prefix, listKey);
+  let migration: Promise<number> | null = null;
+  const ready = () => {
+    if (!migration) {
+      migration = migrateInlineList(prefix, listKey).catch((error) => {
+        migration = null;
+        throw error;
+      });
+    }
+    return migration;
+  };
+
+  return {
+    listIds: async () => (await ready(), repository.listIds()),
+    list: async () => (await ready(), repository.list()),
+    get: async (id) => (await ready(), repository.get(id)),
+    save: async (record) => (await ready(), repository.save(record)),
+    remove: async (id) => (await ready(), repository.remove(id)),
+    count: async () => (await ready(), repository.count()),
+  };
+}
+
+// In-memory filtering for the KV store, which has no secondary indexes
+function matchesCommonFilters(record: any, query: RecordQuery) {
+  if (query.submittedBy && record.submittedBy !== query.submittedBy) return false;
+  if (query.dateFrom && (record.date || '') < query.dateFrom) return false;
+  if (query.dateTo && (record.date || '') > query.dateTo) return false;
+  return true;
+}
+
+export function createKvDepositRepository(): QueryableRepository<any, DepositDayTotals> {
+  const repository = createKvRepository('deposit', 'deposits:list');
+
+  const filter = async (query: RecordQuery) => {
+    const term = query.search?.toLowerCase() || '';
+    return (await repository.list()).filter((deposit: any) => {
+      if (!matchesCommonFilters(deposit, query)) return false;
+      if (query.expenseType && !(deposit.expenses || []).some((exp: any) => exp.type === query.expenseType)) return false;
+      if (query.status && (deposit.status || 'approved') !== query.status) return false;
+      if (!term) return true;
+      return (
+        includesTerm(deposit.date, term) ||
+        includesTerm(deposit.submittedByName, term) ||
+        (deposit.clientIncentives || []).some((ci: any) => includesTerm(ci.name, term)) ||
+        (deposit.expenses || []).some((exp: any) => includesTerm(exp.type, term) || includesTerm(exp.description, term))
+      );
+    });
+  };
+
+  return {
+    ...repository,
+    query: async (query) => {
+      const filtered = await filter(query);
+
+      const { field, ascending } = parseSort(query.sort, ['date', 'amount', 'submitter']);
+      const netAmount = (d: any) =>
+        (d.localDeposit || 0) + (d.usdtDeposit || 0) + (d.cashDeposit || 0)
+        - (d.localWithdraw || 0) - (d.usdtWithdraw || 0) - (d.cashWithdraw || 0);
+      filtered.sort(
+        field === 'amount' ? compareBy(netAmount, ascending)
+          : field === 'submitter' ? compareBy((d) => d.submittedByName || '', ascending)
+          : compareByDate(ascending),
+      );
+
+      return {
+        items: paginate(filtered, query),
+        totalCount: filtered.length,
+      };
+    },
+    dailyTotals: async (query) => {
+      const days = new Map<string, DepositDayTotals>();
+      for (const deposit of await filter(query)) {
+        const status = deposit.status || 'approved';
+        const key = JSON.stringify([deposit.date, status, deposit.currencies ?? null]);
+        let day = days.get(key);
+        if (!day) {
+          day = {
+            date: deposit.date,
+            status,
+            currencies: deposit.currencies,
+            count: 0,
+            localDeposit: 0,
+            usdtDeposit: 0,
+            cashDeposit: 0,
+            localWithdraw: 0,
+            usdtWithdraw: 0,
+            cashWithdraw: 0,
+            clientIncentives: 0,
+            expenses: 0,
+          };
+          days.set(key, day);
+        }
+        day.count++;
+        day.localDeposit += deposit.localDeposit || 0;
+        day.usdtDeposit += deposit.usdtDeposit || 0;
+        day.cashDeposit += deposit.cashDeposit || 0;
+        day.localWithdraw += deposit.localWithdraw || 0;
+        day.usdtWithdraw += deposit.usdtWithdraw || 0;
+        day.cashWithdraw += deposit.cashWithdraw || 0;
+        day.clientIncentives += sumBy(deposit.clientIncentives || [], (ci) => ci.amount);
+        day.expenses += sumBy(deposit.expenses || [], (exp) => exp.amount);
+      }
+      return [...days.values()];
+    },
+  };
+}
+
+export function createKvBankDepositRepository(banks: Repository): QueryableRepository<any, BankDepositDayTotals> {
+  const repository = createKvRepository('bankDeposit', 'bankDeposits:list');
+
+  const filter = async (query: RecordQuery, bankNames: Map<string, string>) => {
+    const term = query.search?.toLowerCase() || '';
+    return (await repository.list()).filter((transaction: any) => {
+      if (!matchesCommonFilters(transaction, query)) return false;
+      if (query.bankId && transaction.bankId !== query.bankId) return false;
+      if (!term) return true;
+      return (
+        includesTerm(transaction.date, term) ||
+        includesTerm(transaction.submittedByName, term) ||
+        includesTerm(bankNames.get(transaction.bankId), term)
+      );
+    });
+  };
+  const loadBankNames = async () => new Map((await banks.list()).map((bank: any) => [bank.id, bank.name as string]));
+
+  return {
+    ...repository,
+    query: async (query) => {
+      const bankNames = await loadBankNames();
+      const filtered = await filter(query, bankNames);
+
+      const { field, ascending } = parseSort(query.sort, ['date', 'deposit', 'withdraw', 'remaining', 'bank']);
+      filtered.sort(
+        field === 'deposit' ? compareBy((t) => t.deposit || 0, ascending)
+          : field === 'withdraw' ? compareBy((t) => t.withdraw || 0, ascending)
+          : field === 'remaining' ? compareBy((t) => t.remaining || t.remainingBalance || 0, ascending)
+          : field === 'bank' ? compareBy((t) => bankNames.get(t.bankId) || '', ascending)
+          : compareByDate(ascending),
+      );
+
+      return {
+        items: paginate(filtered, query),
+        totalCount: filtered.length,
+      };
+    },
+    dailyTotals: async (query) => {
+      const days = new Map<string, BankDepositDayTotals>();
+      // Oldest first, so the last transaction of a day sets its closing balance
+      const filtered = (await filter(query, await loadBankNames())).sort(compareByDate(true));
+      for (const transaction of filtered) {
+        const key = `${transaction.date}|${transaction.bankId}`;
+        let day = days.get(key);
+        if (!day) {
+          day = { date: transaction.date, bankId: transaction.bankId, count: 0, deposit: 0, withdraw: 0, pnl: 0, remaining: 0, amount: 0, closingRemaining: 0 };
+          days.set(key, day);
+        }
+        const remaining = transaction.remaining || transaction.remainingBalance || 0;
+        day.count++;
+        day.deposit += transaction.deposit || 0;
+        day.withdraw += transaction.withdraw || 0;
+        day.pnl += transaction.pnl || 0;
+        day.remaining += remaining;
+        day.amount += transaction.amount || 0;
+        day.closingRemaining = remaining;
+      }
+      return [...days.values()];
+    },
+  };
+}
+
+// ==================== RELATIONAL IMPLEMENTATION ====================
+
+const db = () => createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+);
+
+function check<T>({ data, error }: { data: T; error: { message: string } | null }): T {
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+}
+
+// Splits a record into mapped columns and an `extra` JSONB bag holding every other field,
+// so fields the schema doesn't model yet survive a round trip.
+function toRow(record: Record<string, any>, columns: Record<string, string>) {
+  const row: Record<string, any> = {};
+  const extra: Record<string, any> = {};
+  for (const [field, value] of Object.entries(record)) {
+    if (value === undefined) continue;
+    if (columns[field]) {
+      row[columns[field]] = value;
+    } else {
+      extra[field] = value;
+    }
+  }
+  row.extra = extra;
+  return row;
+}
+
+function fromRow(row: Record<string, any>, columns: Record<string, string>) {
+  const record: Record<string, any> = { ...(row.extra || {}) };
+  for (const [field, column] of Object.entries(columns)) {
+    if (row[column] !== null && row[column] !== undefined) {
+      record[field] = row[column];
+    }
+  }
+  return record;
+}
+
+const STAFF_COLUMNS: Record<string, string> = {
+  id: 'id',
+  email: 'email',
+  name: 'name',
+  role: 'role',
+  status: 'status',
+  permissions: 'permissions',
+  avatar: 'avatar',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  lastLogin: 'last_login',
+  isArchived: 'is_archived',
+  archivedAt: 'archived_at',
+};
+
+const BANK_COLUMNS: Record<string, string> = {
+  id: 'id',
+  name: 'name',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+const DEPOSIT_COLUMNS: Record<string, string> = {
+  id: 'id',
+  date: 'date',
+  localDeposit: 'local_deposit',
+  usdtDeposit: 'usdt_deposit',
+  cashDeposit: 'cash_deposit',
+  localWithdraw: 'local_withdraw',
+  usdtWithdraw: 'usdt_withdraw',
+  cashWithdraw: 'cash_withdraw',
+  submittedBy: 'submitted_by',
+  submittedByName: 'submitted_by_name',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+const BANK_DEPOSIT_COLUMNS: Record<string, string> = {
+  id: 'id',
+  date: 'date',
+  bankId: 'bank_id',
+  deposit: 'deposit',
+  withdraw: 'withdraw',
+  pnl: 'pnl',
+  remaining: 'remaining',
+  remainingBalance: 'remaining_balance',
+  submittedBy: 'submitted_by',
+  submittedByName: 'submitted_by_name',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+// Single-table repository (users, banks, bank_deposits)
+export function createTableRepository(table: string, columns: Record<string, string>): Repository {
+  return {
+    list: async () => {
+      const rows = check(await db().from(table).select('*').order('created_at', { ascending: true }));
+      return (rows || []).map((row: any) => fromRow(row, columns));
+    },
+    listIds: async () => {
+      const rows = check(await db().from(table).select('id').order('created_at', { ascending: true }));
+      return (rows || []).map((row: any) => row.id);
+    },
+    get: async (id) => {
+      const row = check(await db().from(table).select('*').eq('id', id).maybeSingle());
+      return row ? fromRow(row, columns) : null;
+    },
+    save: async (record) => {
+      check(await db().from(table).upsert(toRow(record, columns)));
+      return record;
+    },
+    remove: async (id) => {
+      check(await db().from(table).delete().eq('id', id));
+    },
+    count: async () => {
+      const { count, error } = await db().from(table).select('id', { count: 'exact', head: true });
+      if (error) {
+        throw new Error(error.message);
+      }
+      return count ?? 0;
+    },
+  };
+}
+
+// Deposits live in `deposits` with their incentives and expenses in child tables
+export function createDepositTableRepository(): QueryableRepository<any, DepositDayTotals> {
+  const table = createTableRepository('deposits', DEPOSIT_COLUMNS);
+  const selectWithChildren = '*, client_incentives(id, name, amount), expenses(id, type, amount, description)';
+
+  const fromDepositRow = (row: any) => {
+    const { client_incentives, expenses, ...depositRow } = row;
+    return {
+      ...fromRow(depositRow, DEPOSIT_COLUMNS),
+      clientIncentives: client_incentives || [],
+      expenses: (expenses || []).map((expense: any) => ({
+        ...expense,
+        description: expense.description ?? undefined,
+      })),
+    };
+  };
+
+  const toFilters = (query: RecordQuery) => ({
+    p_submitted_by: query.submittedBy || null,
+    p_date_from: query.dateFrom || null,
+    p_date_to: query.dateTo || null,
+    p_expense_type: query.expenseType || null,
+    p_search: query.search || null,
+    p_status: query.status || null,
+  });
+
+  return {
+    ...table,
+    query: async (query) => {
+      const { limit, offset } = pageWindow(query);
+      const { field, ascending } = parseSort(query.sort, ['date', 'amount', 'submitter']);
+      const filters = toFilters(query);
+      const client = db();
+
+      let request = client.rpc('filter_deposits', filters).select(selectWithChildren, { count: 'exact' });
+      if (field === 'amount') {
+        request = request.order('net_amount', { ascending });
+      } else if (field === 'submitter') {
+        request = request.order('submitted_by_name', { ascending });
+      }
+      request = request
+        .order('date', { ascending: field === 'date' ? ascending : false })
+        .order('created_at', { ascending: field === 'date' ? ascending : false })
+        .order('id', { ascending: field === 'date' ? ascending : false })
+        .range(offset, offset + limit - 1);
+
+      const { data, count, error } = await request;
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return {
+        items: (data || []).map(fromDepositRow),
+        totalCount: count ?? 0,
+      };
+    },
+    dailyTotals: async (query) => {
+      const rows = check(await db().rpc('deposit_daily_totals', toFilters(query)));
+      return (rows || []).map((row: any): DepositDayTotals => ({
+        date: row.date,
+        status: row.status,
+        currencies: row.currencies ?? undefined,
+        count: Number(row.entry_count),
+        localDeposit: Number(row.local_deposit),
+        usdtDeposit: Number(row.usdt_deposit),
+        cashDeposit: Number(row.cash_deposit),
+        localWithdraw: Number(row.local_withdraw),
+        usdtWithdraw: Number(row.usdt_withdraw),
+        cashWithdraw: Number(row.cash_withdraw),
+        clientIncentives: Number(row.client_incentives),
+        expenses: Number(row.expenses),
+      }));
+    },
+    list: async () => {
+      const rows = check(await db().from('deposits').select(selectWithChildren).order('created_at', { ascending: true }));
+      return (rows || []).map(fromDepositRow);
+    },
+    get: async (id) => {
+      const row = check(await db().from('deposits').select(selectWithChildren).eq('id', id).maybeSingle());
+      return row ? fromDepositRow(row) : null;
+    },
+    save: async (record) => {
+      // Items keep their ids across saves, so change history matches them; ones without an id get one here
+      const withIds = (items: any[] = []) => items.map((item) => (item.id ? item : { ...item, id: crypto.randomUUID() }));
+      const saved = { ...record, clientIncentives: withIds(record.clientIncentives), expenses: withIds(record.expenses) };
+      const { clientIncentives, expenses, ...deposit } = saved;
+
+      // One transaction: the deposit row plus its items, upserted by id (see save_deposit in schema.sql)
+      check(await db().rpc('save_deposit', {
+        p_deposit: toRow(deposit, DEPOSIT_COLUMNS),
+        p_incentives: clientIncentives.map((incentive: any) => ({
+          id: incentive.id,
+          name: incentive.name,
+          amount: incentive.amount,
+        })),
+        p_expenses: expenses.map((expense: any) => ({
+          id: expense.id,
+          type: expense.type,
+          amount: expense.amount,
+          description: expense.description || null,
+        })),
+      }));
+      return saved;
+    },
+  };
+}
+
+export function createBankDepositTableRepository(): QueryableRepository<any, BankDepositDayTotals> {
+  const table = createTableRepository('bank_deposits', BANK_DEPOSIT_COLUMNS);
+  const sortColumns: Record<string, string> = {
+    deposit: 'deposit',
+    withdraw: 'withdraw',
+    remaining: 'remaining',
+    bank: 'bank_name',
+  };
+
+  const toFilters = (query: RecordQuery) => ({
+    p_submitted_by: query.submittedBy || null,
+    p_bank_id: query.bankId || null,
+    p_date_from: query.dateFrom || null,
+    p_date_to: query.dateTo || null,
+    p_search: query.search || null,
+  });
+
+  return {
+    ...table,
+    query: async (query) => {
+      const { limit, offset } = pageWindow(query);
+      const { field, ascending } = parseSort(query.sort, ['date', 'deposit', 'withdraw', 'remaining', 'bank']);
+      const filters = toFilters(query);
+      const client = db();
+
+      let request = client.rpc('filter_bank_deposits', filters).select('*', { count: 'exact' });
+      if (sortColumns[field]) {
+        request = request.order(sortColumns[field], { ascending });
+      }
+      request = request
+        .order('date', { ascending: field === 'date' ? ascending : false })
+        .order('created_at', { ascending: field === 'date' ? ascending : false })
+        .order('id', { ascending: field === 'date' ? ascending : false })
+        .range(offset, offset + limit - 1);
+
+      const { data, count, error } = await request;
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return {
+        items: (data || []).map((row: any) => fromRow(row, BANK_DEPOSIT_COLUMNS)),
+        totalCount: count ?? 0,
+      };
+    },
+    dailyTotals: async (query) => {
+      const rows = check(await db().rpc('bank_deposit_daily_totals', toFilters(query)));
+      return (rows || []).map((row: any): BankDepositDayTotals => ({
+        date: row.date,
+        bankId: row.bank_id,
+        count: Number(row.entry_count),
+        deposit: Number(row.deposit),
+        withdraw: Number(row.withdraw),
+        pnl: Number(row.pnl),
+        remaining: Number(row.remaining),
+        amount: Number(row.amount),
+        closingRemaining: Number(row.closing_remaining),
+      }));
+    },
+  };
+}
+
+// ==================== SELECTION ====================
+
+// Relational unless configured otherwise; local storage backends have no tables, so they default to kv
+export function getDataStore(): DataStore {
+  const store = (Deno.env.get('DATA_STORE') || (kv.isLocalStorageBackend() ? 'kv' : 'relational')).toLowerCase();
+  if (store !== 'kv' && store !== 'relational') {
+    throw new Error(`Unknown DATA_STORE "${store}" (expected kv or relational)`);
+  }
+  return store;
+}
+
+// An unset DATA_STORE falls back to relational, which would hide staff that still live only in the KV store:
+// every member would read as deleted and /signup would reopen. Refuses to start until the store is chosen.
+export async function assertDataStoreConfigured(): Promise<void> {
+  if (Deno.env.get('DATA_STORE') || getDataStore() !== 'relational') {
+    return;
+  }
+  const kvStaff = (await kv.getKeysByPrefix('staff:')).filter((key) => key !== 'staff:list');
+  if (kvStaff.length > 0) {
+    throw new Error(
+      `DATA_STORE is not set but the key-value store holds ${kvStaff.length} staff record(s). ` +
+      'Set DATA_STORE=kv, or migrate with migrate-kv-to-sql.tsx and set DATA_STORE=relational.',
+    );
+  }
+}
+
+export function createKvRepositories(): Repositories {
+  const banks = createKvInlineListRepository('bank', 'banks:list');
+  return {
+    staff: createKvRepository('staff', 'staff:list'),
+    banks,
+    deposits: createKvDepositRepository(),
+    bankDeposits: createKvBankDepositRepository(banks),
+    activities: createKvRepository('activity', 'activities:list'),
+    roles: createKvInlineListRepository('role', 'roles:list'),
+    emails: createKvRepository('outboxEmail', 'outboxEmails:list'),
+    emailTemplates: createKvRepository('emailTemplate', 'emailTemplates:list'),
+  };
+}
+
+export function createRelationalRepositories(): Repositories {
+  return {
+    staff: createTableRepository('users', STAFF_COLUMNS),
+    banks: createTableRepository('banks', BANK_COLUMNS),
+    deposits: createDepositTableRepository(),
+    bankDeposits: createBankDepositTableRepository(),
+    activities: createKvRepository('activity', 'activities:list'),
+    roles: createKvInlineListRepository('role', 'roles:list'),
+    emails: createKvRepository('outboxEmail', 'outboxEmails:list'),
+    emailTemplates: createKvRepository('emailTemplate', 'emailTemplates:list'),
+  };
+}
+
+export const repos: Repositories = getDataStore() === 'relational'
+  ? createRelationalRepositories()
+  : createKvRepositories();
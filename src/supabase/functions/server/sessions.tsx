@@ -0,0 +1,136 @@
+// Sessions
+// Every authenticated request records its Supabase auth session (the token's `session_id` claim), so staff can
+// see where they are signed in and sessions can be signed out from the server:
+//   session:{staffId}:{sessionId} - { id, staffId, device, userAgent, ip, createdAt, lastSeenAt, revokedAt?, revokedBy? }
+// A revoked session is refused by the auth guard (SESSION_REVOKED) even though its token is still valid with
+// Supabase, and stays refused after token refreshes because they keep the session id. Revoked records are never
+// deleted: without them a token of the session would simply register it again. Sessions idle for
+// IDLE_RETENTION_DAYS are dropped from the list (a later request re-registers them as active).
+
+import * as kv from './storage.tsx';
+import type { StaffSession } from './contract.tsx';
+
+// lastSeenAt is written at most this often per session, unless the IP changes
+const TOUCH_INTERVAL_MS = 60 * 1000;
+const IDLE_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SessionRecord extends StaffSession {
+  staffId: string;
+  revokedAt?: string;
+  revokedBy?: string;
+}
+
+const sessionKey = (staffId: string, sessionId: string) => `session:${staffId}:${sessionId}`;
+
+/**
+ * Short description of a user agent, e.g. "Chrome on Windows"
+ */
+export function describeDevice(userAgent: string): string {
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null;
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+}
+
+/**
+ * Records a request on the session, creating it on first sight. Returns the record so the caller can refuse
+ * a revoked session.
+ */
+export async function touchSession(
+  staffId: string,
+  sessionId: string,
+  { ip, userAgent }: { ip: string; userAgent: string },
+  now = Date.now(),
+): Promise<SessionRecord> {
+  const key = sessionKey(staffId, sessionId);
+  const existing: SessionRecord | null = await kv.get(key);
+  const timestamp = new Date(now).toISOString();
+
+  if (!existing) {
+    const record: SessionRecord = {
+      id: sessionId,
+      staffId,
+      device: describeDevice(userAgent),
+      userAgent,
+      ip,
+      createdAt: timestamp,
+      lastSeenAt: timestamp,
+    };
+    await kv.set(key, record);
+    return record;
+  }
+
+  if (existing.revokedAt) {
+    return existing;
+  }
+
+  if (existing.ip !== ip || now - new Date(existing.lastSeenAt).getTime() >= TOUCH_INTERVAL_MS) {
+    const record = { ...existing, ip, lastSeenAt: timestamp };
+    await kv.set(key, record);
+    return record;
+  }
+
+  return existing;
+}
+
+/**
+ * Active sessions of a member, most recently used first. Idle records are deleted on the way; revoked ones stay.
+ */
+export async function listSessions(staffId: string, now = Date.now()): Promise<StaffSession[]> {
+  const records: SessionRecord[] = await kv.getByPrefix(`session:${staffId}:`);
+
+  const stale = records.filter((record) =>
+    !record.revokedAt && now - new Date(record.lastSeenAt).getTime() > IDLE_RETENTION_DAYS * DAY_MS,
+  );
+  if (stale.length > 0) {
+    await kv.mdel(stale.map((record) => sessionKey(staffId, record.id)));
+  }
+
+  return records
+    .filter((record) => !record.revokedAt && !stale.includes(record))
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+    .map(({ id, device, userAgent, ip, createdAt, lastSeenAt }) => ({ id, device, userAgent, ip, createdAt, lastSeenAt }));
+}
+
+/**
+ * Signs out one session. Returns false if the member has no such active session.
+ */
+export async function revokeSession(staffId: string, sessionId: string, revokedBy: string): Promise<boolean> {
+  const key = sessionKey(staffId, sessionId);
+  const record: SessionRecord | null = await kv.get(key);
+  if (!record || record.revokedAt) return false;
+
+  await kv.set(key, { ...record, revokedAt: new Date().toISOString(), revokedBy });
+  return true;
+}
+
+/**
+ * Signs out every active session of a member, optionally keeping one (the caller's own). Returns how many
+ * sessions were signed out.
+ */
+export async function revokeAllSessions(staffId: string, revokedBy: string, exceptSessionId?: string): Promise<number> {
+  const records: SessionRecord[] = await kv.getByPrefix(`session:${staffId}:`);
+  const revokedAt = new Date().toISOString();
+  const revoked = records
+    .filter((record) => !record.revokedAt && record.id !== exceptSessionId)
+    .map((record) => ({ ...record, revokedAt, revokedBy }));
+
+  if (revoked.length > 0) {
+    await kv.mset(revoked.map((record) => sessionKey(staffId, record.id)), revoked);
+  }
+  return revoked.length;
+}
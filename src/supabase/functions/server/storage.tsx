@@ -0,0 +1,271 @@
+// Storage Backend
+// Exposes the same key-value API as kv_store.tsx, but lets the backing store be chosen at startup:
+//   STORAGE_BACKEND=supabase (default) - the live kv_store_63060bc2 table
+//   STORAGE_BACKEND=memory             - in-process Map, lost on restart (tests, demos)
+//   STORAGE_BACKEND=sqlite             - local SQLite file at STORAGE_SQLITE_PATH (offline development)
+// Local backends can be seeded from a JSON fixture file ({ "key": value, ... }) via STORAGE_FIXTURES.
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import * as supabaseKv from './kv_store.tsx';
+
+export type StorageBackend = 'supabase' | 'memory' | 'sqlite';
+
+export interface KvAdapter {
+  get(key: string): Promise<any>;
+  set(key: string, value: any): Promise<void>;
+  // Stores the value only if the key is absent, atomically; false if another writer got there first
+  add(key: string, value: any): Promise<boolean>;
+  del(key: string): Promise<void>;
+  mget(keys: string[]): Promise<any[]>;
+  mset(keys: string[], values: any[]): Promise<void>;
+  mdel(keys: string[]): Promise<void>;
+  getByPrefix(prefix: string): Promise<any[]>;
+  // Key scans back the record indexes, so listing never depends on a read-modify-write id list
+  getKeysByPrefix(prefix: string): Promise<string[]>;
+  getEntriesByPrefix(prefix: string): Promise<KvEntry[]>;
+}
+
+export interface KvEntry {
+  key: string;
+  value: any;
+}
+
+// Escapes LIKE wildcards so a prefix such as `a_b:` only matches literally
+const likePrefix = (prefix: string) => prefix.replace(/[\\%_]/g, (char) => `\\${char}`) + '%';
+
+// Supabase adapter - delegates to the generated kv_store module, plus key scans against the same table
+export function createSupabaseAdapter(): KvAdapter {
+  const table = () => createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  ).from('kv_store_63060bc2');
+
+  return {
+    get: supabaseKv.get,
+    set: supabaseKv.set,
+    add: async (key, value) => {
+      const { error } = await table().insert({ key, value });
+      if (error?.code === '23505') {
+        return false;
+      }
+      if (error) {
+        throw new Error(error.message);
+      }
+      return true;
+    },
+    del: supabaseKv.del,
+    mget: supabaseKv.mget,
+    mset: supabaseKv.mset,
+    mdel: supabaseKv.mdel,
+    getByPrefix: supabaseKv.getByPrefix,
+    getKeysByPrefix: async (prefix) => {
+      const { data, error } = await table().select('key').like('key', likePrefix(prefix));
+      if (error) {
+        throw new Error(error.message);
+      }
+      return data?.map((row: any) => row.key) ?? [];
+    },
+    getEntriesByPrefix: async (prefix) => {
+      const { data, error } = await table().select('key, value').like('key', likePrefix(prefix));
+      if (error) {
+        throw new Error(error.message);
+      }
+      return data ?? [];
+    },
+  };
+}
+
+// In-memory adapter - values are cloned on the way in and out so callers can't mutate stored state
+export function createMemoryAdapter(seed: Record<string, any> = {}): KvAdapter {
+  const store = new Map<string, any>();
+  for (const [key, value] of Object.entries(seed)) {
+    store.set(key, structuredClone(value));
+  }
+
+  const read = (key: string) => (store.has(key) ? structuredClone(store.get(key)) : undefined);
+
+  return {
+    get: async (key) => read(key),
+    set: async (key, value) => {
+      store.set(key, structuredClone(value));
+    },
+    add: async (key, value) => {
+      if (store.has(key)) return false;
+      store.set(key, structuredClone(value));
+      return true;
+    },
+    del: async (key) => {
+      store.delete(key);
+    },
+    mget: async (keys) => keys.filter((key) => store.has(key)).map(read),
+    mset: async (keys, values) => {
+      keys.forEach((key, i) => store.set(key, structuredClone(values[i])));
+    },
+    mdel: async (keys) => {
+      keys.forEach((key) => store.delete(key));
+    },
+    getByPrefix: async (prefix) =>
+      [...store.keys()].filter((key) => key.startsWith(prefix)).map(read),
+    getKeysByPrefix: async (prefix) => [...store.keys()].filter((key) => key.startsWith(prefix)),
+    getEntriesByPrefix: async (prefix) =>
+      [...store.keys()].filter((key) => key.startsWith(prefix)).map((key) => ({ key, value: read(key) })),
+  };
+}
+
+// SQLite adapter - mirrors the kv_store_63060bc2 table layout, with values stored as JSON text
+export async function createSqliteAdapter(path: string): Promise<KvAdapter> {
+  // Loaded lazily so deployed functions never pull the WASM build
+  const { DB } = await import('https://deno.land/x/sqlite@v3.9.1/mod.ts');
+  const db = new DB(path);
+  db.execute('CREATE TABLE IF NOT EXISTS kv_store (key TEXT NOT NULL PRIMARY KEY, value TEXT NOT NULL)');
+
+  const upsert = (key: string, value: any) => {
+    db.query(
+      'INSERT INTO kv_store (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+      [key, JSON.stringify(value)],
+    );
+  };
+  const placeholders = (count: number) => new Array(count).fill('?').join(', ');
+
+  return {
+    get: async (key) => {
+      const rows = db.query<[string]>('SELECT value FROM kv_store WHERE key = ?', [key]);
+      return rows.length > 0 ? JSON.parse(rows[0][0]) : undefined;
+    },
+    set: async (key, value) => upsert(key, value),
+    add: async (key, value) => {
+      db.query('INSERT INTO kv_store (key, value) VALUES (?, ?) ON CONFLICT(key) DO NOTHING', [key, JSON.stringify(value)]);
+      return db.changes > 0;
+    },
+    del: async (key) => {
+      db.query('DELETE FROM kv_store WHERE key = ?', [key]);
+    },
+    mget: async (keys) => {
+      if (keys.length === 0) return [];
+      const rows = db.query<[string, string]>(
+        `SELECT key, value FROM kv_store WHERE key IN (${placeholders(keys.length)})`,
+        keys,
+      );
+      const byKey = new Map(rows.map(([key, value]) => [key, value]));
+      return keys.filter((key) => byKey.has(key)).map((key) => JSON.parse(byKey.get(key)!));
+    },
+    mset: async (keys, values) => {
+      db.transaction(() => {
+        keys.forEach((key, i) => upsert(key, values[i]));
+      });
+    },
+    mdel: async (keys) => {
+      if (keys.length === 0) return;
+      db.query(`DELETE FROM kv_store WHERE key IN (${placeholders(keys.length)})`, keys);
+    },
+    getByPrefix: async (prefix) => {
+      const rows = db.query<[string]>(
+        'SELECT value FROM kv_store WHERE substr(key, 1, ?) = ? ORDER BY key',
+        [prefix.length, prefix],
+      );
+      return rows.map(([value]) => JSON.parse(value));
+    },
+    getKeysByPrefix: async (prefix) => {
+      const rows = db.query<[string]>(
+        'SELECT key FROM kv_store WHERE substr(key, 1, ?) = ? ORDER BY key',
+        [prefix.length, prefix],
+      );
+      return rows.map(([key]) => key);
+    },
+    getEntriesByPrefix: async (prefix) => {
+      const rows = db.query<[string, string]>(
+        'SELECT key, value FROM kv_store WHERE substr(key, 1, ?) = ? ORDER BY key',
+        [prefix.length, prefix],
+      );
+      return rows.map(([key, value]) => ({ key, value: JSON.parse(value) }));
+    },
+  };
+}
+
+export function getStorageBackend(): StorageBackend {
+  const backend = (Deno.env.get('STORAGE_BACKEND') || 'supabase').toLowerCase();
+  if (backend !== 'supabase' && backend !== 'memory' && backend !== 'sqlite') {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected supabase, memory or sqlite)`);
+  }
+  return backend;
+}
+
+// True when running against a local store rather than the live Supabase table
+export function isLocalStorageBackend(): boolean {
+  return getStorageBackend() !== 'supabase';
+}
+
+async function loadFixtures(): Promise<Record<string, any>> {
+  const fixturesPath = Deno.env.get('STORAGE_FIXTURES');
+  if (!fixturesPath) {
+    return {};
+  }
+  const fixtures = JSON.parse(await Deno.readTextFile(fixturesPath));
+  console.log(`Loaded ${Object.keys(fixtures).length} fixture keys from ${fixturesPath}`);
+  return fixtures;
+}
+
+async function createConfiguredAdapter(): Promise<KvAdapter> {
+  const backend = getStorageBackend();
+
+  if (backend === 'memory') {
+    return createMemoryAdapter(await loadFixtures());
+  }
+
+  if (backend === 'sqlite') {
+    const adapter = await createSqliteAdapter(Deno.env.get('STORAGE_SQLITE_PATH') || './kv_store.sqlite');
+    const fixtures = await loadFixtures();
+    const keys = Object.keys(fixtures);
+    if (keys.length > 0) {
+      await adapter.mset(keys, keys.map((key) => fixtures[key]));
+    }
+    return adapter;
+  }
+
+  return createSupabaseAdapter();
+}
+
+let adapterPromise: Promise<KvAdapter> | null = null;
+
+function adapter(): Promise<KvAdapter> {
+  if (!adapterPromise) {
+    adapterPromise = createConfiguredAdapter();
+    console.log(`Storage backend: ${getStorageBackend()}`);
+  }
+  return adapterPromise;
+}
+
+// Replace the active adapter (used by tests to inject a pre-seeded memory store)
+export function setStorageAdapter(next: KvAdapter): void {
+  adapterPromise = Promise.resolve(next);
+}
+
+// Set stores a key-value pair.
+export const set = async (key: string, value: any): Promise<void> => (await adapter()).set(key, value);
+
+// Get retrieves a value by key.
+export const get = async (key: string): Promise<any> => (await adapter()).get(key);
+
+// Add stores a key-value pair unless the key exists; returns whether it was stored.
+export const add = async (key: string, value: any): Promise<boolean> => (await adapter()).add(key, value);
+
+// Delete deletes a key-value pair.
+export const del = async (key: string): Promise<void> => (await adapter()).del(key);
+
+// Sets multiple key-value pairs.
+export const mset = async (keys: string[], values: any[]): Promise<void> => (await adapter()).mset(keys, values);
+
+// Gets multiple values; missing keys are skipped.
+export const mget = async (keys: string[]): Promise<any[]> => (await adapter()).mget(keys);
+
+// Deletes multiple key-value pairs.
+export const mdel = async (keys: string[]): Promise<void> => (await adapter()).mdel(keys);
+
+// Search for values by key prefix.
+export const getByPrefix = async (prefix: string): Promise<any[]> => (await adapter()).getByPrefix(prefix);
+
+// List the keys that start with a prefix.
+export const getKeysByPrefix = async (prefix: string): Promise<string[]> => (await adapter()).getKeysByPrefix(prefix);
+
+// Search for key-value pairs by prefix, keeping the keys.
+export const getEntriesByPrefix = async (prefix: string): Promise<KvEntry[]> => (await adapter()).getEntriesByPrefix(prefix);
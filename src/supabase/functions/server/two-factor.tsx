@@ -0,0 +1,256 @@
+// Two-factor authentication
+// TOTP (RFC 6238: SHA-1, 6 digits, 30-second steps) as a second login step after the Supabase password login.
+//   totp:{staffId}            - { secret, pendingSecret?, recoveryCodeHashes, lastUsedStep }
+//   mfa-session:{sessionId}   - { staffId, verifiedAt, expiresAt }: auth sessions that passed the second step
+//   settings:twoFactorRoles   - role names whose members must enroll before using the panel
+// The staff record only carries `twoFactorEnabled` / `twoFactorEnabledAt`, so secrets never leave the server
+// with staff lists. A session verified before 2FA was (re-)enabled has to verify again.
+
+import * as kv from './storage.tsx';
+import { repos } from './repositories.tsx';
+import type { TwoFactorEnrollment, TwoFactorStatus } from './contract.tsx';
+
+const ISSUER = 'Fliptrade Admin';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the previous and next step too, for clock drift between phone and server
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const MFA_SESSION_HOURS = 12;
+const REQUIRED_ROLES_KEY = 'settings:twoFactorRoles';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+async function totpCode(secret: string, step: number): Promise<string> {
+  const counter = new Uint8Array(8);
+  let remaining = step;
+  for (let i = 7; i >= 0; i--) {
+    counter[i] = remaining & 255;
+    remaining = Math.floor(remaining / 256);
+  }
+
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter));
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+}
+
+// Step the code belongs to, if it is valid now and newer than `lastUsedStep` (a code works only once)
+async function matchTotp(secret: string, code: string, lastUsedStep = -1, now = Date.now()): Promise<number | null> {
+  if (!/^\d{6}$/.test(code)) return null;
+  const current = Math.floor(now / 1000 / STEP_SECONDS);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (step > lastUsedStep && (await totpCode(secret, step)) === code) {
+      return step;
+    }
+  }
+  return null;
+}
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const normalizeRecoveryCode = (code: string) => code.trim().toLowerCase().replace(/[^a-z2-7]/g, '');
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+async function hashRecoveryCodes(codes: string[]): Promise<string[]> {
+  return Promise.all(codes.map((code) => sha256(normalizeRecoveryCode(code))));
+}
+
+// ==================== REQUIRED ROLES ====================
+
+export async function getRequiredRoles(): Promise<string[]> {
+  return (await kv.get(REQUIRED_ROLES_KEY)) || [];
+}
+
+export async function setRequiredRoles(roles: string[]): Promise<string[]> {
+  const unique = [...new Set(roles.map((role) => role.trim()).filter(Boolean))].sort();
+  await kv.set(REQUIRED_ROLES_KEY, unique);
+  return unique;
+}
+
+// Keeps the requirement attached to a role across renames and drops it when the role is deleted
+export async function renameRequiredRole(oldName: string, newName: string | null): Promise<void> {
+  const roles = await getRequiredRoles();
+  if (!roles.includes(oldName)) return;
+  await setRequiredRoles(roles.filter((role) => role !== oldName).concat(newName ? [newName] : []));
+}
+
+// ==================== STATUS ====================
+
+async function isSessionVerified(staff: any, sessionId: string | undefined): Promise<boolean> {
+  if (!sessionId) return false;
+  const session = await kv.get(`mfa-session:${sessionId}`);
+  return !!session
+    && session.staffId === staff.id
+    && session.expiresAt > new Date().toISOString()
+    && (!staff.twoFactorEnabledAt || session.verifiedAt >= staff.twoFactorEnabledAt);
+}
+
+async function markSessionVerified(staffId: string, sessionId: string | undefined): Promise<void> {
+  if (!sessionId) return;
+  const now = new Date();
+  await kv.set(`mfa-session:${sessionId}`, {
+    staffId,
+    verifiedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + MFA_SESSION_HOURS * 60 * 60 * 1000).toISOString(),
+  });
+}
+
+/**
+ * What still stands between a password-authenticated session and the panel: verifying a code, enrolling
+ * (the member's role requires 2FA but it is off), or nothing
+ */
+export async function pendingSecondFactor(staff: any, sessionId: string | undefined): Promise<'verify' | 'enroll' | null> {
+  if (staff.twoFactorEnabled === true) {
+    return (await isSessionVerified(staff, sessionId)) ? null : 'verify';
+  }
+  return (await getRequiredRoles()).includes(staff.role) ? 'enroll' : null;
+}
+
+export async function secondFactorStatus(staff: any, sessionId: string | undefined): Promise<TwoFactorStatus> {
+  const enabled = staff.twoFactorEnabled === true;
+  const required = (await getRequiredRoles()).includes(staff.role);
+  const verified = enabled && (await isSessionVerified(staff, sessionId));
+  const record = enabled ? await kv.get(`totp:${staff.id}`) : null;
+  return { enabled, required, verified, recoveryCodesRemaining: record?.recoveryCodeHashes?.length || 0 };
+}
+
+// ==================== ENROLLMENT ====================
+
+/**
+ * Starts (or restarts) enrollment with a fresh secret. 2FA stays off until enableTwoFactor() confirms a code.
+ */
+export async function startEnrollment(staff: any): Promise<TwoFactorEnrollment> {
+  const secret = base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+  const record = (await kv.get(`totp:${staff.id}`)) || {};
+  await kv.set(`totp:${staff.id}`, { ...record, pendingSecret: secret });
+
+  const label = encodeURIComponent(`${ISSUER}:${staff.email}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+
+  const QRCode = (await import('npm:qrcode@1.5.3')).default;
+  const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 });
+
+  return { secret, otpauthUrl, qrCode };
+}
+
+/**
+ * Confirms enrollment with a code from the new secret. Returns the recovery codes (shown once), or null when
+ * the code is wrong or no enrollment was started. The current session counts as verified.
+ */
+export async function enableTwoFactor(staff: any, code: string, sessionId: string | undefined): Promise<string[] | null> {
+  const record = await kv.get(`totp:${staff.id}`);
+  if (!record?.pendingSecret) return null;
+
+  const step = await matchTotp(record.pendingSecret, code);
+  if (step === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  await kv.set(`totp:${staff.id}`, {
+    secret: record.pendingSecret,
+    recoveryCodeHashes: await hashRecoveryCodes(recoveryCodes),
+    lastUsedStep: step,
+  });
+
+  const enabledAt = new Date().toISOString();
+  await repos.staff.save({ ...staff, twoFactorEnabled: true, twoFactorEnabledAt: enabledAt });
+  await markSessionVerified(staff.id, sessionId);
+
+  return recoveryCodes;
+}
+
+// ==================== VERIFICATION ====================
+
+/**
+ * Checks an authenticator code or a recovery code (which is then used up). With a session id the session is
+ * marked verified.
+ */
+export async function verifySecondFactor(
+  staff: any,
+  code: string,
+  sessionId?: string,
+): Promise<{ ok: boolean; usedRecoveryCode: boolean; recoveryCodesRemaining: number }> {
+  const record = await kv.get(`totp:${staff.id}`);
+  if (!staff.twoFactorEnabled || !record?.secret) {
+    return { ok: false, usedRecoveryCode: false, recoveryCodesRemaining: 0 };
+  }
+
+  const hashes: string[] = record.recoveryCodeHashes || [];
+  const step = await matchTotp(record.secret, code.trim(), record.lastUsedStep);
+  if (step !== null) {
+    await kv.set(`totp:${staff.id}`, { ...record, lastUsedStep: step });
+    await markSessionVerified(staff.id, sessionId);
+    return { ok: true, usedRecoveryCode: false, recoveryCodesRemaining: hashes.length };
+  }
+
+  const hash = await sha256(normalizeRecoveryCode(code));
+  if (normalizeRecoveryCode(code).length === 10 && hashes.includes(hash)) {
+    const remaining = hashes.filter((item) => item !== hash);
+    await kv.set(`totp:${staff.id}`, { ...record, recoveryCodeHashes: remaining });
+    await markSessionVerified(staff.id, sessionId);
+    return { ok: true, usedRecoveryCode: true, recoveryCodesRemaining: remaining.length };
+  }
+
+  return { ok: false, usedRecoveryCode: false, recoveryCodesRemaining: hashes.length };
+}
+
+export async function regenerateRecoveryCodes(staffId: string): Promise<string[]> {
+  const record = await kv.get(`totp:${staffId}`);
+  const recoveryCodes = generateRecoveryCodes();
+  await kv.set(`totp:${staffId}`, { ...record, recoveryCodeHashes: await hashRecoveryCodes(recoveryCodes) });
+  return recoveryCodes;
+}
+
+/**
+ * Turns 2FA off and deletes the secret; used when a member disables it and when an admin resets a lost device
+ */
+export async function disableTwoFactor(staff: any): Promise<void> {
+  await kv.del(`totp:${staff.id}`);
+  await repos.staff.save({ ...staff, twoFactorEnabled: false, twoFactorEnabledAt: undefined });
+}
@@ -1,4 +1,53 @@
 import { projectId, publicAnonKey } from './supabase/info';
+import type {
+  ActivityArchive,
+  ActivityArchiveSummary,
+  ActivityChainVerification,
+  ActivityRetention,
+  AuditEntityType,
+  AuditEntry,
+  BankLedger,
+  BankTransactionImportRow,
+  BankTransactionInput,
+  CurrencySettings,
+  DashboardMetricsQuery,
+  DashboardMetricsResponse,
+  DepositCreateInput,
+  DepositEntry,
+  DepositImportRow,
+  DepositInput,
+  DepositReviewInput,
+  DepositStatus,
+  EmailTemplate,
+  EmailTemplateInput,
+  EmailTemplatePreview,
+  ExchangeRate,
+  ExchangeRateImportReport,
+  ExchangeRateImportRequest,
+  ExchangeRateQuery,
+  ExchangeRateTable,
+  ExportFormat,
+  FieldErrors,
+  ImportBatch,
+  ImportReport,
+  ImportRequest,
+  InvitationPreview,
+  InviteStaffInput,
+  LoginActivity,
+  LoginSession,
+  NewEmailTemplateInput,
+  LedgerQuery,
+  OutboxEmail,
+  OutboxEmailStatus,
+  PasswordPolicy,
+  Staff,
+  StaffInvitation,
+  StaffSession,
+  StaffUpdateInput,
+  TwoFactorEnrollment,
+  TwoFactorStatus,
+  UserPermissions,
+} from '../supabase/functions/server/contract';
 
 const API_BASE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-63060bc2`;
 
@@ -17,8 +66,25 @@ export function clearAuthToken() {
   sessionStorage.removeItem('auth_token');
 }
 
+// Error thrown for non-2xx responses. `fields` carries per-field messages when the server rejected the
+// body (code VALIDATION_FAILED), keyed like the contract schemas (e.g. `expenses.0.amount`).
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  fields?: FieldErrors;
+
+  constructor(message: string, status: number, code?: string, fields?: FieldErrors) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.fields = fields;
+  }
+}
+
 // API call helper with auth
-async function apiCall(endpoint: string, options: RequestInit = {}) {
+// Sends the request and throws an ApiError for non-2xx responses
+async function request(endpoint: string, options: RequestInit = {}) {
   const token = getAuthToken();
   
   const headers: HeadersInit = {
@@ -44,18 +110,45 @@ async function apiCall(endpoint: string, options: RequestInit = {}) {
       });
     }
     
-    throw new Error(error.error || error.message || `HTTP ${response.status}`);
+    throw new ApiError(error.error || error.message || `HTTP ${response.status}`, response.status, error.code, error.fields);
   }
 
+  return response;
+}
+
+async function apiCall(endpoint: string, options: RequestInit = {}) {
+  const response = await request(endpoint, options);
   return response.json();
 }
 
+// Saves a file response under the name from its Content-Disposition header
+async function downloadFile(endpoint: string, fallbackName: string) {
+  const response = await request(endpoint);
+  const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 // ==================== AUTH API ====================
 
-export async function signUp(email: string, password: string, name: string, role: string, permissions?: any) {
+// Only creates the first account; later staff join by invitation
+export async function signUp(email: string, password: string, name: string, role: string) {
   return apiCall('/signup', {
     method: 'POST',
-    body: JSON.stringify({ email, password, name, role, permissions }),
+    body: JSON.stringify({ email, password, name, role }),
+  });
+}
+
+// Password login goes through the server so failed attempts are counted; the caller then adopts the session
+export async function login(email: string, password: string): Promise<{ session: LoginSession }> {
+  return apiCall('/login', {
+    method: 'POST',
+    body: JSON.stringify({ email, password }),
   });
 }
 
@@ -63,20 +156,181 @@ export async function getCurrentUser() {
   return apiCall('/user');
 }
 
+// Last step of forgot password: spends the token returned by /forgot-password/verify-otp
+export async function resetPassword(resetToken: string, newPassword: string): Promise<{ success: boolean; message: string }> {
+  return apiCall('/forgot-password/reset-password', {
+    method: 'POST',
+    body: JSON.stringify({ resetToken, newPassword }),
+  });
+}
+
+// Also the way out for members who must change their password before using the panel
+export async function changePassword(currentPassword: string, newPassword: string): Promise<{ success: boolean; message: string }> {
+  return apiCall('/change-password', {
+    method: 'POST',
+    body: JSON.stringify({ currentPassword, newPassword }),
+  });
+}
+
+// Public, so signed-out forms can list the rules too
+export async function getPasswordPolicy(): Promise<{ policy: PasswordPolicy }> {
+  return apiCall('/password-policy');
+}
+
+export async function updatePasswordPolicy(policy: PasswordPolicy): Promise<{ policy: PasswordPolicy }> {
+  return apiCall('/password-policy', {
+    method: 'PUT',
+    body: JSON.stringify(policy),
+  });
+}
+
+// ==================== TWO-FACTOR API ====================
+
+export async function getTwoFactorStatus(): Promise<{ status: TwoFactorStatus }> {
+  return apiCall('/2fa/status');
+}
+
+export async function startTwoFactorEnrollment(): Promise<{ enrollment: TwoFactorEnrollment }> {
+  return apiCall('/2fa/enroll', {
+    method: 'POST',
+  });
+}
+
+// Confirms enrollment; the recovery codes are only returned this once
+export async function enableTwoFactor(code: string): Promise<{ recoveryCodes: string[] }> {
+  return apiCall('/2fa/enable', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+}
+
+// Second login step; `code` is an authenticator code or a recovery code
+export async function verifyTwoFactor(code: string): Promise<{ usedRecoveryCode: boolean; recoveryCodesRemaining: number }> {
+  return apiCall('/2fa/verify', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+}
+
+export async function disableTwoFactor(code: string) {
+  return apiCall('/2fa/disable', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+}
+
+export async function regenerateRecoveryCodes(code: string): Promise<{ recoveryCodes: string[] }> {
+  return apiCall('/2fa/recovery-codes', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+}
+
+export async function getTwoFactorRequiredRoles(): Promise<{ roles: string[] }> {
+  return apiCall('/2fa/required-roles');
+}
+
+export async function updateTwoFactorRequiredRoles(roles: string[]): Promise<{ roles: string[] }> {
+  return apiCall('/2fa/required-roles', {
+    method: 'PUT',
+    body: JSON.stringify({ roles }),
+  });
+}
+
+export async function resetStaffTwoFactor(staffId: string) {
+  return apiCall(`/staff/${staffId}/2fa/reset`, {
+    method: 'POST',
+  });
+}
+
+// ==================== HISTORY API ====================
+
+const HISTORY_PATHS: Record<AuditEntityType, string> = {
+  deposit: '/deposits',
+  bankDeposit: '/bank-deposits',
+  staff: '/staff',
+};
+
+// Field-level change history of a record, newest first
+export async function getRecordHistory(entityType: AuditEntityType, id: string): Promise<{ history: AuditEntry[] }> {
+  return apiCall(`${HISTORY_PATHS[entityType]}/${id}/history`);
+}
+
+// ==================== SESSIONS API ====================
+
+export async function getSessions(): Promise<{ sessions: StaffSession[] }> {
+  return apiCall('/sessions');
+}
+
+// `current` signs out the session making the request
+export async function revokeSession(sessionId: string | 'current') {
+  return apiCall(`/sessions/${sessionId}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function revokeOtherSessions(): Promise<{ count: number }> {
+  return apiCall('/sessions', {
+    method: 'DELETE',
+  });
+}
+
+export async function revokeStaffSessions(staffId: string): Promise<{ count: number }> {
+  return apiCall(`/staff/${staffId}/sessions/revoke`, {
+    method: 'POST',
+  });
+}
+
+export async function getStaffLoginActivity(staffId: string): Promise<LoginActivity> {
+  return apiCall(`/staff/${staffId}/login-activity`);
+}
+
+export async function unlockStaffLogin(staffId: string): Promise<{ staff: Staff }> {
+  return apiCall(`/staff/${staffId}/unlock`, {
+    method: 'POST',
+  });
+}
+
+// Filters, sort and page accepted by the /deposits and /bank-deposits list endpoints
+export interface ListQuery {
+  search?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  submittedBy?: string;
+  bankId?: string;
+  expenseType?: string;
+  status?: DepositStatus;
+  sort?: string;
+  page?: number;
+  limit?: number;
+}
+
+function toQueryString(params: Record<string, string | number | undefined>) {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value));
+    }
+  });
+  const queryString = query.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
 // ==================== DEPOSITS API ====================
 
-export async function getDeposits() {
-  return apiCall('/deposits');
+export async function getDeposits(params: ListQuery = {}) {
+  return apiCall(`/deposits${toQueryString({ ...params })}`);
 }
 
-export async function createDeposit(depositData: any) {
+// New entries go to review unless `draft` is set
+export async function createDeposit(depositData: DepositCreateInput) {
   return apiCall('/deposits', {
     method: 'POST',
     body: JSON.stringify(depositData),
   });
 }
 
-export async function updateDeposit(id: string, depositData: any) {
+export async function updateDeposit(id: string, depositData: Partial<DepositInput>) {
   return apiCall(`/deposits/${id}`, {
     method: 'PUT',
     body: JSON.stringify(depositData),
@@ -89,20 +343,38 @@ export async function deleteDeposit(id: string) {
   });
 }
 
+export async function submitDeposit(id: string): Promise<{ success: boolean; deposit: DepositEntry }> {
+  return apiCall(`/deposits/${id}/submit`, {
+    method: 'POST',
+  });
+}
+
+// Everyone's entries awaiting review; needs the deposits `approve` permission
+export async function getDepositApprovals(params: ListQuery = {}) {
+  return apiCall(`/deposits/approvals${toQueryString({ ...params })}`);
+}
+
+export async function reviewDeposit(id: string, review: DepositReviewInput): Promise<{ success: boolean; deposit: DepositEntry }> {
+  return apiCall(`/deposits/${id}/review`, {
+    method: 'POST',
+    body: JSON.stringify(review),
+  });
+}
+
 // ==================== BANK DEPOSITS API ====================
 
-export async function getBankDeposits() {
-  return apiCall('/bank-deposits');
+export async function getBankDeposits(params: ListQuery = {}) {
+  return apiCall(`/bank-deposits${toQueryString({ ...params })}`);
 }
 
-export async function createBankDeposit(bankDepositData: any) {
+export async function createBankDeposit(bankDepositData: BankTransactionInput) {
   return apiCall('/bank-deposits', {
     method: 'POST',
     body: JSON.stringify(bankDepositData),
   });
 }
 
-export async function updateBankDeposit(id: string, bankDepositData: any) {
+export async function updateBankDeposit(id: string, bankDepositData: Partial<BankTransactionInput>) {
   return apiCall(`/bank-deposits/${id}`, {
     method: 'PUT',
     body: JSON.stringify(bankDepositData),
@@ -121,35 +393,146 @@ export async function getStaff() {
   return apiCall('/staff');
 }
 
-export async function updateStaff(id: string, staffData: any) {
+export async function updateStaff(id: string, staffData: StaffUpdateInput) {
   return apiCall(`/staff/${id}`, {
     method: 'PUT',
     body: JSON.stringify(staffData),
   });
 }
 
-export async function deleteStaff(id: string) {
-  return apiCall(`/staff/${id}`, {
+// Archiving disables the member's login and signs them out; restore brings both back
+export async function archiveStaff(id: string): Promise<{ staff: Staff }> {
+  return apiCall(`/staff/${id}/archive`, {
+    method: 'POST',
+  });
+}
+
+export async function restoreStaff(id: string): Promise<{ staff: Staff }> {
+  return apiCall(`/staff/${id}/restore`, {
+    method: 'POST',
+  });
+}
+
+// Only archived members can be purged; removes the record and the login for good
+export async function purgeStaff(id: string) {
+  return apiCall(`/staff/${id}/purge`, {
+    method: 'POST',
+  });
+}
+
+// ==================== INVITATIONS API ====================
+
+export async function getInvitations(): Promise<{ invitations: StaffInvitation[] }> {
+  return apiCall('/invitations');
+}
+
+export async function inviteStaff(input: InviteStaffInput): Promise<{ invitation: StaffInvitation }> {
+  return apiCall('/invitations', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+// Emails a new link; the previous one stops working
+export async function resendInvitation(id: string): Promise<{ invitation: StaffInvitation }> {
+  return apiCall(`/invitations/${id}/resend`, {
+    method: 'POST',
+  });
+}
+
+export async function revokeInvitation(id: string) {
+  return apiCall(`/invitations/${id}`, {
     method: 'DELETE',
   });
 }
 
+// Public: the accept page is shown before the invitee has an account
+export async function lookupInvitation(token: string): Promise<{ invitation: InvitationPreview }> {
+  return apiCall('/invitations/lookup', {
+    method: 'POST',
+    body: JSON.stringify({ token }),
+  });
+}
+
+export async function acceptInvitation(token: string, password: string): Promise<{ email: string }> {
+  return apiCall('/invitations/accept', {
+    method: 'POST',
+    body: JSON.stringify({ token, password }),
+  });
+}
+
 // ==================== ACTIVITIES API ====================
 
 export async function getActivities() {
   return apiCall('/activities');
 }
 
-export async function deleteActivity(activityId: string) {
-  return apiCall(`/activities/${activityId}`, {
-    method: 'DELETE',
+// Super Admin: integrity check of the hash-chained log
+export async function verifyActivityLog(): Promise<{ success: boolean; verification: ActivityChainVerification }> {
+  return apiCall('/activities/verify');
+}
+
+export async function getActivityRetention(): Promise<{ success: boolean; retention: ActivityRetention }> {
+  return apiCall('/activities/retention');
+}
+
+export async function updateActivityRetention(days: number): Promise<{ success: boolean; retention: ActivityRetention }> {
+  return apiCall('/activities/retention', {
+    method: 'PUT',
+    body: JSON.stringify({ days }),
   });
 }
 
-export async function bulkDeleteActivities(activityIds: string[]) {
-  return apiCall('/activities/bulk-delete', {
+export async function getActivityArchives(): Promise<{ success: boolean; archives: ActivityArchiveSummary[] }> {
+  return apiCall('/activities/archives');
+}
+
+export async function getActivityArchive(id: string): Promise<{ success: boolean; archive: ActivityArchive }> {
+  return apiCall(`/activities/archives/${id}`);
+}
+
+export async function archiveActivities(): Promise<{ success: boolean; archives: ActivityArchiveSummary[]; archivedCount: number }> {
+  return apiCall('/activities/archive', {
+    method: 'POST',
+  });
+}
+
+// ==================== EXPORTS API ====================
+
+export type ExportResource = 'deposits' | 'bank-deposits' | 'staff' | 'activities';
+
+// Activity filters: `search`, `action`, `userId`; staff filters: `search`, `role`, `status`, `archived`
+export type ExportQuery = Omit<ListQuery, 'page' | 'limit'> & Record<string, string | undefined>;
+
+// Downloads every record matching the filters as CSV or XLSX
+export async function downloadExport(resource: ExportResource, format: ExportFormat, params: ExportQuery = {}) {
+  return downloadFile(`/${resource}/export${toQueryString({ ...params, format })}`, `${resource}.${format}`);
+}
+
+// ==================== IMPORTS API ====================
+
+// Validates (dryRun) or writes spreadsheet rows; `report.batch` is set once written
+export async function importDeposits(request: ImportRequest<DepositImportRow>): Promise<{ success: boolean; report: ImportReport }> {
+  return apiCall('/imports/deposits', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+}
+
+export async function importBankTransactions(request: ImportRequest<BankTransactionImportRow>): Promise<{ success: boolean; report: ImportReport }> {
+  return apiCall('/imports/bank-deposits', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+}
+
+export async function getImportBatches(): Promise<{ success: boolean; batches: Omit<ImportBatch, 'recordIds'>[] }> {
+  return apiCall('/imports');
+}
+
+export async function rollbackImport(batchId: string) {
+  return apiCall(`/imports/${batchId}/rollback`, {
     method: 'POST',
-    body: JSON.stringify({ activityIds }),
   });
 }
 
@@ -159,17 +542,25 @@ export async function getRoles() {
   return apiCall('/roles');
 }
 
-export async function addRole(roleName: string) {
+export async function addRole(roleName: string, permissions?: UserPermissions) {
   return apiCall('/roles', {
     method: 'POST',
-    body: JSON.stringify({ roleName }),
+    body: JSON.stringify({ roleName, permissions }),
   });
 }
 
-export async function updateRole(roleId: string, roleName: string) {
+// With `propagate`, everyone holding the role (except the caller) gets the new permission template
+export async function updateRole(roleId: string, roleName: string, permissions?: UserPermissions, propagate = false) {
   return apiCall(`/roles/${roleId}`, {
     method: 'PUT',
-    body: JSON.stringify({ roleName }),
+    body: JSON.stringify({ roleName, permissions, propagate }),
+  });
+}
+
+export async function previewRoleChanges(roleId: string, permissions: UserPermissions) {
+  return apiCall(`/roles/${roleId}/preview`, {
+    method: 'POST',
+    body: JSON.stringify({ permissions }),
   });
 }
 
@@ -185,30 +576,127 @@ export async function getBanks() {
   return apiCall('/banks');
 }
 
-export async function addBank(bankName: string) {
+export async function addBank(bankName: string, openingBalance?: number, currency?: string) {
   return apiCall('/banks', {
     method: 'POST',
-    body: JSON.stringify({ bankName }),
+    body: JSON.stringify({ bankName, openingBalance, currency }),
   });
 }
 
-export async function updateBank(id: string, bankName: string) {
+// The currency can only change while the bank has no transactions
+export async function updateBank(id: string, bankName: string, openingBalance?: number, currency?: string) {
   return apiCall(`/banks/${id}`, {
     method: 'PUT',
-    body: JSON.stringify({ bankName }),
+    body: JSON.stringify({ bankName, openingBalance, currency }),
   });
 }
 
+export async function getBankLedger(id: string, params: LedgerQuery = {}): Promise<BankLedger & { success: boolean }> {
+  return apiCall(`/banks/${id}/ledger${toQueryString({ ...params })}`);
+}
+
 export async function deleteBank(id: string) {
   return apiCall(`/banks/${id}`, {
     method: 'DELETE',
   });
 }
 
+// ==================== CURRENCIES API ====================
+
+export async function getCurrencySettings(): Promise<{ success: boolean; settings: CurrencySettings }> {
+  return apiCall('/currency-settings');
+}
+
+export async function updateCurrencySettings(settings: CurrencySettings): Promise<{ success: boolean; settings: CurrencySettings }> {
+  return apiCall('/currency-settings', {
+    method: 'PUT',
+    body: JSON.stringify(settings),
+  });
+}
+
+export async function getExchangeRates(params: ExchangeRateQuery = {}): Promise<{ success: boolean; tables: ExchangeRateTable[] }> {
+  return apiCall(`/exchange-rates${toQueryString({ ...params })}`);
+}
+
+// Replaces every rate of the date
+export async function saveExchangeRates(date: string, rates: ExchangeRate[]): Promise<{ success: boolean; table: ExchangeRateTable }> {
+  return apiCall(`/exchange-rates/${date}`, {
+    method: 'PUT',
+    body: JSON.stringify({ rates }),
+  });
+}
+
+export async function deleteExchangeRates(date: string) {
+  return apiCall(`/exchange-rates/${date}`, {
+    method: 'DELETE',
+  });
+}
+
+// Validates (dryRun) or writes rate rows from a spreadsheet
+export async function importExchangeRates(request: ExchangeRateImportRequest): Promise<{ success: boolean; report: ExchangeRateImportReport }> {
+  return apiCall('/exchange-rates/import', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+}
+
 // ==================== DASHBOARD API ====================
 
-export async function getDashboardMetrics() {
-  return apiCall('/dashboard-metrics');
+export async function getDashboardMetrics(params: DashboardMetricsQuery = {}): Promise<DashboardMetricsResponse> {
+  return apiCall(`/dashboard/metrics${toQueryString({ ...params })}`);
+}
+
+// ==================== EMAIL OUTBOX API ====================
+
+export async function getEmailOutbox(status?: OutboxEmailStatus): Promise<{ emails: OutboxEmail[]; counts: Record<OutboxEmailStatus, number> }> {
+  return apiCall(`/email-outbox${toQueryString({ status })}`);
+}
+
+export async function resendOutboxEmail(id: string): Promise<{ success: boolean; email: OutboxEmail }> {
+  return apiCall(`/email-outbox/${id}/resend`, {
+    method: 'POST',
+  });
+}
+
+// ==================== EMAIL TEMPLATES API ====================
+
+export async function getEmailTemplates(): Promise<{ templates: EmailTemplate[] }> {
+  return apiCall('/email-templates');
+}
+
+export async function createEmailTemplate(template: NewEmailTemplateInput): Promise<{ template: EmailTemplate }> {
+  return apiCall('/email-templates', {
+    method: 'POST',
+    body: JSON.stringify(template),
+  });
+}
+
+export async function updateEmailTemplate(id: string, template: EmailTemplateInput): Promise<{ template: EmailTemplate }> {
+  return apiCall(`/email-templates/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(template),
+  });
+}
+
+// Deletes a custom template; a built-in one is restored to its default and returned
+export async function deleteEmailTemplate(id: string): Promise<{ template: EmailTemplate | null }> {
+  return apiCall(`/email-templates/${id}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function previewEmailTemplate(template: EmailTemplateInput): Promise<{ preview: EmailTemplatePreview }> {
+  return apiCall('/email-templates/preview', {
+    method: 'POST',
+    body: JSON.stringify(template),
+  });
+}
+
+export async function sendTestEmailTemplate(template: EmailTemplateInput): Promise<{ email: OutboxEmail }> {
+  return apiCall('/email-templates/test', {
+    method: 'POST',
+    body: JSON.stringify(template),
+  });
 }
 
 // ==================== UTILITIES API ====================
@@ -1,10 +1,44 @@
+// Shown before the amount; other currencies get their code after it (e.g. "500 USDT")
+const SYMBOLS: Record<string, string> = {
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  INR: '₹',
+  JPY: '¥',
+};
+
 /**
  * Formats a number as currency with proper negative sign placement
  * @param value - The number to format
- * @returns Formatted currency string (e.g., "$500" or "-$500")
+ * @param currency - Currency code; amounts without one are dollars
+ * @returns Formatted currency string (e.g., "$500", "-$500" or "500 USDT")
  */
-export function formatCurrency(value: number): string {
-  return value < 0 
-    ? `-$${Math.abs(value).toLocaleString()}` 
-    : `$${value.toLocaleString()}`;
+export function formatCurrency(value: number, currency = 'USD'): string {
+  const amount = Math.abs(value).toLocaleString();
+  const sign = value < 0 ? '-' : '';
+  const symbol = SYMBOLS[currency];
+  return symbol ? `${sign}${symbol}${amount}` : `${sign}${amount} ${currency}`;
+}
+
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Adds amounts per currency, for totals over amounts that can't be added up directly. Currencies keep the
+ * order they first appear in; currencies that only had zero amounts are dropped unless all are zero.
+ * @returns e.g. "$1,200 + 300 USDT"
+ */
+export function formatCurrencyTotals(amounts: Money[], fallbackCurrency = 'USD'): string {
+  const totals = new Map<string, number>();
+  for (const { amount, currency } of amounts) {
+    totals.set(currency, (totals.get(currency) || 0) + (amount || 0));
+  }
+
+  const nonZero = [...totals].filter(([, total]) => total !== 0);
+  if (nonZero.length === 0) {
+    return formatCurrency(0, amounts[0]?.currency || fallbackCurrency);
+  }
+  return nonZero.map(([currency, total]) => formatCurrency(total, currency)).join(' + ');
 }
@@ -0,0 +1,58 @@
+import { format } from 'date-fns';
+
+export type DatePreset = 'all' | 'today' | 'week' | 'month';
+
+export interface DateBounds {
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+/**
+ * Formats a local date as the `YYYY-MM-DD` string entries are stored with
+ */
+export function toISODate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Bounds for the Today / This Week (last 7 days) / This Month (last month) presets
+ */
+export function presetDateBounds(preset: DatePreset): DateBounds {
+  const today = new Date();
+  switch (preset) {
+    case 'today':
+      return { dateFrom: toISODate(today), dateTo: toISODate(today) };
+    case 'week': {
+      const weekAgo = new Date(today);
+      weekAgo.setDate(today.getDate() - 7);
+      return { dateFrom: toISODate(weekAgo), dateTo: toISODate(today) };
+    }
+    case 'month': {
+      const monthAgo = new Date(today);
+      monthAgo.setMonth(today.getMonth() - 1);
+      return { dateFrom: toISODate(monthAgo), dateTo: toISODate(today) };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * Bounds for an optional from/to pair picked in a calendar
+ */
+export function rangeDateBounds(from?: Date, to?: Date): DateBounds {
+  return {
+    dateFrom: from ? toISODate(from) : undefined,
+    dateTo: to ? toISODate(to) : undefined,
+  };
+}
+
+/**
+ * Combines several date filters into the narrowest window that satisfies all of them
+ */
+export function intersectDateBounds(...bounds: DateBounds[]): DateBounds {
+  return bounds.reduce<DateBounds>((result, { dateFrom, dateTo }) => ({
+    dateFrom: dateFrom && (!result.dateFrom || dateFrom > result.dateFrom) ? dateFrom : result.dateFrom,
+    dateTo: dateTo && (!result.dateTo || dateTo < result.dateTo) ? dateTo : result.dateTo,
+  }), {});
+}